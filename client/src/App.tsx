@@ -29,6 +29,7 @@ import TeamAnalytics from "./pages/operator/TeamAnalytics";
 import CompletedToday from "./pages/operator/CompletedToday";
 import RatingsTrend from "./pages/operator/RatingsTrend";
 import ActiveOperators from "./pages/operator/ActiveOperators";
+import DriverPayroll from "./pages/operator/DriverPayroll";
 import { DriveEarn } from "./pages/DriveEarn";
 import { AdminPortal } from "./pages/admin/AdminPortal";
 import Help from "./pages/Help";
@@ -182,6 +183,16 @@ const App = () => (
                   <TeamAnalytics />
                 </ProtectedRoute>
               </Route>
+              <Route path="/analytics">
+                <ProtectedRoute requireOperator>
+                  <TeamAnalytics />
+                </ProtectedRoute>
+              </Route>
+              <Route path="/payroll">
+                <ProtectedRoute requireOperator>
+                  <DriverPayroll />
+                </ProtectedRoute>
+              </Route>
               
               <Route component={NotFound} />
             </Switch>
@@ -16,6 +16,7 @@ import { Separator } from "@/components/ui/separator";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { useI18n } from "@/i18n";
+import { PasswordResetDialog } from "@/components/PasswordResetDialog";
 import { CheckCircle2, XCircle, Loader2, Eye, EyeOff } from "lucide-react";
 import { SiGoogle } from "react-icons/si";
 import { FaYahoo } from "react-icons/fa";
@@ -59,6 +60,7 @@ export const AuthDialog = ({
   // Password visibility toggles
   const [showSigninPassword, setShowSigninPassword] = useState(false);
   const [showSignupPassword, setShowSignupPassword] = useState(false);
+  const [showPasswordReset, setShowPasswordReset] = useState(false);
   
   // Validation states
   const [emailValidation, setEmailValidation] = useState<{
@@ -235,6 +237,7 @@ export const AuthDialog = ({
   };
 
   return (
+    <>
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
@@ -317,6 +320,16 @@ export const AuthDialog = ({
                 </button>
               </div>
             </div>
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => setShowPasswordReset(true)}
+                className="text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                data-testid="link-forgot-password"
+              >
+                {t.auth.forgotPassword}
+              </button>
+            </div>
             <Button 
               className="w-full bg-black text-white hover:bg-gray-800"
               onClick={handleSignIn}
@@ -506,5 +519,11 @@ export const AuthDialog = ({
         </Tabs>
       </DialogContent>
     </Dialog>
+    <PasswordResetDialog
+      open={showPasswordReset}
+      onOpenChange={setShowPasswordReset}
+      defaultEmail={signinEmail}
+    />
+    </>
   );
 };
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { AlertTriangle, FileText, Loader2, Scale } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { DISPUTE_CATEGORIES, type Dispute, type DisputeCategory, type DisputeEvidence } from "@shared/schema";
+
+type DisputeEvidenceItem = Omit<DisputeEvidence, "storageKey"> & { fileUrl: string | null };
+
+interface DisputeResponse {
+  dispute: (Dispute & { evidence: DisputeEvidenceItem[] }) | null;
+  reason: string | null;
+  windowHours: number;
+}
+
+const CATEGORY_LABELS: Record<DisputeCategory, string> = {
+  service_not_completed: "Service not completed",
+  poor_quality: "Poor quality work",
+  damage: "Property or vehicle damage",
+  overcharged: "Overcharged",
+  no_show: "No-show",
+  payment_issue: "Payment issue",
+  other: "Other",
+};
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  full_refund: "Full refund",
+  partial_refund: "Partial refund",
+  release_to_operator: "Released to operator",
+};
+
+// Uploads go through fetch directly because apiRequest always sends JSON
+async function postDisputeForm(url: string, form: FormData) {
+  const response = await fetch(url, { method: "POST", body: form, credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || "Request failed");
+  }
+  return data;
+}
+
+interface DisputePanelProps {
+  requestId: string;
+}
+
+export const DisputePanel = ({ requestId }: DisputePanelProps) => {
+  const { toast } = useToast();
+  const queryKey = [`/api/service-requests/${requestId}/dispute`];
+  const [showOpenDialog, setShowOpenDialog] = useState(false);
+  const [category, setCategory] = useState<DisputeCategory | "">("");
+  const [description, setDescription] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [note, setNote] = useState("");
+  const [evidenceFile, setEvidenceFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data } = useQuery<DisputeResponse>({ queryKey, enabled: !!requestId });
+  const dispute = data?.dispute;
+
+  const openDispute = async () => {
+    if (!category || !description.trim()) return;
+    const form = new FormData();
+    form.append("category", category);
+    form.append("description", description.trim());
+    files.forEach(file => form.append("evidence", file));
+
+    setIsSubmitting(true);
+    try {
+      await postDisputeForm(`/api/service-requests/${requestId}/dispute`, form);
+      toast({ title: "Dispute Opened", description: "Our team will review it within 24 hours" });
+      setShowOpenDialog(false);
+      setCategory("");
+      setDescription("");
+      setFiles([]);
+      // The request itself is now disputed, wherever it is cached
+      queryClient.invalidateQueries({ predicate: (query) => query.queryKey.includes(requestId) || query.queryKey[0] === queryKey[0] });
+    } catch (error) {
+      toast({ title: "Couldn't Open Dispute", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const addEvidence = async () => {
+    if (!dispute || (!note.trim() && !evidenceFile)) return;
+    const form = new FormData();
+    if (note.trim()) form.append("note", note.trim());
+    if (evidenceFile) form.append("file", evidenceFile);
+
+    setIsSubmitting(true);
+    try {
+      await postDisputeForm(`/api/disputes/${dispute.disputeId}/evidence`, form);
+      toast({ title: "Evidence Added" });
+      setNote("");
+      setEvidenceFile(null);
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      toast({ title: "Couldn't Add Evidence", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!data) return null;
+
+  if (!dispute) {
+    if (data.reason) return null;
+    return (
+      <>
+        <Card className="p-4 md:p-6 bg-white dark:bg-gray-800" data-testid="card-dispute-open">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-orange-500 mt-0.5" />
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white">Problem with this job?</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  You can open a dispute within {data.windowHours} hours of completion. Payment is held while we review it.
+                </p>
+              </div>
+            </div>
+            <Button variant="outline" onClick={() => setShowOpenDialog(true)} data-testid="button-open-dispute">
+              Open Dispute
+            </Button>
+          </div>
+        </Card>
+
+        <Dialog open={showOpenDialog} onOpenChange={setShowOpenDialog}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Open a Dispute</DialogTitle>
+              <DialogDescription>
+                Tell us what went wrong. Photos, receipts or other documents help us resolve it faster.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-2">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={category} onValueChange={(value) => setCategory(value as DisputeCategory)}>
+                  <SelectTrigger data-testid="select-dispute-category">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DISPUTE_CATEGORIES.map(value => (
+                      <SelectItem key={value} value={value}>{CATEGORY_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dispute-description">What happened?</Label>
+                <Textarea
+                  id="dispute-description"
+                  rows={4}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  data-testid="input-dispute-description"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dispute-evidence">Evidence (up to 5 files)</Label>
+                <Input
+                  id="dispute-evidence"
+                  type="file"
+                  multiple
+                  accept="application/pdf,image/jpeg,image/png,image/webp"
+                  onChange={(e) => setFiles(Array.from(e.target.files || []).slice(0, 5))}
+                  data-testid="input-dispute-evidence"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowOpenDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={openDispute}
+                disabled={!category || !description.trim() || isSubmitting}
+                data-testid="button-submit-dispute"
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit Dispute
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </>
+    );
+  }
+
+  const isOpen = dispute.status === "open";
+  return (
+    <Card className="p-4 md:p-6 bg-white dark:bg-gray-800 space-y-4" data-testid="card-dispute">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <Scale className="w-5 h-5 text-orange-500 mt-0.5" />
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-white">
+              Dispute: {CATEGORY_LABELS[dispute.category as DisputeCategory] || dispute.category}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Opened by the {dispute.openedByRole} {formatDistanceToNow(new Date(dispute.createdAt), { addSuffix: true })}
+            </p>
+          </div>
+        </div>
+        <Badge variant={isOpen ? "destructive" : "secondary"}>
+          {isOpen ? "Under Review" : RESOLUTION_LABELS[dispute.resolution || ""] || "Resolved"}
+        </Badge>
+      </div>
+
+      <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{dispute.description}</p>
+
+      {!isOpen && (
+        <div className="text-sm bg-gray-50 dark:bg-gray-700 rounded-lg p-3 space-y-1">
+          {dispute.refundedCents > 0 && (
+            <p className="text-gray-900 dark:text-white">Refunded to customer: ${(dispute.refundedCents / 100).toFixed(2)}</p>
+          )}
+          {dispute.resolutionNote && (
+            <p className="text-gray-600 dark:text-gray-300">{dispute.resolutionNote}</p>
+          )}
+        </div>
+      )}
+
+      {dispute.evidence.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Evidence</h4>
+          {dispute.evidence.map(item => (
+            <div key={item.id} className="text-sm border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+              <div className="text-xs text-gray-500 capitalize">
+                {item.submittedByRole} · {formatDistanceToNow(new Date(item.createdAt), { addSuffix: true })}
+              </div>
+              {item.note && <p className="text-gray-700 dark:text-gray-300">{item.note}</p>}
+              {item.fileUrl && (
+                <a
+                  href={item.fileUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-orange-600 hover:underline"
+                >
+                  <FileText className="w-3 h-3" />
+                  {item.fileName || "View file"}
+                </a>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+          <Label htmlFor="dispute-note">Add evidence</Label>
+          <Textarea
+            id="dispute-note"
+            rows={2}
+            placeholder="Add a statement for the reviewer"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            data-testid="input-dispute-note"
+          />
+          <Input
+            type="file"
+            accept="application/pdf,image/jpeg,image/png,image/webp"
+            onChange={(e) => setEvidenceFile(e.target.files?.[0] || null)}
+            data-testid="input-dispute-file"
+          />
+          <Button
+            variant="outline"
+            onClick={addEvidence}
+            disabled={(!note.trim() && !evidenceFile) || isSubmitting}
+            data-testid="button-add-dispute-evidence"
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add Evidence
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
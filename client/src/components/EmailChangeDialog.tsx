@@ -0,0 +1,149 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+interface EmailChangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const EmailChangeDialog = ({ open, onOpenChange }: EmailChangeDialogProps) => {
+  const { refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<"request" | "confirm">("request");
+  const [newEmail, setNewEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setStep("request");
+      setNewEmail("");
+      setCode("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const postEmailChange = async (path: string, body: Record<string, string>) => {
+    const response = await fetch(`/api/auth/email-change/${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(body),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to change email");
+    }
+    return data;
+  };
+
+  const requestCode = async () => {
+    setIsSubmitting(true);
+    try {
+      const data = await postEmailChange("request", { newEmail: newEmail.trim() });
+      toast({ title: "Code Sent", description: data.message });
+      setStep("confirm");
+    } catch (error) {
+      toast({ title: "Email Change Failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmChange = async () => {
+    setIsSubmitting(true);
+    try {
+      await postEmailChange("confirm", { newEmail: newEmail.trim(), code });
+      await refetchUser();
+      toast({ title: "Email Updated", description: `Your email is now ${newEmail.trim()}` });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({ title: "Email Change Failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change Email</DialogTitle>
+          <DialogDescription>
+            {step === "request"
+              ? "We'll send a confirmation code to your new email address."
+              : `Enter the code sent to ${newEmail.trim()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "request" ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-email">New Email</Label>
+              <Input
+                id="new-email"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="you@example.com"
+                data-testid="input-new-email"
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={requestCode}
+              disabled={!newEmail.trim() || isSubmitting}
+              data-testid="button-email-change-request"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Code
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-change-code">Code</Label>
+              <Input
+                id="email-change-code"
+                inputMode="numeric"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                data-testid="input-email-change-code"
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={confirmChange}
+              disabled={code.length !== 6 || isSubmitting}
+              data-testid="button-email-change-confirm"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+            <button
+              type="button"
+              onClick={() => setStep("request")}
+              className="w-full text-sm text-gray-600 dark:text-gray-400 hover:underline"
+              data-testid="button-email-change-back"
+            >
+              Use a different email
+            </button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail } from "lucide-react";
+
+export const EmailVerificationCard = () => {
+  const { user, refetchUser } = useAuth();
+  const { toast } = useToast();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  if (!user || user.emailVerified) return null;
+
+  const sendCode = async () => {
+    setIsSending(true);
+    try {
+      const response = await fetch("/api/auth/email-verification/send", {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send code");
+      }
+      setCodeSent(true);
+      toast({ title: "Code Sent", description: `We sent a 6-digit code to ${user.email}` });
+    } catch (error) {
+      toast({ title: "Couldn't Send Code", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const verifyCode = async () => {
+    setIsVerifying(true);
+    try {
+      const response = await fetch("/api/auth/email-verification/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to verify code");
+      }
+      toast({ title: "Email Verified", description: "You can now submit your application" });
+      await refetchUser();
+    } catch (error) {
+      toast({ title: "Verification Failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card className="border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950/30" data-testid="card-email-verification">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <Mail className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+          <div>
+            <p className="font-semibold text-black dark:text-white">Verify your email</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Confirm {user.email} before submitting a tier for approval.
+            </p>
+          </div>
+        </div>
+        {codeSent ? (
+          <div className="flex gap-2">
+            <Input
+              inputMode="numeric"
+              maxLength={6}
+              placeholder="6-digit code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              data-testid="input-email-verification-code"
+            />
+            <Button
+              onClick={verifyCode}
+              disabled={code.length !== 6 || isVerifying}
+              data-testid="button-verify-email"
+            >
+              {isVerifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Verify
+            </Button>
+            <Button
+              variant="outline"
+              onClick={sendCode}
+              disabled={isSending}
+              data-testid="button-resend-email-code"
+            >
+              Resend
+            </Button>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={sendCode}
+            disabled={isSending}
+            data-testid="button-send-email-code"
+          >
+            {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Verification Code
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
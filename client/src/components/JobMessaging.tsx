@@ -7,6 +7,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { MessageSquare, Send, X, Loader2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent, useRealtimeConnected } from "@/hooks/useRealtime";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 
@@ -68,10 +69,19 @@ function MessagingContent({
 }: Omit<JobMessagingProps, "variant">) {
   const [newMessage, setNewMessage] = useState("");
   const scrollRef = useRef<HTMLDivElement>(null);
+  const realtimeConnected = useRealtimeConnected();
 
   const { data: messages = [], isLoading } = useQuery<Message[]>({
     queryKey: ["/api/jobs", jobId, "messages"],
-    refetchInterval: 3000,
+    refetchInterval: realtimeConnected ? false : 3000, // Poll only while the realtime stream is down
+  });
+
+  // Append messages pushed for this job
+  useRealtimeEvent<Message>("job_message", (message) => {
+    if (message.jobId !== jobId) return;
+    queryClient.setQueryData<Message[]>(["/api/jobs", jobId, "messages"], (existing = []) =>
+      existing.some(m => m.messageId === message.messageId) ? existing : [...existing, message]
+    );
   });
 
   const sendMessageMutation = useMutation({
@@ -238,9 +248,16 @@ export function UnreadMessageBadge({
   userId: string; 
   userType: "customer" | "operator";
 }) {
+  const realtimeConnected = useRealtimeConnected();
   const { data } = useQuery<{ count: number }>({
     queryKey: ["/api/messages/unread-count", userId, userType],
-    refetchInterval: 10000,
+    refetchInterval: realtimeConnected ? false : 10000,
+  });
+
+  useRealtimeEvent<Message>("job_message", (message) => {
+    if (message.senderId !== userId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-count", userId, userType] });
+    }
   });
 
   if (!data?.count || data.count === 0) return null;
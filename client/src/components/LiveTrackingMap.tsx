@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { MapPin, Navigation, Clock, Loader2, TruckIcon } from "lucide-react";
 import mapboxgl from "mapbox-gl";
+import { queryClient } from "@/lib/queryClient";
+import { useRealtimeEvent, useRealtimeConnected } from "@/hooks/useRealtime";
 import "mapbox-gl/dist/mapbox-gl.css";
 
 interface LiveTrackingData {
@@ -38,10 +40,18 @@ export function LiveTrackingMap({ jobId, operatorName }: LiveTrackingMapProps) {
   const operatorMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const customerMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
+  const realtimeConnected = useRealtimeConnected();
 
   const { data: trackingData, isLoading, error } = useQuery<LiveTrackingData>({
     queryKey: ["/api/jobs", jobId, "live-tracking"],
-    refetchInterval: 5000,
+    refetchInterval: realtimeConnected ? false : 5000, // Poll only while the realtime stream is down
+  });
+
+  // Operator moved - refetch so the server recomputes distance and ETA
+  useRealtimeEvent<{ jobId: string }>("operator_location", (update) => {
+    if (update.jobId === jobId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs", jobId, "live-tracking"] });
+    }
   });
 
   useEffect(() => {
@@ -0,0 +1,169 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/enhanced-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n";
+import { Loader2 } from "lucide-react";
+
+interface PasswordResetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultEmail?: string;
+}
+
+async function postAuth(path: string, body: Record<string, string>) {
+  const response = await fetch(`/api/auth/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Something went wrong");
+  }
+  return data;
+}
+
+export const PasswordResetDialog = ({ open, onOpenChange, defaultEmail = "" }: PasswordResetDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [step, setStep] = useState<"request" | "confirm">("request");
+  const [email, setEmail] = useState(defaultEmail);
+  const [code, setCode] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) setEmail(defaultEmail);
+  }, [open, defaultEmail]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setStep("request");
+      setCode("");
+      setNewPassword("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const requestCode = async () => {
+    if (!email) return;
+    setIsSubmitting(true);
+    try {
+      const data = await postAuth("password-reset/request", { email });
+      toast({ title: "Check your email", description: data.message });
+      setStep("confirm");
+    } catch (error) {
+      toast({ title: t.auth.resetPassword, description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmReset = async () => {
+    if (newPassword.length < 8) {
+      toast({ title: t.auth.resetPassword, description: t.auth.passwordMinLength, variant: "destructive" });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const data = await postAuth("password-reset/confirm", { email, code, newPassword });
+      toast({ title: t.auth.resetPassword, description: data.message });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({ title: t.auth.resetPassword, description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t.auth.resetPassword}</DialogTitle>
+          <DialogDescription>
+            {step === "request"
+              ? "Enter your account email and we'll send you a 6-digit code."
+              : `Enter the code sent to ${email} and choose a new password.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "request" ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-email">{t.auth.email}</Label>
+              <Input
+                id="reset-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                data-testid="input-reset-email"
+              />
+            </div>
+            <Button
+              className="w-full bg-black text-white hover:bg-gray-800"
+              onClick={requestCode}
+              disabled={!email || isSubmitting}
+              data-testid="button-reset-request"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Code
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-code">Code</Label>
+              <Input
+                id="reset-code"
+                inputMode="numeric"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                data-testid="input-reset-code"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reset-new-password">{t.auth.newPassword}</Label>
+              <Input
+                id="reset-new-password"
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                data-testid="input-reset-new-password"
+              />
+            </div>
+            <Button
+              className="w-full bg-black text-white hover:bg-gray-800"
+              onClick={confirmReset}
+              disabled={code.length !== 6 || !newPassword || isSubmitting}
+              data-testid="button-reset-confirm"
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t.auth.resetPassword}
+            </Button>
+            <button
+              type="button"
+              onClick={requestCode}
+              disabled={isSubmitting}
+              className="w-full text-sm text-gray-600 dark:text-gray-400 hover:underline"
+              data-testid="button-reset-resend"
+            >
+              Send a new code
+            </button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle, FileText, Scale } from "lucide-react";
+import type { Dispute, DisputeEvidence, DisputeResolution } from "@shared/schema";
+
+interface DisputeQueueItem {
+  dispute: Dispute;
+  serviceType: string | null;
+  customerName: string | null;
+  operatorName: string | null;
+}
+
+type DisputeDetails = Dispute & {
+  evidence: Array<Omit<DisputeEvidence, "storageKey"> & { fileUrl: string | null }>;
+  refundableCents: number;
+};
+
+const DISPUTE_QUEUE_KEY = "/api/admin/disputes";
+
+const RESOLUTION_OPTIONS: { value: DisputeResolution; label: string }[] = [
+  { value: "full_refund", label: "Full Refund" },
+  { value: "partial_refund", label: "Partial Refund" },
+  { value: "release_to_operator", label: "Release to Operator" },
+];
+
+const formatLabel = (value: string) =>
+  value.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export const DisputeQueue = () => {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [resolution, setResolution] = useState<DisputeResolution>("release_to_operator");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [resolutionNote, setResolutionNote] = useState("");
+
+  const { data: queue = [], isLoading } = useQuery<DisputeQueueItem[]>({
+    queryKey: [DISPUTE_QUEUE_KEY],
+  });
+
+  const { data: details } = useQuery<DisputeDetails>({
+    queryKey: [`${DISPUTE_QUEUE_KEY}/${selectedId}`],
+    enabled: !!selectedId,
+  });
+
+  const closeDialog = () => {
+    setSelectedId(null);
+    setResolution("release_to_operator");
+    setRefundAmount("");
+    setResolutionNote("");
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`${DISPUTE_QUEUE_KEY}/${selectedId}/resolve`, {
+        method: "POST",
+        body: JSON.stringify({
+          resolution,
+          refundAmount: resolution === "partial_refund" ? refundAmount : undefined,
+          resolutionNote,
+        }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Dispute Resolved", description: "Both parties have been notified" });
+      queryClient.invalidateQueries({ queryKey: [DISPUTE_QUEUE_KEY] });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Resolution Failed",
+        description: error.message || "Failed to resolve dispute",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const partialAmountInvalid = resolution === "partial_refund" && !(parseFloat(refundAmount) > 0);
+
+  return (
+    <div className="space-y-4" data-testid="dispute-queue">
+      <div>
+        <h2 className="text-xl font-semibold text-black dark:text-white">Disputes</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Completed jobs contested by the customer or operator. Earnings stay on hold until the dispute is resolved.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading disputes...</p>
+      ) : queue.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-2" />
+            <p className="text-gray-600 dark:text-gray-400">No open disputes</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {queue.map(({ dispute, serviceType, customerName, operatorName }) => (
+            <Card key={dispute.disputeId} data-testid={`dispute-${dispute.disputeId}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-base text-black dark:text-white flex items-center gap-2">
+                      <Scale className="w-4 h-4" />
+                      {formatLabel(dispute.category)}
+                    </CardTitle>
+                    <CardDescription>
+                      {customerName || dispute.customerId} vs {operatorName || dispute.operatorId}
+                    </CardDescription>
+                  </div>
+                  {serviceType && <Badge variant="outline">{serviceType}</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3">{dispute.description}</p>
+                <div className="text-xs text-gray-500">
+                  Opened by the {dispute.openedByRole} on {new Date(dispute.createdAt).toLocaleString()}
+                </div>
+                <Button
+                  onClick={() => setSelectedId(dispute.disputeId)}
+                  className="w-full"
+                  data-testid={`button-review-dispute-${dispute.disputeId}`}
+                >
+                  Review
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Resolve Dispute</DialogTitle>
+            <DialogDescription>
+              {details
+                ? `Request ${details.serviceRequestId} · $${(details.refundableCents / 100).toFixed(2)} refundable`
+                : "Loading dispute..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {details && (
+            <div className="space-y-4 py-2">
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{details.description}</p>
+
+              {details.evidence.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Evidence</Label>
+                  {details.evidence.map(item => (
+                    <div key={item.id} className="text-sm border border-gray-200 dark:border-gray-700 rounded-lg p-2">
+                      <div className="text-xs text-gray-500 capitalize">{item.submittedByRole}</div>
+                      {item.note && <p>{item.note}</p>}
+                      {item.fileUrl && (
+                        <a
+                          href={item.fileUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-orange-600 hover:underline"
+                        >
+                          <FileText className="w-3 h-3" />
+                          {item.fileName || "View file"}
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Outcome</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {RESOLUTION_OPTIONS.map(option => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      variant={resolution === option.value ? "default" : "outline"}
+                      onClick={() => setResolution(option.value)}
+                      className="text-xs"
+                      data-testid={`button-resolution-${option.value}`}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {resolution === "partial_refund" && (
+                <div className="space-y-2">
+                  <Label htmlFor="dispute-refund-amount">Refund Amount ($)</Label>
+                  <Input
+                    id="dispute-refund-amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={refundAmount}
+                    onChange={(e) => setRefundAmount(e.target.value)}
+                    data-testid="input-dispute-refund-amount"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="dispute-resolution-note">Resolution Note</Label>
+                <Textarea
+                  id="dispute-resolution-note"
+                  placeholder="Shared with the customer and operator"
+                  value={resolutionNote}
+                  onChange={(e) => setResolutionNote(e.target.value)}
+                  rows={3}
+                  data-testid="input-dispute-resolution-note"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => resolveMutation.mutate()}
+              disabled={!details || partialAmountInvalid || resolveMutation.isPending}
+              data-testid="button-confirm-dispute-resolution"
+            >
+              Resolve Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CheckCircle, XCircle, FileText, ExternalLink } from "lucide-react";
+import type { OperatorDocumentSubmission } from "@shared/schema";
+
+interface ReviewQueueItem {
+  submission: OperatorDocumentSubmission;
+  operatorName: string | null;
+  operatorEmail: string | null;
+}
+
+const REVIEW_QUEUE_KEY = "/api/admin/documents/review-queue";
+
+const formatLabel = (value: string) =>
+  value.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export const DocumentReviewQueue = () => {
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState<OperatorDocumentSubmission | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+
+  const { data: queue = [], isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: [REVIEW_QUEUE_KEY],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, reviewNote }: { id: number; decision: "approved" | "rejected"; reviewNote?: string }) => {
+      return await apiRequest(`/api/admin/documents/${id}/review`, {
+        method: "POST",
+        body: JSON.stringify({ decision, reviewNote }),
+      });
+    },
+    onSuccess: (data, variables) => {
+      toast({
+        title: variables.decision === "approved" ? "Document Approved" : "Document Rejected",
+        description: "The operator has been notified",
+      });
+      queryClient.invalidateQueries({ queryKey: [REVIEW_QUEUE_KEY] });
+      setRejecting(null);
+      setReviewNote("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Failed to review document",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitRejection = () => {
+    if (!rejecting || !reviewNote.trim()) return;
+    reviewMutation.mutate({ id: rejecting.id, decision: "rejected", reviewNote: reviewNote.trim() });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="document-review-queue">
+      <div>
+        <h2 className="text-xl font-semibold text-black dark:text-white">Document Review</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Certifications and licenses submitted for services. Services stay locked until their documents are approved.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading documents...</p>
+      ) : queue.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-2" />
+            <p className="text-gray-600 dark:text-gray-400">No documents waiting for review</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {queue.map(({ submission, operatorName, operatorEmail }) => (
+            <Card key={submission.id} data-testid={`document-review-${submission.id}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-base text-black dark:text-white flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      {formatLabel(submission.documentType)}
+                    </CardTitle>
+                    <CardDescription>
+                      {operatorName || submission.operatorId}
+                      {operatorEmail && ` · ${operatorEmail}`}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline">{formatLabel(submission.serviceType)}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="text-xs text-gray-500 space-y-1">
+                  <div>Submitted: {new Date(submission.submittedAt).toLocaleDateString()}</div>
+                  {submission.expiresAt && (
+                    <div>Expires: {new Date(submission.expiresAt).toLocaleDateString()}</div>
+                  )}
+                </div>
+                {submission.documentUrl && (
+                  <a
+                    href={submission.documentUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-orange-600 hover:underline"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                    {submission.fileName || "View document"}
+                  </a>
+                )}
+                <div className="flex gap-3">
+                  <Button
+                    onClick={() => reviewMutation.mutate({ id: submission.id, decision: "approved" })}
+                    className="flex-1 bg-green-600 hover:bg-green-700 text-white"
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-approve-document-${submission.id}`}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Approve
+                  </Button>
+                  <Button
+                    onClick={() => setRejecting(submission)}
+                    variant="destructive"
+                    className="flex-1"
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-reject-document-${submission.id}`}
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => {
+        if (!open) {
+          setRejecting(null);
+          setReviewNote("");
+        }
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Document</DialogTitle>
+            <DialogDescription>
+              Explain what needs to change. The note is sent to the operator with the rejection.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <Label htmlFor="document-review-note">Review Note</Label>
+            <Textarea
+              id="document-review-note"
+              placeholder="e.g., Certificate is expired, image is unreadable..."
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              className="mt-2"
+              rows={4}
+              data-testid="input-document-review-note"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={submitRejection}
+              disabled={!reviewNote.trim() || reviewMutation.isPending}
+              data-testid="button-confirm-document-reject"
+            >
+              Confirm Rejection
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
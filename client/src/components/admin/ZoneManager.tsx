@@ -0,0 +1,425 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Hexagon, Pencil, Trash2, Upload, Undo2, X } from "lucide-react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+import { OPERATOR_TIER_INFO, type OperatorTier, type ServiceZoneRecord } from "@shared/schema";
+import { ZONE_TIERS, DEMAND_COLORS, type DemandLevel } from "@shared/zones";
+
+const ZONES_KEY = "/api/admin/zones";
+
+// Calgary, AB until the admin pans elsewhere
+const DEFAULT_CENTER: [number, number] = [-114.0719, 51.0447];
+
+interface ZoneImportResult {
+  created: ServiceZoneRecord[];
+  errors: Array<{ index: number; message: string }>;
+}
+
+async function postZoneImport(file: File): Promise<ZoneImportResult> {
+  const form = new FormData();
+  form.append("file", file);
+  const response = await fetch(`${ZONES_KEY}/import`, { method: "POST", body: form, credentials: "include" });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || "Import failed");
+  }
+  return data;
+}
+
+export const ZoneManager = () => {
+  const { toast } = useToast();
+  const mapboxToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+
+  // Vertices of the zone being drawn, as [lng, lat]
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [draftPoints, setDraftPoints] = useState<[number, number][]>([]);
+  const [draftName, setDraftName] = useState("");
+  const [draftTiers, setDraftTiers] = useState<OperatorTier[]>(ZONE_TIERS);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { data: zones = [], isLoading } = useQuery<ServiceZoneRecord[]>({
+    queryKey: [ZONES_KEY],
+  });
+
+  const resetDraft = () => {
+    setIsDrawing(false);
+    setDraftPoints([]);
+    setDraftName("");
+    setDraftTiers(ZONE_TIERS);
+  };
+
+  const onZonesChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [ZONES_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/zones"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Zone Not Saved",
+      description: error.message || "Please try again",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(ZONES_KEY, {
+        method: "POST",
+        body: JSON.stringify({
+          name: draftName.trim(),
+          allowedTiers: draftTiers,
+          geometry: { type: "Polygon", coordinates: [[...draftPoints, draftPoints[0]]] },
+        }),
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Zone Saved", description: `${draftName.trim()} is now on the map` });
+      resetDraft();
+      onZonesChanged();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ zoneId, updates }: { zoneId: string; updates: { isActive?: boolean; allowedTiers?: OperatorTier[] } }) => {
+      return await apiRequest(`${ZONES_KEY}/${zoneId}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: onZonesChanged,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (zoneId: string) => {
+      return await apiRequest(`${ZONES_KEY}/${zoneId}`, { method: "DELETE" });
+    },
+    onSuccess: onZonesChanged,
+    onError,
+  });
+
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const result = await postZoneImport(file);
+      toast({
+        title: "Zones Imported",
+        description: result.errors.length > 0
+          ? `${result.created.length} imported, ${result.errors.length} skipped (${result.errors[0].message})`
+          : `${result.created.length} imported`,
+      });
+      onZonesChanged();
+    } catch (error) {
+      toast({ title: "Import Failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  // Initialize map once
+  useEffect(() => {
+    if (!mapContainer.current || !mapboxToken || map.current) return;
+
+    map.current = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: "mapbox://styles/mapbox/streets-v12",
+      center: DEFAULT_CENTER,
+      zoom: 10,
+      accessToken: mapboxToken,
+    });
+    map.current.addControl(new mapboxgl.NavigationControl(), "top-right");
+
+    map.current.on("load", () => {
+      if (!map.current) return;
+
+      map.current.addSource("admin-zones", { type: "geojson", data: { type: "FeatureCollection", features: [] } });
+      map.current.addLayer({
+        id: "admin-zones-fill",
+        type: "fill",
+        source: "admin-zones",
+        paint: { "fill-color": ["get", "color"], "fill-opacity": ["case", ["get", "isActive"], 0.2, 0.05] },
+      });
+      map.current.addLayer({
+        id: "admin-zones-outline",
+        type: "line",
+        source: "admin-zones",
+        paint: { "line-color": ["get", "borderColor"], "line-width": 2 },
+      });
+
+      map.current.addSource("zone-draft", { type: "geojson", data: { type: "FeatureCollection", features: [] } });
+      map.current.addLayer({
+        id: "zone-draft-line",
+        type: "line",
+        source: "zone-draft",
+        paint: { "line-color": "#f97316", "line-width": 2, "line-dasharray": [2, 1] },
+      });
+      map.current.addLayer({
+        id: "zone-draft-points",
+        type: "circle",
+        source: "zone-draft",
+        filter: ["==", "$type", "Point"],
+        paint: { "circle-radius": 5, "circle-color": "#f97316", "circle-stroke-color": "#ffffff", "circle-stroke-width": 2 },
+      });
+
+      setMapLoaded(true);
+    });
+
+    return () => {
+      map.current?.remove();
+      map.current = null;
+      setMapLoaded(false);
+    };
+  }, [mapboxToken]);
+
+  // Each click adds a vertex while drawing
+  useEffect(() => {
+    if (!map.current || !mapLoaded || !isDrawing) return;
+
+    const addPoint = (e: mapboxgl.MapMouseEvent) => {
+      setDraftPoints(points => [...points, [e.lngLat.lng, e.lngLat.lat]]);
+    };
+    const canvas = map.current.getCanvas();
+    canvas.style.cursor = "crosshair";
+    map.current.on("click", addPoint);
+    return () => {
+      canvas.style.cursor = "";
+      map.current?.off("click", addPoint);
+    };
+  }, [isDrawing, mapLoaded]);
+
+  // Show the stored zones
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource("admin-zones") as mapboxgl.GeoJSONSource;
+    if (!source) return;
+
+    source.setData({
+      type: "FeatureCollection",
+      features: zones.map(zone => ({
+        type: "Feature" as const,
+        properties: {
+          color: DEMAND_COLORS[zone.demandLevel as DemandLevel]?.fill || DEMAND_COLORS.low.fill,
+          borderColor: DEMAND_COLORS[zone.demandLevel as DemandLevel]?.border || DEMAND_COLORS.low.border,
+          isActive: zone.isActive === 1,
+        },
+        geometry: zone.geometry as GeoJSON.Polygon | GeoJSON.MultiPolygon,
+      })),
+    });
+  }, [zones, mapLoaded]);
+
+  // Show the zone being drawn, closed back to its first point
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource("zone-draft") as mapboxgl.GeoJSONSource;
+    if (!source) return;
+
+    const features: GeoJSON.Feature[] = draftPoints.map(point => ({
+      type: "Feature",
+      properties: {},
+      geometry: { type: "Point", coordinates: point },
+    }));
+    if (draftPoints.length > 1) {
+      features.push({
+        type: "Feature",
+        properties: {},
+        geometry: { type: "LineString", coordinates: draftPoints.length > 2 ? [...draftPoints, draftPoints[0]] : draftPoints },
+      });
+    }
+    source.setData({ type: "FeatureCollection", features });
+  }, [draftPoints, mapLoaded]);
+
+  const toggleDraftTier = (tier: OperatorTier, checked: boolean) => {
+    setDraftTiers(tiers => checked ? [...tiers, tier] : tiers.filter(t => t !== tier));
+  };
+
+  const toggleZoneTier = (zone: ServiceZoneRecord, tier: OperatorTier, checked: boolean) => {
+    const tiers = zone.allowedTiers as OperatorTier[];
+    const allowedTiers = checked ? [...tiers, tier] : tiers.filter(t => t !== tier);
+    if (allowedTiers.length === 0) {
+      toast({ title: "At Least One Tier", description: "Deactivate the zone instead of closing it to every tier", variant: "destructive" });
+      return;
+    }
+    updateMutation.mutate({ zoneId: zone.zoneId, updates: { allowedTiers } });
+  };
+
+  const canSaveDraft = draftPoints.length >= 3 && !!draftName.trim() && draftTiers.length > 0;
+
+  return (
+    <div className="space-y-4" data-testid="zone-manager">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-black dark:text-white">Service Zones</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Jobs inside a zone are only offered to the tiers it allows. Operator and request counts refresh every 2 minutes.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,.geojson,application/geo+json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={isImporting}
+            data-testid="button-import-zones"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {isImporting ? "Importing..." : "Import GeoJSON"}
+          </Button>
+          {mapboxToken && !isDrawing && (
+            <Button onClick={() => setIsDrawing(true)} data-testid="button-draw-zone">
+              <Pencil className="w-4 h-4 mr-2" />
+              Draw Zone
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {mapboxToken && (
+        <Card>
+          <CardContent className="p-0 overflow-hidden rounded-lg">
+            <div ref={mapContainer} className="w-full h-80" data-testid="zone-map" />
+          </CardContent>
+        </Card>
+      )}
+
+      {isDrawing && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Click the map to place the zone's corners ({draftPoints.length} placed, 3 or more needed).
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">Zone Name</Label>
+              <Input
+                id="zone-name"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder="e.g., Downtown Core"
+                data-testid="input-zone-name"
+              />
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {ZONE_TIERS.map(tier => (
+                <label key={tier} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draftTiers.includes(tier)}
+                    onCheckedChange={(checked) => toggleDraftTier(tier, checked === true)}
+                  />
+                  {OPERATOR_TIER_INFO[tier].label}
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setDraftPoints(points => points.slice(0, -1))}
+                disabled={draftPoints.length === 0}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo Point
+              </Button>
+              <Button variant="outline" onClick={resetDraft}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!canSaveDraft || createMutation.isPending}
+                data-testid="button-save-zone"
+              >
+                Save Zone
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading zones...</p>
+      ) : zones.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Hexagon className="w-10 h-10 text-gray-400 mx-auto mb-2" />
+            <p className="text-gray-600 dark:text-gray-400">No zones yet. Every tier can take jobs anywhere.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {zones.map(zone => (
+            <Card key={zone.zoneId} data-testid={`zone-${zone.zoneId}`}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-base text-black dark:text-white">{zone.name}</CardTitle>
+                    <CardDescription>
+                      {zone.pendingJobs} open requests · {zone.activeOperators} operators
+                      {zone.countsUpdatedAt && ` · counted ${new Date(zone.countsUpdatedAt).toLocaleTimeString()}`}
+                    </CardDescription>
+                  </div>
+                  <Badge variant="outline" className="capitalize">{zone.demandLevel}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-4">
+                  {ZONE_TIERS.map(tier => (
+                    <label key={tier} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={zone.allowedTiers.includes(tier)}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(checked) => toggleZoneTier(zone, tier, checked === true)}
+                      />
+                      {OPERATOR_TIER_INFO[tier].label}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch
+                      checked={zone.isActive === 1}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(checked) => updateMutation.mutate({ zoneId: zone.zoneId, updates: { isActive: checked } })}
+                    />
+                    Active
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(zone.zoneId)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-zone-${zone.zoneId}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
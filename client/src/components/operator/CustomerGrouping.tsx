@@ -27,6 +27,7 @@ export interface CustomerGroup {
   customerCount: number;
   totalValue: string;
   customers: Array<{
+    requestId?: string; // Set for groups built by the server's grouping engine
     name: string;
     address: string;
     service: string;
@@ -40,6 +41,7 @@ interface CustomerGroupingProps {
   onAcceptGroup?: (groupId: string) => void;
   onAcceptCustomers?: (groupId: string, customerIndices: number[]) => void; // For selective acceptance
   onContactGroup?: (groupId: string, message: string) => void;
+  onDeclineGroup?: (groupId: string) => void;
   acceptedGroupIds?: string[]; // Allow parents to manage accepted state
   operatorJobCount?: number; // Number of completed jobs operator has
   minimumJobsRequired?: number; // Minimum jobs needed to unlock customer grouping
@@ -50,6 +52,7 @@ export function CustomerGrouping({
   onAcceptGroup,
   onAcceptCustomers, 
   onContactGroup, 
+  onDeclineGroup,
   acceptedGroupIds = [],
   operatorJobCount = 0,
   minimumJobsRequired = 5
@@ -85,6 +88,7 @@ export function CustomerGrouping({
     if (!groupToMinimize) return;
     
     setMinimizedGroups(prev => [...prev, groupToMinimize.id]);
+    onDeclineGroup?.(groupToMinimize.id);
     toast({
       title: "Jobs Declined",
       description: `You declined ${groupToMinimize.customerCount} jobs near ${groupToMinimize.location}`,
@@ -7,8 +7,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { DollarSign, Calculator, AlertCircle, TrendingUp } from "lucide-react";
+import { DollarSign, Calculator, AlertCircle, TrendingUp, CloudSnow } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { OperatorPricingConfig } from "@shared/schema";
+import { toServiceKey, WEATHER_SURGE_KEY, MAX_WEATHER_SURGE_MULTIPLIER } from "@shared/zones";
+import type { AreaDemand } from "@shared/zones";
+import { PRICE_TOLERANCE, resolveBudget } from "@shared/pricing";
+import type { QuoteBreakdown } from "@shared/pricing";
 
 interface QuoteModalProps {
   open: boolean;
@@ -32,97 +37,50 @@ export function QuoteModal({
   
   const [quoteAmount, setQuoteAmount] = useState<number>(0);
   const [notes, setNotes] = useState("");
-  const [breakdown, setBreakdown] = useState<any>(null);
+
+  const [surgeOptIn, setSurgeOptIn] = useState("1.25");
 
   // Fetch operator's pricing config for this tier and service type
-  const { data: pricingConfigs } = useQuery({
+  const { data: pricingConfigs } = useQuery<OperatorPricingConfig[]>({
     queryKey: [`/api/operators/${operatorId}/pricing-config`, { tier }],
     enabled: open,
   });
 
-  // Calculate auto-quote when modal opens or pricing changes
-  useEffect(() => {
-    if (open && serviceRequest && pricingConfigs) {
-      calculateAutoQuote();
-    }
-  }, [open, serviceRequest, pricingConfigs]);
-
-  const calculateAutoQuote = () => {
-    // Find pricing config for this service type
-    const config = pricingConfigs?.find(
-      (c: any) => c.tier === tier && c.serviceType === serviceRequest.serviceType
-    );
-
-    if (!config) {
-      // No pricing config - use customer's budget midpoint as default
-      const budgetRange = serviceRequest.budgetRange || "$0-$0";
-      const match = budgetRange.match(/\$(\d+)-\$?(\d+)/);
-      if (match) {
-        const midpoint = (parseInt(match[1]) + parseInt(match[2])) / 2;
-        setQuoteAmount(midpoint);
-        setBreakdown({
-          method: "customer_budget",
-          budgetRange,
-          estimatedAmount: midpoint
-        });
-      }
-      return;
-    }
-
-    // Parse pricing config
-    const baseRate = parseFloat(config.baseRate) || 0;
-    const perKmRate = parseFloat(config.perKmRate) || 0;
-    const minimumFee = parseFloat(config.minimumFee) || 0;
-    const urgencyMultipliers = config.urgencyMultipliers || { emergency: 1.5, scheduled: 1.0 };
-
-    // Estimate distance (rough calculation based on service type)
-    let estimatedDistance = 0;
-    const details = serviceRequest.details || {};
-    
-    if (serviceRequest.serviceType === "Snow Plowing") {
-      // Estimate based on area size
-      const areaSize = details.areaSize || "small";
-      estimatedDistance = areaSize === "large" ? 5 : areaSize === "medium" ? 3 : 1;
-    } else if (serviceRequest.serviceType === "Towing") {
-      // Estimate based on destination
-      estimatedDistance = 10; // Default 10km
-    } else if (serviceRequest.serviceType === "Hauling") {
-      // Estimate based on load size
-      const loadSize = details.loadSize || "small";
-      estimatedDistance = loadSize === "large" ? 8 : loadSize === "medium" ? 5 : 2;
-    } else {
-      estimatedDistance = 5; // Default 5km
-    }
+  // Suggested price, calculated on the server from the operator's pricing config
+  const quotePriceUrl = serviceRequest
+    ? `/api/service-requests/${serviceRequest.requestId}/quote-price?operatorId=${encodeURIComponent(operatorId)}&tier=${encodeURIComponent(tier)}`
+    : null;
+  const { data: breakdown } = useQuery<QuoteBreakdown>({
+    queryKey: [quotePriceUrl],
+    enabled: open && !!quotePriceUrl,
+    retry: false,
+  });
 
-    // Calculate distance cost
-    const distanceCost = estimatedDistance * perKmRate;
+  // Demand where the job is - weather surge raises the quote for operators who opted in
+  const demandUrl = serviceRequest?.latitude && serviceRequest?.longitude
+    ? `/api/demand?latitude=${serviceRequest.latitude}&longitude=${serviceRequest.longitude}`
+    : null;
+  const { data: demand } = useQuery<AreaDemand>({
+    queryKey: [demandUrl],
+    enabled: open && !!demandUrl,
+  });
 
-    // Calculate urgency multiplier
-    const isEmergency = serviceRequest.isEmergency || serviceRequest.urgencyLevel === "emergency";
-    const urgencyMultiplier = isEmergency ? urgencyMultipliers.emergency || 1.5 : urgencyMultipliers.scheduled || 1.0;
+  const pricingConfig = pricingConfigs?.find(
+    (c) => c.tier === tier && c.serviceType === serviceRequest?.serviceType
+  );
+  const isWeatherSurge = demand?.demandLevel === "surge" &&
+    !!serviceRequest && demand.surgeServiceTypes.includes(toServiceKey(serviceRequest.serviceType));
+  const urgencyConfig = (pricingConfig?.urgencyMultipliers || {}) as Record<string, number>;
+  const hasSurgeOptIn = typeof urgencyConfig[WEATHER_SURGE_KEY] === "number";
+  // Changing the suggested price is allowed, but the quote is marked as a manual price
+  const isPriceOverride = breakdown?.method === "pricing_config" && Math.abs(quoteAmount - breakdown.total) > PRICE_TOLERANCE;
 
-    // Calculate total
-    let total = (baseRate + distanceCost) * urgencyMultiplier;
-    
-    // Apply minimum fee
-    if (total < minimumFee) {
-      total = minimumFee;
+  // Start from the suggested price whenever it is (re)calculated
+  useEffect(() => {
+    if (open && breakdown) {
+      setQuoteAmount(breakdown.total);
     }
-
-    // Round to 2 decimals
-    total = Math.round(total * 100) / 100;
-
-    setQuoteAmount(total);
-    setBreakdown({
-      baseRate,
-      estimatedDistance,
-      distanceCost,
-      urgencyMultiplier,
-      minimumFee,
-      total,
-      method: "pricing_config"
-    });
-  };
+  }, [open, breakdown]);
 
   const createQuoteMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -144,6 +102,8 @@ export function QuoteModal({
       onOpenChange(false);
     },
     onError: (error: any) => {
+      // The price may have changed since it was suggested, e.g. when a weather surge ends
+      queryClient.invalidateQueries({ queryKey: [quotePriceUrl] });
       toast({
         title: "Failed to Send Quote",
         description: error.message || "Please try again.",
@@ -152,6 +112,39 @@ export function QuoteModal({
     }
   });
 
+  // Opt in to weather surge pricing for this tier and service
+  const surgeOptInMutation = useMutation({
+    mutationFn: async (multiplier: number) => {
+      if (!pricingConfig) throw new Error("Set up pricing for this service first");
+      return apiRequest(`/api/operators/${operatorId}/pricing-config`, {
+        method: "POST",
+        body: JSON.stringify({
+          tier: pricingConfig.tier,
+          serviceType: pricingConfig.serviceType,
+          baseRate: pricingConfig.baseRate,
+          perKmRate: pricingConfig.perKmRate,
+          minimumFee: pricingConfig.minimumFee,
+          urgencyMultipliers: { ...urgencyConfig, [WEATHER_SURGE_KEY]: multiplier },
+        })
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/operators/${operatorId}/pricing-config`, { tier }] });
+      queryClient.invalidateQueries({ queryKey: [quotePriceUrl] });
+      toast({
+        title: "Weather Surge On",
+        description: `Your ${serviceRequest.serviceType} quotes will include your surge multiplier during severe weather.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Save Surge",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleSubmitQuote = () => {
     if (quoteAmount <= 0) {
       toast({
@@ -175,9 +168,9 @@ export function QuoteModal({
       operatorName,
       tier,
       amount: quoteAmount.toString(),
-      breakdown,
       notes,
       autoCalcSnapshot: breakdown,
+      priceOverride: isPriceOverride,
       status: "sent",
       expiresAt,
       history: [{
@@ -190,9 +183,9 @@ export function QuoteModal({
 
   // Parse customer's budget range for comparison
   const customerBudget = serviceRequest?.budgetRange || "$0-$0";
-  const budgetMatch = customerBudget.match(/\$(\d+)-\$?(\d+)/);
-  const budgetMin = budgetMatch ? parseInt(budgetMatch[1]) : 0;
-  const budgetMax = budgetMatch ? parseInt(budgetMatch[2]) : 0;
+  const budget = resolveBudget(serviceRequest);
+  const budgetMin = budget?.min ?? 0;
+  const budgetMax = budget?.max ?? 0;
   const budgetMid = (budgetMin + budgetMax) / 2;
 
   const isAboveBudget = quoteAmount > budgetMax;
@@ -221,6 +214,45 @@ export function QuoteModal({
             </p>
           </div>
 
+          {/* Weather surge - demand is up where this job is */}
+          {isWeatherSurge && demand && (
+            <Alert className="border-red-500 bg-red-50 dark:bg-red-950" data-testid="alert-weather-surge">
+              <CloudSnow className="w-4 h-4 text-red-600" />
+              <AlertDescription className="text-red-700 dark:text-red-300 space-y-2">
+                <p>
+                  {demand.alerts[0]?.event || "Severe weather"} in {demand.zoneName} - demand is surging.
+                </p>
+                {hasSurgeOptIn ? (
+                  <p className="text-xs">Your {urgencyConfig[WEATHER_SURGE_KEY]}x weather surge is applied.</p>
+                ) : pricingConfig ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      step="0.05"
+                      min="1"
+                      max={MAX_WEATHER_SURGE_MULTIPLIER}
+                      value={surgeOptIn}
+                      onChange={(e) => setSurgeOptIn(e.target.value)}
+                      className="h-8 w-20 bg-white dark:bg-black"
+                      data-testid="input-weather-surge"
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => surgeOptInMutation.mutate(parseFloat(surgeOptIn))}
+                      disabled={surgeOptInMutation.isPending || !(parseFloat(surgeOptIn) >= 1 && parseFloat(surgeOptIn) <= MAX_WEATHER_SURGE_MULTIPLIER)}
+                      data-testid="button-weather-surge-opt-in"
+                    >
+                      Opt in to surge
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs">Set up pricing for this service to opt in to surge pricing.</p>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Auto-calculated breakdown */}
           {breakdown && breakdown.method === "pricing_config" && (
             <div className="bg-blue-50 dark:bg-blue-950 p-3 rounded-lg space-y-1 text-sm">
@@ -233,12 +265,29 @@ export function QuoteModal({
                 <span>Distance ({breakdown.estimatedDistance}km):</span>
                 <span>${breakdown.distanceCost.toFixed(2)}</span>
               </div>
+              {breakdown.travelDistance > 0 && (
+                <p className="text-xs text-blue-600 dark:text-blue-400">
+                  {breakdown.travelDistance}km to the job + {breakdown.serviceDistance}km of work
+                </p>
+              )}
               {breakdown.urgencyMultiplier !== 1 && (
                 <div className="flex justify-between text-blue-700 dark:text-blue-300">
                   <span>Urgency Multiplier:</span>
                   <span>{breakdown.urgencyMultiplier}x</span>
                 </div>
               )}
+              {breakdown.tierMultiplier !== 1 && (
+                <div className="flex justify-between text-blue-700 dark:text-blue-300">
+                  <span>Tier Multiplier:</span>
+                  <span>{breakdown.tierMultiplier}x</span>
+                </div>
+              )}
+              {breakdown.weatherSurgeMultiplier !== 1 && (
+                <div className="flex justify-between text-blue-700 dark:text-blue-300">
+                  <span>Weather Surge:</span>
+                  <span>{breakdown.weatherSurgeMultiplier}x</span>
+                </div>
+              )}
               <div className="flex justify-between font-semibold text-blue-900 dark:text-blue-100 pt-1 border-t border-blue-200 dark:border-blue-800">
                 <span>Suggested Total:</span>
                 <span>${breakdown.total.toFixed(2)}</span>
@@ -262,6 +311,11 @@ export function QuoteModal({
                 data-testid="input-quote-amount"
               />
             </div>
+            {isPriceOverride && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-price-override">
+                Differs from your pricing (${breakdown?.total.toFixed(2)}) - this will be sent as a manual price.
+              </p>
+            )}
           </div>
 
           {/* Budget comparison warning */}
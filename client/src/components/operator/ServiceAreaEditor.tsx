@@ -0,0 +1,382 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Map as MapIcon, Plus, Star, Trash2, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { OPERATOR_TIER_INFO, SERVICE_AREA_LIMITS, type CoverageType, type OperatorServiceArea, type OperatorTier } from "@shared/schema";
+
+type Country = {
+  isoCode: string;
+  name: string;
+};
+
+type StateProvince = {
+  isoCode: string;
+  name: string;
+};
+
+type City = {
+  name: string;
+  latitude?: string;
+  longitude?: string;
+};
+
+interface ServiceAreaEditorProps {
+  operatorId: string;
+  tier: OperatorTier;
+}
+
+// The server's { message } from a failed request, which apiRequest passes along as the error text
+function getErrorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message).message || error.message;
+  } catch {
+    return error.message || "Please try again.";
+  }
+}
+
+export function ServiceAreaEditor({ operatorId, tier }: ServiceAreaEditorProps) {
+  const { toast } = useToast();
+  const limits = SERVICE_AREA_LIMITS[tier];
+  const tierLabel = OPERATOR_TIER_INFO[tier].label;
+  const areasUrl = `/api/operators/${operatorId}/service-areas?tier=${tier}`;
+
+  const [selectedCountry, setSelectedCountry] = useState("");
+  const [selectedState, setSelectedState] = useState("");
+  const [selectedCity, setSelectedCity] = useState("");
+  const [neighborhoodDrafts, setNeighborhoodDrafts] = useState<Record<number, string>>({});
+
+  const { data: areas = [], isLoading } = useQuery<OperatorServiceArea[]>({
+    queryKey: [areasUrl],
+  });
+
+  const activeAreas = areas.filter(area => area.isActive === 1);
+  const primaryArea = activeAreas.find(area => area.isPrimary === 1);
+  // Tiers limited to one province add cities in the province they already cover
+  const lockedRegion = limits.requireSameProvince ? primaryArea || activeAreas[0] : undefined;
+  const countryCode = lockedRegion?.countryCode || (activeAreas[0]?.countryCode ?? selectedCountry);
+  const stateCode = lockedRegion?.stateCode || selectedState;
+  const atLimit = limits.maxCities !== null && activeAreas.length >= limits.maxCities;
+
+  const { data: countries = [] } = useQuery<Country[]>({
+    queryKey: ["/api/locations/countries"],
+  });
+
+  const { data: states = [] } = useQuery<StateProvince[]>({
+    queryKey: [`/api/locations/states/${countryCode}`],
+    enabled: !!countryCode,
+  });
+
+  const { data: cities = [], isLoading: isLoadingCities } = useQuery<City[]>({
+    queryKey: [`/api/locations/cities/${countryCode}/${stateCode}`],
+    enabled: !!countryCode && !!stateCode,
+  });
+
+  const onAreasChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [areasUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/service-requests/for-operator/${operatorId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Could Not Update Service Areas",
+      description: getErrorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const country = countries.find(c => c.isoCode === countryCode);
+      const state = states.find(s => s.isoCode === stateCode);
+      const city = cities.find(c => c.name === selectedCity);
+      if (!country || !state || !city) throw new Error("Choose a city to add");
+
+      const latitude = city.latitude ? parseFloat(city.latitude) : NaN;
+      const longitude = city.longitude ? parseFloat(city.longitude) : NaN;
+      return apiRequest(`/api/operators/${operatorId}/service-areas`, {
+        method: "POST",
+        body: JSON.stringify({
+          tier,
+          countryCode: country.isoCode,
+          countryName: country.name,
+          stateCode: state.isoCode,
+          stateName: state.name,
+          cityName: city.name,
+          ...(!isNaN(latitude) && !isNaN(longitude) ? { cityLatitude: latitude, cityLongitude: longitude } : {}),
+          isPrimary: activeAreas.length === 0,
+        }),
+      });
+    },
+    onSuccess: (area: OperatorServiceArea) => {
+      setSelectedCity("");
+      onAreasChanged();
+      toast({
+        title: "City Added",
+        description: `You'll now see ${tierLabel} requests in ${area.cityName}.`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ areaId, updates }: { areaId: number; updates: { neighborhoods?: string[]; coverageType?: CoverageType; isPrimary?: boolean; isActive?: boolean } }) => {
+      return apiRequest(`/api/operators/${operatorId}/service-areas/${areaId}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: onAreasChanged,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (areaId: number) => {
+      return apiRequest(`/api/operators/${operatorId}/service-areas/${areaId}`, { method: "DELETE" });
+    },
+    onSuccess: onAreasChanged,
+    onError,
+  });
+
+  const handleAddNeighborhood = (area: OperatorServiceArea) => {
+    const name = (neighborhoodDrafts[area.id] || "").trim();
+    if (!name) return;
+    updateMutation.mutate(
+      { areaId: area.id, updates: { neighborhoods: [...(area.neighborhoods || []), name] } },
+      { onSuccess: () => setNeighborhoodDrafts(prev => ({ ...prev, [area.id]: "" })) }
+    );
+  };
+
+  const handleRemoveNeighborhood = (area: OperatorServiceArea, name: string) => {
+    const neighborhoods = (area.neighborhoods || []).filter(n => n !== name);
+    // Covering only neighborhoods needs at least one, so the last one switches the area back to the full city
+    updateMutation.mutate({
+      areaId: area.id,
+      updates: neighborhoods.length === 0 ? { neighborhoods, coverageType: "full_city" } : { neighborhoods },
+    });
+  };
+
+  const isUpdating = updateMutation.isPending || removeMutation.isPending;
+
+  return (
+    <Card className="border border-gray-200 dark:border-gray-700 shadow-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MapIcon className="h-4 w-4 text-gray-400" />
+          Service Areas
+        </CardTitle>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {limits.description}
+          {limits.maxCities !== null && ` (${activeAreas.length} of ${limits.maxCities} ${limits.maxCities === 1 ? "city" : "cities"})`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-20 w-full" />
+        ) : areas.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="text-no-service-areas">
+            No cities yet. Until you add one, you'll see requests anywhere within your operating radius.
+          </p>
+        ) : (
+          areas.map(area => (
+            <div
+              key={area.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-3"
+              data-testid={`service-area-${area.id}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium ${area.isActive ? "text-gray-900 dark:text-white" : "text-gray-400"}`}>
+                      {area.cityName}
+                    </span>
+                    {area.isPrimary === 1 && <Badge className="text-xs">Primary</Badge>}
+                    {area.isActive === 0 && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500">{area.stateName}, {area.countryName}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {area.isActive === 1 && area.isPrimary === 0 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={isUpdating}
+                      onClick={() => updateMutation.mutate({ areaId: area.id, updates: { isPrimary: true } })}
+                      data-testid={`button-primary-area-${area.id}`}
+                    >
+                      <Star className="h-4 w-4 mr-1" />
+                      Make Primary
+                    </Button>
+                  )}
+                  <Switch
+                    checked={area.isActive === 1}
+                    disabled={isUpdating}
+                    onCheckedChange={(checked) => updateMutation.mutate({ areaId: area.id, updates: { isActive: checked } })}
+                    data-testid={`switch-area-active-${area.id}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={isUpdating}
+                    onClick={() => removeMutation.mutate(area.id)}
+                    data-testid={`button-remove-area-${area.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">Coverage</Label>
+                <Select
+                  value={area.coverageType}
+                  disabled={isUpdating}
+                  onValueChange={(value) => updateMutation.mutate({ areaId: area.id, updates: { coverageType: value as CoverageType } })}
+                >
+                  <SelectTrigger data-testid={`select-coverage-${area.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full_city">Whole city</SelectItem>
+                    <SelectItem value="neighborhoods_only" disabled={!area.neighborhoods?.length}>
+                      Only my neighborhoods
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs">Neighborhoods</Label>
+                {area.neighborhoods && area.neighborhoods.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {area.neighborhoods.map(name => (
+                      <Badge key={name} variant="secondary" className="text-xs gap-1">
+                        {name}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${name}`}
+                          disabled={isUpdating}
+                          onClick={() => handleRemoveNeighborhood(area, name)}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Input
+                    value={neighborhoodDrafts[area.id] || ""}
+                    onChange={(e) => setNeighborhoodDrafts(prev => ({ ...prev, [area.id]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddNeighborhood(area);
+                      }
+                    }}
+                    placeholder="e.g., Kensington"
+                    data-testid={`input-neighborhood-${area.id}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    disabled={isUpdating || !(neighborhoodDrafts[area.id] || "").trim()}
+                    onClick={() => handleAddNeighborhood(area)}
+                    data-testid={`button-add-neighborhood-${area.id}`}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+
+        {atLimit ? (
+          <p className="text-xs text-gray-500">
+            {tierLabel} operators can cover up to {limits.maxCities} {limits.maxCities === 1 ? "city" : "cities"}. Remove one to add another.
+          </p>
+        ) : (
+          <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <Label>Add a City</Label>
+            {!lockedRegion && (
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={countryCode}
+                  disabled={activeAreas.length > 0}
+                  onValueChange={(value) => {
+                    setSelectedCountry(value);
+                    setSelectedState("");
+                    setSelectedCity("");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-area-country">
+                    <SelectValue placeholder="Country" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {countries.map(country => (
+                      <SelectItem key={country.isoCode} value={country.isoCode}>{country.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={selectedState}
+                  disabled={!countryCode}
+                  onValueChange={(value) => {
+                    setSelectedState(value);
+                    setSelectedCity("");
+                  }}
+                >
+                  <SelectTrigger data-testid="select-area-state">
+                    <SelectValue placeholder="Province/State" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {states.map(state => (
+                      <SelectItem key={state.isoCode} value={state.isoCode}>{state.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {lockedRegion && (
+              <p className="text-xs text-gray-500">
+                {tierLabel} cities must be in {lockedRegion.stateName}, {lockedRegion.countryName}.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Select value={selectedCity} disabled={!stateCode || isLoadingCities} onValueChange={setSelectedCity}>
+                <SelectTrigger data-testid="select-area-city">
+                  <SelectValue placeholder={isLoadingCities ? "Loading cities..." : "City"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {cities.map(city => (
+                    <SelectItem key={city.name} value={city.name}>{city.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                disabled={!selectedCity || addMutation.isPending}
+                onClick={() => addMutation.mutate()}
+                data-testid="button-add-area"
+              >
+                {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -11,10 +11,20 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { 
   MapPin, Clock, DollarSign, Filter, Search, Briefcase,
   CheckCircle, AlertCircle, Truck, Users, ChevronRight,
-  Calendar, Wrench
+  Calendar, Wrench, Repeat, Loader2
 } from "lucide-react";
-import type { OperatorTier, ServiceRequest } from "@shared/schema";
+import type { OperatorTier, ServiceRequest, ServiceRequestSeries } from "@shared/schema";
 import { TIER_CAPABILITIES, canAccessFeature } from "@shared/tierCapabilities";
+import type { CustomerGroup } from "@/components/operator/CustomerGrouping";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// A recurring series as returned by /api/operators/:operatorId/request-series
+type RequestSeriesSummary = ServiceRequestSeries & {
+  summary: string;
+  upcomingDates: string[];
+  distance?: number; // miles
+};
 
 interface JobsPanelProps {
   tier: OperatorTier;
@@ -26,15 +36,6 @@ interface JobsPanelProps {
   onSubmitQuote?: (jobId: string) => void;
 }
 
-interface CustomerGroup {
-  id: string;
-  name: string;
-  location: string;
-  distance: number;
-  jobCount: number;
-  isLocked: boolean;
-}
-
 export function JobsPanel({ 
   tier, 
   operatorId,
@@ -65,8 +66,8 @@ export function JobsPanel({
   });
 
   const { data: customerGroups = [], isLoading: isLoadingGroups } = useQuery<CustomerGroup[]>({
-    queryKey: ["/api/operators", operatorId, "customer-groups"],
-    enabled: canAccessFeature(tier, "customerGroups"),
+    queryKey: [`/api/operators/${operatorId}/customer-groups`],
+    enabled: !!operatorId && canAccessFeature(tier, "customerGroups"),
   });
 
   const filteredNearbyJobs = nearbyJobs.filter(job => {
@@ -238,7 +239,6 @@ export function JobsPanel({
                 <CustomerGroupCard
                   key={group.id}
                   group={group}
-                  isLocked={group.isLocked}
                 />
               ))}
             </div>
@@ -247,22 +247,7 @@ export function JobsPanel({
       </Tabs>
 
       {hasScheduledJobs && (
-        <Card className="bg-gradient-to-r from-primary/5 to-transparent border-primary/20">
-          <CardHeader className="pb-2">
-            <div className="flex items-center justify-between">
-              <CardTitle className="text-base flex items-center gap-2">
-                <Calendar className="h-4 w-4 text-primary" />
-                Scheduled Jobs
-              </CardTitle>
-              <Badge variant="outline" className="text-xs">Coming Soon</Badge>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground">
-              View and manage your scheduled jobs for upcoming days.
-            </p>
-          </CardContent>
-        </Card>
+        <ScheduledJobsCard operatorId={operatorId} isOnline={isOnline} />
       )}
     </div>
   );
@@ -397,28 +382,24 @@ function ActiveJobCard({
 }
 
 function CustomerGroupCard({ 
-  group, 
-  isLocked 
+  group 
 }: { 
   group: CustomerGroup;
-  isLocked: boolean;
 }) {
   return (
     <Card 
-      className={`overflow-hidden transition-all ${
-        isLocked ? "opacity-60" : "cursor-pointer hover:shadow-md"
-      }`}
+      className="overflow-hidden transition-all cursor-pointer hover:shadow-md"
       data-testid={`customer-group-${group.id}`}
     >
       <CardContent className="p-4">
         <div className="flex items-center justify-between">
           <div>
-            <p className="font-medium text-sm">{group.name}</p>
-            <p className="text-xs text-muted-foreground">{group.distance}km away</p>
+            <p className="font-medium text-sm">{group.location}</p>
+            <p className="text-xs text-muted-foreground">{group.distance} mi away · {group.expiresIn} min left</p>
           </div>
           <div className="text-right">
-            <Badge variant={isLocked ? "outline" : "default"} className="text-xs">
-              {isLocked ? "🔒 Locked" : `${group.jobCount} jobs`}
+            <Badge variant="default" className="text-xs">
+              {group.customerCount} jobs
             </Badge>
           </div>
         </div>
@@ -426,3 +407,125 @@ function CustomerGroupCard({
     </Card>
   );
 }
+
+function ScheduledJobsCard({
+  operatorId,
+  isOnline
+}: {
+  operatorId: string;
+  isOnline: boolean;
+}) {
+  const { toast } = useToast();
+  const seriesKey = `/api/operators/${operatorId}/request-series`;
+
+  const { data, isLoading } = useQuery<{ available: RequestSeriesSummary[]; accepted: RequestSeriesSummary[] }>({
+    queryKey: [seriesKey],
+    enabled: !!operatorId,
+  });
+
+  const acceptSeriesMutation = useMutation({
+    mutationFn: async (seriesId: string) => {
+      return apiRequest(`${seriesKey}/${seriesId}/accept`, { method: "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [seriesKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/for-operator/${operatorId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/active/${operatorId}`] });
+      toast({
+        title: "Series Accepted",
+        description: "Every request in this series will be assigned to you.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Accept Series",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const accepted = data?.accepted || [];
+  const available = data?.available || [];
+
+  return (
+    <Card className="bg-gradient-to-r from-primary/5 to-transparent border-primary/20" data-testid="scheduled-jobs-card">
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-primary" />
+            Scheduled Jobs
+          </CardTitle>
+          {accepted.length > 0 && (
+            <Badge variant="outline" className="text-xs">{accepted.length} recurring</Badge>
+          )}
+        </div>
+        <CardDescription>Recurring contracts - accept a series to get every visit in it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Skeleton className="h-16 rounded-lg" />
+        ) : accepted.length === 0 && available.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No recurring requests in your area yet.
+          </p>
+        ) : (
+          <>
+            {accepted.map((series) => (
+              <SeriesRow key={series.seriesId} series={series} />
+            ))}
+            {available.map((series) => (
+              <SeriesRow
+                key={series.seriesId}
+                series={series}
+                action={
+                  <Button
+                    size="sm"
+                    onClick={() => acceptSeriesMutation.mutate(series.seriesId)}
+                    disabled={!isOnline || acceptSeriesMutation.isPending}
+                    data-testid={`series-accept-btn-${series.seriesId}`}
+                  >
+                    {acceptSeriesMutation.isPending && acceptSeriesMutation.variables === series.seriesId ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Accept Series"
+                    )}
+                  </Button>
+                }
+              />
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SeriesRow({
+  series,
+  action
+}: {
+  series: RequestSeriesSummary;
+  action?: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border p-3" data-testid={`series-row-${series.seriesId}`}>
+      <div className="min-w-0">
+        <div className="flex items-center gap-2 mb-1">
+          <Badge variant="secondary" className="text-xs">{series.serviceType}</Badge>
+          {series.operatorId && <Badge variant="default" className="text-xs">Yours</Badge>}
+        </div>
+        <p className="text-sm font-medium flex items-center gap-1">
+          <Repeat className="h-3 w-3" />
+          {series.summary}
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {series.location}
+          {series.distance !== undefined && ` · ${series.distance} mi away`}
+          {series.upcomingDates.length > 0 && ` · next ${series.upcomingDates[0]}`}
+        </p>
+      </div>
+      {action}
+    </div>
+  );
+}
@@ -18,7 +18,7 @@ import {
 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { OperatorTier } from "@shared/schema";
+import type { OperatorTier, OperatorDocumentSubmission } from "@shared/schema";
 import { TIER_CAPABILITIES, TIER_SERVICES, getServicesForTier } from "@shared/tierCapabilities";
 import type { ServiceConfig } from "@shared/tierCapabilities";
 
@@ -34,6 +34,15 @@ interface OperatorService {
   certificationUploaded?: boolean;
   certificationVerified?: boolean;
   toolPhotosUploaded?: boolean;
+  locked?: boolean;
+}
+
+interface DocumentRequirement {
+  serviceType: string;
+  documentType: string;
+  documentName: string;
+  description: string | null;
+  isRequired: boolean;
 }
 
 interface ServicesPanelProps {
@@ -251,6 +260,7 @@ export function ServicesPanel({ tier, operatorId }: ServicesPanelProps) {
             <EditServiceForm
               service={editingService}
               operatorId={operatorId}
+              tier={tier}
               onClose={() => setEditingService(null)}
             />
           </DialogContent>
@@ -291,6 +301,12 @@ function ServiceCard({
               <h4 className="font-medium">{service.name}</h4>
               {getSkillBadge(service.skillLevel)}
               {!service.isActive && <Badge variant="secondary">Inactive</Badge>}
+              {service.locked && (
+                <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Documents Needed
+                </Badge>
+              )}
             </div>
             <p className="text-sm text-muted-foreground line-clamp-2 mb-2">
               {service.description}
@@ -546,15 +562,13 @@ function AddServiceForm({
             />
           </div>
 
-          {selectedService.requiresCertification && (
-            <div className="space-y-2">
-              <Label>Upload Certification</Label>
-              <div className="border-2 border-dashed rounded-lg p-4 text-center">
-                <Upload className="h-6 w-6 mx-auto text-muted-foreground mb-2" />
-                <p className="text-sm text-muted-foreground">
-                  Click to upload your certification
-                </p>
-              </div>
+          {(selectedService.requiresCertification || selectedService.requiresBusinessLicense) && (
+            <div className="flex items-start gap-2 p-3 border-2 border-dashed rounded-lg">
+              <Upload className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+              <p className="text-sm text-muted-foreground">
+                After adding this service, open it from your services list to upload your documents.
+                It stays locked until an admin approves them.
+              </p>
             </div>
           )}
         </>
@@ -580,10 +594,12 @@ function AddServiceForm({
 function EditServiceForm({
   service,
   operatorId,
+  tier,
   onClose,
 }: {
   service: OperatorService;
   operatorId: string;
+  tier: OperatorTier;
   onClose: () => void;
 }) {
   const [skillLevel, setSkillLevel] = useState(service.skillLevel);
@@ -682,6 +698,8 @@ function EditServiceForm({
         />
       </div>
 
+      <ServiceDocuments serviceId={service.serviceId} operatorId={operatorId} tier={tier} />
+
       <div className="flex gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={isSubmitting || isDeleting}>
           Cancel
@@ -703,3 +721,158 @@ function EditServiceForm({
     </form>
   );
 }
+
+function ServiceDocuments({
+  serviceId,
+  operatorId,
+  tier,
+}: {
+  serviceId: string;
+  operatorId: string;
+  tier: OperatorTier;
+}) {
+  const { toast } = useToast();
+  const [uploadingType, setUploadingType] = useState<string | null>(null);
+
+  const { data: requirements = [] } = useQuery<DocumentRequirement[]>({
+    queryKey: [`/api/operators/${operatorId}/documents/requirements?serviceType=${serviceId}&tier=${tier}`],
+    enabled: !!operatorId && !!serviceId,
+  });
+
+  const { data: documents = [] } = useQuery<OperatorDocumentSubmission[]>({
+    queryKey: [`/api/operators/${operatorId}/documents`],
+    enabled: !!operatorId && requirements.length > 0,
+  });
+
+  if (requirements.length === 0) return null;
+
+  const handleUpload = async (documentType: string, file: File) => {
+    setUploadingType(documentType);
+    try {
+      const formData = new FormData();
+      formData.append("serviceType", serviceId);
+      formData.append("documentType", documentType);
+      formData.append("tier", tier);
+      formData.append("file", file);
+
+      // Sent without apiRequest so the browser sets the multipart boundary
+      const response = await fetch(`/api/operators/${operatorId}/documents`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || "Upload failed");
+      }
+
+      queryClient.invalidateQueries({ queryKey: [`/api/operators/${operatorId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/operators/${operatorId}/services`] });
+      toast({
+        title: "Document Submitted",
+        description: "We'll review it shortly. The service unlocks once every required document is approved.",
+      });
+    } catch (error) {
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const getStatusBadge = (submission?: OperatorDocumentSubmission) => {
+    if (!submission) {
+      return <Badge variant="outline" className="text-xs">Not Uploaded</Badge>;
+    }
+    switch (submission.status) {
+      case "approved":
+        return (
+          <Badge variant="outline" className="text-xs bg-green-50 text-green-700">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Approved
+          </Badge>
+        );
+      case "rejected":
+        return (
+          <Badge variant="outline" className="text-xs bg-red-50 text-red-700">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Rejected
+          </Badge>
+        );
+      case "expired":
+        return (
+          <Badge variant="outline" className="text-xs bg-red-50 text-red-700">
+            <AlertCircle className="h-3 w-3 mr-1" />
+            Expired
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700">
+            <Clock className="h-3 w-3 mr-1" />
+            In Review
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid={`service-documents-${serviceId}`}>
+      <Label>Required Documents</Label>
+      {requirements.map((requirement) => {
+        const submission = documents.find(d => d.serviceType === serviceId && d.documentType === requirement.documentType);
+        const inputId = `document-${serviceId}-${requirement.documentType}`;
+        return (
+          <div key={requirement.documentType} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="text-sm font-medium truncate">{requirement.documentName}</span>
+                {!requirement.isRequired && <span className="text-xs text-muted-foreground">(optional)</span>}
+              </div>
+              {getStatusBadge(submission)}
+            </div>
+            {requirement.description && (
+              <p className="text-xs text-muted-foreground">{requirement.description}</p>
+            )}
+            {submission?.status === "rejected" && submission.reviewNote && (
+              <p className="text-xs text-red-600">{submission.reviewNote}</p>
+            )}
+            {submission?.expiresAt && submission.status !== "expired" && (
+              <p className="text-xs text-muted-foreground">
+                Expires {new Date(submission.expiresAt).toLocaleDateString()}
+              </p>
+            )}
+            <input
+              id={inputId}
+              type="file"
+              accept="application/pdf,image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(requirement.documentType, file);
+                e.target.value = "";
+              }}
+              data-testid={`document-input-${requirement.documentType}`}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={uploadingType !== null}
+              onClick={() => document.getElementById(inputId)?.click()}
+            >
+              <Upload className="h-3 w-3 mr-2" />
+              {uploadingType === requirement.documentType
+                ? "Uploading..."
+                : submission ? "Replace File" : "Upload File"}
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
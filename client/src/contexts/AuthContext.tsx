@@ -14,6 +14,7 @@ export interface User {
   operatorId?: string;
   businessId?: string;
   isAdmin?: boolean;
+  emailVerified?: boolean;
 }
 
 interface AuthContextType {
@@ -57,6 +58,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             operatorId: userData.operatorId,
             businessId: userData.businessId,
             isAdmin: userData.isAdmin === 1 || userData.isAdmin === true,
+            emailVerified: userData.emailVerified === true,
           });
         }
       } catch (error) {
@@ -98,6 +100,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         operatorId: userData.operatorId,
         businessId: userData.businessId,
         isAdmin: userData.isAdmin === 1 || userData.isAdmin === true,
+        emailVerified: userData.emailVerified === true,
       });
     } catch (error) {
       console.error("Sign in error:", error);
@@ -134,6 +137,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         operatorId: userData.operatorId,
         businessId: userData.businessId,
         isAdmin: userData.isAdmin === 1 || userData.isAdmin === true,
+        emailVerified: userData.emailVerified === true,
       });
     } catch (error) {
       console.error("Sign up error:", error);
@@ -195,6 +199,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           operatorId: userData.operatorId,
           businessId: userData.businessId,
           isAdmin: userData.isAdmin === 1 || userData.isAdmin === true,
+          emailVerified: userData.emailVerified === true,
         });
       }
     } catch (error) {
@@ -3,6 +3,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { useEffect, useRef } from "react";
+import { useRealtimeEvent, useRealtimeConnected } from "@/hooks/useRealtime";
 
 export interface Notification {
   id: number;
@@ -24,7 +25,7 @@ export interface Notification {
 /**
  * Hook to fetch and manage notifications for the authenticated user
  * Features:
- * - Auto-polling every 30 seconds
+ * - Live updates pushed over the realtime stream (polls every 30 seconds only while disconnected)
  * - Toast notifications for new unread notifications
  * - Mark as read functionality
  * - Unread count tracking
@@ -33,12 +34,14 @@ export function useNotifications() {
   const { user } = useAuth();
   const { toast } = useToast();
   const previousUnreadCount = useRef<number>(0);
+  const realtimeConnected = useRealtimeConnected();
+  const fallbackInterval = realtimeConnected ? false : 30000;
 
   // Fetch all notifications
   const { data: notifications = [], isLoading } = useQuery<Notification[]>({
     queryKey: ["/api/notifications"],
     enabled: !!user,
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: fallbackInterval, // Poll only while the realtime stream is down
     refetchIntervalInBackground: true,
   });
 
@@ -46,10 +49,21 @@ export function useNotifications() {
   const { data: countData } = useQuery<{ count: number }>({
     queryKey: ["/api/notifications/count"],
     enabled: !!user,
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: fallbackInterval,
     refetchIntervalInBackground: true,
   });
 
+  // New notification pushed by the server
+  useRealtimeEvent("notification", () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/count"] });
+  }, !!user);
+
+  // Request status changed - refresh request views
+  useRealtimeEvent("status_event", () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/service-requests"] });
+  }, !!user);
+
   const unreadCount = countData?.count || 0;
 
   // Mark notification as read
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+
+export type RealtimeEventType = "notification" | "status_event" | "job_message" | "operator_location";
+
+type RealtimeHandler = (data: unknown) => void;
+
+// One shared EventSource per tab, opened while at least one component subscribes
+let source: EventSource | null = null;
+let subscriberCount = 0;
+let connected = false;
+const handlers = new Map<RealtimeEventType, Set<RealtimeHandler>>();
+const connectionListeners = new Set<(connected: boolean) => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  connectionListeners.forEach(listener => listener(value));
+}
+
+function openSource() {
+  if (source || typeof EventSource === "undefined") return;
+
+  source = new EventSource("/api/realtime/stream", { withCredentials: true });
+  source.onopen = () => setConnected(true);
+  source.onerror = () => {
+    // EventSource retries on its own unless the server refused the stream (e.g. 401)
+    setConnected(false);
+    if (source?.readyState === EventSource.CLOSED) {
+      source = null;
+    }
+  };
+  source.onmessage = (message) => {
+    try {
+      const event = JSON.parse(message.data) as { type: RealtimeEventType; data: unknown };
+      handlers.get(event.type)?.forEach(handler => handler(event.data));
+    } catch (error) {
+      console.error("Failed to parse realtime event:", error);
+    }
+  };
+}
+
+function closeSource() {
+  source?.close();
+  source = null;
+  setConnected(false);
+}
+
+/**
+ * Subscribe to a server-pushed realtime event
+ * The shared stream is opened on first subscription and closed when the last subscriber unmounts
+ * @param type - Event type to listen for
+ * @param handler - Called with the event payload
+ * @param enabled - Only subscribe when true (e.g. when the user is signed in)
+ */
+export function useRealtimeEvent<T = unknown>(type: RealtimeEventType, handler: (data: T) => void, enabled: boolean = true) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const listener: RealtimeHandler = (data) => handlerRef.current(data as T);
+    let typeHandlers = handlers.get(type);
+    if (!typeHandlers) {
+      typeHandlers = new Set();
+      handlers.set(type, typeHandlers);
+    }
+    typeHandlers.add(listener);
+
+    subscriberCount++;
+    openSource();
+
+    return () => {
+      typeHandlers.delete(listener);
+      subscriberCount--;
+      if (subscriberCount === 0) {
+        closeSource();
+      }
+    };
+  }, [type, enabled]);
+}
+
+/**
+ * Whether the realtime stream is currently connected
+ * Components use this to fall back to polling while the stream is down
+ */
+export function useRealtimeConnected(): boolean {
+  const [isConnected, setIsConnected] = useState(connected);
+
+  useEffect(() => {
+    connectionListeners.add(setIsConnected);
+    setIsConnected(connected);
+    return () => {
+      connectionListeners.delete(setIsConnected);
+    };
+  }, []);
+
+  return isConnected;
+}
@@ -25,7 +25,7 @@ type OperatorTier = "professional" | "equipped" | "manual";
 
 interface Transaction {
   id: string;
-  type: "credit" | "debit" | "withdrawal" | "bonus" | "referral_credit";
+  type: "credit" | "debit" | "withdrawal" | "bonus" | "referral_credit" | "refund";
   amount: number;
   description: string;
   date: string;
@@ -102,6 +102,12 @@ export default function Wallet() {
     enabled: !!user,
   });
 
+  // Minimum withdrawal and daily limit
+  const { data: withdrawalLimits } = useQuery<{ minAmount: number; dailyLimit: number }>({
+    queryKey: ['/api/wallet/withdrawal-limits'],
+    enabled: !!user,
+  });
+
   // Withdrawal mutation
   const withdrawMutation = useMutation({
     mutationFn: (amount: number) => apiRequest('/api/wallet/withdraw', {
@@ -225,6 +231,14 @@ export default function Wallet() {
       });
       return;
     }
+    if (withdrawalLimits && amount < withdrawalLimits.minAmount) {
+      toast({
+        title: "Amount Too Low",
+        description: `The minimum withdrawal is $${withdrawalLimits.minAmount.toFixed(2)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
     if (amount > balance) {
       toast({
         title: "Insufficient Balance",
@@ -239,6 +253,7 @@ export default function Wallet() {
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case "credit":
+      case "refund":
         return <ArrowDownLeft className="h-4 w-4 text-emerald-600" />;
       case "debit":
       case "withdrawal":
@@ -373,6 +388,11 @@ export default function Wallet() {
                         />
                       </div>
                       <p className="text-xs text-gray-500 mt-1">Available: ${balance.toFixed(2)}</p>
+                      {withdrawalLimits && (
+                        <p className="text-xs text-gray-500" data-testid="text-withdrawal-limits">
+                          Minimum ${withdrawalLimits.minAmount.toFixed(2)} · Daily limit ${withdrawalLimits.dailyLimit.toFixed(2)}
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
                       <AlertCircle className="h-4 w-4 text-amber-600" />
@@ -3,6 +3,9 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Header } from "@/components/Header";
 import { MobileBottomNav } from "@/components/MobileBottomNav";
+import { DocumentReviewQueue } from "@/components/admin/DocumentReviewQueue";
+import { DisputeQueue } from "@/components/admin/DisputeQueue";
+import { ZoneManager } from "@/components/admin/ZoneManager";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/enhanced-button";
 import { Badge } from "@/components/ui/badge";
@@ -363,6 +366,21 @@ export const AdminPortal = () => {
               })}
             </div>
           )}
+
+          {/* Document Review Queue */}
+          <div className="mt-10">
+            <DocumentReviewQueue />
+          </div>
+
+          {/* Dispute Queue */}
+          <div className="mt-10">
+            <DisputeQueue />
+          </div>
+
+          {/* Service Zones */}
+          <div className="mt-10">
+            <ZoneManager />
+          </div>
         </div>
       </div>
 
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/enhanced-button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -12,6 +12,7 @@ import { Switch } from "@/components/ui/switch";
 import { Header } from "@/components/Header";
 import { AuthDialog } from "@/components/AuthDialog";
 import { useAuth } from "@/contexts/AuthContext";
+import { useUserLocation } from "@/contexts/LocationContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
@@ -30,15 +31,20 @@ import {
   Truck,
   Package,
   Layers,
-  Plus
+  Plus,
+  Repeat
 } from "lucide-react";
 import { ServiceSelector } from "@/components/ServiceSelector";
 import { TIER_SERVICES } from "@shared/tierCapabilities";
+import { WEEKDAYS, WEEKDAY_NAMES, SNOWFALL_SERVICE_TYPES, formatRecurrenceRule, describeRecurrenceRule, upcomingOccurrences } from "@shared/recurrence";
+import type { RecurrenceRule, Weekday } from "@shared/recurrence";
+import type { PriceEstimate } from "@shared/pricing";
 
 export const CreateServiceRequest = () => {
   const [location, setLocation] = useLocation();
   const { toast } = useToast();
   const { isAuthenticated, user } = useAuth();
+  const { location: userLocation, formattedAddress } = useUserLocation();
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const [authTab, setAuthTab] = useState<"signin" | "signup">("signin");
   
@@ -62,10 +68,18 @@ export const CreateServiceRequest = () => {
   const [preferredDate, setPreferredDate] = useState("");
   const [preferredTime, setPreferredTime] = useState("");
   const [timeFlexibility, setTimeFlexibility] = useState("flexible");
-  const [budgetRange, setBudgetRange] = useState("");
+  const [budgetMin, setBudgetMin] = useState("");
+  const [budgetMax, setBudgetMax] = useState("");
   const [images, setImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [selectedOperatorId] = useState(prefilledOperatorId);
+  // Recurring request - repeats on a schedule or after each snowfall
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [repeatTrigger, setRepeatTrigger] = useState<"schedule" | "snowfall">("schedule");
+  const [repeatFrequency, setRepeatFrequency] = useState<"weekly" | "biweekly" | "monthly">("weekly");
+  const [repeatDay, setRepeatDay] = useState<Weekday>("MO");
+  const [repeatEndDate, setRepeatEndDate] = useState("");
+  const [snowfallThreshold, setSnowfallThreshold] = useState("5");
   const [selectedOperatorName] = useState(prefilledOperatorName);
 
   // Snow Plowing Specific
@@ -129,6 +143,50 @@ export const CreateServiceRequest = () => {
     },
   });
 
+  const createSeriesMutation = useMutation({
+    mutationFn: async (data: { request: Record<string, unknown>; recurrence: Record<string, unknown> }) => {
+      return apiRequest("/api/request-series", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/request-series'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/service-requests'] });
+      queryClient.invalidateQueries({ 
+        predicate: (query) => 
+          query.queryKey[0]?.toString().startsWith('/api/service-requests/for-operator') || false
+      });
+      
+      toast({
+        title: "Recurring Request Created!",
+        description: "We'll send a new request to operators each time it comes due.",
+      });
+      setLocation(`/customer/request-status`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Submission Failed",
+        description: error.message || "Unable to set up your recurring request. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const today = new Date().toISOString().split("T")[0];
+  const canTriggerOnSnowfall = SNOWFALL_SERVICE_TYPES.includes(serviceType);
+  const seriesStartDate = showScheduleFields && preferredDate ? preferredDate : today;
+
+  // The schedule picked in the Repeat section, as a recurrence rule
+  const buildRecurrenceRule = (): RecurrenceRule => ({
+    freq: repeatFrequency === "monthly" ? "MONTHLY" : "WEEKLY",
+    interval: repeatFrequency === "biweekly" ? 2 : 1,
+    byDay: repeatFrequency === "monthly" ? [] : [repeatDay],
+    byMonthDay: repeatFrequency === "monthly" ? [Number(seriesStartDate.split("-")[2])] : [],
+    count: null,
+    until: repeatEndDate || null,
+  });
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length + images.length > 10) {
@@ -156,6 +214,27 @@ export const CreateServiceRequest = () => {
     setImagePreviews(imagePreviews.filter((_, i) => i !== index));
   };
 
+  // Instant price estimate for the service near the customer
+  const estimateServiceType = isProjectMode
+    ? (TIER_SERVICES.find(s => s.id === selectedServices[0])?.name || selectedServices[0])
+    : serviceType;
+  const estimateParams = estimateServiceType && userLocation
+    ? new URLSearchParams({
+        serviceType: estimateServiceType,
+        latitude: String(userLocation.coords.latitude),
+        longitude: String(userLocation.coords.longitude),
+        urgencyLevel,
+        isEmergency: String(isEmergency),
+        ...(snowAreaSize ? { areaSize: snowAreaSize } : {}),
+        ...(itemWeight ? { weight: itemWeight } : {}),
+      })
+    : null;
+  const { data: estimate } = useQuery<PriceEstimate>({
+    queryKey: [estimateParams ? `/api/estimates?${estimateParams}` : null],
+    enabled: !!estimateParams,
+  });
+  const hasEstimate = estimate?.low != null && estimate.high != null;
+
   const handleSubmit = () => {
     // For multi-service mode, check selectedServices; for single service mode, check serviceType
     const hasService = isProjectMode ? selectedServices.length > 0 : !!serviceType;
@@ -196,10 +275,18 @@ export const CreateServiceRequest = () => {
       return;
     }
 
+    const hasBudget = !!budgetMin || !!budgetMax;
+    if (hasBudget && (!budgetMin || !budgetMax || Number(budgetMin) > Number(budgetMax))) {
+      toast({
+        title: "Check Your Budget",
+        description: "Enter a minimum no more than your maximum, or leave both empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Determine the primary service type
-    const primaryServiceType = isProjectMode 
-      ? (TIER_SERVICES.find(s => s.id === selectedServices[0])?.name || selectedServices[0])
-      : serviceType;
+    const primaryServiceType = estimateServiceType;
     
     // Get service names for the serviceTypes array
     const serviceTypeNames = selectedServices.map(id => 
@@ -233,7 +320,15 @@ export const CreateServiceRequest = () => {
     if (showScheduleFields && preferredDate) requestData.preferredDate = preferredDate;
     if (showScheduleFields && preferredTime) requestData.preferredTime = preferredTime;
     if (timeFlexibility && timeFlexibility !== 'flexible') requestData.timeFlexibility = timeFlexibility;
-    if (budgetRange) requestData.budgetRange = budgetRange;
+    if (hasBudget) {
+      requestData.budgetMin = Number(budgetMin);
+      requestData.budgetMax = Number(budgetMax);
+    }
+    // The device's coordinates, when the service is at the customer's current address
+    if (userLocation && formattedAddress && locationAddress === formattedAddress) {
+      requestData.latitude = userLocation.coords.latitude;
+      requestData.longitude = userLocation.coords.longitude;
+    }
 
     // Add service-specific data
     if (serviceType === "Snow Plowing") {
@@ -273,6 +368,28 @@ export const CreateServiceRequest = () => {
       };
     }
 
+    if (isRecurring) {
+      const trigger = canTriggerOnSnowfall ? repeatTrigger : "schedule";
+      if (trigger === "snowfall" && !(Number(snowfallThreshold) > 0)) {
+        toast({
+          title: "Snowfall Amount Required",
+          description: "Enter how many centimetres of snow should trigger a visit.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Each generated request takes its date from the schedule
+      delete requestData.preferredDate;
+      createSeriesMutation.mutate({
+        request: requestData,
+        recurrence: trigger === "snowfall"
+          ? { trigger, thresholdCm: Number(snowfallThreshold), startDate: seriesStartDate, endDate: repeatEndDate || undefined }
+          : { trigger, rule: formatRecurrenceRule(buildRecurrenceRule()), startDate: seriesStartDate, endDate: repeatEndDate || undefined },
+      });
+      return;
+    }
+
     createRequestMutation.mutate(requestData);
   };
 
@@ -703,6 +820,123 @@ export const CreateServiceRequest = () => {
                   </div>
                 </div>
               )}
+
+              {/* Recurring Request Toggle - single, broadcast services only */}
+              {!isProjectMode && !isEmergency && !selectedOperatorId && (
+                <div className="bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <Repeat className="w-6 h-6 text-green-600 dark:text-green-400" />
+                      <div>
+                        <Label htmlFor="recurring-service" className="text-base font-semibold text-black dark:text-white cursor-pointer">
+                          Repeat
+                        </Label>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                          {canTriggerOnSnowfall ? "Repeat on a schedule or after every snowfall" : "Repeat this service on a regular schedule"}
+                        </p>
+                      </div>
+                    </div>
+                    <Switch
+                      id="recurring-service"
+                      checked={isRecurring}
+                      onCheckedChange={setIsRecurring}
+                      data-testid="switch-recurring-service"
+                    />
+                  </div>
+
+                  {isRecurring && (
+                    <div className="mt-4 space-y-4 animate-in slide-in-from-top duration-300">
+                      {canTriggerOnSnowfall && (
+                        <RadioGroup value={repeatTrigger} onValueChange={(value) => setRepeatTrigger(value as "schedule" | "snowfall")}>
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="schedule" id="repeat-schedule" data-testid="radio-repeat-schedule" />
+                            <Label htmlFor="repeat-schedule" className="font-normal">On a schedule</Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem value="snowfall" id="repeat-snowfall" data-testid="radio-repeat-snowfall" />
+                            <Label htmlFor="repeat-snowfall" className="font-normal">After every snowfall</Label>
+                          </div>
+                        </RadioGroup>
+                      )}
+
+                      {canTriggerOnSnowfall && repeatTrigger === "snowfall" ? (
+                        <div>
+                          <Label htmlFor="snowfall-threshold" className="text-black dark:text-white">
+                            Send a request after every
+                          </Label>
+                          <div className="flex items-center gap-2 mt-2">
+                            <Input
+                              id="snowfall-threshold"
+                              type="number"
+                              min={1}
+                              max={50}
+                              value={snowfallThreshold}
+                              onChange={(e) => setSnowfallThreshold(e.target.value)}
+                              className="w-24"
+                              data-testid="input-snowfall-threshold"
+                            />
+                            <span className="text-sm text-gray-600 dark:text-gray-400">cm of snow</span>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div>
+                            <Label className="text-black dark:text-white">Frequency</Label>
+                            <Select value={repeatFrequency} onValueChange={(value) => setRepeatFrequency(value as "weekly" | "biweekly" | "monthly")}>
+                              <SelectTrigger className="mt-2" data-testid="select-repeat-frequency">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="weekly">Every week</SelectItem>
+                                <SelectItem value="biweekly">Every 2 weeks</SelectItem>
+                                <SelectItem value="monthly">Every month</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {repeatFrequency !== "monthly" && (
+                            <div>
+                              <Label className="text-black dark:text-white">Day</Label>
+                              <Select value={repeatDay} onValueChange={(value) => setRepeatDay(value as Weekday)}>
+                                <SelectTrigger className="mt-2" data-testid="select-repeat-day">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {WEEKDAYS.map((day) => (
+                                    <SelectItem key={day} value={day}>
+                                      {WEEKDAY_NAMES[day]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <div>
+                        <Label htmlFor="repeat-end-date" className="text-black dark:text-white">
+                          End Date (optional)
+                        </Label>
+                        <Input
+                          id="repeat-end-date"
+                          type="date"
+                          min={seriesStartDate}
+                          value={repeatEndDate}
+                          onChange={(e) => setRepeatEndDate(e.target.value)}
+                          className="mt-2 md:w-1/2"
+                          data-testid="input-repeat-end-date"
+                        />
+                      </div>
+
+                      <p className="text-sm text-gray-600 dark:text-gray-400" data-testid="text-repeat-summary">
+                        {canTriggerOnSnowfall && repeatTrigger === "snowfall"
+                          ? `A new request goes out each time ${snowfallThreshold || "?"}cm of snow has fallen at your location.`
+                          : `${describeRecurrenceRule(buildRecurrenceRule())} - next: ${upcomingOccurrences(buildRecurrenceRule(), seriesStartDate, 3).join(", ") || "none"}`}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Service-Specific Fields */}
@@ -1140,36 +1374,75 @@ export const CreateServiceRequest = () => {
 
             {/* Budget */}
             <div>
-              <Label htmlFor="budget" className="text-black dark:text-white flex items-center gap-2">
+              <Label className="text-black dark:text-white flex items-center gap-2">
                 <DollarSign className="w-4 h-4" />
-                Budget Range (Optional)
+                Budget (Optional)
               </Label>
-              <Select value={budgetRange} onValueChange={setBudgetRange}>
-                <SelectTrigger className="mt-2" data-testid="select-budget">
-                  <SelectValue placeholder="Select your budget range" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="under-50">Under $50</SelectItem>
-                  <SelectItem value="50-100">$50 - $100</SelectItem>
-                  <SelectItem value="100-200">$100 - $200</SelectItem>
-                  <SelectItem value="200-500">$200 - $500</SelectItem>
-                  <SelectItem value="500-1000">$500 - $1,000</SelectItem>
-                  <SelectItem value="over-1000">Over $1,000</SelectItem>
-                  <SelectItem value="flexible">Flexible</SelectItem>
-                </SelectContent>
-              </Select>
+              {hasEstimate && (
+                <div className="mt-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-800" data-testid="price-estimate">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Typical price nearby: <span className="font-semibold text-black dark:text-white">${estimate.low} - ${estimate.high}</span>
+                    {" "}(median ${estimate.median})
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+                    Based on {estimate.sampleCount} nearby {estimate.sampleCount === 1 ? "price" : "prices"}
+                    {estimate.demandLevel === "surge" || estimate.demandLevel === "high" ? " - demand is high right now" : ""}
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => {
+                      setBudgetMin(String(estimate.low));
+                      setBudgetMax(String(estimate.high));
+                    }}
+                    data-testid="button-use-estimate"
+                  >
+                    Use this range
+                  </Button>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="Min"
+                    value={budgetMin}
+                    onChange={(e) => setBudgetMin(e.target.value)}
+                    className="pl-9"
+                    data-testid="input-budget-min"
+                  />
+                </div>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="Max"
+                    value={budgetMax}
+                    onChange={(e) => setBudgetMax(e.target.value)}
+                    className="pl-9"
+                    data-testid="input-budget-max"
+                  />
+                </div>
+              </div>
             </div>
 
             {/* Submit Button */}
             <div className="pt-6 border-t">
               <Button
                 onClick={handleSubmit}
-                disabled={createRequestMutation.isPending}
+                disabled={createRequestMutation.isPending || createSeriesMutation.isPending}
                 className="w-full bg-black text-white hover:bg-gray-800 dark:bg-white dark:text-black dark:hover:bg-gray-200"
                 size="lg"
                 data-testid="button-submit-request"
               >
-                {createRequestMutation.isPending ? (
+                {createRequestMutation.isPending || createSeriesMutation.isPending ? (
                   <>
                     <Loader2 className="w-5 h-5 mr-2 animate-spin" />
                     Submitting...
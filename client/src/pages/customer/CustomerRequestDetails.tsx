@@ -12,6 +12,7 @@ import { Header } from "@/components/Header";
 import { MobileBottomNav } from "@/components/MobileBottomNav";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { DisputePanel } from "@/components/DisputePanel";
 import {
   Dialog,
   DialogContent,
@@ -64,6 +65,7 @@ const STATUS_COLORS: Record<string, string> = {
   operator_declined: "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200",
   in_progress: "bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200",
   completed: "bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200",
+  disputed: "bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200",
   searching: "bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200",
   assigned: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200",
   cancelled: "bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-200"
@@ -77,6 +79,7 @@ const STATUS_LABELS: Record<string, string> = {
   operator_declined: "Declined by Operator",
   in_progress: "Job in Progress",
   completed: "Completed",
+  disputed: "In Dispute",
   searching: "Finding Operators",
   assigned: "Operator Assigned",
   cancelled: "Cancelled"
@@ -619,6 +622,10 @@ export default function CustomerRequestDetails() {
               </Card>
             )}
 
+            {(isCompleted || request.status === "disputed") && (
+              <DisputePanel requestId={requestId} />
+            )}
+
             {isCancelled && (
               <Card className="p-4 md:p-6 bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600">
                 <div className="flex items-start gap-3">
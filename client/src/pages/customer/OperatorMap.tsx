@@ -278,6 +278,12 @@ export const OperatorMap = () => {
     queryKey: [`/api/favorites/${customerId}`],
   });
 
+  // Service zones, coloured by demand
+  const { data: zones } = useQuery<GeoJSON.FeatureCollection>({
+    queryKey: ['/api/zones'],
+    refetchInterval: 2 * 60 * 1000,
+  });
+
   const createServiceRequestMutation = useMutation({
     mutationFn: async (operatorCard: any) => {
       // Use tier card's services (already merged for this tier)
@@ -559,6 +565,40 @@ export const OperatorMap = () => {
     mapRef.current.setStyle(getMapStyle());
   }, [mapStyle, mapLoaded, isDarkMode, getMapStyle]);
 
+  // Draw service zones under the operator markers
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded || !zones) return;
+
+    // setStyle drops sources and layers, so the zones are added again after each style load
+    const drawZones = () => {
+      const source = map.getSource('service-zones') as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(zones);
+        return;
+      }
+      map.addSource('service-zones', { type: 'geojson', data: zones });
+      map.addLayer({
+        id: 'service-zones-fill',
+        type: 'fill',
+        source: 'service-zones',
+        paint: { 'fill-color': ['get', 'color'], 'fill-opacity': 0.12 }
+      });
+      map.addLayer({
+        id: 'service-zones-outline',
+        type: 'line',
+        source: 'service-zones',
+        paint: { 'line-color': ['get', 'borderColor'], 'line-width': 1.5, 'line-opacity': 0.7 }
+      });
+    };
+
+    if (map.isStyleLoaded()) drawZones();
+    map.on('style.load', drawZones);
+    return () => {
+      map.off('style.load', drawZones);
+    };
+  }, [zones, mapLoaded]);
+
   // Update map center and user location marker when coordinates change
   useEffect(() => {
     if (!mapRef.current || !mapLoaded) return;
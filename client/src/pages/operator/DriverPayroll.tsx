@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, DollarSign, Users, Calendar, CheckCircle, Download, FileText, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+
+type PayType = "commission" | "hourly";
+
+interface DriverPaySettings {
+  operatorId: string;
+  driverName: string;
+  payType: PayType;
+  commissionPercent: number | null;
+  hourlyRate: number | null;
+  isDefault: boolean;
+}
+
+interface PayrollStatement {
+  statementId: string;
+  operatorId: string;
+  driverName: string;
+  payType: PayType;
+  commissionPercent: string | null;
+  hourlyRate: string | null;
+  jobCount: number;
+  hoursWorked: string;
+  grossEarnings: string;
+  driverPay: string;
+  status: "draft" | "paid" | "no_wallet";
+}
+
+interface PayrollPeriod {
+  payrollPeriodId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: "draft" | "approved";
+  totalGrossEarnings: string;
+  totalDriverPay: string;
+  approvedAt: string | null;
+  statements?: PayrollStatement[];
+}
+
+const STATEMENT_STATUS_LABELS: Record<PayrollStatement["status"], string> = {
+  draft: "Draft",
+  paid: "Paid to wallet",
+  no_wallet: "No Fleetly account",
+};
+
+function DriverRateRow({ businessId, driver }: { businessId: string; driver: DriverPaySettings }) {
+  const { toast } = useToast();
+  const [payType, setPayType] = useState<PayType>(driver.payType);
+  const [value, setValue] = useState(
+    String((driver.payType === "hourly" ? driver.hourlyRate : driver.commissionPercent) ?? "")
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/business/${businessId}/payroll/drivers/${driver.operatorId}/rate`, {
+      method: "PUT",
+      body: JSON.stringify(payType === "hourly" ? { payType, hourlyRate: value } : { payType, commissionPercent: value }),
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/business/${businessId}/payroll/drivers`] });
+      toast({ title: "Pay rate saved", description: `${driver.driverName}'s split has been updated.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save pay rate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-end gap-3 py-3 border-b border-gray-100 dark:border-gray-800 last:border-0" data-testid={`driver-rate-${driver.operatorId}`}>
+      <div className="flex-1">
+        <p className="font-medium">{driver.driverName}</p>
+        <p className="text-xs text-muted-foreground">
+          {driver.operatorId}
+          {driver.isDefault && " · default split"}
+        </p>
+      </div>
+      <div className="w-36">
+        <Label className="text-xs">Pay type</Label>
+        <Select value={payType} onValueChange={(v) => setPayType(v as PayType)}>
+          <SelectTrigger data-testid={`select-pay-type-${driver.operatorId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="commission">Commission</SelectItem>
+            <SelectItem value="hourly">Hourly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="w-32">
+        <Label className="text-xs">{payType === "hourly" ? "$ / hour" : "% of earnings"}</Label>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          data-testid={`input-pay-rate-${driver.operatorId}`}
+        />
+      </div>
+      <Button
+        size="sm"
+        onClick={() => saveMutation.mutate()}
+        disabled={!value || saveMutation.isPending}
+        data-testid={`button-save-rate-${driver.operatorId}`}
+      >
+        Save
+      </Button>
+    </div>
+  );
+}
+
+export default function DriverPayroll() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  const businessId = user?.businessId;
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string | null>(null);
+
+  const { data: drivers = [], isLoading: isLoadingDrivers } = useQuery<DriverPaySettings[]>({
+    queryKey: [`/api/business/${businessId}/payroll/drivers`],
+    enabled: !!businessId,
+  });
+
+  const { data: periods = [], isLoading: isLoadingPeriods } = useQuery<PayrollPeriod[]>({
+    queryKey: [`/api/business/${businessId}/payroll/periods`],
+    enabled: !!businessId,
+  });
+
+  const { data: selectedPeriod } = useQuery<PayrollPeriod>({
+    queryKey: [`/api/business/${businessId}/payroll/periods/${selectedPeriodId}`],
+    enabled: !!businessId && !!selectedPeriodId,
+  });
+
+  const invalidatePeriods = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/business/${businessId}/payroll/periods`] });
+    if (selectedPeriodId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/business/${businessId}/payroll/periods/${selectedPeriodId}`] });
+    }
+  };
+
+  const createPeriodMutation = useMutation({
+    // Period end is exclusive, so include the whole of the chosen end date
+    mutationFn: () => apiRequest(`/api/business/${businessId}/payroll/periods`, {
+      method: "POST",
+      body: JSON.stringify({
+        periodStart: new Date(`${periodStart}T00:00:00`).toISOString(),
+        periodEnd: new Date(new Date(`${periodEnd}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+      }),
+    }),
+    onSuccess: (period: PayrollPeriod) => {
+      invalidatePeriods();
+      setSelectedPeriodId(period.payrollPeriodId);
+      toast({ title: "Payroll draft created", description: "Review the statements before approving." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create payroll period", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (payrollPeriodId: string) => apiRequest(`/api/business/${businessId}/payroll/periods/${payrollPeriodId}/approve`, {
+      method: "POST",
+    }),
+    onSuccess: () => {
+      invalidatePeriods();
+      toast({ title: "Payroll approved", description: "Driver pay has been deposited into their wallets." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not approve payroll", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (payrollPeriodId: string) => apiRequest(`/api/business/${businessId}/payroll/periods/${payrollPeriodId}`, {
+      method: "DELETE",
+    }),
+    onSuccess: () => {
+      setSelectedPeriodId(null);
+      invalidatePeriods();
+    },
+  });
+
+  const formatPeriod = (period: PayrollPeriod) =>
+    `${format(new Date(period.periodStart), "MMM d")} – ${format(new Date(new Date(period.periodEnd).getTime() - 1), "MMM d, yyyy")}`;
+
+  const stubUrl = (statementId: string, fileFormat: "csv" | "pdf") =>
+    `/api/business/${businessId}/payroll/statements/${statementId}/stub?format=${fileFormat}`;
+
+  if (!businessId) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 flex items-center justify-center">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-3">
+            <Users className="h-10 w-10 mx-auto text-muted-foreground" />
+            <p className="font-medium">Driver payroll needs a business account</p>
+            <p className="text-sm text-muted-foreground">Set up your business from the Professional tier to pay your drivers.</p>
+            <Button onClick={() => setLocation("/operator")} data-testid="button-back-dashboard">Back to Dashboard</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoadingDrivers || isLoadingPeriods) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+        <div className="max-w-4xl mx-auto space-y-4">
+          <Skeleton className="h-10 w-48" />
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 pb-20">
+      <div className="sticky top-0 z-50 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-4xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLocation("/operator")}
+            data-testid="button-back"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="font-semibold text-lg">Driver Payroll</h1>
+            <p className="text-sm text-muted-foreground">
+              Pay your drivers from their completed jobs
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Driver Pay Rates
+            </CardTitle>
+            <CardDescription>Commission is a share of each job's earnings; hourly pays for time from job start to completion</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {drivers.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No drivers are attached to your business yet</p>
+            ) : (
+              drivers.map((driver) => (
+                <DriverRateRow key={driver.operatorId} businessId={businessId} driver={driver} />
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Run Payroll
+            </CardTitle>
+            <CardDescription>Build draft statements from jobs completed in the period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+              <div className="flex-1">
+                <Label htmlFor="period-start">From</Label>
+                <Input id="period-start" type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} data-testid="input-period-start" />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor="period-end">To</Label>
+                <Input id="period-end" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} data-testid="input-period-end" />
+              </div>
+              <Button
+                onClick={() => createPeriodMutation.mutate()}
+                disabled={!periodStart || !periodEnd || createPeriodMutation.isPending}
+                data-testid="button-create-period"
+              >
+                Create Draft
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Pay Periods
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {periods.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No payroll has been run yet</p>
+            ) : (
+              periods.map((period) => (
+                <button
+                  key={period.payrollPeriodId}
+                  className={`w-full flex items-center justify-between rounded-lg border p-3 text-left transition-colors ${
+                    selectedPeriodId === period.payrollPeriodId ? "border-primary bg-primary/5" : "hover:bg-gray-50 dark:hover:bg-gray-800"
+                  }`}
+                  onClick={() => setSelectedPeriodId(period.payrollPeriodId)}
+                  data-testid={`period-${period.payrollPeriodId}`}
+                >
+                  <div>
+                    <p className="font-medium text-sm">{formatPeriod(period)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      ${period.totalDriverPay} driver pay of ${period.totalGrossEarnings} earned
+                    </p>
+                  </div>
+                  <Badge variant={period.status === "approved" ? "default" : "outline"}>
+                    {period.status === "approved" ? "Approved" : "Draft"}
+                  </Badge>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedPeriod && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <CardTitle>Statements</CardTitle>
+                  <CardDescription>{formatPeriod(selectedPeriod)}</CardDescription>
+                </div>
+                {selectedPeriod.status === "approved" && selectedPeriod.statements?.some(statement => statement.status === "draft") && (
+                  <Button
+                    size="sm"
+                    onClick={() => approveMutation.mutate(selectedPeriod.payrollPeriodId)}
+                    disabled={approveMutation.isPending}
+                    data-testid="button-retry-period"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Pay Unpaid Drivers
+                  </Button>
+                )}
+                {selectedPeriod.status === "draft" && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => discardMutation.mutate(selectedPeriod.payrollPeriodId)}
+                      disabled={discardMutation.isPending}
+                      data-testid="button-discard-period"
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => approveMutation.mutate(selectedPeriod.payrollPeriodId)}
+                      disabled={approveMutation.isPending}
+                      data-testid="button-approve-period"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Approve & Pay
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {(selectedPeriod.statements || []).map((statement) => (
+                <div key={statement.statementId} className="rounded-lg border p-3" data-testid={`statement-${statement.statementId}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div>
+                      <p className="font-medium">{statement.driverName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {statement.payType === "hourly" ? `$${statement.hourlyRate}/hour` : `${statement.commissionPercent}% commission`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-lg font-semibold">${statement.driverPay}</p>
+                      <Badge variant="outline" className="text-xs">{STATEMENT_STATUS_LABELS[statement.status]}</Badge>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-center text-xs text-muted-foreground mb-2">
+                    <div>{statement.jobCount} jobs</div>
+                    <div>{statement.hoursWorked} hours</div>
+                    <div>${statement.grossEarnings} earned</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={stubUrl(statement.statementId, "csv")} data-testid={`link-stub-csv-${statement.statementId}`}>
+                        <Download className="h-4 w-4 mr-1" />
+                        CSV
+                      </a>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={stubUrl(statement.statementId, "pdf")} data-testid={`link-stub-pdf-${statement.statementId}`}>
+                        <FileText className="h-4 w-4 mr-1" />
+                        PDF
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,67 +1,64 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/enhanced-button";
 import { Badge } from "@/components/ui/badge";
-import { Truck, DollarSign, Wrench, TrendingUp, ArrowLeft, Fuel, MapPin, Clock } from "lucide-react";
+import { Truck, DollarSign, TrendingUp, ArrowLeft, Clock, Star } from "lucide-react";
 import { Header } from "@/components/Header";
 import { MobileBottomNav } from "@/components/MobileBottomNav";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLocation } from "wouter";
 
-// Mock vehicle data
-const vehicles = [
-  {
-    id: "VEH-001",
-    name: "Truck #1",
-    type: "Pickup Truck",
-    status: "active",
-    todayEarnings: 220,
-    todayJobs: 8,
-    utilization: 85,
-    mileage: 12500,
-    lastMaintenance: "2024-10-15",
-    nextMaintenance: "Oil change in 200km",
-    fuelEfficiency: "12.5 L/100km",
-    avgRating: 4.8
-  },
-  {
-    id: "VEH-002",
-    name: "Truck #2",
-    type: "Box Truck",
-    status: "active",
-    todayEarnings: 280,
-    todayJobs: 10,
-    utilization: 92,
-    mileage: 8200,
-    lastMaintenance: "2024-11-01",
-    nextMaintenance: "All clear",
-    fuelEfficiency: "15.2 L/100km",
-    avgRating: 4.9
-  },
-  {
-    id: "VEH-003",
-    name: "Truck #3",
-    type: "Flatbed Truck",
-    status: "maintenance",
-    todayEarnings: 0,
-    todayJobs: 0,
-    utilization: 0,
-    mileage: 15800,
-    lastMaintenance: "2024-11-20",
-    nextMaintenance: "Under service",
-    fuelEfficiency: "14.1 L/100km",
-    avgRating: 4.7
-  }
-];
+type AnalyticsPeriod = "today" | "week" | "month";
+
+interface VehicleAnalytics {
+  vehicleId: string;
+  name: string;
+  vehicleType: string;
+  operatorId: string;
+  isActive: boolean;
+  revenue: number;
+  jobsCompleted: number;
+  averageRating: number | null;
+  activeHours: number;
+  utilization: number;
+}
+
+interface BusinessAnalytics {
+  totals: { revenue: number; jobsCompleted: number; utilization: number };
+  vehicleCount: number;
+  activeVehicles: number;
+}
+
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  today: "Today",
+  week: "Last 7 days",
+  month: "Last 30 days",
+};
 
 export default function FleetAnalytics() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
-  const [selectedPeriod, setSelectedPeriod] = useState<"today" | "week" | "month">("today");
+  const [selectedPeriod, setSelectedPeriod] = useState<AnalyticsPeriod>("today");
+
+  const businessId = user?.businessId;
 
-  const totalEarnings = vehicles.reduce((sum, v) => sum + v.todayEarnings, 0);
-  const totalJobs = vehicles.reduce((sum, v) => sum + v.todayJobs, 0);
-  const avgUtilization = Math.round(vehicles.reduce((sum, v) => sum + v.utilization, 0) / vehicles.length);
+  const { data: overview } = useQuery<BusinessAnalytics>({
+    queryKey: [`/api/business/${businessId}/analytics?range=${selectedPeriod}`],
+    enabled: !!businessId,
+  });
+
+  const { data: vehicleData, isLoading } = useQuery<{ vehicles: VehicleAnalytics[] }>({
+    queryKey: [`/api/business/${businessId}/analytics/vehicles?range=${selectedPeriod}`],
+    enabled: !!businessId,
+  });
+
+  const vehicles = vehicleData?.vehicles || [];
+  const totalEarnings = overview?.totals.revenue ?? 0;
+  const totalJobs = overview?.totals.jobsCompleted ?? 0;
+  const avgUtilization = vehicles.length > 0
+    ? Math.round(vehicles.reduce((sum, v) => sum + v.utilization, 0) / vehicles.length)
+    : 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-50 dark:from-gray-900 dark:via-blue-950 dark:to-gray-900">
@@ -87,6 +84,20 @@ export default function FleetAnalytics() {
             </div>
             <Badge className="bg-blue-600 text-white text-lg px-4 py-2">15KM RADIUS</Badge>
           </div>
+          
+          <div className="flex gap-2 mt-4">
+            {(Object.keys(PERIOD_LABELS) as AnalyticsPeriod[]).map((period) => (
+              <Button
+                key={period}
+                size="sm"
+                variant={selectedPeriod === period ? "default" : "outline"}
+                onClick={() => setSelectedPeriod(period)}
+                data-testid={`button-period-${period}`}
+              >
+                {PERIOD_LABELS[period]}
+              </Button>
+            ))}
+          </div>
         </div>
 
         {/* Fleet Overview Cards */}
@@ -98,7 +109,7 @@ export default function FleetAnalytics() {
                 <DollarSign className="w-5 h-5 text-green-600" />
               </div>
               <p className="text-3xl font-bold text-black dark:text-white">${totalEarnings}</p>
-              <p className="text-xs text-green-600 mt-1">Today</p>
+              <p className="text-xs text-green-600 mt-1">{PERIOD_LABELS[selectedPeriod]}</p>
             </CardContent>
           </Card>
 
@@ -130,49 +141,56 @@ export default function FleetAnalytics() {
                 <p className="text-sm text-gray-600 dark:text-gray-400">Active Vehicles</p>
                 <Truck className="w-5 h-5 text-orange-600" />
               </div>
-              <p className="text-3xl font-bold text-black dark:text-white">2/3</p>
-              <p className="text-xs text-orange-600 mt-1">1 in maintenance</p>
+              <p className="text-3xl font-bold text-black dark:text-white">{overview?.activeVehicles ?? 0}/{overview?.vehicleCount ?? 0}</p>
+              <p className="text-xs text-orange-600 mt-1">Set as active</p>
             </CardContent>
           </Card>
         </div>
 
         {/* Vehicle Breakdown */}
         <div className="space-y-4">
+          {!isLoading && vehicles.length === 0 && (
+            <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl">
+              <CardContent className="p-8 text-center text-gray-600 dark:text-gray-400">
+                No vehicles registered for your business yet
+              </CardContent>
+            </Card>
+          )}
           {vehicles.map((vehicle) => (
             <Card
-              key={vehicle.id}
+              key={vehicle.vehicleId}
               className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl border-2 ${
-                vehicle.status === "active"
+                vehicle.isActive
                   ? "border-green-200 dark:border-green-800"
                   : "border-orange-200 dark:border-orange-800"
               }`}
-              data-testid={`vehicle-card-${vehicle.id}`}
+              data-testid={`vehicle-card-${vehicle.vehicleId}`}
             >
               <CardHeader>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
-                      vehicle.status === "active" 
+                      vehicle.isActive 
                         ? "bg-green-100 dark:bg-green-900" 
                         : "bg-orange-100 dark:bg-orange-900"
                     }`}>
                       <Truck className={`w-6 h-6 ${
-                        vehicle.status === "active"
+                        vehicle.isActive
                           ? "text-green-600 dark:text-green-400"
                           : "text-orange-600 dark:text-orange-400"
                       }`} />
                     </div>
                     <div>
                       <CardTitle className="text-black dark:text-white">{vehicle.name}</CardTitle>
-                      <CardDescription>{vehicle.type}</CardDescription>
+                      <CardDescription>{vehicle.vehicleType}</CardDescription>
                     </div>
                   </div>
                   <Badge className={
-                    vehicle.status === "active" 
+                    vehicle.isActive 
                       ? "bg-green-600 text-white" 
                       : "bg-orange-600 text-white"
                   }>
-                    {vehicle.status.toUpperCase()}
+                    {vehicle.isActive ? "ACTIVE" : "STANDBY"}
                   </Badge>
                 </div>
               </CardHeader>
@@ -183,10 +201,10 @@ export default function FleetAnalytics() {
                   <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
                       <DollarSign className="w-4 h-4 text-green-600" />
-                      <span className="text-xs text-gray-600 dark:text-gray-400">Today's Earnings</span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">Earnings</span>
                     </div>
-                    <p className="text-2xl font-bold text-black dark:text-white">${vehicle.todayEarnings}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{vehicle.todayJobs} jobs</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">${vehicle.revenue}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{vehicle.jobsCompleted} jobs</p>
                   </div>
 
                   {/* Utilization */}
@@ -204,24 +222,26 @@ export default function FleetAnalytics() {
                     </div>
                   </div>
 
-                  {/* Maintenance */}
+                  {/* Time on Jobs */}
                   <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
-                      <Wrench className="w-4 h-4 text-orange-600" />
-                      <span className="text-xs text-gray-600 dark:text-gray-400">Maintenance</span>
+                      <Clock className="w-4 h-4 text-orange-600" />
+                      <span className="text-xs text-gray-600 dark:text-gray-400">Time on Jobs</span>
                     </div>
-                    <p className="text-sm font-semibold text-black dark:text-white">{vehicle.nextMaintenance}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Last: {vehicle.lastMaintenance}</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">{vehicle.activeHours}h</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Start to completion</p>
                   </div>
 
-                  {/* Fuel Efficiency */}
+                  {/* Rating */}
                   <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
-                      <Fuel className="w-4 h-4 text-purple-600" />
-                      <span className="text-xs text-gray-600 dark:text-gray-400">Fuel Efficiency</span>
+                      <Star className="w-4 h-4 text-purple-600" />
+                      <span className="text-xs text-gray-600 dark:text-gray-400">Rating</span>
                     </div>
-                    <p className="text-sm font-semibold text-black dark:text-white">{vehicle.fuelEfficiency}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Rating: {vehicle.avgRating}⭐</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">
+                      {vehicle.averageRating !== null ? `${vehicle.averageRating}⭐` : "—"}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Jobs in this period</p>
                   </div>
                 </div>
               </CardContent>
@@ -68,11 +68,15 @@ export default function ManualOperatorDashboard() {
   // ALL MOCK DATA REMOVED - Dashboard is now 100% dynamic
   // Requests come from database via /api/service-requests/for-operator endpoint
 
-  // Customer groups - empty by default, would come from backend when implemented
-  const mockCustomerGroups: CustomerGroup[] = [];
-
   // Use operator-specific endpoint that filters by tier and radius
   const operatorId = user?.operatorId || "OP-MANUAL-001";
+
+  // Nearby requests clustered into customer groups by the server's grouping job
+  const customerGroupsKey = `/api/operators/${operatorId}/customer-groups`;
+  const { data: customerGroups = [] } = useQuery<CustomerGroup[]>({
+    queryKey: [customerGroupsKey],
+    enabled: !!operatorId,
+  });
   
   // Fetch operator data to get current online status
   const { data: operatorData } = useQuery<Operator>({
@@ -306,34 +310,56 @@ export default function ManualOperatorDashboard() {
 
   // Old handler removed - now using acceptRequestMutation
 
+  const acceptGroupMutation = useMutation({
+    mutationFn: async ({ groupId, requestIds }: { groupId: string; requestIds?: string[] }) => {
+      return await apiRequest(`${customerGroupsKey}/${groupId}/accept`, {
+        method: "POST",
+        body: JSON.stringify({ requestIds }),
+      }) as { accepted: Array<{ requestId: string; acceptedJobId: string }>; unavailable: string[] };
+    },
+    onSuccess: (result, { groupId }) => {
+      const group = customerGroups.find(g => g.id === groupId);
+      // Partial acceptance still removes the group from view
+      setAcceptedGroupIds(prev => [...prev, groupId]);
+      queryClient.invalidateQueries({ queryKey: [customerGroupsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accepted-jobs"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/for-operator/${operatorId}`] });
+      toast({
+        title: "Jobs Accepted!",
+        description: result.unavailable.length > 0
+          ? `Accepted ${result.accepted.length} jobs${group ? ` in ${group.location}` : ""}. ${result.unavailable.length} were taken by other operators.`
+          : `Accepted ${result.accepted.length} jobs${group ? ` in ${group.location}` : ""}. Added to your active jobs.`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: [customerGroupsKey] });
+      toast({
+        title: "Error Accepting Group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAcceptGroup = (groupId: string) => {
-    const group = mockCustomerGroups.find(g => g.id === groupId);
-    if (!group) return;
-    
-    // Mark group as accepted
-    setAcceptedGroupIds(prev => [...prev, groupId]);
-    
-    // In production, send bulk accept to backend and add to active jobs
-    toast({
-      title: "Jobs Accepted!",
-      description: `Successfully accepted ${group.customerCount} jobs in ${group.location}. Added to your active jobs.`,
-    });
-    
-    // In production, this would invalidate queries and refetch
+    acceptGroupMutation.mutate({ groupId });
   };
 
   const handleAcceptCustomers = (groupId: string, customerIndices: number[]) => {
-    const group = mockCustomerGroups.find(g => g.id === groupId);
+    const group = customerGroups.find(g => g.id === groupId);
     if (!group) return;
-    
-    // Mark group as accepted (partial acceptance still removes the group from view)
-    setAcceptedGroupIds(prev => [...prev, groupId]);
-    
-    // In production, send selective accept to backend with customer indices
-    toast({
-      title: "Customers Accepted!",
-      description: `Accepted ${customerIndices.length} of ${group.customerCount} jobs in ${group.location}`,
-    });
+
+    const requestIds = customerIndices
+      .map(index => group.customers[index]?.requestId)
+      .filter((requestId): requestId is string => !!requestId);
+    acceptGroupMutation.mutate({ groupId, requestIds });
+  };
+
+  const handleDeclineGroup = (groupId: string) => {
+    // The group stays open to other operators; the server just stops offering it to this one
+    apiRequest(`${customerGroupsKey}/${groupId}/decline`, { method: "POST" })
+      .then(() => queryClient.invalidateQueries({ queryKey: [customerGroupsKey] }))
+      .catch(error => console.error("Failed to decline customer group:", error));
   };
 
   // Request handlers - for both urgent and regular requests
@@ -501,7 +527,7 @@ export default function ManualOperatorDashboard() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-xs md:text-sm text-gray-600 dark:text-gray-400 mb-1">Customer Groups</p>
-                  <p className="text-xl md:text-2xl font-bold text-black dark:text-white">{mockCustomerGroups.length}</p>
+                  <p className="text-xl md:text-2xl font-bold text-black dark:text-white">{customerGroups.length}</p>
                 </div>
                 <Users style={{ width: 'clamp(1.125rem, 4vw, 1.5rem)', height: 'clamp(1.125rem, 4vw, 1.5rem)' }} className="text-orange-600" />
               </div>
@@ -758,9 +784,10 @@ export default function ManualOperatorDashboard() {
               <CollapsibleContent>
                 <CardContent>
                   <CustomerGrouping 
-                    groups={mockCustomerGroups}
+                    groups={customerGroups}
                     onAcceptGroup={handleAcceptGroup}
                     onAcceptCustomers={handleAcceptCustomers}
+                    onDeclineGroup={handleDeclineGroup}
                     acceptedGroupIds={acceptedGroupIds}
                     operatorJobCount={unlockStatus?.jobsCompleted || 0}
                     minimumJobsRequired={unlockStatus?.minimumJobsRequired || 5}
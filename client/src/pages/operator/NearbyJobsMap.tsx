@@ -46,6 +46,25 @@ interface ServiceRequest {
   quoteWindowExpiresAt?: string | null;
 }
 
+// Visit order for the operator's accepted jobs, from /api/operators/:operatorId/route
+interface JobRoute {
+  stops: Array<{
+    sequence: number;
+    acceptedJobId: string;
+    serviceType: string | null;
+    location: string | null;
+    latitude: number;
+    longitude: number;
+    distanceKm: number;
+    eta: string;
+    lateMinutes: number;
+  }>;
+  totalDistanceKm: number;
+  totalMinutes: number;
+  finishAt: string;
+  geometry: { type: "LineString"; coordinates: Array<[number, number]> };
+}
+
 export default function NearbyJobsMap() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
@@ -169,6 +188,18 @@ export default function NearbyJobsMap() {
     enabled: !!operatorId,
   });
 
+  // Fetch the planned route through the operator's accepted jobs
+  const { data: jobRoute } = useQuery<JobRoute>({
+    queryKey: [`/api/operators/${operatorId}/route`],
+    enabled: !!operatorId,
+  });
+
+  // Service zones, with their live operator and open request counts
+  const { data: zones } = useQuery<GeoJSON.FeatureCollection>({
+    queryKey: ["/api/zones"],
+    refetchInterval: 2 * 60 * 1000,
+  });
+
   // Fetch operator data to get home location and tier profiles
   const { data: operatorData } = useQuery<{
     homeLatitude?: number;
@@ -232,6 +263,59 @@ export default function NearbyJobsMap() {
     map.current.on('load', () => {
       if (!map.current) return;
       
+      // Service zones, coloured by demand; zones closed to the operator's tier are faded
+      map.current.addSource('service-zones', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'service-zones-fill',
+        type: 'fill',
+        source: 'service-zones',
+        paint: {
+          'fill-color': ['get', 'color'],
+          'fill-opacity': ['case', ['get', 'tierAllowed'], 0.15, 0.05]
+        }
+      });
+
+      map.current.addLayer({
+        id: 'service-zones-outline',
+        type: 'line',
+        source: 'service-zones',
+        paint: {
+          'line-color': ['get', 'borderColor'],
+          'line-width': 1.5,
+          'line-opacity': ['case', ['get', 'tierAllowed'], 0.8, 0.4]
+        }
+      });
+
+      map.current.on('click', 'service-zones-fill', (e) => {
+        const zone = e.features?.[0]?.properties;
+        if (!map.current || !zone) return;
+
+        // Zone names come from admins and imported files, so they are set as text
+        const popupContent = document.createElement('div');
+        popupContent.className = 'p-2';
+        const lines: Array<[string, string]> = [
+          ['font-semibold', String(zone.name)],
+          ['text-sm text-gray-600', `${zone.pendingJobs} open requests · ${zone.activeOperators} operators`],
+          ['text-xs capitalize', `${zone.demandLevel} demand`],
+        ];
+        if (!zone.tierAllowed) lines.push(['text-xs text-red-600', 'Your tier cannot take jobs in this zone']);
+        lines.forEach(([className, text]) => {
+          const line = document.createElement('p');
+          line.className = className;
+          line.textContent = text;
+          popupContent.appendChild(line);
+        });
+
+        new mapboxgl.Popup()
+          .setLngLat(e.lngLat)
+          .setDOMContent(popupContent)
+          .addTo(map.current);
+      });
+
       // Add empty source for radius circle (will be updated by separate effect)
       map.current.addSource('operating-radius', {
         type: 'geojson',
@@ -268,6 +352,51 @@ export default function NearbyJobsMap() {
         }
       });
 
+      // Route through accepted jobs, with numbered stops
+      map.current.addSource('job-route', {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+
+      map.current.addLayer({
+        id: 'job-route-line',
+        type: 'line',
+        source: 'job-route',
+        filter: ['==', '$type', 'LineString'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#16a34a',
+          'line-width': 4,
+          'line-opacity': 0.8
+        }
+      });
+
+      map.current.addLayer({
+        id: 'job-route-stops',
+        type: 'circle',
+        source: 'job-route',
+        filter: ['==', '$type', 'Point'],
+        paint: {
+          'circle-radius': 10,
+          'circle-color': '#16a34a',
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2
+        }
+      });
+
+      map.current.addLayer({
+        id: 'job-route-stop-numbers',
+        type: 'symbol',
+        source: 'job-route',
+        filter: ['==', '$type', 'Point'],
+        layout: {
+          'text-field': ['to-string', ['get', 'sequence']],
+          'text-size': 12,
+          'text-allow-overlap': true
+        },
+        paint: { 'text-color': '#ffffff' }
+      });
+
       setMapLoaded(true);
     });
 
@@ -335,6 +464,50 @@ export default function NearbyJobsMap() {
     }
   }, [currentLocation, operatorData, operatingRadiusKm, mapLoaded]);
 
+  // Refresh service zones as their counts change
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const source = map.current.getSource('service-zones') as mapboxgl.GeoJSONSource;
+    if (!source) return;
+
+    source.setData({
+      type: 'FeatureCollection',
+      features: (zones?.features || []).map(feature => ({
+        ...feature,
+        properties: {
+          ...feature.properties,
+          tierAllowed: ((feature.properties?.allowedTiers as string[]) || []).includes(currentTier)
+        }
+      }))
+    });
+  }, [zones, currentTier, mapLoaded]);
+
+  // Draw the planned route and its stop order
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+
+    const source = map.current.getSource('job-route') as mapboxgl.GeoJSONSource;
+    if (!source) return;
+
+    if (!jobRoute || jobRoute.stops.length === 0) {
+      source.setData({ type: 'FeatureCollection', features: [] });
+      return;
+    }
+
+    source.setData({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: {}, geometry: jobRoute.geometry },
+        ...jobRoute.stops.map(stop => ({
+          type: 'Feature' as const,
+          properties: { sequence: stop.sequence },
+          geometry: { type: 'Point' as const, coordinates: [stop.longitude, stop.latitude] }
+        }))
+      ]
+    });
+  }, [jobRoute, mapLoaded]);
+
   // Add job markers when data loads
   useEffect(() => {
     if (!map.current || nearbyJobs.length === 0) return;
@@ -562,6 +735,14 @@ export default function NearbyJobsMap() {
                   <span className="w-2 h-2 rounded-full bg-red-600"></span>
                   <span className="text-gray-700 dark:text-gray-300">SOS</span>
                 </div>
+                {jobRoute && jobRoute.stops.length > 0 && (
+                  <div className="flex items-center gap-1.5" data-testid="legend-route">
+                    <span className="w-2 h-2 rounded-full bg-green-600"></span>
+                    <span className="text-gray-700 dark:text-gray-300">
+                      Route: {jobRoute.stops.length} stops · {jobRoute.totalDistanceKm.toFixed(1)} km · done by {new Date(jobRoute.finishAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           )}
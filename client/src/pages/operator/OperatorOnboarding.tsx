@@ -36,6 +36,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { OPERATOR_TIER_INFO, SERVICE_AREA_LIMITS, type OperatorTier, type Operator } from "@shared/schema";
 import { AuthDialog } from "@/components/AuthDialog";
+import { EmailVerificationCard } from "@/components/EmailVerificationCard";
 import { useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { geocodeAddress } from "@/lib/geocoding";
@@ -660,7 +661,8 @@ export const OperatorOnboarding = () => {
         });
 
         if (!response.ok) {
-          throw new Error("Failed to add tier");
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.message || "Failed to add tier");
         }
       } else {
         // New operator registration - build complete payload for server
@@ -723,7 +725,7 @@ export const OperatorOnboarding = () => {
       console.error("Registration error:", error);
       toast({
         title: "Registration Failed",
-        description: "Something went wrong. Please try again.",
+        description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -843,6 +845,11 @@ export const OperatorOnboarding = () => {
 
       {/* Main Content */}
       <div className="max-w-2xl mx-auto px-4 py-8">
+        {user && !user.emailVerified && (
+          <div className="mb-6">
+            <EmailVerificationCard />
+          </div>
+        )}
         <Card className="border-0 shadow-xl bg-white dark:bg-gray-900 rounded-2xl overflow-hidden">
           <CardHeader className="bg-gradient-to-br from-gray-50 to-white dark:from-gray-800 dark:to-gray-900 border-b border-gray-100 dark:border-gray-800 pb-6">
             <div className="flex items-start gap-4">
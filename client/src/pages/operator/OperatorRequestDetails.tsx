@@ -45,6 +45,7 @@ import {
   Navigation,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { DisputePanel } from "@/components/DisputePanel";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/contexts/AuthContext";
 import { formatDistanceToNow, format } from "date-fns";
@@ -56,6 +57,7 @@ const STATUS_LABELS: Record<string, string> = {
   operator_accepted: "Accepted",
   in_progress: "In Progress",
   completed: "Completed",
+  disputed: "In Dispute",
   cancelled: "Cancelled",
 };
 
@@ -450,6 +452,10 @@ export default function OperatorRequestDetails() {
               </Card>
             )}
 
+            {(request.status === "completed" || request.status === "disputed") && (
+              <DisputePanel requestId={requestId} />
+            )}
+
             {isEmergency && (
               <Card className="p-4 md:p-6 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800">
                 <div className="flex items-start gap-3">
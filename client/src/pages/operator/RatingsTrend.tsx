@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useAuth } from "@/contexts/AuthContext";
@@ -10,15 +11,48 @@ import {
   ThumbsUp, MessageSquare, Calendar
 } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
-import { format } from "date-fns";
+import { formatDistanceToNow } from "date-fns";
 import type { Operator } from "@shared/schema";
 
+type StarDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+
 interface RatingData {
   date: string;
   rating: number;
   reviews: number;
 }
 
+interface RatingReview {
+  ratingId: string;
+  customerName: string;
+  rating: number;
+  review: string | null;
+  createdAt: string;
+}
+
+interface RatingSeries {
+  period: "weekly" | "monthly";
+  points: RatingData[];
+  averageRating: number;
+  reviewCount: number;
+  distribution: StarDistribution;
+  recentReviews: RatingReview[];
+}
+
+interface RatingHistory {
+  averageRating: number;
+  reviewCount: number;
+  distribution: StarDistribution;
+  tiers: Record<string, { weekly: RatingSeries; monthly: RatingSeries }>;
+}
+
+const TIER_LABELS: Record<string, string> = {
+  all: "All Tiers",
+  manual: "Manual",
+  equipped: "Equipped",
+  professional: "Professional",
+};
+
 export default function RatingsTrend() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
@@ -30,33 +64,23 @@ export default function RatingsTrend() {
     enabled: !!operatorId,
   });
 
-  const { data: ratingHistory = [], isLoading: isLoadingHistory } = useQuery<RatingData[]>({
+  const [period, setPeriod] = useState<"weekly" | "monthly">("weekly");
+  const [tier, setTier] = useState("all");
+
+  const { data: ratingHistory, isLoading: isLoadingHistory } = useQuery<RatingHistory>({
     queryKey: [`/api/operators/${operatorId}/rating-history`],
     enabled: !!operatorId,
   });
 
   const currentRating = operatorData?.rating ? parseFloat(String(operatorData.rating)) : 0;
-  const totalReviews = operatorData?.totalJobs || 0;
+  const totalReviews = ratingHistory?.reviewCount || 0;
+  const fiveStarReviews = ratingHistory?.distribution[5] || 0;
+  const reviewsThisMonth = ratingHistory?.tiers.all?.monthly.points.slice(-1)[0]?.reviews || 0;
 
-  const generateMockHistory = (): RatingData[] => {
-    const data: RatingData[] = [];
-    const now = new Date();
-    for (let i = 29; i >= 0; i--) {
-      const date = new Date(now);
-      date.setDate(date.getDate() - i);
-      const baseRating = currentRating || 4.5;
-      const variation = (Math.sin(i * 0.3) * 0.3) + (Math.random() * 0.2 - 0.1);
-      const rating = Math.max(1, Math.min(5, baseRating + variation));
-      data.push({
-        date: format(date, "MMM dd"),
-        rating: parseFloat(rating.toFixed(2)),
-        reviews: Math.floor(Math.random() * 5) + 1,
-      });
-    }
-    return data;
-  };
-
-  const displayHistory = ratingHistory.length > 0 ? ratingHistory : generateMockHistory();
+  const tierOptions = Object.keys(ratingHistory?.tiers || {});
+  const series = ratingHistory?.tiers[tier]?.[period] || ratingHistory?.tiers.all?.[period];
+  // Periods before the first review have no rolling average yet
+  const displayHistory = (series?.points || []).filter(point => point.rating > 0);
 
   const getTrend = () => {
     if (displayHistory.length < 7) return "neutral";
@@ -169,14 +193,14 @@ export default function RatingsTrend() {
                   <ThumbsUp className="h-4 w-4" />
                   <span className="text-xs">5-Star</span>
                 </div>
-                <p className="text-xl font-semibold">{Math.floor(totalReviews * 0.7)}</p>
+                <p className="text-xl font-semibold">{fiveStarReviews}</p>
               </div>
               <div>
                 <div className="flex items-center justify-center gap-1 text-muted-foreground mb-1">
                   <Calendar className="h-4 w-4" />
                   <span className="text-xs">This Month</span>
                 </div>
-                <p className="text-xl font-semibold">{Math.floor(totalReviews * 0.2)}</p>
+                <p className="text-xl font-semibold">{reviewsThisMonth}</p>
               </div>
             </div>
           </CardContent>
@@ -184,55 +208,99 @@ export default function RatingsTrend() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Rating Trend</CardTitle>
-            <CardDescription>Your average rating over the last 30 days</CardDescription>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <CardTitle>Rating Trend</CardTitle>
+                <CardDescription>
+                  {period === "weekly" ? "4-week rolling average over the last 12 weeks" : "3-month rolling average over the last 12 months"}
+                </CardDescription>
+              </div>
+              <div className="flex gap-1">
+                {(["weekly", "monthly"] as const).map((option) => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={period === option ? "default" : "outline"}
+                    onClick={() => setPeriod(option)}
+                    data-testid={`button-period-${option}`}
+                  >
+                    {option === "weekly" ? "Weekly" : "Monthly"}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {tierOptions.length > 2 && (
+              <div className="flex flex-wrap gap-2 pt-2">
+                {tierOptions.map((option) => (
+                  <Badge
+                    key={option}
+                    variant={tier === option ? "default" : "outline"}
+                    className="cursor-pointer"
+                    onClick={() => setTier(option)}
+                    data-testid={`badge-tier-${option}`}
+                  >
+                    {TIER_LABELS[option] || option}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
-            <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={displayHistory}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                <XAxis 
-                  dataKey="date" 
-                  tick={{ fontSize: 11 }}
-                  interval="preserveStartEnd"
-                />
-                <YAxis 
-                  domain={[1, 5]} 
-                  ticks={[1, 2, 3, 4, 5]}
-                  tick={{ fontSize: 11 }}
-                />
-                <Tooltip 
-                  contentStyle={{ 
-                    backgroundColor: "rgba(255, 255, 255, 0.95)",
-                    border: "1px solid #e5e7eb",
-                    borderRadius: "8px",
-                    boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)"
-                  }}
-                  formatter={(value: number) => [value.toFixed(2), "Rating"]}
-                />
-                <ReferenceLine y={4.5} stroke="#10b981" strokeDasharray="5 5" label={{ value: "Excellent", position: "right", fontSize: 10 }} />
-                <ReferenceLine y={currentRating} stroke="#f59e0b" strokeDasharray="3 3" />
-                <Line 
-                  type="monotone" 
-                  dataKey="rating" 
-                  stroke="#f59e0b" 
-                  strokeWidth={3}
-                  dot={{ fill: "#f59e0b", r: 3 }}
-                  activeDot={{ r: 6, fill: "#f59e0b" }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
+            {displayHistory.length === 0 ? (
+              <div className="h-[300px] flex flex-col items-center justify-center text-center">
+                <Star className="h-10 w-10 text-gray-300 dark:text-gray-600 mb-2" />
+                <p className="text-muted-foreground">No reviews in this period yet</p>
+              </div>
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={displayHistory}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis 
+                    dataKey="date" 
+                    tick={{ fontSize: 11 }}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis 
+                    domain={[1, 5]} 
+                    ticks={[1, 2, 3, 4, 5]}
+                    tick={{ fontSize: 11 }}
+                  />
+                  <Tooltip 
+                    contentStyle={{ 
+                      backgroundColor: "rgba(255, 255, 255, 0.95)",
+                      border: "1px solid #e5e7eb",
+                      borderRadius: "8px",
+                      boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)"
+                    }}
+                    formatter={(value: number) => [value.toFixed(2), "Rating"]}
+                  />
+                  <ReferenceLine y={4.5} stroke="#10b981" strokeDasharray="5 5" label={{ value: "Excellent", position: "right", fontSize: 10 }} />
+                  <ReferenceLine y={currentRating} stroke="#f59e0b" strokeDasharray="3 3" />
+                  <Line 
+                    type="monotone" 
+                    dataKey="rating" 
+                    stroke="#f59e0b" 
+                    strokeWidth={3}
+                    dot={{ fill: "#f59e0b", r: 3 }}
+                    activeDot={{ r: 6, fill: "#f59e0b" }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
             <CardTitle>Rating Distribution</CardTitle>
-            <CardDescription>Breakdown of your ratings</CardDescription>
+            <CardDescription>
+              Breakdown of your ratings {period === "weekly" ? "over the last 12 weeks" : "over the last 12 months"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-3">
             {[5, 4, 3, 2, 1].map((star) => {
-              const percentage = star === 5 ? 70 : star === 4 ? 20 : star === 3 ? 7 : star === 2 ? 2 : 1;
+              const count = series?.distribution[star as keyof StarDistribution] || 0;
+              const percentage = series?.reviewCount ? Math.round((count / series.reviewCount) * 100) : 0;
               return (
                 <div key={star} className="flex items-center gap-3">
                   <div className="flex items-center gap-1 w-12">
@@ -252,6 +320,37 @@ export default function RatingsTrend() {
           </CardContent>
         </Card>
 
+        {series && series.recentReviews.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Reviews</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {series.recentReviews.map((review) => (
+                <div key={review.ratingId} className="border-b border-gray-100 dark:border-gray-800 pb-3 last:border-0 last:pb-0" data-testid={`review-${review.ratingId}`}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-sm">{review.customerName}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="flex items-center mb-1">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`h-3.5 w-3.5 ${star <= review.rating ? "fill-amber-400 text-amber-400" : "text-gray-300 dark:text-gray-600"}`}
+                      />
+                    ))}
+                  </div>
+                  {review.review && (
+                    <p className="text-sm text-muted-foreground">{review.review}</p>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Tips to Improve Your Rating</CardTitle>
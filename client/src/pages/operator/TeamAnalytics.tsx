@@ -1,96 +1,70 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/enhanced-button";
 import { Badge } from "@/components/ui/badge";
-import { Users, DollarSign, Star, TrendingUp, ArrowLeft, Award, Clock, MapPin } from "lucide-react";
+import { Users, DollarSign, Star, TrendingUp, ArrowLeft, Award, Clock } from "lucide-react";
 import { Header } from "@/components/Header";
 import { MobileBottomNav } from "@/components/MobileBottomNav";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLocation } from "wouter";
 
-// Mock driver data
-const drivers = [
-  {
-    id: "DRV-001",
-    name: "Sarah Martinez",
-    status: "active",
-    todayEarnings: 420,
-    todayJobs: 12,
-    weeklyEarnings: 1240,
-    weeklyJobs: 38,
-    avgRating: 4.9,
-    completionRate: 98,
-    responseTime: "3 min",
-    preferredServices: ["Snow Plowing", "Towing"],
-    rank: 1
-  },
-  {
-    id: "DRV-002",
-    name: "James Wilson",
-    status: "active",
-    todayEarnings: 310,
-    todayJobs: 9,
-    weeklyEarnings: 890,
-    weeklyJobs: 28,
-    avgRating: 4.7,
-    completionRate: 95,
-    responseTime: "5 min",
-    preferredServices: ["Hauling", "Courier"],
-    rank: 2
-  },
-  {
-    id: "DRV-003",
-    name: "Mike Chen",
-    status: "active",
-    todayEarnings: 280,
-    todayJobs: 8,
-    weeklyEarnings: 760,
-    weeklyJobs: 25,
-    avgRating: 4.8,
-    completionRate: 96,
-    responseTime: "4 min",
-    preferredServices: ["Towing", "Hauling"],
-    rank: 3
-  },
-  {
-    id: "DRV-004",
-    name: "Lisa Anderson",
-    status: "offline",
-    todayEarnings: 0,
-    todayJobs: 0,
-    weeklyEarnings: 650,
-    weeklyJobs: 22,
-    avgRating: 4.6,
-    completionRate: 94,
-    responseTime: "6 min",
-    preferredServices: ["Snow Plowing", "Courier"],
-    rank: 4
-  },
-  {
-    id: "DRV-005",
-    name: "David Brown",
-    status: "busy",
-    todayEarnings: 190,
-    todayJobs: 5,
-    weeklyEarnings: 580,
-    weeklyJobs: 19,
-    avgRating: 4.5,
-    completionRate: 92,
-    responseTime: "7 min",
-    preferredServices: ["Hauling", "Towing"],
-    rank: 5
-  }
-];
+type AnalyticsPeriod = "today" | "week" | "month";
+
+interface DriverAnalytics {
+  operatorId: string;
+  name: string;
+  isOnline: boolean;
+  services: string[];
+  revenue: number;
+  jobsCompleted: number;
+  averageRating: number | null;
+  ratingCount: number;
+  avgResponseSeconds: number | null;
+  utilization: number;
+  completionRate: number | null;
+  rank: number;
+}
+
+interface BusinessAnalytics {
+  totals: { revenue: number; jobsCompleted: number; averageRating: number | null };
+  driverCount: number;
+  driversOnline: number;
+}
+
+const PERIOD_LABELS: Record<AnalyticsPeriod, string> = {
+  today: "Today",
+  week: "Last 7 days",
+  month: "Last 30 days",
+};
+
+const formatResponseTime = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds} sec`;
+  return `${Math.round(seconds / 60)} min`;
+};
 
 export default function TeamAnalytics() {
   const { user } = useAuth();
   const [, setLocation] = useLocation();
   const [selectedPeriod, setSelectedPeriod] = useState<"today" | "week" | "month">("week");
 
-  const totalEarnings = drivers.reduce((sum, d) => sum + d.weeklyEarnings, 0);
-  const totalJobs = drivers.reduce((sum, d) => sum + d.weeklyJobs, 0);
-  const avgRating = (drivers.reduce((sum, d) => sum + d.avgRating, 0) / drivers.length).toFixed(1);
-  const activeDrivers = drivers.filter(d => d.status === "active").length;
+  const businessId = user?.businessId;
+
+  const { data: overview } = useQuery<BusinessAnalytics>({
+    queryKey: [`/api/business/${businessId}/analytics?range=${selectedPeriod}`],
+    enabled: !!businessId,
+  });
+
+  const { data: driverData, isLoading } = useQuery<{ drivers: DriverAnalytics[] }>({
+    queryKey: [`/api/business/${businessId}/analytics/drivers?range=${selectedPeriod}`],
+    enabled: !!businessId,
+  });
+
+  const drivers = driverData?.drivers || [];
+  const totalEarnings = overview?.totals.revenue ?? 0;
+  const totalJobs = overview?.totals.jobsCompleted ?? 0;
+  const avgRating = overview?.totals.averageRating != null ? overview.totals.averageRating.toFixed(1) : "—";
 
   const getRankBadgeColor = (rank: number) => {
     if (rank === 1) return "bg-yellow-400 text-black";
@@ -99,19 +73,6 @@ export default function TeamAnalytics() {
     return "bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200";
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "active":
-        return "bg-green-600 text-white";
-      case "busy":
-        return "bg-orange-600 text-white";
-      case "offline":
-        return "bg-gray-600 text-white";
-      default:
-        return "bg-gray-500 text-white";
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-purple-50 to-slate-50 dark:from-gray-900 dark:via-purple-950 dark:to-gray-900">
       <Header onSignIn={() => {}} onSignUp={() => {}} onDriveAndEarn={() => {}} />
@@ -136,6 +97,20 @@ export default function TeamAnalytics() {
             </div>
             <Badge className="bg-purple-600 text-white text-lg px-4 py-2">UNLIMITED RADIUS</Badge>
           </div>
+          
+          <div className="flex gap-2 mt-4">
+            {(Object.keys(PERIOD_LABELS) as AnalyticsPeriod[]).map((period) => (
+              <Button
+                key={period}
+                size="sm"
+                variant={selectedPeriod === period ? "default" : "outline"}
+                onClick={() => setSelectedPeriod(period)}
+                data-testid={`button-period-${period}`}
+              >
+                {PERIOD_LABELS[period]}
+              </Button>
+            ))}
+          </div>
         </div>
 
         {/* Team Overview Cards */}
@@ -147,7 +122,7 @@ export default function TeamAnalytics() {
                 <DollarSign className="w-5 h-5 text-green-600" />
               </div>
               <p className="text-3xl font-bold text-black dark:text-white">${totalEarnings}</p>
-              <p className="text-xs text-green-600 mt-1">This week</p>
+              <p className="text-xs text-green-600 mt-1">{PERIOD_LABELS[selectedPeriod]}</p>
             </CardContent>
           </Card>
 
@@ -158,7 +133,7 @@ export default function TeamAnalytics() {
                 <Clock className="w-5 h-5 text-blue-600" />
               </div>
               <p className="text-3xl font-bold text-black dark:text-white">{totalJobs}</p>
-              <p className="text-xs text-blue-600 mt-1">Completed this week</p>
+              <p className="text-xs text-blue-600 mt-1">Completed</p>
             </CardContent>
           </Card>
 
@@ -179,7 +154,7 @@ export default function TeamAnalytics() {
                 <p className="text-sm text-gray-600 dark:text-gray-400">Active Now</p>
                 <Users className="w-5 h-5 text-purple-600" />
               </div>
-              <p className="text-3xl font-bold text-black dark:text-white">{activeDrivers}/{drivers.length}</p>
+              <p className="text-3xl font-bold text-black dark:text-white">{overview?.driversOnline ?? 0}/{overview?.driverCount ?? 0}</p>
               <p className="text-xs text-purple-600 mt-1">Drivers online</p>
             </CardContent>
           </Card>
@@ -187,15 +162,22 @@ export default function TeamAnalytics() {
 
         {/* Driver Performance Breakdown */}
         <div className="space-y-4">
-          {drivers.map((driver, index) => (
+          {!isLoading && drivers.length === 0 && (
+            <Card className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl">
+              <CardContent className="p-8 text-center text-gray-600 dark:text-gray-400">
+                No drivers on your team yet
+              </CardContent>
+            </Card>
+          )}
+          {drivers.map((driver) => (
             <Card
-              key={driver.id}
+              key={driver.operatorId}
               className={`bg-white/80 dark:bg-gray-800/80 backdrop-blur-xl border-2 ${
                 driver.rank <= 3
                   ? "border-yellow-200 dark:border-yellow-800"
                   : "border-gray-200 dark:border-gray-700"
               }`}
-              data-testid={`driver-card-${driver.id}`}
+              data-testid={`driver-card-${driver.operatorId}`}
             >
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -208,35 +190,35 @@ export default function TeamAnalytics() {
                         {driver.name}
                         {driver.rank === 1 && <Award className="w-5 h-5 text-yellow-500 fill-yellow-500" />}
                       </CardTitle>
-                      <CardDescription>{driver.preferredServices.join(", ")}</CardDescription>
+                      <CardDescription>{driver.services.join(", ")}</CardDescription>
                     </div>
                   </div>
-                  <Badge className={getStatusBadge(driver.status)}>
-                    {driver.status.toUpperCase()}
+                  <Badge className={driver.isOnline ? "bg-green-600 text-white" : "bg-gray-600 text-white"}>
+                    {driver.isOnline ? "ONLINE" : "OFFLINE"}
                   </Badge>
                 </div>
               </CardHeader>
               
               <CardContent>
                 <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                  {/* Weekly Earnings */}
+                  {/* Earnings */}
                   <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
                       <DollarSign className="w-4 h-4 text-green-600" />
-                      <span className="text-xs text-gray-600 dark:text-gray-400">Week Earnings</span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">Earnings</span>
                     </div>
-                    <p className="text-2xl font-bold text-black dark:text-white">${driver.weeklyEarnings}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{driver.weeklyJobs} jobs</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">${driver.revenue}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{driver.jobsCompleted} jobs</p>
                   </div>
 
-                  {/* Today's Performance */}
+                  {/* Utilization */}
                   <div className="bg-slate-50 dark:bg-slate-900 p-4 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
                       <TrendingUp className="w-4 h-4 text-blue-600" />
-                      <span className="text-xs text-gray-600 dark:text-gray-400">Today</span>
+                      <span className="text-xs text-gray-600 dark:text-gray-400">Utilization</span>
                     </div>
-                    <p className="text-2xl font-bold text-black dark:text-white">${driver.todayEarnings}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{driver.todayJobs} jobs</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">{driver.utilization}%</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Of available hours</p>
                   </div>
 
                   {/* Rating */}
@@ -245,8 +227,12 @@ export default function TeamAnalytics() {
                       <Star className="w-4 h-4 text-orange-600" />
                       <span className="text-xs text-gray-600 dark:text-gray-400">Rating</span>
                     </div>
-                    <p className="text-2xl font-bold text-black dark:text-white">{driver.avgRating}⭐</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{driver.completionRate}% complete</p>
+                    <p className="text-2xl font-bold text-black dark:text-white">
+                      {driver.averageRating !== null ? `${driver.averageRating}⭐` : "—"}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                      {driver.completionRate !== null ? `${driver.completionRate}% complete` : `${driver.ratingCount} reviews`}
+                    </p>
                   </div>
 
                   {/* Response Time */}
@@ -255,7 +241,7 @@ export default function TeamAnalytics() {
                       <Clock className="w-4 h-4 text-purple-600" />
                       <span className="text-xs text-gray-600 dark:text-gray-400">Response</span>
                     </div>
-                    <p className="text-xl font-bold text-black dark:text-white">{driver.responseTime}</p>
+                    <p className="text-xl font-bold text-black dark:text-white">{formatResponseTime(driver.avgResponseSeconds)}</p>
                     <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">Avg response</p>
                   </div>
 
@@ -266,7 +252,7 @@ export default function TeamAnalytics() {
                       size="sm"
                       className="w-full"
                       onClick={() => {/* Navigate to driver details */}}
-                      data-testid={`button-view-driver-${driver.id}`}
+                      data-testid={`button-view-driver-${driver.operatorId}`}
                     >
                       View Details
                     </Button>
@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { ArrowLeft, User, Mail, Phone, Save, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EmailChangeDialog } from "@/components/EmailChangeDialog";
 import type { Operator } from "@shared/schema";
 
 export const EditPersonalInfo = () => {
@@ -19,6 +20,7 @@ export const EditPersonalInfo = () => {
   
   const urlParams = new URLSearchParams(window.location.search);
   const fromRoute = urlParams.get("from") || "/profile";
+  const [showEmailChange, setShowEmailChange] = useState(false);
 
   const [formData, setFormData] = useState({
     name: "",
@@ -157,14 +159,26 @@ export const EditPersonalInfo = () => {
                   <Mail className="h-3.5 w-3.5 text-gray-400" />
                   Email
                 </Label>
-                <Input
-                  id="email"
-                  value={user.email}
-                  disabled
-                  className="bg-gray-50 dark:bg-gray-800 cursor-not-allowed"
-                  data-testid="input-email"
-                />
-                <p className="text-xs text-gray-500">Email cannot be changed</p>
+                <div className="flex gap-2">
+                  <Input
+                    id="email"
+                    value={user.email}
+                    disabled
+                    className="bg-gray-50 dark:bg-gray-800 cursor-not-allowed"
+                    data-testid="input-email"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setShowEmailChange(true)}
+                    data-testid="button-change-email"
+                  >
+                    Change
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {user.emailVerified ? "Verified" : "Not verified"} · Changing your email requires a code sent to the new address
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -206,6 +220,8 @@ export const EditPersonalInfo = () => {
           </Card>
         </form>
       </div>
+
+      <EmailChangeDialog open={showEmailChange} onOpenChange={setShowEmailChange} />
     </div>
   );
 };
@@ -14,6 +14,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Operator, OperatorTierProfile } from "@shared/schema";
 import { OPERATOR_TIER_INFO } from "@shared/schema";
 import { Link } from "wouter";
+import { ServiceAreaEditor } from "@/components/operator/ServiceAreaEditor";
 
 export const EditTierInfo = () => {
   const { user } = useAuth();
@@ -181,6 +182,10 @@ export const EditTierInfo = () => {
           </div>
         </div>
 
+        <div className="mb-4">
+          <ServiceAreaEditor operatorId={user.operatorId} tier={tier} />
+        </div>
+
         <form onSubmit={handleSubmit} className="space-y-4">
           {(tier === "professional" || tier === "equipped") && (
             <Card className="border border-gray-200 dark:border-gray-700 shadow-sm">
@@ -1,12 +1,14 @@
 import { Router } from 'express';
+import type { Response } from 'express';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import { eq, and, gt } from 'drizzle-orm';
+import { eq, and, gt, ne } from 'drizzle-orm';
 import { db } from './db';
 import { users, operators, sessions, customers } from '@shared/schema';
-import type { InsertUser, InsertOperator, InsertSession, InsertCustomer } from '@shared/schema';
+import type { InsertUser, InsertOperator, InsertSession, InsertCustomer, EmailOtpPurpose } from '@shared/schema';
 import { verifyNewUser, checkEmailDuplicate, checkNameDuplicate, normalizeEmail, normalizeName } from './userVerification';
 import oauthRouter from './oauth';
+import { issueOtp, verifyOtp, describeOtpFailure } from './services/emailOtpService';
 
 const router = Router();
 
@@ -27,6 +29,37 @@ function generateOperatorId(): string {
   return `OP-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
 }
 
+// Helper to find the signed-in user from the session cookie
+async function findSessionUser(sessionId: string | undefined) {
+  if (!sessionId) return null;
+
+  const session = await db.query.sessions.findFirst({
+    where: and(
+      eq(sessions.sessionId, sessionId),
+      gt(sessions.expiresAt, new Date())
+    )
+  });
+  if (!session) return null;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.userId, session.userId)
+  });
+  return user || null;
+}
+
+// Helper to send a verification code, answering 429 while the resend cooldown is running
+async function sendOtp(res: Response, email: string, purpose: EmailOtpPurpose, userId: string | null): Promise<boolean> {
+  const cooldown = await issueOtp(email, purpose, userId);
+  if (cooldown) {
+    res.status(429).json({
+      error: `Please wait ${cooldown.retryAfterSeconds} seconds before requesting another code`,
+      retryAfterSeconds: cooldown.retryAfterSeconds
+    });
+    return false;
+  }
+  return true;
+}
+
 // POST /api/auth/verify-email - Check if email is available (real-time validation)
 router.post('/verify-email', async (req, res) => {
   try {
@@ -188,6 +221,11 @@ router.post('/signup', async (req, res) => {
       maxAge: 30 * 24 * 60 * 60 * 1000,
     });
 
+    // Send the email verification code; the account works without it until tier approval
+    await issueOtp(createdUser.email, 'signup', createdUser.userId).catch(error => {
+      console.error('Failed to send signup verification code:', error);
+    });
+
     // Fetch operator data if applicable
     let operatorData = null;
     if (role === 'operator' && operatorId) {
@@ -213,6 +251,7 @@ router.post('/signup', async (req, res) => {
       viewTier: operatorData?.viewTier,
       operatorTierProfiles: operatorData?.operatorTierProfiles,
       isAdmin: (createdUser as any).isAdmin,
+      emailVerified: createdUser.emailVerified === 1,
     });
   } catch (error) {
     console.error('Signup error:', error);
@@ -311,6 +350,7 @@ router.post('/signin', async (req, res) => {
       viewTier: operatorData?.viewTier,
       operatorTierProfiles: operatorData?.operatorTierProfiles,
       isAdmin: (user as any).isAdmin,
+      emailVerified: user.emailVerified === 1,
     });
   } catch (error) {
     console.error('Signin error:', error);
@@ -398,6 +438,7 @@ router.get('/session', async (req, res) => {
       viewTier: operatorData?.viewTier,
       operatorTierProfiles: operatorData?.operatorTierProfiles,
       isAdmin: (user as any).isAdmin,
+      emailVerified: user.emailVerified === 1,
     });
   } catch (error) {
     console.error('Session error:', error);
@@ -476,4 +517,210 @@ router.post('/change-password', async (req, res) => {
   }
 });
 
+// POST /api/auth/email-verification/send - Send a code to verify the signed-in user's email
+router.post('/email-verification/send', async (req, res) => {
+  try {
+    const user = await findSessionUser(req.cookies.sessionId);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (user.emailVerified === 1) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    if (!(await sendOtp(res, user.email, 'signup', user.userId))) return;
+    res.json({ success: true, message: 'Verification code sent' });
+  } catch (error) {
+    console.error('Send verification code error:', error);
+    res.status(500).json({ error: 'Failed to send verification code' });
+  }
+});
+
+// POST /api/auth/email-verification/verify - Verify the signed-in user's email with a code
+router.post('/email-verification/verify', async (req, res) => {
+  try {
+    const user = await findSessionUser(req.cookies.sessionId);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+
+    if (user.emailVerified === 1) {
+      return res.json({ success: true, emailVerified: true });
+    }
+
+    const result = await verifyOtp(user.email, 'signup', String(code));
+    if (result.status !== 'verified') {
+      return res.status(400).json({ error: describeOtpFailure(result), reason: result.status });
+    }
+
+    await db.update(users)
+      .set({ emailVerified: 1, emailVerifiedAt: new Date() })
+      .where(eq(users.userId, user.userId));
+
+    res.json({ success: true, emailVerified: true });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// POST /api/auth/password-reset/request - Email a password reset code
+router.post('/password-reset/request', async (req, res) => {
+  try {
+    const { email } = req.body;
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.emailNormalized, normalizeEmail(email))
+    });
+
+    // Same answer whether or not the account exists, so the endpoint can't be used to find accounts
+    if (user && !(await sendOtp(res, user.email, 'password_reset', user.userId))) return;
+    res.json({ success: true, message: 'If an account exists for this email, a reset code has been sent' });
+  } catch (error) {
+    console.error('Password reset request error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+// POST /api/auth/password-reset/confirm - Set a new password with a reset code
+router.post('/password-reset/confirm', async (req, res) => {
+  try {
+    const { email, code, newPassword } = req.body;
+    if (!email || !code || !newPassword) {
+      return res.status(400).json({ error: 'Email, code and new password are required' });
+    }
+
+    if (newPassword.length < 8) {
+      return res.status(400).json({ error: 'New password must be at least 8 characters' });
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.emailNormalized, normalizeEmail(email))
+    });
+    if (!user) {
+      return res.status(400).json({ error: describeOtpFailure({ status: 'not_found' }), reason: 'not_found' });
+    }
+
+    const result = await verifyOtp(user.email, 'password_reset', String(code));
+    if (result.status !== 'verified') {
+      return res.status(400).json({ error: describeOtpFailure(result), reason: result.status });
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 10);
+    await db.transaction(async (tx) => {
+      // Receiving the code also proves the user owns the address
+      await tx.update(users)
+        .set({
+          passwordHash,
+          emailVerified: 1,
+          emailVerifiedAt: user.emailVerifiedAt || new Date()
+        })
+        .where(eq(users.userId, user.userId));
+      // Sign out everywhere so a leaked password stops working
+      await tx.delete(sessions).where(eq(sessions.userId, user.userId));
+    });
+
+    res.json({ success: true, message: 'Password reset successfully. Please sign in.' });
+  } catch (error) {
+    console.error('Password reset confirm error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// POST /api/auth/email-change/request - Send a code to the new address before changing email
+router.post('/email-change/request', async (req, res) => {
+  try {
+    const user = await findSessionUser(req.cookies.sessionId);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { newEmail } = req.body;
+    if (!newEmail) {
+      return res.status(400).json({ error: 'New email is required' });
+    }
+
+    if (normalizeEmail(newEmail) === user.emailNormalized) {
+      return res.status(400).json({ error: 'New email is the same as your current email' });
+    }
+
+    const duplicate = await checkEmailDuplicate(newEmail);
+    if (duplicate.isDuplicate) {
+      return res.status(409).json({ error: duplicate.message });
+    }
+
+    if (!(await sendOtp(res, newEmail, 'email_change', user.userId))) return;
+    res.json({ success: true, message: 'Confirmation code sent to your new email' });
+  } catch (error) {
+    console.error('Email change request error:', error);
+    res.status(500).json({ error: 'Failed to request email change' });
+  }
+});
+
+// POST /api/auth/email-change/confirm - Switch to the new email with the code sent to it
+router.post('/email-change/confirm', async (req, res) => {
+  try {
+    const user = await findSessionUser(req.cookies.sessionId);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { newEmail, code } = req.body;
+    if (!newEmail || !code) {
+      return res.status(400).json({ error: 'New email and code are required' });
+    }
+
+    const result = await verifyOtp(newEmail, 'email_change', String(code));
+    if (result.status !== 'verified') {
+      return res.status(400).json({ error: describeOtpFailure(result), reason: result.status });
+    }
+    if (result.otp.userId !== user.userId) {
+      return res.status(403).json({ error: 'This code was issued to a different account' });
+    }
+
+    // The address may have been taken since the code was sent
+    const taken = await db.query.users.findFirst({
+      where: and(eq(users.emailNormalized, normalizeEmail(newEmail)), ne(users.userId, user.userId))
+    });
+    if (taken) {
+      return res.status(409).json({ error: 'This email is already registered to another account' });
+    }
+
+    const email = newEmail.trim();
+    await db.transaction(async (tx) => {
+      await tx.update(users)
+        .set({
+          email,
+          emailNormalized: normalizeEmail(email),
+          emailVerified: 1,
+          emailVerifiedAt: new Date()
+        })
+        .where(eq(users.userId, user.userId));
+      // Customer and operator records are matched to the user by email
+      await tx.update(customers)
+        .set({ email })
+        .where(eq(customers.email, user.email));
+      if (user.operatorId) {
+        await tx.update(operators)
+          .set({ email })
+          .where(eq(operators.operatorId, user.operatorId));
+      }
+    });
+
+    res.json({ success: true, email, emailVerified: true });
+  } catch (error) {
+    console.error('Email change confirm error:', error);
+    res.status(500).json({ error: 'Failed to change email' });
+  }
+});
+
 export default router;
@@ -0,0 +1,246 @@
+/**
+ * Spatial Query Benchmark - Times bounding box queries against a full haversine scan and checks they agree
+ * Run with `npm run bench:spatial -- [--points 20000] [--queries 300] [--db]`.
+ * In memory, the (latitude, longitude) index is stood in for by points sorted on latitude and a binary
+ * search, the same range scan Postgres does. Every query's results must match a full scan with
+ * calculateDistance, including circles over the poles and across the antimeridian. With --db the
+ * operators table at DATABASE_URL is queried both ways as well. Exits 1 on any mismatch.
+ */
+
+import { calculateDistance } from "../utils/distance";
+import { getBoundingBox, isInBoundingBox, filterWithinRadius, findNearest } from "../services/spatialQueryService";
+import type { WithDistance } from "../services/spatialQueryService";
+
+interface BenchPoint {
+  id: string;
+  latitude: string; // Stored like the decimal(10, 7) columns
+  longitude: string;
+}
+
+const RADII_KM = [1, 5, 15, 25, 50, 200, 2000];
+const NEAREST_K = [1, 10, 50];
+
+// Where generated points cluster, plus the awkward spots
+const CLUSTERS: Array<[number, number]> = [
+  [51.0447, -114.0719], // Calgary
+  [43.6532, -79.3832], // Toronto
+  [45.5019, -73.5674], // Montreal
+  [49.2827, -123.1207], // Vancouver
+  [40.7128, -74.006], // New York
+  [-17.7134, 178.065], // Fiji, across the antimeridian
+  [64.8378, -147.7164], // Fairbanks
+  [89.9, 0], // Near the north pole
+];
+
+function getArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? parseInt(process.argv[index + 1]) : fallback;
+}
+
+// Seeded so runs are comparable
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function wrapLongitude(longitude: number): number {
+  return ((longitude + 540) % 360) - 180;
+}
+
+function randomLocation(random: () => number): [number, number] {
+  if (random() < 0.2) {
+    return [random() * 180 - 90, random() * 360 - 180];
+  }
+  const [latitude, longitude] = CLUSTERS[Math.floor(random() * CLUSTERS.length)];
+  const spread = random() < 0.5 ? 0.3 : 3;
+  return [
+    Math.max(-90, Math.min(90, latitude + (random() - 0.5) * spread)),
+    wrapLongitude(longitude + (random() - 0.5) * spread),
+  ];
+}
+
+function generatePoints(count: number, random: () => number): BenchPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const [latitude, longitude] = randomLocation(random);
+    return { id: `P${i}`, latitude: latitude.toFixed(7), longitude: longitude.toFixed(7) };
+  });
+}
+
+/**
+ * Points sorted on latitude - a range scan over it reads only rows inside the box's latitude band
+ */
+function buildLatitudeIndex(points: BenchPoint[]) {
+  const sorted = points
+    .map(point => ({ point, latitude: parseFloat(point.latitude), longitude: parseFloat(point.longitude) }))
+    .sort((a, b) => a.latitude - b.latitude);
+
+  const lowerBound = (latitude: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sorted[mid].latitude < latitude) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  return (latitude: number, longitude: number, radiusKm: number) => {
+    const box = getBoundingBox(latitude, longitude, radiusKm);
+    const candidates: BenchPoint[] = [];
+    for (let i = lowerBound(box.minLatitude); i < sorted.length && sorted[i].latitude <= box.maxLatitude; i++) {
+      if (isInBoundingBox(box, sorted[i].latitude, sorted[i].longitude)) {
+        candidates.push(sorted[i].point);
+      }
+    }
+    return { candidates, results: filterWithinRadius(candidates, point => point, latitude, longitude, radiusKm) };
+  };
+}
+
+// The filter every endpoint used before: calculateDistance against every row
+function fullScan<T extends { latitude: string | null; longitude: string | null }>(items: T[], latitude: number, longitude: number, radiusKm: number): Array<WithDistance<T>> {
+  return items
+    .map(item => ({ item, distanceKm: calculateDistance(latitude, longitude, parseFloat(item.latitude), parseFloat(item.longitude)) }))
+    .filter(({ distanceKm }) => distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Describes the first difference between two results, or null if they hold the same rows at the same distances
+ */
+function compareResults<T>(expected: Array<WithDistance<T>>, actual: Array<WithDistance<T>>, getId: (item: T) => string): string | null {
+  if (expected.length !== actual.length) {
+    return `expected ${expected.length} results, got ${actual.length}`;
+  }
+  const actualDistances = new Map(actual.map(({ item, distanceKm }) => [getId(item), distanceKm]));
+  for (const { item, distanceKm } of expected) {
+    const found = actualDistances.get(getId(item));
+    if (found === undefined) return `missing ${getId(item)} at ${distanceKm.toFixed(4)}km`;
+    if (found !== distanceKm) return `${getId(item)} at ${found}km, expected ${distanceKm}km`;
+  }
+  return null;
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: performance.now() - start };
+}
+
+async function timeAsync<T>(run: () => Promise<T>): Promise<{ result: T; ms: number }> {
+  const start = performance.now();
+  const result = await run();
+  return { result, ms: performance.now() - start };
+}
+
+function formatRow(label: string, scanMs: number, indexMs: number, queries: number, extra: string = ""): string {
+  const speedup = indexMs > 0 ? (scanMs / indexMs).toFixed(1) : "-";
+  return `${label.padEnd(16)} scan ${(scanMs / queries).toFixed(3).padStart(9)}ms  index ${(indexMs / queries).toFixed(3).padStart(9)}ms  ${speedup.padStart(7)}x${extra}`;
+}
+
+async function runInMemory(pointCount: number, queryCount: number, random: () => number): Promise<string[]> {
+  const mismatches: string[] = [];
+  const points = generatePoints(pointCount, random);
+  const { result: searchIndex, ms: buildMs } = time(() => buildLatitudeIndex(points));
+  console.log(`In memory: ${pointCount} points, ${queryCount} queries per radius (index built in ${buildMs.toFixed(1)}ms)`);
+
+  for (const radiusKm of RADII_KM) {
+    let scanMs = 0;
+    let indexMs = 0;
+    let candidates = 0;
+    let matches = 0;
+
+    for (let q = 0; q < queryCount; q++) {
+      const [latitude, longitude] = randomLocation(random);
+      const scan = time(() => fullScan(points, latitude, longitude, radiusKm));
+      const indexed = time(() => searchIndex(latitude, longitude, radiusKm));
+      scanMs += scan.ms;
+      indexMs += indexed.ms;
+      candidates += indexed.result.candidates.length;
+      matches += scan.result.length;
+
+      const mismatch = compareResults(scan.result, indexed.result.results, point => point.id);
+      if (mismatch) mismatches.push(`radius ${radiusKm}km at (${latitude}, ${longitude}): ${mismatch}`);
+    }
+
+    const avg = (n: number) => (n / queryCount).toFixed(1);
+    console.log(formatRow(`${radiusKm}km`, scanMs, indexMs, queryCount, `  rows read ${avg(candidates).padStart(8)}  in range ${avg(matches).padStart(8)}`));
+  }
+
+  for (const k of NEAREST_K) {
+    let scanMs = 0;
+    let indexMs = 0;
+
+    for (let q = 0; q < queryCount; q++) {
+      const [latitude, longitude] = randomLocation(random);
+      const scan = time(() => fullScan(points, latitude, longitude, Infinity).slice(0, k));
+      const indexed = await timeAsync(() => findNearest(async radiusKm => searchIndex(latitude, longitude, radiusKm).results, k));
+      scanMs += scan.ms;
+      indexMs += indexed.ms;
+
+      // Ties may come back in either order, so compare distances
+      const expected = scan.result.map(({ distanceKm }) => distanceKm).join();
+      const actual = indexed.result.map(({ distanceKm }) => distanceKm).join();
+      if (expected !== actual) mismatches.push(`nearest ${k} at (${latitude}, ${longitude}): got [${actual}], expected [${expected}]`);
+    }
+
+    console.log(formatRow(`nearest ${k}`, scanMs, indexMs, queryCount));
+  }
+
+  return mismatches;
+}
+
+async function runDatabase(queryCount: number, random: () => number): Promise<string[]> {
+  const { db } = await import("../db");
+  const { operators } = await import("@shared/schema");
+  const { findOperatorsWithinRadius } = await import("../services/spatialQueryService");
+
+  const mismatches: string[] = [];
+  const count = (await db.select({ operatorId: operators.operatorId }).from(operators)).length;
+  console.log(`\nDatabase: ${count} operators, ${queryCount} queries per radius`);
+
+  for (const radiusKm of RADII_KM) {
+    let scanMs = 0;
+    let indexMs = 0;
+
+    for (let q = 0; q < queryCount; q++) {
+      const [latitude, longitude] = randomLocation(random);
+      const scan = await timeAsync(async () => fullScan(await db.select().from(operators), latitude, longitude, radiusKm));
+      const indexed = await timeAsync(() => findOperatorsWithinRadius(latitude, longitude, radiusKm));
+      scanMs += scan.ms;
+      indexMs += indexed.ms;
+
+      const mismatch = compareResults(scan.result, indexed.result, op => op.operatorId);
+      if (mismatch) mismatches.push(`database radius ${radiusKm}km at (${latitude}, ${longitude}): ${mismatch}`);
+    }
+
+    console.log(formatRow(`${radiusKm}km`, scanMs, indexMs, queryCount));
+  }
+
+  return mismatches;
+}
+
+async function main() {
+  const random = createRandom(getArg("seed", 42));
+  const mismatches = await runInMemory(getArg("points", 20000), getArg("queries", 300), random);
+  if (process.argv.includes("--db")) {
+    mismatches.push(...await runDatabase(getArg("db-queries", 20), random));
+  }
+
+  if (mismatches.length > 0) {
+    console.error(`\n${mismatches.length} results differ from the full scan:`);
+    mismatches.slice(0, 20).forEach(mismatch => console.error(`  ${mismatch}`));
+    process.exit(1);
+  }
+  console.log("\nAll results match the full calculateDistance scan");
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error("Spatial query benchmark failed:", error);
+  process.exit(1);
+});
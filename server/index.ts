@@ -4,10 +4,20 @@ import connectPgSimple from "connect-pg-simple";
 import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic } from "./vite";
-import { MemStorage } from "./storage";
+import { createStorage } from "./storage";
+import { getPaymentProvider } from "./services/paymentProvider";
 import { createServer } from "http";
 import authRouter from "./auth";
+import realtimeRouter from "./realtime";
 import { startWeatherSyncJob } from "./jobs/weatherSync";
+import { startExpirySweeperJob } from "./jobs/expirySweeper";
+import { startEarningsReleaseJob } from "./jobs/earningsRelease";
+import { startPayoutBatchJob } from "./jobs/payoutBatches";
+import { startDocumentExpiryJob } from "./jobs/documentExpiry";
+import { startCustomerGroupingJob } from "./jobs/customerGrouping";
+import { startRecurringRequestJob } from "./jobs/recurringRequests";
+import { startDemandEngineJob } from "./jobs/demandEngine";
+import { startZoneCountsJob } from "./jobs/zoneCounts";
 import { db } from "./db";
 import { sessions, users, operators } from "@shared/schema";
 import { eq } from "drizzle-orm";
@@ -128,7 +138,11 @@ app.use(async (req, res, next) => {
   next();
 });
 
-const storage = new MemStorage();
+// Postgres unless STORAGE_DRIVER=memory
+const storage = createStorage();
+
+// Refuse to start in production without a real payment provider
+getPaymentProvider();
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -163,7 +177,10 @@ app.use((req, res, next) => {
 // Auth routes (database-backed)
 app.use('/api/auth', authRouter);
 
-// Other API routes (memory-backed for now)
+// Realtime event stream (Server-Sent Events, authenticated by session cookie)
+app.use('/api/realtime', realtimeRouter);
+
+// Other API routes
 const router = registerRoutes(storage);
 app.use(router);
 
@@ -189,4 +206,28 @@ server.listen(PORT, "0.0.0.0", () => {
   
   // Start automated weather alert sync job
   startWeatherSyncJob();
+  
+  // Start quote, quote window and dispatch expiry sweeper
+  startExpirySweeperJob();
+  
+  // Start settlement of completed jobs' earnings after the review window
+  startEarningsReleaseJob();
+  
+  // Start weekly withdrawal payouts
+  startPayoutBatchJob();
+  
+  // Start operator document expiry warnings and service suspension
+  startDocumentExpiryJob();
+  
+  // Start clustering open requests into customer groups
+  startCustomerGroupingJob();
+  
+  // Start posting requests for recurring series as they come due
+  startRecurringRequestJob();
+  
+  // Start zone demand levels and weather surge alerts for offline operators
+  startDemandEngineJob();
+  
+  // Start operator and open request counts for admin-drawn service zones
+  startZoneCountsJob();
 });
@@ -0,0 +1,35 @@
+/**
+ * Customer Grouping Job - Keeps the customer groups offered to operators current
+ * Expires groups whose offer window has passed and clusters newly posted requests into new groups.
+ * Grouping runs only here so concurrent dashboard loads cannot put a request into two groups.
+ */
+
+import { refreshCustomerGroups, GROUPING_SETTINGS } from "../services/customerGroupingService";
+
+/**
+ * Start customer grouping job - runs on startup and every 2 minutes
+ */
+export function startCustomerGroupingJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    refreshCustomerGroups()
+      .then(created => {
+        if (created > 0) {
+          console.log(`[Customer Grouping] Created ${created} customer group(s)`);
+        }
+      })
+      .catch(err => console.error("[Customer Grouping] Run failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const GROUPING_INTERVAL = 2 * 60 * 1000;
+  setInterval(run, GROUPING_INTERVAL);
+
+  console.log(`[Customer Grouping] Job started - groups open requests within ${GROUPING_SETTINGS.clusterRadiusKm}km every 2 minutes`);
+}
@@ -0,0 +1,35 @@
+/**
+ * Demand Engine Job - Keeps zone demand levels in step with open requests and weather alerts
+ * Offline operators are told about each new alert covering a city they serve on the run that
+ * first sees it.
+ */
+
+import { refreshZoneDemand, DEMAND_SETTINGS } from "../services/demandEngine";
+
+/**
+ * Start demand engine job - runs on startup and every 10 minutes
+ */
+export function startDemandEngineJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    refreshZoneDemand()
+      .then(surging => {
+        if (surging > 0) {
+          console.log(`[Demand Engine] ${surging} zone(s) in weather surge`);
+        }
+      })
+      .catch(err => console.error("[Demand Engine] Run failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const DEMAND_INTERVAL = 10 * 60 * 1000;
+  setInterval(run, DEMAND_INTERVAL);
+
+  console.log(`[Demand Engine] Job started - rates ${DEMAND_SETTINGS.zoneRadiusKm}km city zones every 10 minutes`);
+}
@@ -0,0 +1,132 @@
+/**
+ * Document Expiry Job - Acts on operator_document_submissions.expiresAt
+ * Warns operators 30, 14 and 3 days before an approved document expires. Once it has
+ * expired the submission becomes "expired" and the services it covers are suspended on the
+ * operator's tier profiles, which hides the operator for those services until a renewed
+ * document is approved.
+ */
+
+import { db } from "../db";
+import { operatorDocumentSubmissions } from "@shared/schema";
+import { and, eq, gt, isNotNull, lte } from "drizzle-orm";
+import { notificationService } from "../notificationService";
+import { getDocumentName, syncServiceLocks } from "../services/documentService";
+
+// Days before expiry at which the operator is warned, largest first
+export const EXPIRY_WARNING_DAYS = [30, 14, 3];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Send the next due expiry warning for documents expiring within the first warning window
+ * A document gets each warning at most once, and only the most urgent one if several are due
+ * @returns Number of warnings sent
+ */
+export async function sendExpiryWarnings(now: Date = new Date()): Promise<number> {
+  const windowEnd = new Date(now.getTime() + EXPIRY_WARNING_DAYS[0] * DAY_MS);
+  const expiring = await db.select()
+    .from(operatorDocumentSubmissions)
+    .where(and(
+      eq(operatorDocumentSubmissions.status, "approved"),
+      isNotNull(operatorDocumentSubmissions.expiresAt),
+      gt(operatorDocumentSubmissions.expiresAt, now),
+      lte(operatorDocumentSubmissions.expiresAt, windowEnd)
+    ));
+
+  let sent = 0;
+  for (const submission of expiring) {
+    const expiresAt = submission.expiresAt!;
+    const daysLeft = Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_MS);
+    const dueWarning = EXPIRY_WARNING_DAYS.filter(days => daysLeft <= days).pop();
+    if (dueWarning === undefined) continue;
+    if (submission.expiryWarningDays !== null && submission.expiryWarningDays <= dueWarning) continue;
+
+    await db.update(operatorDocumentSubmissions)
+      .set({ expiryWarningDays: dueWarning })
+      .where(eq(operatorDocumentSubmissions.id, submission.id));
+
+    await notificationService.notifyOperatorOfDocumentExpiring(
+      submission.operatorId,
+      submission.id,
+      submission.serviceType,
+      await getDocumentName(submission),
+      daysLeft,
+      expiresAt
+    );
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Mark approved documents past their expiresAt as "expired" and suspend the services they cover
+ * @returns Number of documents expired
+ */
+export async function expireDocuments(now: Date = new Date()): Promise<number> {
+  // Re-check status in the update so a concurrent review wins
+  const expired = await db.update(operatorDocumentSubmissions)
+    .set({ status: "expired" })
+    .where(and(
+      eq(operatorDocumentSubmissions.status, "approved"),
+      isNotNull(operatorDocumentSubmissions.expiresAt),
+      lte(operatorDocumentSubmissions.expiresAt, now)
+    ))
+    .returning();
+
+  const serviceTypesByOperator = new Map<string, string[]>();
+  for (const submission of expired) {
+    const serviceTypes = serviceTypesByOperator.get(submission.operatorId) || [];
+    serviceTypes.push(submission.serviceType);
+    serviceTypesByOperator.set(submission.operatorId, serviceTypes);
+  }
+
+  for (const [operatorId, serviceTypes] of Array.from(serviceTypesByOperator)) {
+    await syncServiceLocks(operatorId, serviceTypes);
+  }
+
+  for (const submission of expired) {
+    await notificationService.notifyOperatorOfDocumentExpired(
+      submission.operatorId,
+      submission.id,
+      submission.serviceType,
+      await getDocumentName(submission)
+    );
+  }
+
+  if (expired.length > 0) {
+    console.log(`[Document Expiry] Expired ${expired.length} document(s), suspended services for ${serviceTypesByOperator.size} operator(s)`);
+  }
+  return expired.length;
+}
+
+/**
+ * Expire lapsed documents, then send any warnings that are due
+ */
+export async function runDocumentExpiryCheck(now: Date = new Date()): Promise<void> {
+  await expireDocuments(now);
+  await sendExpiryWarnings(now);
+}
+
+/**
+ * Start document expiry job - checks on startup and every hour
+ */
+export function startDocumentExpiryJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    runDocumentExpiryCheck()
+      .catch(err => console.error("[Document Expiry] Check failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const CHECK_INTERVAL = 60 * 60 * 1000;
+  setInterval(run, CHECK_INTERVAL);
+
+  console.log(`[Document Expiry] Job started - warns ${EXPIRY_WARNING_DAYS.join("/")} days before documents expire and suspends services on expiry`);
+}
@@ -0,0 +1,283 @@
+/**
+ * Earnings Release Job - Settles completed jobs once the customer review window has passed
+ * Moves the job's earnings from pending to available, credits the operator's wallet (or, for a
+ * business's drivers, the business payroll that pays them) and marks the service request's payment
+ * as available. Only captured payments are released and never for more than the customer paid.
+ * A dispute pauses the release by setting earningsHoldReason on the request; resolving it settles
+ * the earnings, less any refund.
+ */
+
+import { db } from "../db";
+import { serviceRequests, acceptedJobs, users, operators, operatorDailyEarnings, operatorMonthlyEarnings } from "@shared/schema";
+import type { AcceptedJob, ServiceRequest } from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, isNull, lt, sql } from "drizzle-orm";
+import { notificationService } from "../notificationService";
+import { creditWallet } from "../services/walletService";
+import { postJournal, debitCredit, LEDGER_ACCOUNTS } from "../services/ledgerService";
+import { getOpenJobPayment } from "../services/paymentService";
+import { toCents } from "../services/paymentProvider";
+
+// Matches the 8 hour customer review window shown on the operator earnings pages
+const DEFAULT_EARNINGS_HOLD_HOURS = 8;
+
+// Completed jobs whose earnings are still held and whose customer was charged through the payment provider
+const RELEASABLE_PAYMENT_STATUSES = ["captured"];
+
+/**
+ * Hours a completed job's earnings are held, configurable with EARNINGS_HOLD_HOURS
+ */
+export function getEarningsHoldHours(): number {
+  const configured = process.env.EARNINGS_HOLD_HOURS;
+  const hours = configured ? Number(configured) : NaN;
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_EARNINGS_HOLD_HOURS;
+}
+
+/**
+ * Pause the earnings release for a request, e.g. while a dispute is open
+ * @returns false if the request does not exist or its earnings were already released
+ */
+export async function pauseEarningsRelease(requestId: string, reason: string): Promise<boolean> {
+  const paused = await db.update(serviceRequests)
+    .set({ earningsHoldReason: reason, earningsHeldAt: new Date() })
+    .where(and(
+      eq(serviceRequests.requestId, requestId),
+      isNull(serviceRequests.paymentAvailableAt)
+    ))
+    .returning();
+  return paused.length > 0;
+}
+
+/**
+ * Lift a pause; the next run releases the earnings if the hold window has passed
+ */
+export async function resumeEarningsRelease(requestId: string): Promise<boolean> {
+  const resumed = await db.update(serviceRequests)
+    .set({ earningsHoldReason: null, earningsHeldAt: null })
+    .where(and(
+      eq(serviceRequests.requestId, requestId),
+      isNotNull(serviceRequests.earningsHoldReason)
+    ))
+    .returning();
+  return resumed.length > 0;
+}
+
+/**
+ * The operator's completed accepted job for a request, which records their earnings
+ */
+export async function findCompletedJob(requestId: string, operatorId: string): Promise<AcceptedJob | null> {
+  const [job] = await db.select().from(acceptedJobs)
+    .where(and(
+      eq(acceptedJobs.jobSourceId, requestId),
+      eq(acceptedJobs.operatorId, operatorId),
+      eq(acceptedJobs.status, "completed")
+    ))
+    .orderBy(desc(acceptedJobs.completedAt))
+    .limit(1);
+  return job || null;
+}
+
+export type EarningsRecipient =
+  | { kind: "wallet"; userId: number }
+  | { kind: "payroll"; businessId: string };
+
+/**
+ * Where an operator's job earnings are paid
+ * Drivers attached to a business are paid through its payroll, so their earnings fund the business
+ * payroll account instead of their wallet. The owner's own jobs are left out of payroll and go to
+ * their wallet.
+ * @returns null when the operator has no account to pay yet
+ */
+export async function findEarningsRecipient(operatorId: string): Promise<EarningsRecipient | null> {
+  const [operator, operatorUser] = await Promise.all([
+    db.query.operators.findFirst({ where: eq(operators.operatorId, operatorId) }),
+    db.query.users.findFirst({ where: eq(users.operatorId, operatorId) }),
+  ]);
+  if (operator?.businessId && operatorUser?.businessId !== operator.businessId) {
+    return { kind: "payroll", businessId: operator.businessId };
+  }
+  return operatorUser ? { kind: "wallet", userId: operatorUser.id } : null;
+}
+
+/**
+ * Release one completed request's earnings
+ * @param dispute - Settle a request held by this dispute, keeping back deductionCents of the earnings
+ * @returns false when the request was skipped (no operator account, or already released)
+ */
+async function releaseRequestEarnings(request: ServiceRequest, now: Date, dispute?: { holdReason: string; deductionCents: number }): Promise<boolean> {
+  const operatorId = request.assignedOperatorId || request.operatorId;
+  if (!operatorId) return false;
+
+  const recipient = await findEarningsRecipient(operatorId);
+  if (!recipient) {
+    // Nowhere to credit yet - keep the earnings pending until the operator has an account
+    return false;
+  }
+
+  const job = await findCompletedJob(request.requestId, operatorId);
+  const earned = job?.actualEarnings ? parseFloat(job.actualEarnings) : 0;
+  const payment = await getOpenJobPayment(request.requestId);
+  // The operator is paid at most what the customer was charged and not refunded (a dispute's refund is
+  // already in refundedCents), whatever earnings were posted when the job completed
+  const paidCents = payment && payment.status !== "authorized" ? payment.capturedCents - payment.refundedCents : 0;
+  const amount = Math.max(0, Math.min(toCents(earned) - (dispute?.deductionCents || 0), paidCents)) / 100;
+
+  // The claim, wallet credit, fee journal and earnings rollups commit together, so a failure part way
+  // leaves the request unreleased and the next run tries again
+  const released = await db.transaction(async (tx) => {
+    // Claim the request so an overlapping run or a new dispute cannot release it twice
+    const [claimed] = await tx.update(serviceRequests)
+      .set({
+        paymentStatus: dispute && amount <= 0 ? "refunded" : "available",
+        paymentAvailableAt: now,
+        ...(dispute ? { earningsHoldReason: null, earningsHeldAt: null } : {}),
+      })
+      .where(and(
+        eq(serviceRequests.requestId, request.requestId),
+        eq(serviceRequests.status, "completed"),
+        inArray(serviceRequests.paymentStatus, RELEASABLE_PAYMENT_STATUSES),
+        dispute ? eq(serviceRequests.earningsHoldReason, dispute.holdReason) : isNull(serviceRequests.earningsHoldReason)
+      ))
+      .returning();
+    if (!claimed) return false;
+
+    if (earned <= 0 || !job) return true;
+
+    if (amount > 0) {
+      if (recipient.kind === "payroll") {
+        await postJournal(tx, {
+          kind: "operator_earning",
+          lines: debitCredit(LEDGER_ACCOUNTS.customerFunds, LEDGER_ACCOUNTS.businessPayroll(recipient.businessId), toCents(amount)),
+          description: `Earnings for ${request.serviceType} (${request.requestId}) by ${operatorId}`,
+          reference: request.requestId,
+        });
+      } else {
+        await creditWallet({
+          userId: recipient.userId,
+          amount,
+          description: `Earnings for ${request.serviceType} (${request.requestId})`,
+          reference: request.requestId,
+          kind: "operator_earning",
+          fundedBy: LEDGER_ACCOUNTS.customerFunds,
+          tier: job.tier,
+          metadata: { acceptedJobId: job.acceptedJobId, operatorId },
+        }, tx);
+      }
+    }
+
+    // Whatever the customer paid beyond the operator's earnings is the platform's fee
+    const feeCents = paidCents - toCents(amount);
+    if (feeCents > 0) {
+      await postJournal(tx, {
+        kind: "platform_fee",
+        lines: debitCredit(LEDGER_ACCOUNTS.customerFunds, LEDGER_ACCOUNTS.fees, feeCents),
+        description: `Platform fee for ${request.requestId}`,
+        reference: request.requestId,
+      });
+    }
+
+    // Move the earnings out of pending on the day and month the job completed; only what was paid becomes available
+    const completedAt = job.completedAt || request.completedAt || now;
+    const date = completedAt.toISOString().split('T')[0];
+    const month = completedAt.toISOString().substring(0, 7);
+    const earnedText = earned.toFixed(2);
+    const amountText = amount.toFixed(2);
+
+    await tx.update(operatorDailyEarnings)
+      .set({
+        earningsPending: sql`GREATEST(${operatorDailyEarnings.earningsPending} - ${earnedText}, 0)`,
+        earningsAvailable: sql`${operatorDailyEarnings.earningsAvailable} + ${amountText}`,
+        updatedAt: now
+      })
+      .where(and(
+        eq(operatorDailyEarnings.operatorId, operatorId),
+        eq(operatorDailyEarnings.tier, job.tier),
+        eq(operatorDailyEarnings.date, date)
+      ));
+
+    await tx.update(operatorMonthlyEarnings)
+      .set({
+        earningsPending: sql`GREATEST(${operatorMonthlyEarnings.earningsPending} - ${earnedText}, 0)`,
+        earningsAvailable: sql`${operatorMonthlyEarnings.earningsAvailable} + ${amountText}`,
+        updatedAt: now
+      })
+      .where(and(
+        eq(operatorMonthlyEarnings.operatorId, operatorId),
+        eq(operatorMonthlyEarnings.tier, job.tier),
+        eq(operatorMonthlyEarnings.month, month)
+      ));
+    return true;
+  });
+
+  if (released && amount > 0 && earned > 0 && job && recipient.kind === "wallet") {
+    await notificationService.notifyOperatorOfEarningsAvailable(operatorId, request.requestId, request.serviceType, amount.toFixed(2));
+  }
+  return released;
+}
+
+/**
+ * Settle the earnings held by a resolved dispute straight away rather than waiting for the hold window
+ * @param deductionCents - Kept back from the operator because it was refunded to the customer
+ * @returns false when the earnings are not held by this dispute or the operator has no account yet
+ */
+export async function releaseDisputedEarnings(requestId: string, holdReason: string, deductionCents: number, now: Date = new Date()): Promise<boolean> {
+  const [request] = await db.select().from(serviceRequests)
+    .where(eq(serviceRequests.requestId, requestId))
+    .limit(1);
+  if (!request) return false;
+  return releaseRequestEarnings(request, now, { holdReason, deductionCents });
+}
+
+/**
+ * Release earnings for every completed, undisputed request past the hold window
+ * @returns Number of requests released
+ */
+export async function releaseClearedEarnings(now: Date = new Date(), holdHours: number = getEarningsHoldHours()): Promise<number> {
+  const cutoff = new Date(now.getTime() - holdHours * 60 * 60 * 1000);
+
+  const cleared = await db.select().from(serviceRequests)
+    .where(and(
+      eq(serviceRequests.status, "completed"),
+      inArray(serviceRequests.paymentStatus, RELEASABLE_PAYMENT_STATUSES),
+      isNull(serviceRequests.earningsHoldReason),
+      isNotNull(serviceRequests.completedAt),
+      lt(serviceRequests.completedAt, cutoff)
+    ));
+
+  let released = 0;
+  for (const request of cleared) {
+    try {
+      if (await releaseRequestEarnings(request, now)) released++;
+    } catch (error) {
+      console.error(`[Earnings Release] Failed to release earnings for ${request.requestId}:`, error);
+    }
+  }
+
+  if (released > 0) {
+    console.log(`[Earnings Release] Released earnings for ${released} completed jobs`);
+  }
+  return released;
+}
+
+/**
+ * Start earnings release job - runs on startup and every 5 minutes
+ */
+export function startEarningsReleaseJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    releaseClearedEarnings()
+      .catch(err => console.error("[Earnings Release] Run failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  console.log(`[Earnings Release] Starting initial run (hold window: ${getEarningsHoldHours()} hours)...`);
+  run();
+
+  const RELEASE_INTERVAL = 5 * 60 * 1000;
+  setInterval(run, RELEASE_INTERVAL);
+
+  console.log("[Earnings Release] Job started - will run every 5 minutes");
+}
@@ -0,0 +1,135 @@
+/**
+ * Expiry Sweeper Job - Acts on the expiry timestamps written by the quote and dispatch flows
+ * Expires stale quotes, closes lapsed quote windows and hands lapsed dispatch offers
+ * to the dispatch engine so the cascade moves on
+ */
+
+import { db } from "../db";
+import { operatorQuotes, serviceRequests } from "@shared/schema";
+import { and, eq, inArray, isNotNull, lt, sql } from "drizzle-orm";
+import { notificationService } from "../notificationService";
+import { dispatchEngine } from "../services/dispatchEngine";
+
+// Quote statuses still waiting on a customer or operator response
+const OPEN_QUOTE_STATUSES = ["sent", "counter_pending", "counter_sent"];
+
+/**
+ * Move quotes past their expiresAt to "expired"
+ * @returns Number of quotes expired
+ */
+export async function expireStaleQuotes(now: Date = new Date()): Promise<number> {
+  const staleQuotes = await db.select()
+    .from(operatorQuotes)
+    .where(and(
+      inArray(operatorQuotes.status, OPEN_QUOTE_STATUSES),
+      isNotNull(operatorQuotes.expiresAt),
+      lt(operatorQuotes.expiresAt, now)
+    ));
+
+  let expired = 0;
+  for (const quote of staleQuotes) {
+    // Re-check status in the update so a concurrent response wins
+    const updated = await db.update(operatorQuotes)
+      .set({
+        status: "expired",
+        history: sql`${operatorQuotes.history} || ${JSON.stringify([{
+          action: "expired",
+          timestamp: now.toISOString(),
+          actor: "system"
+        }])}`
+      })
+      .where(and(
+        eq(operatorQuotes.quoteId, quote.quoteId),
+        inArray(operatorQuotes.status, OPEN_QUOTE_STATUSES)
+      ))
+      .returning();
+
+    if (updated.length === 0) continue;
+    expired++;
+
+    const request = await db.query.serviceRequests.findFirst({
+      where: eq(serviceRequests.requestId, quote.serviceRequestId),
+    });
+    if (!request) continue;
+
+    await notificationService.notifyQuoteExpired(
+      quote.serviceRequestId,
+      request.customerId,
+      quote.operatorId,
+      quote.operatorName,
+      quote.quoteId,
+      quote.status
+    );
+  }
+
+  return expired;
+}
+
+/**
+ * Close quote windows past quoteWindowExpiresAt by setting quoteStatus to "expired"
+ * @returns Number of quote windows closed
+ */
+export async function closeExpiredQuoteWindows(now: Date = new Date()): Promise<number> {
+  const closedRequests = await db.update(serviceRequests)
+    .set({ quoteStatus: "expired" })
+    .where(and(
+      eq(serviceRequests.quoteStatus, "open"),
+      isNotNull(serviceRequests.quoteWindowExpiresAt),
+      lt(serviceRequests.quoteWindowExpiresAt, now)
+    ))
+    .returning();
+
+  for (const request of closedRequests) {
+    await notificationService.notifyCustomerOfQuoteWindowClosed(
+      request.requestId,
+      request.customerId,
+      request.status,
+      request.quoteCount || 0
+    );
+  }
+
+  return closedRequests.length;
+}
+
+/**
+ * Run every expiry check once
+ */
+export async function sweepExpiredRecords(now: Date = new Date()): Promise<void> {
+  try {
+    const quotes = await expireStaleQuotes(now);
+    const windows = await closeExpiredQuoteWindows(now);
+    // The dispatch engine reads time from its own clock
+    const dispatches = await dispatchEngine.expireLapsedDispatches();
+
+    if (quotes + windows + dispatches > 0) {
+      console.log(`[Expiry Sweeper] Expired quotes: ${quotes}, closed quote windows: ${windows}, expired dispatches: ${dispatches}`);
+    }
+  } catch (error) {
+    console.error("[Expiry Sweeper] Error sweeping expired records:", error);
+  }
+}
+
+/**
+ * Start expiry sweeper job - runs on startup and every minute
+ */
+export function startExpirySweeperJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (isRunning) return;
+    isRunning = true;
+    sweepExpiredRecords()
+      .catch(err => console.error("[Expiry Sweeper] Sweep failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  console.log("[Expiry Sweeper] Starting initial sweep...");
+  run();
+
+  // Dispatch windows are 10-15 minutes, so sweep every minute (60000 ms)
+  const SWEEP_INTERVAL = 60 * 1000;
+  setInterval(run, SWEEP_INTERVAL);
+
+  console.log("[Expiry Sweeper] Job started - will sweep every minute");
+}
@@ -0,0 +1,53 @@
+/**
+ * Payout Batch Job - Runs the weekly withdrawal payout
+ * Checks every hour and, on the payout weekday (Friday unless PAYOUT_WEEKDAY is set,
+ * 0 = Sunday), sends all pending withdrawals through the payment provider once. Every check
+ * also finishes batches an earlier crash left processing.
+ */
+
+import { runPayoutBatch, hasScheduledBatch, recoverStalePayoutBatches } from "../services/payoutService";
+
+const DEFAULT_PAYOUT_WEEKDAY = 5; // Friday
+
+export function getPayoutWeekday(): number {
+  const configured = process.env.PAYOUT_WEEKDAY;
+  const weekday = configured ? Number(configured) : NaN;
+  return Number.isInteger(weekday) && weekday >= 0 && weekday <= 6 ? weekday : DEFAULT_PAYOUT_WEEKDAY;
+}
+
+/**
+ * Run the scheduled batch if today is the payout day and it has not run yet
+ */
+export async function runScheduledPayouts(now: Date = new Date()): Promise<void> {
+  await recoverStalePayoutBatches(now);
+
+  if (now.getUTCDay() !== getPayoutWeekday()) return;
+
+  const payoutDate = now.toISOString().split('T')[0];
+  if (await hasScheduledBatch(payoutDate)) return;
+
+  await runPayoutBatch("schedule", now);
+}
+
+/**
+ * Start payout batch job - checks on startup and every hour
+ */
+export function startPayoutBatchJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow batch
+    if (isRunning) return;
+    isRunning = true;
+    runScheduledPayouts()
+      .catch(err => console.error("[Payouts] Scheduled payout failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const CHECK_INTERVAL = 60 * 60 * 1000;
+  setInterval(run, CHECK_INTERVAL);
+
+  console.log(`[Payouts] Job started - pays out pending withdrawals weekly (weekday ${getPayoutWeekday()}, UTC)`);
+}
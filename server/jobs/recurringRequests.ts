@@ -0,0 +1,35 @@
+/**
+ * Recurring Request Job - Posts the service requests of recurring series as they come due
+ * Scheduled series post each occurrence a couple of days ahead; snowfall series check the
+ * forecast grid hourly and post a request once enough snow has fallen.
+ */
+
+import { runRecurringRequests, SERIES_SETTINGS } from "../services/recurringRequestService";
+
+/**
+ * Start recurring request job - runs on startup and every 15 minutes
+ */
+export function startRecurringRequestJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    runRecurringRequests()
+      .then(posted => {
+        if (posted > 0) {
+          console.log(`[Recurring Requests] Posted ${posted} request(s)`);
+        }
+      })
+      .catch(err => console.error("[Recurring Requests] Run failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const RECURRING_INTERVAL = 15 * 60 * 1000;
+  setInterval(run, RECURRING_INTERVAL);
+
+  console.log(`[Recurring Requests] Job started - posts scheduled requests ${SERIES_SETTINGS.leadDays} days ahead, checking every 15 minutes`);
+}
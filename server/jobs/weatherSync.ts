@@ -1,20 +1,72 @@
 /**
  * Weather Sync Job - Automatically fetches and updates weather alerts
- * Runs on server startup and periodically to keep alerts current
+ * Runs on server startup and periodically to keep alerts current, for every state and province
+ * where operators have service areas
  */
 
 import { db } from "../db";
-import { weatherAlerts } from "@shared/schema";
+import { weatherAlerts, operatorServiceAreas } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 import { getServiceRelevantAlerts } from "../services/weatherService";
+import type { WeatherAlert } from "../services/weatherService";
+import { getWeatherProvider } from "../services/weatherProvider";
 
-export async function syncWeatherAlerts(area: string = "US"): Promise<void> {
+export interface WeatherSyncResult {
+  winterAlerts: number;
+  stormAlerts: number;
+  total: number;
+  newAlerts: number;
+}
+
+export interface WeatherRegion {
+  countryCode: string; // ISO2 country code, e.g. "US", "CA"
+  regionCode: string; // State or province code, e.g. "CO", "ON"
+}
+
+/**
+ * Every state and province with an active operator service area
+ */
+export async function getServiceAreaRegions(): Promise<WeatherRegion[]> {
+  const areas = await db.selectDistinct({
+    countryCode: operatorServiceAreas.countryCode,
+    regionCode: operatorServiceAreas.stateCode,
+  })
+    .from(operatorServiceAreas)
+    .where(eq(operatorServiceAreas.isActive, 1));
+
+  const regions = new Map<string, WeatherRegion>();
+  for (const area of areas) {
+    const region = { countryCode: area.countryCode.toUpperCase(), regionCode: area.regionCode.toUpperCase() };
+    regions.set(`${region.countryCode}-${region.regionCode}`, region);
+  }
+  return Array.from(regions.values());
+}
+
+/**
+ * Fetch relevant alerts, store new ones and deactivate expired ones
+ * @param regions - States and provinces to sync; defaults to those with operator service areas
+ * @returns Alert counts, or null if the sync failed
+ */
+export async function syncWeatherAlerts(regions?: WeatherRegion[]): Promise<WeatherSyncResult | null> {
   try {
-    console.log(`[Weather Sync] Starting weather alert sync for area: ${area}...`);
-    
-    // Fetch latest alerts from NWS
-    const alerts = await getServiceRelevantAlerts(area);
-    const allRelevantAlerts = [...alerts.winterAlerts, ...alerts.stormAlerts];
+    const syncRegions = regions || await getServiceAreaRegions();
+    console.log(`[Weather Sync] Starting weather alert sync for ${syncRegions.length} region(s): ${syncRegions.map(region => `${region.countryCode}-${region.regionCode}`).join(", ") || "none"}...`);
+
+    // Fetch latest alerts country by country from the provider covering each
+    const countries = Array.from(new Set(syncRegions.map(region => region.countryCode)));
+    const winterAlerts = new Map<string, WeatherAlert>();
+    const stormAlerts = new Map<string, WeatherAlert>();
+    const sources = new Map<string, string>();
+    for (const countryCode of countries) {
+      const regionCodes = syncRegions.filter(region => region.countryCode === countryCode).map(region => region.regionCode);
+      const alerts = await getServiceRelevantAlerts(countryCode, regionCodes);
+      alerts.winterAlerts.forEach(alert => winterAlerts.set(alert.id, alert));
+      alerts.stormAlerts.forEach(alert => stormAlerts.set(alert.id, alert));
+      sources.set(countryCode, getWeatherProvider(countryCode)?.name || "unknown");
+    }
+
+    // An alert can be both winter and storm weather, e.g. "Winter Storm Warning"
+    const allRelevantAlerts = Array.from(new Map([...winterAlerts, ...stormAlerts]).values());
     
     if (allRelevantAlerts.length === 0) {
       console.log("[Weather Sync] No severe weather alerts found");
@@ -22,7 +74,7 @@ export async function syncWeatherAlerts(area: string = "US"): Promise<void> {
       await db.update(weatherAlerts)
         .set({ isActive: 0 })
         .where(sql`${weatherAlerts.expires} < NOW() AND ${weatherAlerts.isActive} = 1`);
-      return;
+      return { winterAlerts: 0, stormAlerts: 0, total: 0, newAlerts: 0 };
     }
     
     // Update database with new alerts
@@ -36,6 +88,8 @@ export async function syncWeatherAlerts(area: string = "US"): Promise<void> {
         // Insert new alert
         await db.insert(weatherAlerts).values({
           alertId: alert.id,
+          source: sources.get(alert.countryCode) || "unknown",
+          countryCode: alert.countryCode,
           event: alert.event,
           headline: alert.headline,
           description: alert.description,
@@ -46,6 +100,8 @@ export async function syncWeatherAlerts(area: string = "US"): Promise<void> {
           expires: new Date(alert.expires),
           instruction: alert.instruction,
           category: alert.category,
+          geometry: alert.geometry || null,
+          regionCodes: alert.regionCodes,
           isActive: 1,
         });
         newAlerts++;
@@ -58,9 +114,16 @@ export async function syncWeatherAlerts(area: string = "US"): Promise<void> {
       .where(sql`${weatherAlerts.expires} < NOW() AND ${weatherAlerts.isActive} = 1`);
     
     console.log(`[Weather Sync] Completed. New alerts: ${newAlerts}, Total relevant: ${allRelevantAlerts.length}`);
-    console.log(`[Weather Sync] Winter alerts: ${alerts.winterAlerts.length}, Storm alerts: ${alerts.stormAlerts.length}`);
+    console.log(`[Weather Sync] Winter alerts: ${winterAlerts.size}, Storm alerts: ${stormAlerts.size}`);
+    return {
+      winterAlerts: winterAlerts.size,
+      stormAlerts: stormAlerts.size,
+      total: allRelevantAlerts.length,
+      newAlerts,
+    };
   } catch (error) {
     console.error("[Weather Sync] Error syncing weather alerts:", error);
+    return null;
   }
 }
 
@@ -0,0 +1,28 @@
+/**
+ * Zone Counts Job - Keeps each service zone's operator and open request counts current
+ */
+
+import { refreshZoneCounts } from "../services/zoneService";
+
+/**
+ * Start zone counts job - runs on startup and every 2 minutes
+ */
+export function startZoneCountsJob(): void {
+  let isRunning = false;
+
+  const run = () => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    refreshZoneCounts()
+      .catch(err => console.error("[Zone Counts] Run failed:", err))
+      .finally(() => { isRunning = false; });
+  };
+
+  run();
+
+  const ZONE_COUNTS_INTERVAL = 2 * 60 * 1000;
+  setInterval(run, ZONE_COUNTS_INTERVAL);
+
+  console.log("[Zone Counts] Job started - counts operators and open requests per zone every 2 minutes");
+}
@@ -1,6 +1,8 @@
 import { db } from "./db";
-import { notifications, requestStatusEvents, operators, customers, users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { notifications, requestStatusEvents, operators, customers, users, serviceRequests, acceptedJobs } from "@shared/schema";
+import type { AcceptedJob, JobMessage, OperatorLiveLocation } from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { realtimeHub } from "./realtime";
 
 export class NotificationService {
   /**
@@ -58,7 +60,7 @@ export class NotificationService {
   }): Promise<string> {
     const eventId = `EVT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    await db.insert(requestStatusEvents).values({
+    const [event] = await db.insert(requestStatusEvents).values({
       eventId,
       requestId: params.requestId,
       actorRole: params.actorRole,
@@ -68,7 +70,12 @@ export class NotificationService {
       toStatus: params.toStatus,
       eventType: params.eventType,
       metadata: params.metadata,
-    });
+    }).returning();
+    
+    // Push to the request's customer and operator without blocking the caller
+    this.getRequestParticipantUserIds(params.requestId)
+      .then(userIds => realtimeHub.publishToUsers(userIds, "status_event", event))
+      .catch(err => console.error(`Failed to push status event ${eventId}:`, err));
     
     return eventId;
   }
@@ -86,10 +93,11 @@ export class NotificationService {
     statusEventId?: string;
     metadata?: Record<string, unknown>;
     deliveryState?: string;
+    expiresAt?: Date;
   }): Promise<void> {
     const notificationId = `NOT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    await db.insert(notifications).values({
+    const [notification] = await db.insert(notifications).values({
       notificationId,
       userId: params.userId,
       audienceRole: params.audienceRole,
@@ -100,7 +108,78 @@ export class NotificationService {
       statusEventId: params.statusEventId,
       metadata: params.metadata,
       deliveryState: params.deliveryState || "pending",
+      expiresAt: params.expiresAt,
+    }).returning();
+    
+    realtimeHub.publishToUser(params.userId, "notification", notification);
+  }
+
+  /**
+   * Resolve the userIds of the customer and operator on a service request
+   */
+  async getRequestParticipantUserIds(requestId: string): Promise<string[]> {
+    const request = await db.query.serviceRequests.findFirst({
+      where: eq(serviceRequests.requestId, requestId),
+    });
+    if (!request) return [];
+
+    const operatorId = request.assignedOperatorId || request.operatorId;
+    const [customerUserId, operatorUserId] = await Promise.all([
+      this.getUserIdFromCustomerId(request.customerId),
+      operatorId ? this.getUserIdFromOperatorId(operatorId) : Promise.resolve(null),
+    ]);
+    return [customerUserId, operatorUserId].filter((id): id is string => !!id);
+  }
+
+  /**
+   * Resolve the userIds of the customer and operator on an accepted job
+   */
+  async getJobParticipantUserIds(job: AcceptedJob): Promise<string[]> {
+    const jobData = job.jobData as { customerId?: string } | null;
+    const [customerUserId, operatorUserId] = await Promise.all([
+      jobData?.customerId ? this.getUserIdFromCustomerId(jobData.customerId) : Promise.resolve(null),
+      this.getUserIdFromOperatorId(job.operatorId),
+    ]);
+    return [customerUserId, operatorUserId].filter((id): id is string => !!id);
+  }
+
+  /**
+   * Push a new job message to both participants of the job
+   */
+  async pushJobMessage(message: JobMessage): Promise<void> {
+    const job = await db.query.acceptedJobs.findFirst({
+      where: eq(acceptedJobs.acceptedJobId, message.jobId),
     });
+    if (!job) return;
+
+    const userIds = await this.getJobParticipantUserIds(job);
+    realtimeHub.publishToUsers(userIds, "job_message", message);
+  }
+
+  /**
+   * Push an operator's live location to customers of their active jobs
+   */
+  async pushOperatorLocation(location: OperatorLiveLocation): Promise<void> {
+    const activeJobs = await db.select()
+      .from(acceptedJobs)
+      .where(and(
+        eq(acceptedJobs.operatorId, location.operatorId),
+        inArray(acceptedJobs.status, ["accepted", "in_progress"])
+      ));
+
+    for (const job of activeJobs) {
+      const userIds = await this.getJobParticipantUserIds(job);
+      realtimeHub.publishToUsers(userIds, "operator_location", {
+        jobId: job.acceptedJobId,
+        operatorId: location.operatorId,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        heading: location.heading,
+        speed: location.speed,
+        isEnRoute: location.isEnRoute === 1,
+        updatedAt: location.updatedAt,
+      });
+    }
   }
 
   /**
@@ -252,10 +331,57 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Notify customer when an operator takes their request as part of a customer group
+   * @param customerId - The customerId (CUST-xxx format)
+   */
+  async notifyCustomerOfGroupAcceptance(requestId: string, customerId: string, operatorId: string, operatorName: string, groupId: string, jobId: string) {
+    const eventId = await this.createStatusEvent({
+      requestId,
+      actorRole: "operator",
+      actorId: operatorId,
+      actorName: operatorName,
+      fromStatus: "pending",
+      toStatus: "assigned",
+      eventType: "group_accepted",
+      metadata: { groupId, jobId },
+    });
+
+    const userId = await this.getUserIdFromCustomerId(customerId);
+    if (!userId) {
+      console.error(`No userId found for customer ${customerId}, cannot send group acceptance notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "customer",
+      title: "Operator Assigned",
+      body: `${operatorName} accepted your request along with other jobs nearby`,
+      type: "job_assigned",
+      requestId,
+      statusEventId: eventId,
+      metadata: { groupId, jobId, operatorId, operatorName },
+      deliveryState: "pending",
+    });
+  }
+
   /**
    * Notify customer when job starts
    * @param customerId - The customerId (CUST-xxx format)
    */
+  async notifyCustomerOfSeriesAcceptance(userId: string, seriesId: string, operatorId: string, operatorName: string, serviceType: string) {
+    await this.createNotification({
+      userId,
+      audienceRole: "customer",
+      title: "Recurring Service Accepted",
+      body: `${operatorName} will handle every ${serviceType} request in your recurring series`,
+      type: "series_accepted",
+      metadata: { seriesId, operatorId, operatorName },
+      deliveryState: "pending",
+    });
+  }
+
   async notifyCustomerOfJobStart(requestId: string, customerId: string, operatorName: string, jobId: string) {
     const eventId = await this.createStatusEvent({
       requestId,
@@ -392,6 +518,337 @@ export class NotificationService {
       deliveryState: "pending",
     });
   }
+
+  /**
+   * Notify operator and customer that an unanswered quote expired
+   * @param customerId - The customerId (CUST-xxx format)
+   * @param operatorId - The operatorId (OP-xxx format)
+   */
+  async notifyQuoteExpired(requestId: string, customerId: string, operatorId: string, operatorName: string, quoteId: string, fromStatus: string) {
+    const eventId = await this.createStatusEvent({
+      requestId,
+      actorRole: "system",
+      actorId: quoteId,
+      actorName: "Fleetly",
+      fromStatus,
+      toStatus: "expired",
+      eventType: "quote_expired",
+      metadata: { quoteId, operatorId },
+    });
+
+    const operatorUserId = await this.getUserIdFromOperatorId(operatorId);
+    if (operatorUserId) {
+      await this.createNotification({
+        userId: operatorUserId,
+        audienceRole: "operator",
+        title: "Quote Expired",
+        body: "Your quote expired before the customer responded",
+        type: "quote_expired",
+        requestId,
+        statusEventId: eventId,
+        metadata: { quoteId, operatorId },
+        deliveryState: "pending",
+      });
+    } else {
+      console.error(`No userId found for operator ${operatorId}, cannot send quote expiry notification`);
+    }
+
+    const customerUserId = await this.getUserIdFromCustomerId(customerId);
+    if (customerUserId) {
+      await this.createNotification({
+        userId: customerUserId,
+        audienceRole: "customer",
+        title: "Quote Expired",
+        body: `${operatorName}'s quote for your request has expired`,
+        type: "quote_expired",
+        requestId,
+        statusEventId: eventId,
+        metadata: { quoteId, operatorName, customerId },
+        deliveryState: "pending",
+      });
+    } else {
+      console.error(`No userId found for customer ${customerId}, cannot send quote expiry notification`);
+    }
+  }
+
+  /**
+   * Notify customer that the quote window on their request closed
+   * @param customerId - The customerId (CUST-xxx format)
+   */
+  async notifyCustomerOfQuoteWindowClosed(requestId: string, customerId: string, fromStatus: string, quoteCount: number) {
+    const eventId = await this.createStatusEvent({
+      requestId,
+      actorRole: "system",
+      actorId: requestId,
+      actorName: "Fleetly",
+      fromStatus,
+      toStatus: fromStatus,
+      eventType: "quote_window_expired",
+      metadata: { quoteCount },
+    });
+
+    const userId = await this.getUserIdFromCustomerId(customerId);
+    if (!userId) {
+      console.error(`No userId found for customer ${customerId}, cannot send quote window notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "customer",
+      title: "Quote Window Closed",
+      body: quoteCount > 0
+        ? `Your request received ${quoteCount} quote${quoteCount === 1 ? "" : "s"}. No new quotes will be accepted.`
+        : "No operators quoted your request in time. You can edit and resubmit it.",
+      type: "quote_window_expired",
+      requestId,
+      statusEventId: eventId,
+      metadata: { quoteCount, customerId },
+      deliveryState: "pending",
+    });
+  }
+
+  /**
+   * Notify operator that their dispatch window lapsed without a response
+   * @param requestId - Service request or emergency ID the dispatch belongs to
+   * @param operatorId - The operatorId (OP-xxx format)
+   */
+  async notifyOperatorOfDispatchExpired(requestId: string, operatorId: string, queueId: string, fromStatus: string) {
+    const eventId = await this.createStatusEvent({
+      requestId,
+      actorRole: "system",
+      actorId: queueId,
+      actorName: "Fleetly",
+      fromStatus,
+      toStatus: "expired",
+      eventType: "dispatch_expired",
+      metadata: { queueId, operatorId },
+    });
+
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send dispatch expiry notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Request Missed",
+      body: "Your response window closed and the request was offered to another operator",
+      type: "dispatch_expired",
+      requestId,
+      statusEventId: eventId,
+      metadata: { queueId, operatorId },
+      deliveryState: "pending",
+    });
+  }
+
+  /**
+   * Notify the next operator in a dispatch queue that it is their turn
+   * @param requestId - Service request or emergency ID the dispatch belongs to
+   * @param operatorId - The operatorId (OP-xxx format)
+   */
+  async notifyOperatorOfDispatch(requestId: string, operatorId: string, serviceType: string, queueId: string, queuePosition: number, expiresAt: Date) {
+    const eventId = await this.createStatusEvent({
+      requestId,
+      actorRole: "system",
+      actorId: queueId,
+      actorName: "Fleetly",
+      fromStatus: "pending",
+      toStatus: "notified",
+      eventType: "dispatch_notified",
+      metadata: { queueId, operatorId, queuePosition },
+    });
+
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send dispatch notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Urgent Request Nearby",
+      body: `A ${serviceType} request needs a response`,
+      type: "dispatch_notified",
+      requestId,
+      statusEventId: eventId,
+      metadata: { queueId, operatorId, queuePosition, serviceType },
+      deliveryState: "pending",
+      expiresAt,
+    });
+  }
+
+  /**
+   * Notify a driver that their payroll statement was approved and paid into their wallet
+   * @param operatorId - The driver's operatorId
+   */
+  async notifyDriverOfPayrollPaid(operatorId: string, businessName: string, amount: string, payrollPeriodId: string, statementId: string) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send payroll notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Payroll Deposited",
+      body: `${businessName} paid $${amount} into your wallet`,
+      type: "payroll_paid",
+      metadata: { payrollPeriodId, statementId, amount },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyOperatorOfEarningsAvailable(operatorId: string, requestId: string, serviceType: string, amount: string) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send earnings notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      requestId,
+      audienceRole: "operator",
+      title: "Earnings Available",
+      body: `$${amount} from your ${serviceType} job is now available in your wallet`,
+      type: "earnings_available",
+      metadata: { requestId, amount },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyOperatorOfWeatherDemand(operatorId: string, zoneName: string, alertId: string, event: string, serviceTypes: string[], expires: Date) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send weather demand notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Demand Expected",
+      body: `${event} in ${zoneName} - go online to pick up the jobs it brings`,
+      type: "weather_demand",
+      metadata: { alertId, zoneName, serviceTypes },
+      deliveryState: "pending",
+      expiresAt: expires,
+    });
+  }
+
+  async notifyOperatorOfDocumentReview(operatorId: string, submissionId: number, serviceType: string, documentName: string, decision: "approved" | "rejected", reviewNote: string | null) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send document review notification`);
+      return;
+    }
+
+    const approved = decision === "approved";
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: approved ? "Document Approved" : "Document Rejected",
+      body: approved
+        ? `Your ${documentName} for ${serviceType} was approved`
+        : `Your ${documentName} for ${serviceType} was rejected${reviewNote ? `: ${reviewNote}` : ""}`,
+      type: approved ? "document_approved" : "document_rejected",
+      metadata: { submissionId, serviceType, reviewNote },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyOperatorOfDocumentExpiring(operatorId: string, submissionId: number, serviceType: string, documentName: string, daysLeft: number, expiresAt: Date) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send document expiry notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Document Expiring Soon",
+      body: `Your ${documentName} for ${serviceType} expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}. Upload a renewed copy to keep offering this service.`,
+      type: "document_expiring",
+      metadata: { submissionId, serviceType, daysLeft, expiresAt: expiresAt.toISOString() },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyOperatorOfDocumentExpired(operatorId: string, submissionId: number, serviceType: string, documentName: string) {
+    const userId = await this.getUserIdFromOperatorId(operatorId);
+    if (!userId) {
+      console.error(`No userId found for operator ${operatorId}, cannot send document expiry notification`);
+      return;
+    }
+
+    await this.createNotification({
+      userId,
+      audienceRole: "operator",
+      title: "Service Suspended",
+      body: `Your ${documentName} for ${serviceType} has expired, so ${serviceType} is suspended until a renewed copy is approved`,
+      type: "document_expired",
+      metadata: { submissionId, serviceType },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyDisputeOpened(userId: string, audienceRole: string, requestId: string, disputeId: string, serviceType: string, statusEventId: string) {
+    await this.createNotification({
+      userId,
+      audienceRole,
+      title: "Dispute Opened",
+      body: `A dispute was opened on your ${serviceType} job. Add any evidence you have; our team reviews disputes within 24 hours.`,
+      type: "dispute_opened",
+      requestId,
+      statusEventId,
+      metadata: { disputeId },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyDisputeResolved(userId: string, audienceRole: string, requestId: string, disputeId: string, body: string, statusEventId: string) {
+    await this.createNotification({
+      userId,
+      audienceRole,
+      title: "Dispute Resolved",
+      body,
+      type: "dispute_resolved",
+      requestId,
+      statusEventId,
+      metadata: { disputeId },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyUserOfWithdrawalPaid(userId: string, audienceRole: string, amount: string, transactionId: number) {
+    await this.createNotification({
+      userId,
+      audienceRole,
+      title: "Withdrawal Sent",
+      body: `$${amount} has been sent to your bank account`,
+      type: "withdrawal_completed",
+      metadata: { transactionId, amount },
+      deliveryState: "pending",
+    });
+  }
+
+  async notifyUserOfWithdrawalFailed(userId: string, audienceRole: string, amount: string, transactionId: number, failureReason: string) {
+    await this.createNotification({
+      userId,
+      audienceRole,
+      title: "Withdrawal Failed",
+      body: `We couldn't send your $${amount} withdrawal. The funds are back in your wallet balance.`,
+      type: "withdrawal_failed",
+      metadata: { transactionId, amount, failureReason },
+      deliveryState: "pending",
+    });
+  }
 }
 
 export const notificationService = new NotificationService();
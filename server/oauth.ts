@@ -65,6 +65,8 @@ async function createOrLoginOAuthUser(email: string, name: string, provider: str
       role,
       operatorId,
       businessId: null,
+      emailVerified: 1, // The OAuth provider has already verified the address
+      emailVerifiedAt: new Date(),
     } as any;
     
     const [createdUser] = await db.insert(users).values(newUser).returning();
@@ -0,0 +1,116 @@
+/**
+ * Realtime Channel - Server-Sent Events stream for pushing live updates
+ * Clients authenticate with the existing sessionId cookie and receive
+ * notifications, request status events, job messages and operator locations
+ * addressed to their userId without polling.
+ */
+
+import { Router, type Response } from "express";
+
+export type RealtimeEventType = "notification" | "status_event" | "job_message" | "operator_location";
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  data: unknown;
+}
+
+// Keep proxies and load balancers from closing idle connections
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+export class RealtimeHub {
+  private clients = new Map<string, Set<Response>>();
+
+  /**
+   * Register an open SSE response for a user
+   */
+  addClient(userId: string, res: Response): void {
+    let userClients = this.clients.get(userId);
+    if (!userClients) {
+      userClients = new Set();
+      this.clients.set(userId, userClients);
+    }
+    userClients.add(res);
+  }
+
+  /**
+   * Remove a closed SSE response
+   */
+  removeClient(userId: string, res: Response): void {
+    const userClients = this.clients.get(userId);
+    if (!userClients) return;
+
+    userClients.delete(res);
+    if (userClients.size === 0) {
+      this.clients.delete(userId);
+    }
+  }
+
+  /**
+   * Check whether a user currently has an open stream
+   */
+  isConnected(userId: string): boolean {
+    return this.clients.has(userId);
+  }
+
+  /**
+   * Push an event to every open stream of a user
+   */
+  publishToUser(userId: string, type: RealtimeEventType, data: unknown): void {
+    const userClients = this.clients.get(userId);
+    if (!userClients) return;
+
+    const payload = `data: ${JSON.stringify({ type, data } satisfies RealtimeEvent)}\n\n`;
+    for (const res of userClients) {
+      try {
+        res.write(payload);
+      } catch (error) {
+        console.error(`[Realtime] Failed to write to client of ${userId}:`, error);
+        this.removeClient(userId, res);
+      }
+    }
+  }
+
+  /**
+   * Push an event to several users, skipping duplicates and empty IDs
+   */
+  publishToUsers(userIds: Array<string | null | undefined>, type: RealtimeEventType, data: unknown): void {
+    const uniqueUserIds = new Set(userIds.filter((id): id is string => !!id));
+    for (const userId of uniqueUserIds) {
+      this.publishToUser(userId, type, data);
+    }
+  }
+}
+
+export const realtimeHub = new RealtimeHub();
+
+const router = Router();
+
+// GET /api/realtime/stream - Open an authenticated event stream
+router.get("/stream", (req, res) => {
+  const userId = req.sessionData?.userId || req.session?.userId;
+  if (!userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  // Tell EventSource how long to wait before reconnecting
+  res.write("retry: 5000\n\n");
+
+  realtimeHub.addClient(userId, res);
+
+  const heartbeat = setInterval(() => {
+    res.write(": ping\n\n");
+  }, HEARTBEAT_INTERVAL);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    realtimeHub.removeClient(userId, res);
+  });
+});
+
+export default router;
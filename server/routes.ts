@@ -1,14 +1,47 @@
 import { Router } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
 import type { IStorage } from "./storage";
 import { db } from "./db";
-import { operators, customers, users, favorites, operatorTierStats, weatherAlerts, insertWeatherAlertSchema, emergencyRequests, dispatchQueue, insertEmergencyRequestSchema, insertDispatchQueueSchema, businesses, serviceRequests, operatorDailyEarnings, operatorMonthlyEarnings, acceptedJobs, operatorPricingConfigs, operatorQuotes, insertOperatorPricingConfigSchema, insertOperatorQuoteSchema, notifications, jobMessages, operatorLiveLocations, insertJobMessageSchema, insertOperatorLiveLocationSchema, ratings, wallets, walletTransactions, paymentCards, insertWalletSchema, insertWalletTransactionSchema, insertPaymentCardSchema, CARD_BRANDS } from "@shared/schema";
+import { operators, customers, users, favorites, operatorTierStats, weatherAlerts, insertWeatherAlertSchema, emergencyRequests, dispatchQueue, insertEmergencyRequestSchema, insertDispatchQueueSchema, businesses, serviceRequests, operatorDailyEarnings, operatorMonthlyEarnings, acceptedJobs, operatorPricingConfigs, operatorQuotes, insertOperatorPricingConfigSchema, insertOperatorQuoteSchema, notifications, jobMessages, operatorLiveLocations, insertJobMessageSchema, insertOperatorLiveLocationSchema, ratings, wallets, walletTransactions, paymentCards, insertWalletSchema, insertWalletTransactionSchema, insertPaymentCardSchema, CARD_BRANDS, payrollPeriods, payrollStatements, insertDriverPayRateSchema } from "@shared/schema";
+import { DISPUTE_CATEGORIES, DISPUTE_RESOLUTIONS } from "@shared/schema";
+import type { CoverageType, DisputeCategory, DisputeResolution, DocumentReviewStatus } from "@shared/schema";
 import { notificationService } from "./notificationService";
-import { eq, sql, and, gte, or, desc, asc } from "drizzle-orm";
-import { insertJobSchema, insertServiceRequestSchema, insertCustomerSchema, insertOperatorSchema, insertRatingSchema, insertFavoriteSchema, insertOperatorLocationSchema, insertCustomerServiceHistorySchema, OPERATOR_TIER_INFO, SERVICE_AREA_LIMITS, operatorServiceAreas } from "@shared/schema";
-import { isWithinRadius } from "./utils/distance";
-import { getServiceRelevantAlerts } from "./services/weatherService";
+import { eq, sql, and, gte, or, desc, asc, inArray, isNull } from "drizzle-orm";
+import { insertJobSchema, insertServiceRequestSchema, insertCustomerSchema, insertOperatorSchema, insertRatingSchema, insertFavoriteSchema, insertOperatorLocationSchema, insertCustomerServiceHistorySchema, OPERATOR_TIER_INFO, operatorServiceAreas } from "@shared/schema";
+import { calculateDistance, isWithinRadius } from "./utils/distance";
+import { syncWeatherAlerts } from "./jobs/weatherSync";
+import { dispatchEngine, DISPATCHABLE_REQUEST_STATUSES } from "./services/dispatchEngine";
+import { getOperatorReviews, getOperatorRatingHistory } from "./services/ratingHistory";
+import { resolveAnalyticsWindow, getBusinessAnalytics, getDriverAnalytics, getVehicleAnalytics } from "./services/businessAnalytics";
+import { getPayrollDrivers, getDriverPaySettings, setDriverPayRate, findOverlappingPayrollPeriod, createPayrollPeriod, getPayrollPeriod, approvePayrollPeriod, buildPayStubCsv, buildPayStubPdf } from "./services/payrollService";
+import { getOrCreateWallet, resolveWalletUserId } from "./services/walletService";
+import { getWithdrawalLimits, checkWithdrawalLimits, requestWithdrawal, runPayoutBatch, getPayoutBatches } from "./services/payoutService";
+import { reconcileWallets } from "./services/ledgerService";
+import { DOCUMENT_CONTENT_TYPES, getDocumentMaxBytes, getDocumentRequirements, getOperatorDocuments, saveDocumentSubmission, getDocumentFile, getDocumentReviewQueue, reviewDocument, syncServiceLocks, getLockedServiceTypes, getSuspendedServices, getServiceKey, isServiceAvailable } from "./services/documentService";
+import { isOperatorEmailVerified } from "./services/emailOtpService";
+import { getDisputeRole, checkDisputeEligibility, openDispute, addDisputeEvidence, getDispute, getDisputeDetails, getRequestDispute, getEvidenceFile, getDisputeQueue, getRefundableCents, resolveDispute, getDisputeWindowHours } from "./services/disputeService";
+import type { DisputeEvidenceFile } from "./services/disputeService";
+import { getOperatorCustomerGroups, getOpenCustomerGroup, acceptCustomerGroup, declineCustomerGroup } from "./services/customerGroupingService";
+import { getOperatorRoute } from "./services/routeOptimizer";
+import { validateServiceAreas, validateCoverage, lookupCityCoordinates, getServiceAreas, getServiceArea, addServiceArea, updateServiceArea, removeServiceArea, matchesServiceAreas } from "./services/serviceAreaService";
+import type { NewServiceArea } from "./services/serviceAreaService";
+import { validateNewSeries, createRequestSeries, getRequestSeries, summarizeSeries, getCustomerSeries, getSeriesRequests, updateSeriesStatus, getOperatorSeries, acceptRequestSeries } from "./services/recurringRequestService";
+import { buildServiceRequestDetails, resolveRequestCoordinates } from "./storage";
+import { canAccessFeature } from "@shared/tierCapabilities";
+import type { OperatorTier } from "@shared/schema";
+import { isValidDate } from "@shared/recurrence";
+import { getAreaDemand, getDemandZoneMap } from "./services/demandEngine";
+import { priceQuote, QUOTE_PRICING_SETTINGS } from "./services/pricingService";
+import { getPriceEstimate } from "./services/estimateService";
+import { ZONE_SETTINGS, getZones, getZone, createZone, importZones, updateZone, deleteZone, toServiceZone, isTierAllowedInZones, isTierAllowedAt } from "./services/zoneService";
+import type { NewZone, ZoneUpdate } from "./services/zoneService";
+import { findOperatorsWithinRadius, getBoundingBox, boundingBoxCondition } from "./services/spatialQueryService";
+import { PRICE_TOLERANCE, matchesQuotePrice, resolveBudget, validateBudget, formatBudgetRange } from "@shared/pricing";
+import { convertZonesToGeoJSON, validateZoneGeometry, WEATHER_SURGE_KEY, MAX_WEATHER_SURGE_MULTIPLIER } from "@shared/zones";
+import { authorizeJobPayment, captureJobPayment, refundJobPayment, chargeCancellationFee, getAuthorizationAmount } from "./services/paymentService";
 import { z } from "zod";
 import OpenAI from "openai";
+import multer from "multer";
 
 // Validation schemas for operator endpoints
 const updateActiveTierSchema = z.object({
@@ -32,18 +65,67 @@ const serviceAreaSchema = z.object({
 
 const serviceAreasArraySchema = z.array(serviceAreaSchema).optional();
 
-// Helper function to calculate distance between two points (Haversine formula)
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c; // Distance in kilometers
-}
+// Service areas added or edited after onboarding
+const coverageTypeSchema = z.enum(["full_city", "neighborhoods_only"]);
+
+const createServiceAreaSchema = serviceAreaSchema.extend({
+  tier: z.enum(['professional', 'equipped', 'manual']),
+  isPrimary: z.boolean().optional(),
+  cityLatitude: z.number().min(-90).max(90).optional(),
+  cityLongitude: z.number().min(-180).max(180).optional(),
+  neighborhoods: z.array(z.string().min(1)).optional(),
+  coverageType: coverageTypeSchema.optional()
+});
+
+const updateServiceAreaSchema = z.object({
+  neighborhoods: z.array(z.string().min(1)).optional(),
+  coverageType: coverageTypeSchema.optional(),
+  isPrimary: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+// Service zones drawn on the admin map; geometry is checked with validateZoneGeometry
+const zoneTiersSchema = z.array(z.enum(['professional', 'equipped', 'manual']));
+
+const createZoneSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().nullable().optional(),
+  geometry: z.any(),
+  allowedTiers: zoneTiersSchema.optional()
+});
+
+const updateZoneSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+  geometry: z.any().optional(),
+  allowedTiers: zoneTiersSchema.optional(),
+  isActive: z.boolean().optional()
+});
+
+// Recurring request series - the request template plus when it repeats
+const seriesDateSchema = z.string().refine(isValidDate, "Dates must be YYYY-MM-DD");
+
+const createRequestSeriesSchema = z.object({
+  request: insertServiceRequestSchema.omit({ customerId: true, customerName: true }),
+  recurrence: z.discriminatedUnion("trigger", [
+    z.object({
+      trigger: z.literal("schedule"),
+      rule: z.string().min(1), // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=TU"
+      startDate: seriesDateSchema,
+      endDate: seriesDateSchema.optional(),
+    }),
+    z.object({
+      trigger: z.literal("snowfall"),
+      thresholdCm: z.number().positive(),
+      startDate: seriesDateSchema,
+      endDate: seriesDateSchema.optional(),
+    }),
+  ]),
+});
+
+const updateRequestSeriesSchema = z.object({
+  status: z.enum(["active", "paused", "cancelled"]),
+});
 
 export function registerRoutes(storage: IStorage) {
   const router = Router();
@@ -116,18 +198,21 @@ export function registerRoutes(storage: IStorage) {
       const lat = parseFloat(req.query.lat as string);
       const lon = parseFloat(req.query.lon as string);
       const radius = req.query.radius ? parseFloat(req.query.radius as string) : 10;
+      const service = req.query.service as string | undefined;
       
       if (isNaN(lat) || isNaN(lon)) {
         return res.status(400).json({ message: "Valid latitude and longitude required" });
       }
       
-      // Get all operators from database and filter by proximity
-      const allOperators = await db.query.operators.findMany();
-      const nearbyOperators = allOperators.filter(op => {
-        const opLat = parseFloat(String(op.latitude));
-        const opLon = parseFloat(String(op.longitude));
-        return isWithinRadius(lat, lon, opLat, opLon, radius);
-      });
+      // Closest first; only operators in the radius's bounding box are read
+      const nearbyOperators = (await findOperatorsWithinRadius(lat, lon, radius))
+        .map(({ item: op }) => {
+          // Hide services suspended or locked on document approval
+          const suspended = getSuspendedServices(op.operatorTierProfiles);
+          const services = ((op.services as unknown[]) || []).filter(s => isServiceAvailable(s, suspended));
+          return { ...op, services };
+        })
+        .filter(op => !service || op.services.some(s => getServiceKey(s) === service));
       
       res.json(nearbyOperators);
     } catch (error) {
@@ -337,16 +422,35 @@ export function registerRoutes(storage: IStorage) {
   router.get("/api/operator-cards", async (req, res) => {
     try {
       const service = req.query.service as string | undefined;
+      const lat = req.query.lat ? parseFloat(req.query.lat as string) : undefined;
+      const lon = req.query.lon ? parseFloat(req.query.lon as string) : undefined;
+      const radius = req.query.radius ? parseFloat(req.query.radius as string) : 50;
+      const nearLocation = lat !== undefined && lon !== undefined;
       
-      // Get all operators
-      const allOperators = await db.query.operators.findMany();
+      if (nearLocation && (isNaN(lat) || isNaN(lon) || isNaN(radius))) {
+        return res.status(400).json({ message: "Valid latitude, longitude and radius required" });
+      }
+      
+      // Normalize email: trim and lowercase
+      const getCardKey = (op: { email: string | null; operatorId: string }) => String(op.email || op.operatorId || "").trim().toLowerCase();
       
-      // Group operators by email to consolidate duplicates (normalize email)
+      // Get all operators, or with lat/lon only those whose records share an email with an operator in range
+      let allOperators = await (nearLocation
+        ? findOperatorsWithinRadius(lat, lon, radius).then(nearby => nearby.map(({ item }) => item))
+        : db.select().from(operators));
+      if (nearLocation && allOperators.length > 0) {
+        const emails = Array.from(new Set(allOperators.map(op => op.email?.trim().toLowerCase()).filter((email): email is string => !!email)));
+        const sameEmail = emails.length > 0
+          ? await db.select().from(operators).where(inArray(sql`lower(trim(${operators.email}))`, emails))
+          : [];
+        const seen = new Set(allOperators.map(op => op.operatorId));
+        allOperators = [...allOperators, ...sameEmail.filter(op => !seen.has(op.operatorId))];
+      }
+      
+      // Group operators by email to consolidate duplicates
       const operatorsByEmail = new Map<string, any[]>();
       for (const op of allOperators) {
-        // Normalize email: trim and lowercase
-        const emailRaw = op.email || op.operatorId || "";
-        const email = String(emailRaw).trim().toLowerCase();
+        const email = getCardKey(op);
         if (!operatorsByEmail.has(email)) {
           operatorsByEmail.set(email, []);
         }
@@ -386,9 +490,12 @@ export function registerRoutes(storage: IStorage) {
           }
           
           const tierData = tierDataMap.get(op.operatorTier)!;
-          // Merge services
+          // Merge services, leaving out ones suspended or locked on document approval
           if (op.services) {
-            op.services.forEach((s: string) => tierData.services.add(s));
+            const suspended = getSuspendedServices(op.operatorTierProfiles);
+            op.services
+              .filter((s: unknown) => isServiceAvailable(s, suspended))
+              .forEach((s: string) => tierData.services.add(s));
           }
           // Merge vehicles and license plates
           if (op.vehicle && op.vehicle !== "Not set" && op.vehicle !== "Not specified") {
@@ -589,6 +696,14 @@ export function registerRoutes(storage: IStorage) {
         return res.status(401).json({ message: "Authentication required to create operator profile" });
       }
       
+      // New tiers are submitted for approval, which needs a verified email
+      const accountUser = await db.query.users.findFirst({
+        where: eq(users.userId, sessionUser.userId)
+      });
+      if (accountUser?.emailVerified !== 1) {
+        return res.status(403).json({ message: "Verify your email before submitting a tier for approval", code: "EMAIL_NOT_VERIFIED" });
+      }
+      
       // Apply server-side defaults before validation
       // These fields are required in DB but set by server, not client
       const bodyWithDefaults = {
@@ -701,34 +816,13 @@ export function registerRoutes(storage: IStorage) {
       
       // SERVICE AREA VALIDATION: Enforce tier-based constraints with Zod validation
       const serviceAreasResult = serviceAreasArraySchema.safeParse((req.body as any).serviceAreas);
-      const serviceAreas = serviceAreasResult.success ? serviceAreasResult.data : undefined;
+      const serviceAreas = serviceAreasResult.success ? serviceAreasResult.data as Array<NewServiceArea & { isPrimary: boolean }> : undefined;
       
       if (serviceAreas && serviceAreas.length > 0) {
-        const limits = SERVICE_AREA_LIMITS[tier as keyof typeof SERVICE_AREA_LIMITS];
-        
-        // Validate max cities
-        if (limits.maxCities && serviceAreas.length > limits.maxCities) {
-          return res.status(400).json({
-            message: `${OPERATOR_TIER_INFO[tier as keyof typeof OPERATOR_TIER_INFO].label} operators can only select up to ${limits.maxCities} city(s).`,
-            field: "serviceAreas",
-            limit: limits.maxCities,
-            received: serviceAreas.length
-          });
-        }
-        
-        // Validate same-province requirement for tiers that require it
-        if (limits.requireSameProvince && serviceAreas.length > 1) {
-          const firstCity = serviceAreas[0];
-          const hasDifferentProvince = serviceAreas.some(
-            area => area.stateCode !== firstCity.stateCode || area.countryCode !== firstCity.countryCode
-          );
-          
-          if (hasDifferentProvince) {
-            return res.status(400).json({
-              message: `${OPERATOR_TIER_INFO[tier as keyof typeof OPERATOR_TIER_INFO].label} operators must select cities within the same province/state.`,
-              field: "serviceAreas"
-            });
-          }
+        // Max cities and same province/country for the tier
+        const limitError = validateServiceAreas(tier as OperatorTier, serviceAreas);
+        if (limitError) {
+          return res.status(400).json({ ...limitError, field: "serviceAreas" });
         }
       }
       
@@ -822,17 +916,23 @@ export function registerRoutes(storage: IStorage) {
       
       // Persist service areas if provided
       if (serviceAreas && serviceAreas.length > 0) {
-        const serviceAreasToCreate = serviceAreas.map(area => ({
-          operatorId: result.data.operatorId,
-          tier,
-          countryCode: area.countryCode,
-          countryName: area.countryName,
-          stateCode: area.stateCode,
-          stateName: area.stateName,
-          cityName: area.cityName,
-          coverageType: "full_city" as const,
-          isPrimary: area.isPrimary ? 1 : 0,
-          isActive: 1
+        const serviceAreasToCreate = await Promise.all(serviceAreas.map(async area => {
+          // City centres let request matching measure distance instead of matching the city name
+          const coordinates = await lookupCityCoordinates(area);
+          return {
+            operatorId: result.data.operatorId,
+            tier,
+            countryCode: area.countryCode,
+            countryName: area.countryName,
+            stateCode: area.stateCode,
+            stateName: area.stateName,
+            cityName: area.cityName,
+            cityLatitude: coordinates ? coordinates.latitude.toString() : null,
+            cityLongitude: coordinates ? coordinates.longitude.toString() : null,
+            coverageType: "full_city" as const,
+            isPrimary: area.isPrimary ? 1 : 0,
+            isActive: 1
+          };
         }));
         
         await db.insert(operatorServiceAreas).values(serviceAreasToCreate);
@@ -1027,7 +1127,6 @@ export function registerRoutes(storage: IStorage) {
   router.post("/api/operators/:operatorId/services", async (req, res) => {
     try {
       const operatorId = req.params.operatorId;
-      const newService = req.body;
       
       const existing = await db.query.operators.findFirst({
         where: eq(operators.operatorId, operatorId)
@@ -1037,6 +1136,7 @@ export function registerRoutes(storage: IStorage) {
       }
       
       // Add service with unique ID
+      const { locked: _locked, certificationUploaded: _uploaded, certificationVerified: _verified, ...newService } = req.body;
       const serviceWithId = {
         ...newService,
         id: `svc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -1049,7 +1149,13 @@ export function registerRoutes(storage: IStorage) {
         .set({ services: updatedServices })
         .where(eq(operators.operatorId, operatorId));
       
-      res.json(serviceWithId);
+      // Services that need credentials stay locked until their documents are approved
+      await syncServiceLocks(operatorId);
+      const synced = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, operatorId)
+      });
+      const syncedServices = (synced?.services as Array<{ id?: string }>) || [];
+      res.json(syncedServices.find(s => s.id === serviceWithId.id) || serviceWithId);
     } catch (error) {
       console.error("Error adding service:", error);
       res.status(500).json({ message: "Failed to add service" });
@@ -1060,7 +1166,8 @@ export function registerRoutes(storage: IStorage) {
   router.patch("/api/operators/:operatorId/services/:serviceId", async (req, res) => {
     try {
       const { operatorId, serviceId } = req.params;
-      const updates = req.body;
+      // Lock and verification flags are owned by the document review workflow
+      const { locked: _locked, certificationUploaded: _uploaded, certificationVerified: _verified, ...updates } = req.body;
       
       const existing = await db.query.operators.findFirst({
         where: eq(operators.operatorId, operatorId)
@@ -1112,6 +1219,419 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
+  // ===== OPERATOR DOCUMENT ROUTES =====
+
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getDocumentMaxBytes(), files: 1 },
+  });
+
+  // Middleware to check the session user is the operator in the URL (admins may also read)
+  const requireOperatorOwner = (allowAdmin: boolean) => async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await db.query.users.findFirst({
+        where: eq(users.userId, userId)
+      });
+
+      if (!user || (user.operatorId !== req.params.operatorId && !(allowAdmin && user.isAdmin === 1))) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking operator ownership:", error);
+      res.status(500).json({ message: "Failed to verify operator" });
+    }
+  };
+
+  // Documents required for a service at a tier
+  router.get("/api/operators/:operatorId/documents/requirements", requireOperatorOwner(true), async (req, res) => {
+    try {
+      const serviceType = req.query.serviceType as string | undefined;
+      if (!serviceType) {
+        return res.status(400).json({ message: "serviceType is required" });
+      }
+
+      const requirements = await getDocumentRequirements(serviceType, (req.query.tier as string) || null);
+      res.json(requirements);
+    } catch (error) {
+      console.error("Error fetching document requirements:", error);
+      res.status(500).json({ message: "Failed to fetch document requirements" });
+    }
+  });
+
+  // List the operator's document submissions
+  router.get("/api/operators/:operatorId/documents", requireOperatorOwner(true), async (req, res) => {
+    try {
+      const documents = await getOperatorDocuments(req.params.operatorId);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching operator documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // Upload (or replace) a document for one of the operator's services
+  router.post("/api/operators/:operatorId/documents", requireOperatorOwner(false), (req, res, next) => {
+    documentUpload.single("file")(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `File is too large (max ${Math.round(getDocumentMaxBytes() / (1024 * 1024))} MB)`
+          : error.message;
+        return res.status(400).json({ message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (req, res) => {
+    try {
+      const { operatorId } = req.params;
+      const { serviceType, documentType } = req.body as Record<string, string | undefined>;
+      const tier = (req.body.tier as string | undefined) || null;
+      const file = req.file;
+
+      if (!serviceType || !documentType) {
+        return res.status(400).json({ message: "serviceType and documentType are required" });
+      }
+      if (!file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+      if (!DOCUMENT_CONTENT_TYPES[file.mimetype]) {
+        return res.status(400).json({ message: "Documents must be PDF, JPEG, PNG or WebP files" });
+      }
+
+      let expiresAt: Date | null = null;
+      if (req.body.expiresAt) {
+        expiresAt = new Date(req.body.expiresAt);
+        if (isNaN(expiresAt.getTime())) {
+          return res.status(400).json({ message: "Invalid expiresAt" });
+        }
+      }
+
+      const requirements = await getDocumentRequirements(serviceType, tier);
+      if (!requirements.some(r => r.documentType === documentType)) {
+        return res.status(400).json({ message: `${documentType} is not a document required for ${serviceType}` });
+      }
+
+      const submission = await saveDocumentSubmission({
+        operatorId,
+        serviceType,
+        documentType,
+        tier,
+        fileName: file.originalname,
+        contentType: file.mimetype,
+        data: file.buffer,
+        expiresAt,
+      });
+      res.status(201).json(submission);
+    } catch (error) {
+      console.error("Error uploading document:", error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  // Download a submitted document (the operator or an admin)
+  router.get("/api/operators/:operatorId/documents/:serviceType/:documentType/file", requireOperatorOwner(true), async (req, res) => {
+    try {
+      const { operatorId, serviceType, documentType } = req.params;
+      const document = await getDocumentFile(operatorId, serviceType, documentType);
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.setHeader("Content-Type", document.submission.contentType || "application/octet-stream");
+      const fileName = (document.submission.fileName || documentType).replace(/[^\x20-\x7e]|"/g, "_");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      res.send(document.data);
+    } catch (error) {
+      console.error("Error fetching document file:", error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  // Customer groups currently offered to the operator
+  router.get("/api/operators/:operatorId/customer-groups", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const operator = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, req.params.operatorId)
+      });
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+
+      res.json(await getOperatorCustomerGroups(operator));
+    } catch (error) {
+      console.error("Error fetching customer groups:", error);
+      res.status(500).json({ message: "Failed to fetch customer groups" });
+    }
+  });
+
+  // Accept a whole customer group, or only the requests listed in requestIds
+  router.post("/api/operators/:operatorId/customer-groups/:groupId/accept", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const { operatorId, groupId } = req.params;
+      const { requestIds } = req.body || {};
+
+      if (requestIds !== undefined && (!Array.isArray(requestIds) || requestIds.length === 0 || !requestIds.every((id: unknown) => typeof id === "string"))) {
+        return res.status(400).json({ message: "requestIds must be a non-empty list of request IDs" });
+      }
+
+      const operator = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, operatorId)
+      });
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+      if (!operator.activeTier) {
+        return res.status(400).json({ message: "Go online on a tier before accepting jobs" });
+      }
+      if (!canAccessFeature(operator.activeTier as OperatorTier, "customerGroups")) {
+        return res.status(403).json({ message: "Customer groups are available on the Manual tier" });
+      }
+
+      const group = await getOpenCustomerGroup(groupId);
+      if (!group) {
+        return res.status(404).json({ message: "This group has expired or is no longer available" });
+      }
+      // Self-exclusion, as for single requests - the signed-in user owns this operator
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (userId) {
+        const ownRequests = await db.select({ requestId: serviceRequests.requestId })
+          .from(serviceRequests)
+          .where(and(inArray(serviceRequests.requestId, requestIds || group.requestIds), eq(serviceRequests.customerId, userId)));
+        if (ownRequests.length > 0) {
+          return res.status(400).json({ message: "You cannot accept your own request", requestIds: ownRequests.map(r => r.requestId) });
+        }
+      }
+
+      // Same rule as accepting a single request
+      const activeJobs = await storage.getOperatorActiveJobs(operatorId, operator.activeTier);
+      if (activeJobs.length > 0) {
+        return res.status(400).json({
+          message: "Cannot accept job - you have active jobs on another tier. Complete those first.",
+          activeJobs: activeJobs.map(j => ({ tier: j.tier, id: j.acceptedJobId }))
+        });
+      }
+
+      const result = await acceptCustomerGroup(operator, operator.activeTier, groupId, requestIds);
+      if (!result) {
+        return res.status(404).json({ message: "This group has expired or is no longer available" });
+      }
+      if (result.accepted.length === 0) {
+        return res.status(409).json({ message: "These customers have already been taken by other operators", ...result });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error accepting customer group:", error);
+      res.status(500).json({ message: "Failed to accept customer group" });
+    }
+  });
+
+  // Decline a customer group - it stays open to other operators
+  router.post("/api/operators/:operatorId/customer-groups/:groupId/decline", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const { operatorId, groupId } = req.params;
+      const declined = await declineCustomerGroup(operatorId, groupId);
+      if (declined === null) {
+        return res.status(404).json({ message: "This group has expired or is no longer available" });
+      }
+
+      res.json({ declined });
+    } catch (error) {
+      console.error("Error declining customer group:", error);
+      res.status(500).json({ message: "Failed to decline customer group" });
+    }
+  });
+
+  // Recurring series the operator can take on, and the ones they already hold
+  router.get("/api/operators/:operatorId/request-series", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const operator = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, req.params.operatorId)
+      });
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+
+      res.json(await getOperatorSeries(operator));
+    } catch (error) {
+      console.error("Error fetching request series:", error);
+      res.status(500).json({ message: "Failed to fetch recurring requests" });
+    }
+  });
+
+  // Accept a whole series - its open requests and every later one are assigned to the operator
+  router.post("/api/operators/:operatorId/request-series/:seriesId/accept", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const { operatorId, seriesId } = req.params;
+      const operator = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, operatorId)
+      });
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+      if (!operator.activeTier) {
+        return res.status(400).json({ message: "Go online on a tier before accepting jobs" });
+      }
+      if (!canAccessFeature(operator.activeTier as OperatorTier, "scheduledJobs")) {
+        return res.status(403).json({ message: "Recurring jobs are available on the Equipped and Professional tiers" });
+      }
+
+      const series = await getRequestSeries(seriesId);
+      if (!series) {
+        return res.status(404).json({ message: "Recurring request not found" });
+      }
+      // Self-exclusion, as for single requests - the signed-in user owns this operator
+      if (series.customerId === (req.sessionData?.userId || req.session?.userId)) {
+        return res.status(400).json({ message: "You cannot accept your own recurring request" });
+      }
+
+      const result = await acceptRequestSeries(operator, operator.activeTier, seriesId);
+      if (!result) {
+        return res.status(409).json({ message: "This recurring request has already been taken or is no longer active" });
+      }
+
+      res.json({ series: summarizeSeries(result.series), acceptedJobIds: result.acceptedJobIds });
+    } catch (error) {
+      console.error("Error accepting request series:", error);
+      res.status(500).json({ message: "Failed to accept recurring request" });
+    }
+  });
+
+  // Visit order, leg distances and ETAs for the operator's accepted jobs
+  router.get("/api/operators/:operatorId/route", requireOperatorOwner(true), async (req, res) => {
+    try {
+      const departAt = req.query.departAt ? new Date(req.query.departAt as string) : new Date();
+      if (isNaN(departAt.getTime())) {
+        return res.status(400).json({ message: "departAt must be a valid date" });
+      }
+
+      const route = await getOperatorRoute(req.params.operatorId, departAt);
+      if (!route) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+
+      res.json(route);
+    } catch (error) {
+      console.error("Error planning operator route:", error);
+      res.status(500).json({ message: "Failed to plan route" });
+    }
+  });
+
+  // Service areas for one tier (?tier=) or every tier, primary first
+  router.get("/api/operators/:operatorId/service-areas", requireOperatorOwner(true), async (req, res) => {
+    try {
+      res.json(await getServiceAreas(req.params.operatorId, req.query.tier as string | undefined));
+    } catch (error) {
+      console.error("Error fetching service areas:", error);
+      res.status(500).json({ message: "Failed to fetch service areas" });
+    }
+  });
+
+  // Add a city to a tier, within the tier's city and province limits
+  router.post("/api/operators/:operatorId/service-areas", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const result = createServiceAreaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid service area", errors: result.error.issues });
+      }
+      const { tier, ...input } = result.data as NewServiceArea & { tier: OperatorTier };
+
+      const operator = await db.query.operators.findFirst({
+        where: eq(operators.operatorId, req.params.operatorId)
+      });
+      if (!operator) {
+        return res.status(404).json({ message: "Operator not found" });
+      }
+      if (!operator.subscribedTiers?.includes(tier)) {
+        return res.status(400).json({ message: `You are not registered for the ${OPERATOR_TIER_INFO[tier].label} tier` });
+      }
+
+      const invalidCoverage = validateCoverage(input.coverageType || "full_city", input.neighborhoods);
+      if (invalidCoverage) {
+        return res.status(400).json({ message: invalidCoverage });
+      }
+
+      const activeAreas = await getServiceAreas(operator.operatorId, tier, true);
+      if (activeAreas.some(area => area.countryCode === input.countryCode && area.stateCode === input.stateCode && area.cityName.toLowerCase() === input.cityName.toLowerCase())) {
+        return res.status(409).json({ message: `${input.cityName} is already one of your service areas` });
+      }
+      const limitError = validateServiceAreas(tier, [...activeAreas, input]);
+      if (limitError) {
+        return res.status(400).json({ ...limitError, field: "serviceAreas" });
+      }
+
+      res.status(201).json(await addServiceArea(operator.operatorId, tier, input));
+    } catch (error) {
+      console.error("Error adding service area:", error);
+      res.status(500).json({ message: "Failed to add service area" });
+    }
+  });
+
+  // Change coverage, make the area the primary city, or deactivate/reactivate it
+  router.patch("/api/operators/:operatorId/service-areas/:areaId", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const result = updateServiceAreaSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid service area", errors: result.error.issues });
+      }
+      const updates = result.data;
+
+      const area = await getServiceArea(req.params.operatorId, parseInt(req.params.areaId));
+      if (!area) {
+        return res.status(404).json({ message: "Service area not found" });
+      }
+
+      const invalidCoverage = validateCoverage(
+        (updates.coverageType || area.coverageType) as CoverageType,
+        updates.neighborhoods !== undefined ? updates.neighborhoods : area.neighborhoods
+      );
+      if (invalidCoverage) {
+        return res.status(400).json({ message: invalidCoverage });
+      }
+
+      if (updates.isPrimary && (updates.isActive === false || (area.isActive === 0 && !updates.isActive))) {
+        return res.status(400).json({ message: "Only an active service area can be your primary city" });
+      }
+
+      // Reactivating counts against the tier's limits again
+      if (updates.isActive && area.isActive === 0) {
+        const activeAreas = await getServiceAreas(area.operatorId, area.tier, true);
+        const limitError = validateServiceAreas(area.tier as OperatorTier, [...activeAreas, area]);
+        if (limitError) {
+          return res.status(400).json({ ...limitError, field: "serviceAreas" });
+        }
+      }
+
+      res.json(await updateServiceArea(area, updates));
+    } catch (error) {
+      console.error("Error updating service area:", error);
+      res.status(500).json({ message: "Failed to update service area" });
+    }
+  });
+
+  // Remove a city from a tier
+  router.delete("/api/operators/:operatorId/service-areas/:areaId", requireOperatorOwner(false), async (req, res) => {
+    try {
+      const area = await getServiceArea(req.params.operatorId, parseInt(req.params.areaId));
+      if (!area) {
+        return res.status(404).json({ message: "Service area not found" });
+      }
+
+      await removeServiceArea(area);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing service area:", error);
+      res.status(500).json({ message: "Failed to remove service area" });
+    }
+  });
+
   router.get("/api/service-requests", async (req, res) => {
     try {
       const customerId = req.query.customerId as string | undefined;
@@ -1212,10 +1732,23 @@ export function registerRoutes(storage: IStorage) {
         return res.status(400).json({ message: "Invalid active tier" });
       }
       
+      // Tiers with a radius only read broadcast requests in the radius's bounding box (or without coordinates);
+      // the exact radius check is below
+      const hasRadius = !!operator.homeLatitude && !!operator.homeLongitude && tierInfo.radiusKm !== null;
+      const nearHome = hasRadius
+        ? or(
+            eq(serviceRequests.operatorId, operatorId),
+            isNull(serviceRequests.latitude),
+            isNull(serviceRequests.longitude),
+            boundingBoxCondition(serviceRequests.latitude, serviceRequests.longitude,
+              getBoundingBox(parseFloat(operator.homeLatitude), parseFloat(operator.homeLongitude), tierInfo.radiusKm))
+          )
+        : undefined;
+      
       // CRITICAL FIX: Get pending service requests from DATABASE (not MemStorage)
       // This ensures completed jobs don't reappear after being marked "completed"
       const pendingRequests = await db.query.serviceRequests.findMany({
-        where: eq(serviceRequests.status, "pending")
+        where: and(eq(serviceRequests.status, "pending"), nearHome)
       });
       
       // SECURITY: Filter by operatorId - operators only see requests targeted at them or broadcast requests
@@ -1290,6 +1823,8 @@ export function registerRoutes(storage: IStorage) {
       // Get allowed services for the effective tier
       const allowedServices = tierServicesAllowed[effectiveTier] || new Set();
       const operatorServices = operator.services as any[] || [];
+      // Services still waiting on required documents (certification, business license)
+      const lockedServices = await getLockedServiceTypes(operator.operatorId, Array.from(allowedServices), effectiveTier);
       
       // CRITICAL SECURITY: Filter by BOTH tier-allowed services AND operator's configured services
       filteredRequests = filteredRequests.filter(req => {
@@ -1312,11 +1847,11 @@ export function registerRoutes(storage: IStorage) {
                    normalizeServiceType(s?.name) === normalizedServiceType;
           });
         
-        return tierAllowed && operatorHasService;
+        return tierAllowed && operatorHasService && !lockedServices.has(normalizedServiceType);
       });
       
       // Filter by radius if operator has location and tier has radius restriction
-      if (operator.homeLatitude && operator.homeLongitude && tierInfo.radiusKm !== null) {
+      if (hasRadius) {
         const operatorLat = parseFloat(operator.homeLatitude);
         const operatorLon = parseFloat(operator.homeLongitude);
         
@@ -1332,7 +1867,18 @@ export function registerRoutes(storage: IStorage) {
           return isWithinRadius(operatorLat, operatorLon, jobLat, jobLon, tierInfo.radiusKm);
         });
       }
-      
+
+      // Broadcast requests must also be in one of the operator's cities (or neighborhoods) for the tier
+      const serviceAreas = await getServiceAreas(operatorId, effectiveTier, true);
+      filteredRequests = filteredRequests.filter(req => !!req.operatorId || matchesServiceAreas(req, serviceAreas));
+
+      // ...and not inside service zones closed to the tier
+      const zones = await getZones();
+      filteredRequests = filteredRequests.filter(req =>
+        !!req.operatorId || !req.latitude || !req.longitude ||
+        isTierAllowedInZones(effectiveTier, parseFloat(req.latitude), parseFloat(req.longitude), zones)
+      );
+
       res.json(filteredRequests);
     } catch (error) {
       console.error("Error filtering service requests:", error);
@@ -1389,6 +1935,11 @@ export function registerRoutes(storage: IStorage) {
     if (!result.success) {
       return res.status(400).json({ errors: result.error.issues });
     }
+
+    const invalidBudget = validateBudget(result.data.budgetMin, result.data.budgetMax);
+    if (invalidBudget) {
+      return res.status(400).json({ message: invalidBudget });
+    }
     
     // SELF-EXCLUSION: Prevent customers from requesting services from themselves
     const customerId = result.data.customerId;
@@ -1441,6 +1992,132 @@ export function registerRoutes(storage: IStorage) {
     res.json(request);
   });
 
+  // Create a recurring series - the first due occurrence is posted straight away
+  router.post("/api/request-series", async (req, res) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const user = await db.query.users.findFirst({ where: eq(users.userId, userId) });
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const result = createRequestSeriesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ errors: result.error.issues });
+      }
+
+      const { request, recurrence } = result.data;
+      const coordinates = resolveRequestCoordinates(request);
+      const input = {
+        customerId: user.userId,
+        customerName: user.name,
+        serviceType: request.serviceType,
+        description: request.description,
+        location: request.location,
+        latitude: parseFloat(coordinates.latitude),
+        longitude: parseFloat(coordinates.longitude),
+        preferredTime: request.preferredTime,
+        timeFlexibility: request.timeFlexibility,
+        budgetRange: request.budgetRange,
+        budgetMin: request.budgetMin,
+        budgetMax: request.budgetMax,
+        estimatedCost: request.estimatedCost,
+        details: buildServiceRequestDetails({ ...request, customerId: user.userId, customerName: user.name }),
+        triggerType: recurrence.trigger,
+        rrule: recurrence.trigger === "schedule" ? recurrence.rule : undefined,
+        snowfallThresholdCm: recurrence.trigger === "snowfall" ? recurrence.thresholdCm : undefined,
+        startDate: recurrence.startDate,
+        endDate: recurrence.endDate,
+      };
+
+      const invalid = validateBudget(input.budgetMin, input.budgetMax) || validateNewSeries(input, new Date().toISOString().split("T")[0]);
+      if (invalid) {
+        return res.status(400).json({ message: invalid });
+      }
+
+      const series = await createRequestSeries(input);
+      res.status(201).json(summarizeSeries(series));
+    } catch (error) {
+      console.error("Error creating request series:", error);
+      res.status(500).json({ message: "Failed to create recurring request" });
+    }
+  });
+
+  // The signed-in customer's recurring series
+  router.get("/api/request-series", async (req, res) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      res.json(await getCustomerSeries(userId));
+    } catch (error) {
+      console.error("Error fetching request series:", error);
+      res.status(500).json({ message: "Failed to fetch recurring requests" });
+    }
+  });
+
+  // A series and the requests it has posted (its customer or operator)
+  router.get("/api/request-series/:seriesId", async (req, res) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const series = await getRequestSeries(req.params.seriesId);
+      if (!series) {
+        return res.status(404).json({ message: "Recurring request not found" });
+      }
+      const user = await db.query.users.findFirst({ where: eq(users.userId, userId) });
+      const isOperator = !!series.operatorId && user?.operatorId === series.operatorId;
+      if (series.customerId !== userId && !isOperator) {
+        return res.status(403).json({ message: "Not authorized to view this recurring request" });
+      }
+
+      res.json({ ...summarizeSeries(series), requests: await getSeriesRequests(series.seriesId) });
+    } catch (error) {
+      console.error("Error fetching request series:", error);
+      res.status(500).json({ message: "Failed to fetch recurring request" });
+    }
+  });
+
+  // Pause, resume or cancel a series (its customer)
+  router.patch("/api/request-series/:seriesId", async (req, res) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const result = updateRequestSeriesSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ errors: result.error.issues });
+      }
+
+      const series = await getRequestSeries(req.params.seriesId);
+      if (!series) {
+        return res.status(404).json({ message: "Recurring request not found" });
+      }
+      if (series.customerId !== userId) {
+        return res.status(403).json({ message: "Not authorized to change this recurring request" });
+      }
+
+      const updated = await updateSeriesStatus(series, result.data.status);
+      if (!updated) {
+        return res.status(409).json({ message: `This recurring request has ${series.status}` });
+      }
+      res.json(summarizeSeries(updated));
+    } catch (error) {
+      console.error("Error updating request series:", error);
+      res.status(500).json({ message: "Failed to update recurring request" });
+    }
+  });
+
   router.get("/api/customers/:customerId", async (req, res) => {
     try {
       const customer = await db.query.customers.findFirst({
@@ -1605,37 +2282,27 @@ export function registerRoutes(storage: IStorage) {
     try {
       const { operatorId } = req.params;
       
-      // Fetch ratings for this operator with customer info
-      const operatorRatings = await db.query.ratings.findMany({
-        where: eq(ratings.operatorId, operatorId),
-        orderBy: (ratings, { desc }) => [desc(ratings.createdAt)],
-        limit: 20,
-      });
+      // Same merged review set the rating-history trend is built from
+      const reviews = await getOperatorReviews(operatorId);
       
-      // Get customer names for each rating
-      const reviewsWithCustomerInfo = await Promise.all(
-        operatorRatings.map(async (rating) => {
-          const customer = await db.query.customers.findFirst({
-            where: eq(customers.customerId, rating.customerId),
-          });
-          return {
-            ratingId: rating.ratingId,
-            customerId: rating.customerId,
-            customerName: customer?.name || "Customer",
-            rating: rating.rating,
-            review: rating.review,
-            createdAt: rating.createdAt.toISOString(),
-          };
-        })
-      );
-      
-      res.json(reviewsWithCustomerInfo);
+      res.json(reviews.slice(0, 20));
     } catch (error) {
       console.error("Error fetching operator reviews:", error);
       res.status(500).json({ message: "Failed to fetch reviews" });
     }
   });
 
+  // Get weekly and monthly rating trends per tier for the ratings page
+  router.get("/api/operators/:operatorId/rating-history", async (req, res) => {
+    try {
+      const history = await getOperatorRatingHistory(req.params.operatorId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching rating history:", error);
+      res.status(500).json({ message: "Failed to fetch rating history" });
+    }
+  });
+
   // Get operator portfolio for profile page
   router.get("/api/operators/:operatorId/portfolio", async (req, res) => {
     try {
@@ -1819,67 +2486,340 @@ export function registerRoutes(storage: IStorage) {
           ]
         });
       }
-
-      res.json({ recommendations });
+
+      res.json({ recommendations });
+    } catch (error) {
+      console.error("AI analysis error:", error);
+      res.status(500).json({ message: "Failed to analyze job" });
+    }
+  });
+
+  // Business management routes
+  router.post("/api/business", async (req, res) => {
+    try {
+      const businessData = req.body;
+      const business = await storage.createBusiness(businessData);
+      res.status(201).json(business);
+    } catch (error) {
+      console.error("Error creating business:", error);
+      res.status(500).json({ message: "Failed to create business" });
+    }
+  });
+
+  router.get("/api/business/:businessId", async (req, res) => {
+    const business = await db.query.businesses.findFirst({
+      where: eq(businesses.businessId, req.params.businessId)
+    });
+    if (!business) {
+      return res.status(404).json({ message: "Business not found" });
+    }
+    res.json(business);
+  });
+
+  router.get("/api/business/drivers/:businessId", async (req, res) => {
+    const drivers = await storage.getBusinessDrivers(req.params.businessId);
+    res.json(drivers);
+  });
+
+  router.post("/api/business/drivers", async (req, res) => {
+    try {
+      const operatorId = `DRV-${Date.now()}`;
+      const driverData = {
+        ...req.body,
+        operatorId,
+        rating: "5.00",
+      };
+      const driver = await storage.createDriver(driverData);
+      res.status(201).json(driver);
+    } catch (error) {
+      console.error("Error creating driver:", error);
+      res.status(500).json({ message: "Failed to create driver" });
+    }
+  });
+
+  router.delete("/api/business/drivers/:driverId", async (req, res) => {
+    try {
+      const success = await storage.removeDriver(req.params.driverId);
+      if (!success) {
+        return res.status(404).json({ message: "Driver not found" });
+      }
+      res.json({ message: "Driver removed successfully" });
+    } catch (error) {
+      console.error("Error removing driver:", error);
+      res.status(500).json({ message: "Failed to remove driver" });
+    }
+  });
+
+  // ===== DRIVER PAYROLL ROUTES (professional tier) =====
+  
+  // Middleware to check the session user owns the business in the URL
+  const requireBusinessOwner = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      
+      const user = await db.query.users.findFirst({
+        where: eq(users.userId, userId)
+      });
+      
+      if (!user || user.businessId !== req.params.businessId) {
+        return res.status(403).json({ message: "Business owner access required" });
+      }
+      
+      res.locals.businessOwner = user;
+      next();
+    } catch (error) {
+      console.error("Error checking business owner:", error);
+      res.status(500).json({ message: "Failed to verify business owner" });
+    }
+  };
+  
+  // Get each driver's pay split
+  router.get("/api/business/:businessId/payroll/drivers", requireBusinessOwner, async (req, res) => {
+    try {
+      const drivers = await getPayrollDrivers(req.params.businessId, res.locals.businessOwner.operatorId);
+      const settings = await getDriverPaySettings(req.params.businessId, drivers);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching driver pay rates:", error);
+      res.status(500).json({ message: "Failed to fetch driver pay rates" });
+    }
+  });
+  
+  // Set a driver's commission or hourly split
+  router.put("/api/business/:businessId/payroll/drivers/:operatorId/rate", requireBusinessOwner, async (req, res) => {
+    try {
+      const { businessId, operatorId } = req.params;
+      const result = insertDriverPayRateSchema.safeParse({ ...req.body, businessId, operatorId });
+      if (!result.success) {
+        return res.status(400).json({ errors: result.error.issues });
+      }
+      
+      const { payType, commissionPercent, hourlyRate } = result.data;
+      if (payType === "commission") {
+        const percent = parseFloat(commissionPercent || "");
+        if (isNaN(percent) || percent < 0 || percent > 100) {
+          return res.status(400).json({ message: "Commission percent must be between 0 and 100" });
+        }
+      } else {
+        const rate = parseFloat(hourlyRate || "");
+        if (isNaN(rate) || rate < 0) {
+          return res.status(400).json({ message: "Hourly rate must be zero or more" });
+        }
+      }
+      
+      const drivers = await getPayrollDrivers(businessId, res.locals.businessOwner.operatorId);
+      if (!drivers.some(d => d.operatorId === operatorId)) {
+        return res.status(404).json({ message: "Driver not found for this business" });
+      }
+      
+      const rate = await setDriverPayRate(businessId, operatorId, payType, commissionPercent, hourlyRate);
+      res.json(rate);
+    } catch (error) {
+      console.error("Error setting driver pay rate:", error);
+      res.status(500).json({ message: "Failed to set driver pay rate" });
+    }
+  });
+  
+  // List payroll periods, newest first
+  router.get("/api/business/:businessId/payroll/periods", requireBusinessOwner, async (req, res) => {
+    try {
+      const periods = await db.select()
+        .from(payrollPeriods)
+        .where(eq(payrollPeriods.businessId, req.params.businessId))
+        .orderBy(desc(payrollPeriods.periodStart));
+      res.json(periods);
+    } catch (error) {
+      console.error("Error fetching payroll periods:", error);
+      res.status(500).json({ message: "Failed to fetch payroll periods" });
+    }
+  });
+  
+  // Build a draft payroll period from completed jobs in the date range
+  router.post("/api/business/:businessId/payroll/periods", requireBusinessOwner, async (req, res) => {
+    try {
+      const { businessId } = req.params;
+      const periodStart = new Date(req.body.periodStart);
+      const periodEnd = new Date(req.body.periodEnd);
+      
+      if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime()) || periodEnd <= periodStart) {
+        return res.status(400).json({ message: "periodStart and periodEnd are required and periodEnd must be after periodStart" });
+      }
+      
+      const overlapping = await findOverlappingPayrollPeriod(businessId, periodStart, periodEnd);
+      if (overlapping) {
+        return res.status(409).json({
+          message: "This range overlaps an existing payroll period",
+          payrollPeriodId: overlapping.payrollPeriodId
+        });
+      }
+      
+      const period = await createPayrollPeriod(businessId, periodStart, periodEnd, res.locals.businessOwner.operatorId);
+      res.status(201).json(period);
     } catch (error) {
-      console.error("AI analysis error:", error);
-      res.status(500).json({ message: "Failed to analyze job" });
+      console.error("Error creating payroll period:", error);
+      res.status(500).json({ message: "Failed to create payroll period" });
     }
   });
-
-  // Business management routes
-  router.post("/api/business", async (req, res) => {
+  
+  // Get a payroll period with its driver statements
+  router.get("/api/business/:businessId/payroll/periods/:payrollPeriodId", requireBusinessOwner, async (req, res) => {
     try {
-      const businessData = req.body;
-      const business = await storage.createBusiness(businessData);
-      res.status(201).json(business);
+      const period = await getPayrollPeriod(req.params.businessId, req.params.payrollPeriodId);
+      if (!period) {
+        return res.status(404).json({ message: "Payroll period not found" });
+      }
+      res.json(period);
     } catch (error) {
-      console.error("Error creating business:", error);
-      res.status(500).json({ message: "Failed to create business" });
+      console.error("Error fetching payroll period:", error);
+      res.status(500).json({ message: "Failed to fetch payroll period" });
     }
   });
-
-  router.get("/api/business/:businessId", async (req, res) => {
-    const business = await db.query.businesses.findFirst({
-      where: eq(businesses.businessId, req.params.businessId)
-    });
-    if (!business) {
-      return res.status(404).json({ message: "Business not found" });
+  
+  // Discard a draft period so the range can be rebuilt
+  router.delete("/api/business/:businessId/payroll/periods/:payrollPeriodId", requireBusinessOwner, async (req, res) => {
+    try {
+      const [deleted] = await db.delete(payrollPeriods)
+        .where(and(
+          eq(payrollPeriods.businessId, req.params.businessId),
+          eq(payrollPeriods.payrollPeriodId, req.params.payrollPeriodId),
+          eq(payrollPeriods.status, "draft")
+        ))
+        .returning();
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Draft payroll period not found" });
+      }
+      
+      await db.delete(payrollStatements)
+        .where(eq(payrollStatements.payrollPeriodId, deleted.payrollPeriodId));
+      
+      res.json({ message: "Payroll period discarded" });
+    } catch (error) {
+      console.error("Error deleting payroll period:", error);
+      res.status(500).json({ message: "Failed to delete payroll period" });
     }
-    res.json(business);
   });
-
-  router.get("/api/business/drivers/:businessId", async (req, res) => {
-    const drivers = await storage.getBusinessDrivers(req.params.businessId);
-    res.json(drivers);
+  
+  // Approve a period and pay each driver into their wallet (approving again retries unpaid statements)
+  router.post("/api/business/:businessId/payroll/periods/:payrollPeriodId/approve", requireBusinessOwner, async (req, res) => {
+    try {
+      const result = await approvePayrollPeriod(
+        req.params.businessId,
+        req.params.payrollPeriodId,
+        res.locals.businessOwner.userId
+      );
+      
+      if (result.status === "not_found") {
+        return res.status(404).json({ message: "Payroll period not found" });
+      }
+      if (result.status === "already_paid") {
+        return res.status(409).json({ message: "Payroll period is already approved and paid" });
+      }
+      if (result.status === "unfunded") {
+        return res.status(409).json({
+          message: `Payroll needs $${(result.requiredCents / 100).toFixed(2)} but the business payroll account holds $${(result.availableCents / 100).toFixed(2)}`,
+          requiredCents: result.requiredCents,
+          availableCents: result.availableCents,
+        });
+      }
+      
+      res.json(result.period);
+    } catch (error) {
+      console.error("Error approving payroll period:", error);
+      res.status(500).json({ message: "Failed to approve payroll period" });
+    }
   });
-
-  router.post("/api/business/drivers", async (req, res) => {
+  
+  // Download a driver's pay stub (?format=csv or ?format=pdf)
+  router.get("/api/business/:businessId/payroll/statements/:statementId/stub", requireBusinessOwner, async (req, res) => {
     try {
-      const operatorId = `DRV-${Date.now()}`;
-      const driverData = {
-        ...req.body,
-        operatorId,
-        rating: "5.00",
-      };
-      const driver = await storage.createDriver(driverData);
-      res.status(201).json(driver);
+      const format = req.query.format === "pdf" ? "pdf" : "csv";
+      
+      const [statement] = await db.select()
+        .from(payrollStatements)
+        .where(and(
+          eq(payrollStatements.businessId, req.params.businessId),
+          eq(payrollStatements.statementId, req.params.statementId)
+        ));
+      
+      if (!statement) {
+        return res.status(404).json({ message: "Statement not found" });
+      }
+      
+      const [period] = await db.select()
+        .from(payrollPeriods)
+        .where(eq(payrollPeriods.payrollPeriodId, statement.payrollPeriodId));
+      const business = await db.query.businesses.findFirst({
+        where: eq(businesses.businessId, req.params.businessId)
+      });
+      const businessName = business?.name || "Business";
+      const filename = `paystub-${statement.operatorId}-${period.periodStart.toISOString().split("T")[0]}.${format}`;
+      
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.send(buildPayStubPdf(statement, period, businessName));
+      } else {
+        res.setHeader("Content-Type", "text/csv");
+        res.send(buildPayStubCsv(statement, period, businessName));
+      }
     } catch (error) {
-      console.error("Error creating driver:", error);
-      res.status(500).json({ message: "Failed to create driver" });
+      console.error("Error generating pay stub:", error);
+      res.status(500).json({ message: "Failed to generate pay stub" });
     }
   });
 
-  router.delete("/api/business/drivers/:driverId", async (req, res) => {
+  // ===== BUSINESS ANALYTICS ROUTES (professional tier) =====
+  // All accept ?range=today|week|month (default week) or ?range=custom&from=YYYY-MM-DD&to=YYYY-MM-DD
+  
+  // Business-wide totals with a daily revenue series
+  router.get("/api/business/:businessId/analytics", requireBusinessOwner, async (req, res) => {
     try {
-      const success = await storage.removeDriver(req.params.driverId);
-      if (!success) {
-        return res.status(404).json({ message: "Driver not found" });
+      const window = resolveAnalyticsWindow(req.query.range as string | undefined, req.query.from as string | undefined, req.query.to as string | undefined);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid range. Use today, week, month, or custom with from and to dates" });
       }
-      res.json({ message: "Driver removed successfully" });
+      
+      const analytics = await getBusinessAnalytics(storage, req.params.businessId, window);
+      res.json(analytics);
     } catch (error) {
-      console.error("Error removing driver:", error);
-      res.status(500).json({ message: "Failed to remove driver" });
+      console.error("Error fetching business analytics:", error);
+      res.status(500).json({ message: "Failed to fetch business analytics" });
+    }
+  });
+  
+  // Per-driver revenue, jobs, rating, response time and utilization
+  router.get("/api/business/:businessId/analytics/drivers", requireBusinessOwner, async (req, res) => {
+    try {
+      const window = resolveAnalyticsWindow(req.query.range as string | undefined, req.query.from as string | undefined, req.query.to as string | undefined);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid range. Use today, week, month, or custom with from and to dates" });
+      }
+      
+      const analytics = await getDriverAnalytics(storage, req.params.businessId, window);
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching driver analytics:", error);
+      res.status(500).json({ message: "Failed to fetch driver analytics" });
+    }
+  });
+  
+  // Per-vehicle revenue, jobs and utilization
+  router.get("/api/business/:businessId/analytics/vehicles", requireBusinessOwner, async (req, res) => {
+    try {
+      const window = resolveAnalyticsWindow(req.query.range as string | undefined, req.query.from as string | undefined, req.query.to as string | undefined);
+      if (!window) {
+        return res.status(400).json({ message: "Invalid range. Use today, week, month, or custom with from and to dates" });
+      }
+      
+      const analytics = await getVehicleAnalytics(storage, req.params.businessId, window);
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching vehicle analytics:", error);
+      res.status(500).json({ message: "Failed to fetch vehicle analytics" });
     }
   });
 
@@ -2047,6 +2987,11 @@ export function registerRoutes(storage: IStorage) {
         return res.status(400).json({ message: "Tier already subscribed" });
       }
       
+      // The new tier is submitted for approval, which needs a verified email
+      if (!(await isOperatorEmailVerified(operatorId))) {
+        return res.status(403).json({ message: "Verify your email before submitting a tier for approval", code: "EMAIL_NOT_VERIFIED" });
+      }
+      
       // Add tier to subscribed tiers and set as active tier
       const updatedTiers = [...operator.subscribedTiers, tier];
       
@@ -2364,55 +3309,22 @@ export function registerRoutes(storage: IStorage) {
 
   // Weather Alerts Routes - Proactive Notifications
   
-  // Fetch active weather alerts from NWS and update database
+  // Fetch active weather alerts from each country's provider and update database
+  // ?country=CA&area=ON syncs one state or province; otherwise every service-area region is synced
   router.post("/api/weather/sync", async (req, res) => {
-    try {
-      const area = (req.query.area as string) || "US";
-      
-      // Fetch latest alerts from NWS
-      const alerts = await getServiceRelevantAlerts(area);
-      const allRelevantAlerts = [...alerts.winterAlerts, ...alerts.stormAlerts];
-      
-      // Update database with new alerts
-      for (const alert of allRelevantAlerts) {
-        const existingAlert = await db.query.weatherAlerts.findFirst({
-          where: eq(weatherAlerts.alertId, alert.id)
-        });
-        
-        if (!existingAlert) {
-          // Insert new alert
-          await db.insert(weatherAlerts).values({
-            alertId: alert.id,
-            event: alert.event,
-            headline: alert.headline,
-            description: alert.description,
-            severity: alert.severity,
-            urgency: alert.urgency,
-            areaDesc: alert.areaDesc,
-            effective: new Date(alert.effective),
-            expires: new Date(alert.expires),
-            instruction: alert.instruction,
-            category: alert.category,
-            isActive: 1,
-          });
-        }
-      }
-      
-      // Deactivate expired alerts
-      await db.update(weatherAlerts)
-        .set({ isActive: 0 })
-        .where(sql`${weatherAlerts.expires} < NOW() AND ${weatherAlerts.isActive} = 1`);
-      
-      res.json({ 
-        message: "Weather alerts synced successfully",
-        winterAlerts: alerts.winterAlerts.length,
-        stormAlerts: alerts.stormAlerts.length,
-        total: allRelevantAlerts.length
-      });
-    } catch (error) {
-      console.error("Error syncing weather alerts:", error);
-      res.status(500).json({ message: "Failed to sync weather alerts" });
-    }
+    const area = req.query.area as string | undefined;
+    const country = (req.query.country as string) || "US";
+    const result = await syncWeatherAlerts(area ? [{ countryCode: country.toUpperCase(), regionCode: area.toUpperCase() }] : undefined);
+    if (!result) {
+      return res.status(500).json({ message: "Failed to sync weather alerts" });
+    }
+
+    res.json({ 
+      message: "Weather alerts synced successfully",
+      winterAlerts: result.winterAlerts,
+      stormAlerts: result.stormAlerts,
+      total: result.total
+    });
   });
 
   // Get all weather alerts from database (both active and expired)
@@ -2452,6 +3364,68 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
+  // Demand where a job is: its zone's level and the weather alerts driving it
+  router.get("/api/demand", async (req, res) => {
+    try {
+      const latitude = parseFloat(req.query.latitude as string);
+      const longitude = parseFloat(req.query.longitude as string);
+      if (isNaN(latitude) || isNaN(longitude)) {
+        return res.status(400).json({ message: "latitude and longitude are required" });
+      }
+
+      res.json(await getAreaDemand(latitude, longitude));
+    } catch (error) {
+      console.error("Error fetching demand:", error);
+      res.status(500).json({ message: "Failed to fetch demand" });
+    }
+  });
+
+  // Price range for a service at a location, before the customer requests it
+  // Optional job details (urgencyLevel, isEmergency, areaSize, weight, towDistanceKm) narrow the estimate
+  router.get("/api/estimates", async (req, res) => {
+    try {
+      const serviceType = req.query.serviceType as string;
+      const latitude = parseFloat(req.query.latitude as string);
+      const longitude = parseFloat(req.query.longitude as string);
+      if (!serviceType || isNaN(latitude) || isNaN(longitude)) {
+        return res.status(400).json({ message: "serviceType, latitude and longitude are required" });
+      }
+
+      const { urgencyLevel, isEmergency, areaSize, weight, towDistanceKm } = req.query as Record<string, string | undefined>;
+      const estimate = await getPriceEstimate({
+        serviceType,
+        urgencyLevel: urgencyLevel || null,
+        isEmergency: isEmergency === "true",
+        details: { areaSize, weight, towDistanceKm },
+      }, latitude, longitude);
+      res.json(estimate);
+    } catch (error) {
+      console.error("Error estimating price:", error);
+      res.status(500).json({ message: "Failed to estimate price" });
+    }
+  });
+
+  // Demand zones as GeoJSON for maps
+  router.get("/api/demand/zones", async (req, res) => {
+    try {
+      res.json(convertZonesToGeoJSON(await getDemandZoneMap()));
+    } catch (error) {
+      console.error("Error fetching demand zones:", error);
+      res.status(500).json({ message: "Failed to fetch demand zones" });
+    }
+  });
+
+  // Active service zones as GeoJSON for maps, optionally only those a tier may work in (?tier=)
+  router.get("/api/zones", async (req, res) => {
+    try {
+      const zones = await getZones(req.query.tier as string | undefined);
+      res.json(convertZonesToGeoJSON(zones.map(toServiceZone)));
+    } catch (error) {
+      console.error("Error fetching zones:", error);
+      res.status(500).json({ message: "Failed to fetch zones" });
+    }
+  });
+
   // ===== EMERGENCY SOS ROUTES =====
   
   // Create emergency request (no auth required)
@@ -2465,49 +3439,13 @@ export function registerRoutes(storage: IStorage) {
       // Insert with validated and transformed data (lat/lng as strings)
       const [emergency] = await db.insert(emergencyRequests).values(result.data).returning();
       
-      // Find 5 nearest online operators
-      const allOperators = await db.query.operators.findMany({
-        where: eq(operators.isOnline, 1)
-      });
-      
-      // Parse coordinates for distance calculation (expecting strings from schema)
-      const emergencyLat = parseFloat(String(result.data.latitude));
-      const emergencyLng = parseFloat(String(result.data.longitude));
-      
-      // Calculate distances and sort
-      const operatorsWithDistance = allOperators.map(op => ({
-        ...op,
-        distance: calculateDistance(
-          emergencyLat,
-          emergencyLng,
-          parseFloat(String(op.latitude)),
-          parseFloat(String(op.longitude))
-        )
-      })).sort((a, b) => a.distance - b.distance).slice(0, 5);
-      
-      // Create dispatch queue entries for nearest 5 operators
-      const now = new Date();
-      const queueEntries = operatorsWithDistance.map((op, index) => ({
-        queueId: `QUEUE-${Date.now()}-${op.operatorId}`,
-        emergencyId: result.data.emergencyId,
-        serviceRequestId: null,
-        operatorId: op.operatorId,
-        queuePosition: index + 1,
-        status: index === 0 ? "notified" : "pending", // Notify first operator immediately
-        notifiedAt: index === 0 ? now : null, // Set notification time for first operator
-        respondedAt: null,
-        distanceKm: op.distance.toFixed(2),
-        expiresAt: index === 0 ? new Date(Date.now() + 10 * 60 * 1000) : null, // 10 min expiry for first operator
-        createdAt: now,
-      }));
-      
-      if (queueEntries.length > 0) {
-        await db.insert(dispatchQueue).values(queueEntries);
-      }
+      // Queue nearby online operators and notify the closest one - the dispatch engine
+      // moves down the queue (and widens the radius) as operators decline or time out
+      const queue = await dispatchEngine.startDispatch({ type: "emergency", emergencyId: emergency.emergencyId });
       
       res.status(201).json({
-        ...emergency[0],
-        notifiedOperators: operatorsWithDistance.length
+        ...emergency,
+        notifiedOperators: queue.length
       });
     } catch (error) {
       console.error("Error creating emergency request:", error);
@@ -2632,30 +3570,16 @@ export function registerRoutes(storage: IStorage) {
         return res.status(400).json({ message: "Operator ID required" });
       }
       
-      // Find the queue entry
-      const queueEntry = await db.query.dispatchQueue.findFirst({
-        where: and(
-          eq(dispatchQueue.emergencyId, req.params.emergencyId),
-          eq(dispatchQueue.operatorId, operatorId)
-        )
-      });
+      const queueEntry = await dispatchEngine.respond(
+        { type: "emergency", emergencyId: req.params.emergencyId },
+        operatorId,
+        true
+      );
       
       if (!queueEntry) {
-        return res.status(404).json({ message: "Queue entry not found" });
-      }
-      
-      if (queueEntry.status !== "notified") {
-        return res.status(400).json({ message: "This operator was not notified" });
+        return res.status(400).json({ message: "This operator has no open offer for this emergency" });
       }
       
-      // Update queue entry to accepted
-      await db.update(dispatchQueue)
-        .set({
-          status: "accepted",
-          respondedAt: new Date()
-        })
-        .where(eq(dispatchQueue.id, queueEntry.id));
-      
       // Update emergency request
       await db.update(emergencyRequests)
         .set({
@@ -2665,17 +3589,6 @@ export function registerRoutes(storage: IStorage) {
         })
         .where(eq(emergencyRequests.emergencyId, req.params.emergencyId));
       
-      // Decline all other operators in queue
-      await db.update(dispatchQueue)
-        .set({
-          status: "declined",
-          respondedAt: new Date()
-        })
-        .where(and(
-          eq(dispatchQueue.emergencyId, req.params.emergencyId),
-          sql`${dispatchQueue.id} != ${queueEntry.id}`
-        ));
-      
       res.json({ message: "Emergency request accepted" });
     } catch (error) {
       console.error("Error accepting emergency request:", error);
@@ -2692,52 +3605,15 @@ export function registerRoutes(storage: IStorage) {
         return res.status(400).json({ message: "Operator ID required" });
       }
       
-      // Find the queue entry
-      const queueEntry = await db.query.dispatchQueue.findFirst({
-        where: and(
-          eq(dispatchQueue.emergencyId, req.params.emergencyId),
-          eq(dispatchQueue.operatorId, operatorId)
-        )
-      });
+      // Records the decline and offers the request to the next operator in line
+      const queueEntry = await dispatchEngine.respond(
+        { type: "emergency", emergencyId: req.params.emergencyId },
+        operatorId,
+        false
+      );
       
       if (!queueEntry) {
-        return res.status(404).json({ message: "Queue entry not found" });
-      }
-      
-      // Update queue entry to declined
-      await db.update(dispatchQueue)
-        .set({
-          status: "declined",
-          respondedAt: new Date()
-        })
-        .where(eq(dispatchQueue.id, queueEntry.id));
-      
-      // Get next operator in queue
-      const nextOperator = await db.query.dispatchQueue.findFirst({
-        where: and(
-          eq(dispatchQueue.emergencyId, req.params.emergencyId),
-          eq(dispatchQueue.status, "pending")
-        ),
-        orderBy: (queue, { asc }) => [asc(queue.queuePosition)]
-      });
-      
-      // Notify next operator if available
-      if (nextOperator) {
-        await db.update(dispatchQueue)
-          .set({
-            status: "notified",
-            notifiedAt: new Date(),
-            expiresAt: new Date(Date.now() + 10 * 60 * 1000)
-          })
-          .where(eq(dispatchQueue.id, nextOperator.id));
-      } else {
-        // No more operators - mark emergency as cancelled
-        await db.update(emergencyRequests)
-          .set({
-            status: "cancelled",
-            updatedAt: new Date()
-          })
-          .where(eq(emergencyRequests.emergencyId, req.params.emergencyId));
+        return res.status(400).json({ message: "This operator has no open offer for this emergency" });
       }
       
       res.json({ message: "Emergency request declined, notified next operator" });
@@ -2823,6 +3699,12 @@ export function registerRoutes(storage: IStorage) {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
+      // Jobs inside service zones are only open to the tiers the zones allow
+      if (jobData.latitude && jobData.longitude &&
+          !(await isTierAllowedAt(tier, parseFloat(jobData.latitude), parseFloat(jobData.longitude)))) {
+        return res.status(403).json({ message: "This job is in a service zone your tier does not serve" });
+      }
+
       // Check if operator has active jobs on other tiers
       const activeJobs = await storage.getOperatorActiveJobs(operatorId, tier);
       if (activeJobs.length > 0) {
@@ -2850,6 +3732,14 @@ export function registerRoutes(storage: IStorage) {
         cancellationReason: null,
       });
 
+      // Place a hold on the customer's card when the job comes from a service request
+      await authorizeJobPayment({
+        serviceRequestId: jobSourceId,
+        acceptedJobId,
+        operatorId,
+        amount: getAuthorizationAmount(newJob.actualEarnings, jobData),
+      });
+
       res.status(201).json(newJob);
     } catch (error) {
       console.error("Error creating accepted job:", error);
@@ -2930,10 +3820,18 @@ export function registerRoutes(storage: IStorage) {
   router.post("/api/accepted-jobs/:acceptedJobId/complete", async (req, res) => {
     try {
       const { acceptedJobId } = req.params;
-      const { operatorId, earnings } = req.body;
       
+      // SECURITY: The operator comes from the session, not the request body
+      const userId = req.sessionData?.userId || req.session?.userId;
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await db.query.users.findFirst({
+        where: eq(users.userId, userId)
+      });
+      const operatorId = user?.operatorId;
       if (!operatorId) {
-        return res.status(400).json({ message: "operatorId is required" });
+        return res.status(403).json({ message: "Operator account required" });
       }
       
       // SECURITY: Verify operator owns this job
@@ -2945,29 +3843,24 @@ export function registerRoutes(storage: IStorage) {
         return res.status(403).json({ message: "Unauthorized - you don't own this job" });
       }
 
-      // Calculate earnings if not provided (use midpoint of budget range)
-      let actualEarnings = earnings;
-      if (!actualEarnings) {
-        const jobData = existingJob.jobData as any;
-        const budgetRange = jobData?.budgetRange || "$0-$0";
-        const match = budgetRange.match(/\$(\d+)-\$?(\d+)/);
-        if (match) {
-          actualEarnings = (parseInt(match[1]) + parseInt(match[2])) / 2;
-        } else {
-          actualEarnings = 0;
-        }
-      }
+      // The job completes at the price agreed when it was accepted (the quote, otherwise the amount held),
+      // never an amount the operator sends
+      const actualEarnings = getAuthorizationAmount(existingJob.actualEarnings, existingJob.jobData);
 
       const job = await storage.completeAcceptedJob(acceptedJobId, actualEarnings);
       
       // CRITICAL FIX: Mark the source serviceRequest as "completed" so it doesn't reappear
       if (existingJob.jobSourceId) {
+        // Charge the customer's hold for the agreed price
+        const payment = await captureJobPayment(existingJob.jobSourceId, actualEarnings);
+        const captured = payment?.status === "captured";
+
         await db.update(serviceRequests)
           .set({ 
             status: "completed",
             completedAt: new Date(),
-            paymentStatus: "pending", // Uber-style: earnings pending until review window
-            paymentCapturedAt: new Date() // Customer charged immediately
+            paymentStatus: captured ? "captured" : "pending", // Uber-style: earnings pending until review window
+            paymentCapturedAt: captured ? payment.capturedAt : null
           })
           .where(eq(serviceRequests.requestId, existingJob.jobSourceId));
       }
@@ -2975,6 +3868,7 @@ export function registerRoutes(storage: IStorage) {
       // DATABASE PERSISTENCE FIX: Write earnings directly to database (not MemStorage)
       const today = new Date().toISOString().split('T')[0];
       const month = new Date().toISOString().substring(0, 7);
+      const earningsText = actualEarnings.toFixed(2);
       
       // Upsert daily earnings to DATABASE (persists across logout/refresh)
       await db.insert(operatorDailyEarnings)
@@ -2983,15 +3877,15 @@ export function registerRoutes(storage: IStorage) {
           tier: existingJob.tier,
           date: today,
           jobsCompleted: 1,
-          earningsPending: actualEarnings, // Store as number, not string
-          earnings: actualEarnings
+          earningsPending: earningsText,
+          earnings: earningsText
         })
         .onConflictDoUpdate({
           target: [operatorDailyEarnings.operatorId, operatorDailyEarnings.tier, operatorDailyEarnings.date],
           set: {
             jobsCompleted: sql`${operatorDailyEarnings.jobsCompleted} + 1`,
-            earningsPending: sql`${operatorDailyEarnings.earningsPending} + ${actualEarnings}`,
-            earnings: sql`${operatorDailyEarnings.earnings} + ${actualEarnings}`,
+            earningsPending: sql`${operatorDailyEarnings.earningsPending} + ${earningsText}`,
+            earnings: sql`${operatorDailyEarnings.earnings} + ${earningsText}`,
             updatedAt: new Date()
           }
         });
@@ -3003,15 +3897,15 @@ export function registerRoutes(storage: IStorage) {
           tier: existingJob.tier,
           month,
           jobsCompleted: 1,
-          earningsPending: actualEarnings, // Store as number, not string
-          earnings: actualEarnings
+          earningsPending: earningsText,
+          earnings: earningsText
         })
         .onConflictDoUpdate({
           target: [operatorMonthlyEarnings.operatorId, operatorMonthlyEarnings.tier, operatorMonthlyEarnings.month],
           set: {
             jobsCompleted: sql`${operatorMonthlyEarnings.jobsCompleted} + 1`,
-            earningsPending: sql`${operatorMonthlyEarnings.earningsPending} + ${actualEarnings}`,
-            earnings: sql`${operatorMonthlyEarnings.earnings} + ${actualEarnings}`,
+            earningsPending: sql`${operatorMonthlyEarnings.earningsPending} + ${earningsText}`,
+            earnings: sql`${operatorMonthlyEarnings.earnings} + ${earningsText}`,
             updatedAt: new Date()
           }
         });
@@ -3022,14 +3916,14 @@ export function registerRoutes(storage: IStorage) {
           operatorId,
           tier: existingJob.tier,
           jobsCompleted: 1,
-          totalEarnings: actualEarnings, // Store as number, not string
+          totalEarnings: earningsText,
           lastActiveAt: new Date()
         })
         .onConflictDoUpdate({
           target: [operatorTierStats.operatorId, operatorTierStats.tier],
           set: {
             jobsCompleted: sql`${operatorTierStats.jobsCompleted} + 1`,
-            totalEarnings: sql`${operatorTierStats.totalEarnings} + ${actualEarnings}`,
+            totalEarnings: sql`${operatorTierStats.totalEarnings} + ${earningsText}`,
             lastActiveAt: new Date()
           }
         });
@@ -3068,6 +3962,9 @@ export function registerRoutes(storage: IStorage) {
       
       // CRITICAL FIX: Mark the source serviceRequest as "cancelled" so it doesn't reappear
       if (existingJob.jobSourceId) {
+        // Release the hold (or refund the charge) on the customer's card
+        await refundJobPayment(existingJob.jobSourceId);
+
         await db.update(serviceRequests)
           .set({ 
             status: "cancelled",
@@ -3454,6 +4351,14 @@ export function registerRoutes(storage: IStorage) {
       }
       
       const { tier, serviceType, baseRate, perKmRate, urgencyMultipliers, minimumFee } = validation.data;
+
+      // Weather surge is opt-in and capped
+      const surge = urgencyMultipliers && typeof urgencyMultipliers === "object"
+        ? (urgencyMultipliers as Record<string, unknown>)[WEATHER_SURGE_KEY]
+        : undefined;
+      if (surge !== undefined && (typeof surge !== "number" || surge < 1 || surge > MAX_WEATHER_SURGE_MULTIPLIER)) {
+        return res.status(400).json({ message: `urgencyMultipliers.${WEATHER_SURGE_KEY} must be a number from 1 to ${MAX_WEATHER_SURGE_MULTIPLIER}` });
+      }
       
       // Check if config already exists
       const existing = await db.select()
@@ -3501,7 +4406,44 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
+  // Suggested price for an operator's quote, from their pricing config for the tier
+  router.get("/api/service-requests/:requestId/quote-price", async (req, res) => {
+    try {
+      const requestIdParam = req.params.requestId;
+      const operatorId = req.query.operatorId as string;
+      const tier = req.query.tier as string;
+      if (!operatorId || !tier) {
+        return res.status(400).json({ message: "operatorId and tier are required" });
+      }
+
+      const isNumeric = !isNaN(Number(requestIdParam));
+      const [request] = await db.select()
+        .from(serviceRequests)
+        .where(isNumeric 
+          ? eq(serviceRequests.id, parseInt(requestIdParam))
+          : eq(serviceRequests.requestId, requestIdParam)
+        )
+        .limit(1);
+      if (!request) {
+        return res.status(404).json({ message: "Service request not found" });
+      }
+
+      const breakdown = await priceQuote(request, operatorId, tier);
+      if (!breakdown) {
+        return res.status(404).json({ message: "No pricing config or customer budget to price this job" });
+      }
+      res.json(breakdown);
+    } catch (error) {
+      console.error("Error pricing quote:", error);
+      res.status(500).json({ message: "Failed to price quote" });
+    }
+  });
+
   // Submit a quote for a service request
+  // The server always prices the quote and stores its own breakdown. With a pricing config the amount
+  // must equal that price unless priceOverride is set, which is stored and logged in the quote history.
+  // A submitted autoCalcSnapshot must be within QUOTE_PRICING_SETTINGS.totalDriftRatio of the server's
+  // price, and quoting the snapshot's total quotes the server's total.
   router.post("/api/service-requests/:requestId/quotes", async (req, res) => {
     try {
       const requestIdParam = req.params.requestId;
@@ -3538,6 +4480,43 @@ export function registerRoutes(storage: IStorage) {
       if (existingQuote.length > 0 && existingQuote[0].status !== "operator_withdrawn") {
         return res.status(409).json({ message: "You already have an active quote for this request" });
       }
+
+      if (quoteData.tier && request[0].latitude && request[0].longitude &&
+          !(await isTierAllowedAt(quoteData.tier, parseFloat(request[0].latitude), parseFloat(request[0].longitude)))) {
+        return res.status(403).json({ message: "This job is in a service zone your tier does not serve" });
+      }
+      
+      // Price the quote on the server rather than trusting the browser's calculation
+      const pricing = quoteData.operatorId && quoteData.tier
+        ? await priceQuote(request[0], quoteData.operatorId, quoteData.tier)
+        : null;
+      const snapshot = quoteData.autoCalcSnapshot as { total?: unknown } | undefined;
+      if (snapshot && (!pricing || !matchesQuotePrice(snapshot, pricing, pricing.total * QUOTE_PRICING_SETTINGS.totalDriftRatio))) {
+        return res.status(400).json({
+          message: "Quote price does not match your pricing. Refresh the suggested price and try again.",
+          breakdown: pricing
+        });
+      }
+
+      // Quoting the suggested price quotes the server's price, even if it moved since it was shown
+      const quotesSuggestedPrice = typeof snapshot?.total === "number" &&
+        Math.abs(parseFloat(quoteData.amount) - snapshot.total) <= PRICE_TOLERANCE;
+      const amount = quotesSuggestedPrice ? pricing?.total : quoteData.amount ?? pricing?.total;
+      if (amount === undefined || amount === null) {
+        return res.status(400).json({ message: "Quote amount is required" });
+      }
+      if (!(parseFloat(amount) > 0)) {
+        return res.status(400).json({ message: "Quote amount must be greater than $0" });
+      }
+
+      // Operators with a pricing config quote their price unless they explicitly override it
+      const priceOverride = pricing?.method === "pricing_config" && Math.abs(parseFloat(amount) - pricing.total) > PRICE_TOLERANCE;
+      if (priceOverride && quoteData.priceOverride !== true) {
+        return res.status(400).json({
+          message: "Quote amount does not match your pricing. Confirm the price override to send a different amount.",
+          breakdown: pricing
+        });
+      }
       
       // Generate unique quote ID
       const quoteId = `quote_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -3549,15 +4528,28 @@ export function registerRoutes(storage: IStorage) {
       // Create quote
       const validation = insertOperatorQuoteSchema.safeParse({
         ...quoteData,
+        amount: String(amount),
+        breakdown: pricing,
+        autoCalcSnapshot: pricing,
+        priceOverride: priceOverride ? 1 : 0,
         quoteId,
         serviceRequestId: requestId,  // Use string requestId
         status: "sent",
         expiresAt,
-        history: [{
-          action: "created",
-          timestamp: new Date().toISOString(),
-          actor: quoteData.operatorId
-        }]
+        history: [
+          {
+            action: "created",
+            timestamp: new Date().toISOString(),
+            actor: quoteData.operatorId
+          },
+          ...(priceOverride ? [{
+            action: "price_override",
+            timestamp: new Date().toISOString(),
+            actor: quoteData.operatorId,
+            suggestedTotal: pricing.total,
+            amount: parseFloat(amount)
+          }] : [])
+        ]
       });
       
       if (!validation.success) {
@@ -3573,7 +4565,7 @@ export function registerRoutes(storage: IStorage) {
         requestId,
         request[0].customerId,
         quoteData.operatorName,
-        quoteData.amount,
+        String(amount),
         quoteId
       ).catch(err => {
         console.error("Failed to create quote notification:", err);
@@ -3840,6 +4832,9 @@ export function registerRoutes(storage: IStorage) {
           progress: 0,
           actualEarnings: quote.amount // Store the quoted amount
         });
+
+        // Place a hold on the customer's card for the quoted amount
+        await authorizeJobPayment({ serviceRequestId: quote.serviceRequestId, acceptedJobId, operatorId: quote.operatorId, amount: Number(quote.amount) });
         
         // Update quote status
         await db.update(operatorQuotes)
@@ -3991,6 +4986,9 @@ export function registerRoutes(storage: IStorage) {
         progress: 0,
         actualEarnings: quote.amount
       });
+
+      // Place a hold on the customer's card for the quoted amount
+      await authorizeJobPayment({ serviceRequestId: quote.serviceRequestId, acceptedJobId, operatorId: quote.operatorId, amount: Number(quote.amount) });
       
       // Update quote status
       await db.update(operatorQuotes)
@@ -4032,9 +5030,7 @@ export function registerRoutes(storage: IStorage) {
       
       // Only create notifications if this is a new acceptance (not idempotent retry)
       // Create notification for operator - their quote was ACCEPTED
-      const operatorNotificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await db.insert(notifications).values({
-        notificationId: operatorNotificationId,
+      await notificationService.createNotification({
         userId: quote.operatorId,
         audienceRole: "operator",
         title: "Quote Accepted!",
@@ -4052,9 +5048,7 @@ export function registerRoutes(storage: IStorage) {
       });
       
       // Create notification for customer - confirmation
-      const customerNotificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await db.insert(notifications).values({
-        notificationId: customerNotificationId,
+      await notificationService.createNotification({
         userId: customerId,
         audienceRole: "customer",
         title: "Quote Accepted",
@@ -4122,9 +5116,7 @@ export function registerRoutes(storage: IStorage) {
         .where(eq(operatorQuotes.quoteId, quoteId));
       
       // Create notification for operator - their quote was DECLINED
-      const operatorNotificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await db.insert(notifications).values({
-        notificationId: operatorNotificationId,
+      await notificationService.createNotification({
         userId: quote.operatorId,
         audienceRole: "operator",
         title: "Quote Declined",
@@ -4141,9 +5133,7 @@ export function registerRoutes(storage: IStorage) {
       });
       
       // Create notification for customer - confirmation
-      const customerNotificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      await db.insert(notifications).values({
-        notificationId: customerNotificationId,
+      await notificationService.createNotification({
         userId: customerId,
         audienceRole: "customer",
         title: "Quote Declined",
@@ -4228,6 +5218,11 @@ export function registerRoutes(storage: IStorage) {
         })
         .where(eq(serviceRequests.requestId, requestId));
       
+      // Broadcast emergencies move on to the next operator in the dispatch queue
+      if (request[0].isEmergency) {
+        await dispatchEngine.respond({ type: "service_request", requestId }, operatorId, false);
+      }
+      
       res.json({ 
         message: "Job declined", 
         declineReason, 
@@ -4299,6 +5294,9 @@ export function registerRoutes(storage: IStorage) {
         progress: 0,
         actualEarnings: amount.toString()
       });
+
+      // Place a hold on the customer's card for the quoted amount
+      await authorizeJobPayment({ serviceRequestId: requestId, acceptedJobId, operatorId, amount: Number(amount) });
       
       // Update service request status to operator_accepted
       await db.update(serviceRequests)
@@ -4314,6 +5312,11 @@ export function registerRoutes(storage: IStorage) {
         })
         .where(eq(serviceRequests.requestId, requestId));
       
+      // Close the dispatch queue if this was a broadcast emergency offer
+      if (request[0].isEmergency) {
+        await dispatchEngine.respond({ type: "service_request", requestId }, operatorId, true);
+      }
+      
       res.json({ 
         message: "Quote submitted and job accepted", 
         quoteId,
@@ -4326,7 +5329,7 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
-  // Emergency broadcast - send emergency request to all nearby operators
+  // Emergency broadcast - offer the request to nearby operators one at a time
   router.post("/api/service-requests/:requestId/emergency-broadcast", async (req, res) => {
     try {
       const { requestId } = req.params;
@@ -4351,130 +5354,19 @@ export function registerRoutes(storage: IStorage) {
       if (!reqData.latitude || !reqData.longitude) {
         return res.status(400).json({ message: "Service request has no location data" });
       }
-      
-      const requestLat = parseFloat(reqData.latitude.toString());
-      const requestLon = parseFloat(reqData.longitude.toString());
-      
-      // Haversine formula to calculate distance in kilometers
-      const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-        const R = 6371; // Earth's radius in km
-        const dLat = (lat2 - lat1) * Math.PI / 180;
-        const dLon = (lon2 - lon1) * Math.PI / 180;
-        const a = 
-          Math.sin(dLat/2) * Math.sin(dLat/2) +
-          Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-          Math.sin(dLon/2) * Math.sin(dLon/2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-        return R * c;
-      };
-      
-      // Get all operators that offer this service type
-      const allOperators = await db.select().from(operators);
-      
-      const nearbyOperators = allOperators.filter((op) => {
-        // Check if operator offers this service type
-        const services = Array.isArray(op.services) ? op.services : [];
-        if (!services.includes(reqData.serviceType)) return false;
-        
-        // Check if operator has valid location
-        if (!op.latitude || !op.longitude) return false;
-        
-        // Calculate distance
-        const opLat = parseFloat(op.latitude.toString());
-        const opLon = parseFloat(op.longitude.toString());
-        const distanceKm = calculateDistance(requestLat, requestLon, opLat, opLon);
-        
-        // Filter by emergency broadcast radius (typically larger than normal)
-        return distanceKm <= radiusKm;
-      });
-      
-      // Calculate priority score for each operator and create dispatch queue entries
-      const dispatchEntries = [];
-      const now = new Date();
-      const expiryTime = new Date(now.getTime() + 15 * 60 * 1000); // 15 minutes to respond
-      
-      for (let i = 0; i < nearbyOperators.length; i++) {
-        const op = nearbyOperators[i];
-        const opLat = parseFloat(op.latitude!.toString());
-        const opLon = parseFloat(op.longitude!.toString());
-        const distanceKm = calculateDistance(requestLat, requestLon, opLat, opLon);
-        const rating = parseFloat(op.rating?.toString() || '0');
-        
-        // Get operator's tier stats for average response time (if available)
-        const tier = op.activeTier || op.operatorTier || 'manual';
-        const tierStats = await db.select()
-          .from(operatorTierStats)
-          .where(and(
-            eq(operatorTierStats.operatorId, op.operatorId),
-            eq(operatorTierStats.tier, tier)
-          ))
-          .limit(1);
-        
-        // Calculate average response time from previous dispatch queue entries
-        const previousResponses = await db.select()
-          .from(dispatchQueue)
-          .where(and(
-            eq(dispatchQueue.operatorId, op.operatorId),
-            sql`${dispatchQueue.responseTimeSeconds} IS NOT NULL`
-          ))
-          .limit(10);
-        
-        const avgResponseTime = previousResponses.length > 0
-          ? previousResponses.reduce((sum, r) => sum + (r.responseTimeSeconds || 0), 0) / previousResponses.length
-          : 300; // Default 5 minutes if no history
-        
-        dispatchEntries.push({
-          operator: op,
-          distanceKm,
-          rating,
-          avgResponseTime,
-          tier
-        });
+
+      if (!DISPATCHABLE_REQUEST_STATUSES.includes(reqData.status)) {
+        return res.status(409).json({ message: "Service request is no longer open for dispatch" });
       }
       
-      // Sort by priority: rating (highest first), then response time (fastest first), then distance (closest first)
-      dispatchEntries.sort((a, b) => {
-        // Primary: rating
-        if (a.rating !== b.rating) {
-          return b.rating - a.rating; // Higher rating first
-        }
-        
-        // Secondary: average response time
-        if (a.avgResponseTime !== b.avgResponseTime) {
-          return a.avgResponseTime - b.avgResponseTime; // Faster response first
-        }
-        
-        // Tertiary: distance
-        return a.distanceKm - b.distanceKm; // Closer first
-      });
-      
-      // Create dispatch queue entries
-      const createdEntries = [];
-      for (let i = 0; i < dispatchEntries.length; i++) {
-        const entry = dispatchEntries[i];
-        const queueId = `queue_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${i}`;
-        
-        const result = await db.insert(dispatchQueue).values({
-          queueId,
-          serviceRequestId: requestId,
-          emergencyId: reqData.requestId, // Link to emergency request
-          operatorId: entry.operator.operatorId,
-          queuePosition: i + 1, // Priority order
-          status: "pending",
-          notifiedAt: now,
-          expiresAt: expiryTime,
-          distanceKm: entry.distanceKm.toString(),
-          operatorRatingSnapshot: entry.rating.toString(),
-          operatorAvgResponseTime: entry.avgResponseTime.toString()
-        }).returning();
-        
-        createdEntries.push(result[0]);
-      }
+      // Queue operators offering this service by priority and notify them one at a time -
+      // the dispatch engine widens the radius if everyone in range declines
+      const createdEntries = await dispatchEngine.startDispatch({ type: "service_request", requestId }, Number(radiusKm));
       
       res.json({
         message: "Emergency broadcast sent",
         totalOperatorsNotified: createdEntries.length,
-        dispatchEntries: createdEntries.map((e, i) => ({
+        dispatchEntries: createdEntries.map((e) => ({
           operatorId: e.operatorId,
           queuePosition: e.queuePosition,
           distanceKm: e.distanceKm,
@@ -4518,19 +5410,6 @@ export function registerRoutes(storage: IStorage) {
       const requestLat = parseFloat(reqData.latitude.toString());
       const requestLon = parseFloat(reqData.longitude.toString());
       
-      // Haversine formula to calculate distance in kilometers
-      const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-        const R = 6371; // Earth's radius in km
-        const dLat = (lat2 - lat1) * Math.PI / 180;
-        const dLon = (lon2 - lon1) * Math.PI / 180;
-        const a = 
-          Math.sin(dLat/2) * Math.sin(dLat/2) +
-          Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-          Math.sin(dLon/2) * Math.sin(dLon/2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-        return R * c;
-      };
-      
       // Get all operators that offer this service type
       const allOperators = await db.select().from(operators);
       
@@ -4658,13 +5537,15 @@ export function registerRoutes(storage: IStorage) {
         .where(eq(serviceRequests.requestId, requestId))
         .returning();
       
+      // Take the fee from the customer's card hold and release the rest
+      await chargeCancellationFee(requestId, cancellationFeeCents);
+      
       // Create status event
-      const eventId = `evt-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      await db.insert(requestStatusEvents).values({
-        eventId,
+      const eventId = await notificationService.createStatusEvent({
         requestId,
         actorRole: cancelledBy,
         actorId: userId,
+        actorName: request.customerName,
         fromStatus: request.status,
         toStatus: "cancelled",
         eventType: "request_cancelled",
@@ -4673,9 +5554,7 @@ export function registerRoutes(storage: IStorage) {
       
       // Notify operator if one was assigned
       if (request.assignedOperatorId) {
-        const notificationId = `notif-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-        await db.insert(notifications).values({
-          notificationId,
+        await notificationService.createNotification({
           userId: request.assignedOperatorId,
           audienceRole: "operator",
           title: "Request Cancelled",
@@ -4765,7 +5644,7 @@ export function registerRoutes(storage: IStorage) {
   router.patch("/api/service-requests/:requestId/edit", async (req, res) => {
     try {
       const { requestId } = req.params;
-      const { description, preferredDate, preferredTime, location, budgetRange, details } = req.body;
+      const { description, preferredDate, preferredTime, location, budgetRange, budgetMin, budgetMax, details } = req.body;
       const userId = req.sessionData?.userId || req.session?.userId;
       
       if (!userId) {
@@ -4836,7 +5715,22 @@ export function registerRoutes(storage: IStorage) {
       if (preferredDate) updateData.preferredDate = preferredDate;
       if (preferredTime) updateData.preferredTime = preferredTime;
       if (location) updateData.location = location;
-      if (budgetRange) updateData.budgetRange = budgetRange;
+      if (budgetRange) {
+        // Legacy free-text budget - keep the structured values in step when it can be read
+        const budget = resolveBudget({ budgetRange });
+        updateData.budgetRange = budgetRange;
+        updateData.budgetMin = budget ? String(budget.min) : null;
+        updateData.budgetMax = budget ? String(budget.max) : null;
+      }
+      if (typeof budgetMin === "number" && typeof budgetMax === "number") {
+        const invalidBudget = validateBudget(budgetMin, budgetMax);
+        if (invalidBudget) {
+          return res.status(400).json({ message: invalidBudget });
+        }
+        updateData.budgetMin = String(budgetMin);
+        updateData.budgetMax = String(budgetMax);
+        updateData.budgetRange = formatBudgetRange({ min: budgetMin, max: budgetMax });
+      }
       if (details) updateData.details = details;
       
       const [updated] = await db.update(serviceRequests)
@@ -4845,12 +5739,11 @@ export function registerRoutes(storage: IStorage) {
         .returning();
       
       // Create status event for edit
-      const eventId = `evt-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      await db.insert(requestStatusEvents).values({
-        eventId,
+      const eventId = await notificationService.createStatusEvent({
         requestId,
         actorRole: "customer",
         actorId: userId,
+        actorName: request.customerName,
         fromStatus: request.status,
         toStatus: request.status, // Status doesn't change on edit
         eventType: "request_edited",
@@ -4863,9 +5756,7 @@ export function registerRoutes(storage: IStorage) {
       
       // Notify assigned operator about the edit
       if (request.assignedOperatorId) {
-        const notificationId = `notif-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-        await db.insert(notifications).values({
-          notificationId,
+        await notificationService.createNotification({
           userId: request.assignedOperatorId,
           audienceRole: "operator",
           title: "Request Updated",
@@ -5011,6 +5902,191 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
+  // ===== DISPUTES API =====
+
+  const disputeUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: getDocumentMaxBytes(), files: 5 },
+  });
+
+  // Run a multer upload, answering 400 for files that are too large or too many
+  const acceptEvidence = (upload: RequestHandler) => (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message = error.code === "LIMIT_FILE_SIZE"
+          ? `File is too large (max ${Math.round(getDocumentMaxBytes() / (1024 * 1024))} MB)`
+          : error.message;
+        return res.status(400).json({ message });
+      }
+      if (error) return next(error);
+      next();
+    });
+  };
+
+  const toEvidenceFiles = (files: Express.Multer.File[]): DisputeEvidenceFile[] | null => {
+    if (files.some(file => !DOCUMENT_CONTENT_TYPES[file.mimetype])) return null;
+    return files.map(file => ({ fileName: file.originalname, contentType: file.mimetype, data: file.buffer }));
+  };
+
+  // The session user and their side of a service request; admins can see every dispute
+  const getDisputeAccess = async (req: Request, requestId: string) => {
+    const userId = req.sessionData?.userId || req.session?.userId;
+    if (!userId) return null;
+
+    const user = await db.query.users.findFirst({ where: eq(users.userId, userId) });
+    const [request] = await db.select().from(serviceRequests)
+      .where(eq(serviceRequests.requestId, requestId))
+      .limit(1);
+    if (!user || !request) return { user: user || null, request: request || null, role: null };
+
+    return { user, request, role: await getDisputeRole(request, user) };
+  };
+
+  // Dispute on a request, or whether one can be opened (customer or operator on the request)
+  router.get("/api/service-requests/:requestId/dispute", async (req, res) => {
+    try {
+      const access = await getDisputeAccess(req, req.params.requestId);
+      if (!access) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!access.request) {
+        return res.status(404).json({ message: "Service request not found" });
+      }
+      if (!access.role && access.user?.isAdmin !== 1) {
+        return res.status(403).json({ message: "Not authorized to view this request" });
+      }
+
+      const dispute = await getRequestDispute(access.request.requestId);
+      res.json({
+        dispute: dispute ? await getDisputeDetails(dispute.disputeId) : null,
+        reason: dispute ? null : await checkDisputeEligibility(access.request),
+        windowHours: getDisputeWindowHours(),
+      });
+    } catch (error) {
+      console.error("Error fetching dispute:", error);
+      res.status(500).json({ message: "Failed to fetch dispute" });
+    }
+  });
+
+  // Open a dispute on a completed request with a category, description and optional evidence files
+  router.post("/api/service-requests/:requestId/dispute", acceptEvidence(disputeUpload.array("evidence", 5)), async (req, res) => {
+    try {
+      const access = await getDisputeAccess(req, req.params.requestId);
+      if (!access) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!access.request) {
+        return res.status(404).json({ message: "Service request not found" });
+      }
+      if (!access.role || !access.user) {
+        return res.status(403).json({ message: "Only the customer or operator on this request can dispute it" });
+      }
+
+      const { category } = req.body as Record<string, string | undefined>;
+      const description = typeof req.body.description === "string" ? req.body.description.trim() : "";
+      if (!category || !(DISPUTE_CATEGORIES as readonly string[]).includes(category)) {
+        return res.status(400).json({ message: `category must be one of ${DISPUTE_CATEGORIES.join(", ")}` });
+      }
+      if (description.length === 0) {
+        return res.status(400).json({ message: "A description is required" });
+      }
+
+      const files = toEvidenceFiles((req.files as Express.Multer.File[] | undefined) || []);
+      if (!files) {
+        return res.status(400).json({ message: "Evidence must be PDF, JPEG, PNG or WebP files" });
+      }
+
+      const ineligible = await checkDisputeEligibility(access.request);
+      if (ineligible) {
+        return res.status(409).json({ message: ineligible });
+      }
+
+      const dispute = await openDispute({
+        request: access.request,
+        role: access.role,
+        user: access.user,
+        category: category as DisputeCategory,
+        description,
+        files,
+      });
+      if (!dispute) {
+        return res.status(409).json({ message: "This request can no longer be disputed" });
+      }
+      res.status(201).json(await getDisputeDetails(dispute.disputeId));
+    } catch (error) {
+      console.error("Error opening dispute:", error);
+      res.status(500).json({ message: "Failed to open dispute" });
+    }
+  });
+
+  // Add a statement and/or a file to an open dispute (either party or an admin)
+  router.post("/api/disputes/:disputeId/evidence", acceptEvidence(disputeUpload.single("file")), async (req, res) => {
+    try {
+      const dispute = await getDispute(req.params.disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+
+      const access = await getDisputeAccess(req, dispute.serviceRequestId);
+      if (!access) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const role = access.role || (access.user?.isAdmin === 1 ? "admin" : null);
+      if (!role || !access.user) {
+        return res.status(403).json({ message: "Not authorized to add evidence to this dispute" });
+      }
+
+      const note = typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null;
+      const files = toEvidenceFiles(req.file ? [req.file] : []);
+      if (!files) {
+        return res.status(400).json({ message: "Evidence must be PDF, JPEG, PNG or WebP files" });
+      }
+      if (!note && files.length === 0) {
+        return res.status(400).json({ message: "Add a note or a file" });
+      }
+
+      const evidence = await addDisputeEvidence({ dispute, role, user: access.user, note, file: files[0] });
+      if (!evidence) {
+        return res.status(409).json({ message: "This dispute has been resolved" });
+      }
+      res.status(201).json(await getDisputeDetails(dispute.disputeId));
+    } catch (error) {
+      console.error("Error adding dispute evidence:", error);
+      res.status(500).json({ message: "Failed to add evidence" });
+    }
+  });
+
+  // Download an evidence file (either party or an admin)
+  router.get("/api/disputes/:disputeId/evidence/:evidenceId/file", async (req, res) => {
+    try {
+      const dispute = await getDispute(req.params.disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+
+      const access = await getDisputeAccess(req, dispute.serviceRequestId);
+      if (!access) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      if (!access.role && access.user?.isAdmin !== 1) {
+        return res.status(403).json({ message: "Not authorized to view this dispute" });
+      }
+
+      const file = await getEvidenceFile(dispute.disputeId, parseInt(req.params.evidenceId));
+      if (!file) {
+        return res.status(404).json({ message: "Evidence not found" });
+      }
+
+      res.setHeader("Content-Type", file.evidence.contentType || "application/octet-stream");
+      const fileName = (file.evidence.fileName || "evidence").replace(/[^\x20-\x7e]|"/g, "_");
+      res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+      res.send(file.data);
+    } catch (error) {
+      console.error("Error fetching dispute evidence:", error);
+      res.status(500).json({ message: "Failed to fetch evidence" });
+    }
+  });
+
   // ===== NOTIFICATIONS API =====
   
   // Get notifications for authenticated user
@@ -5118,6 +6194,7 @@ export function registerRoutes(storage: IStorage) {
         return res.status(403).json({ message: "Admin access required" });
       }
       
+      res.locals.admin = user;
       next();
     } catch (error) {
       console.error("Error checking admin status:", error);
@@ -5247,6 +6324,223 @@ export function registerRoutes(storage: IStorage) {
     }
   });
 
+  // Document submissions awaiting review, oldest first (admin only)
+  router.get("/api/admin/documents/review-queue", requireAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      if (!["pending", "approved", "rejected", "expired"].includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const queue = await getDocumentReviewQueue(status as DocumentReviewStatus);
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching document review queue:", error);
+      res.status(500).json({ message: "Failed to fetch document review queue" });
+    }
+  });
+
+  // Approve or reject a document submission (admin only)
+  router.post("/api/admin/documents/:id/review", requireAdmin, async (req, res) => {
+    try {
+      const submissionId = parseInt(req.params.id);
+      if (isNaN(submissionId)) {
+        return res.status(400).json({ message: "Invalid document id" });
+      }
+
+      const { decision } = req.body;
+      const reviewNote = typeof req.body.reviewNote === "string" ? req.body.reviewNote.trim() : "";
+      if (decision !== "approved" && decision !== "rejected") {
+        return res.status(400).json({ message: "decision must be approved or rejected" });
+      }
+      if (decision === "rejected" && reviewNote.length === 0) {
+        return res.status(400).json({ message: "A review note is required when rejecting a document" });
+      }
+
+      const reviewed = await reviewDocument({
+        submissionId,
+        decision,
+        reviewNote: reviewNote || null,
+        reviewedBy: res.locals.admin.userId,
+      });
+      if (!reviewed) {
+        return res.status(404).json({ message: "Document not found or already reviewed" });
+      }
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing document:", error);
+      res.status(500).json({ message: "Failed to review document" });
+    }
+  });
+
+  // Disputes by status, open ones oldest first (admin only)
+  router.get("/api/admin/disputes", requireAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "open";
+      if (status !== "open" && status !== "resolved") {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const queue = await getDisputeQueue(status);
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching disputes:", error);
+      res.status(500).json({ message: "Failed to fetch disputes" });
+    }
+  });
+
+  // A dispute with its evidence and how much can still be refunded (admin only)
+  router.get("/api/admin/disputes/:disputeId", requireAdmin, async (req, res) => {
+    try {
+      const dispute = await getDisputeDetails(req.params.disputeId);
+      if (!dispute) {
+        return res.status(404).json({ message: "Dispute not found" });
+      }
+      res.json({ ...dispute, refundableCents: await getRefundableCents(dispute.serviceRequestId) });
+    } catch (error) {
+      console.error("Error fetching dispute:", error);
+      res.status(500).json({ message: "Failed to fetch dispute" });
+    }
+  });
+
+  // Resolve a dispute with a full refund, partial refund or release to the operator (admin only)
+  router.post("/api/admin/disputes/:disputeId/resolve", requireAdmin, async (req, res) => {
+    try {
+      const { resolution } = req.body;
+      const resolutionNote = typeof req.body.resolutionNote === "string" ? req.body.resolutionNote.trim() : "";
+      if (!(DISPUTE_RESOLUTIONS as readonly string[]).includes(resolution)) {
+        return res.status(400).json({ message: `resolution must be one of ${DISPUTE_RESOLUTIONS.join(", ")}` });
+      }
+
+      let refundAmount: number | undefined;
+      if (resolution === "partial_refund") {
+        refundAmount = Number(req.body.refundAmount);
+        if (!Number.isFinite(refundAmount) || refundAmount <= 0) {
+          return res.status(400).json({ message: "A positive refundAmount is required for a partial refund" });
+        }
+      }
+
+      const resolved = await resolveDispute({
+        disputeId: req.params.disputeId,
+        resolution: resolution as DisputeResolution,
+        refundAmount,
+        resolutionNote: resolutionNote || null,
+        resolvedBy: res.locals.admin,
+      });
+      if (resolved.status === "not_found") {
+        return res.status(404).json({ message: "Dispute not found or already resolved" });
+      }
+      if (resolved.status === "refund_failed") {
+        return res.status(502).json({
+          message: "The refund did not go through, so the dispute is still open. Try resolving it again.",
+          dispute: resolved.dispute,
+        });
+      }
+      res.json(resolved.dispute);
+    } catch (error) {
+      console.error("Error resolving dispute:", error);
+      res.status(500).json({ message: "Failed to resolve dispute" });
+    }
+  });
+
+  // ===== SERVICE ZONE ADMIN ROUTES =====
+
+  const zoneImportUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+  });
+
+  // Every zone, including deactivated ones (admin only)
+  router.get("/api/admin/zones", requireAdmin, async (req, res) => {
+    try {
+      res.json(await getZones(undefined, true));
+    } catch (error) {
+      console.error("Error fetching zones:", error);
+      res.status(500).json({ message: "Failed to fetch zones" });
+    }
+  });
+
+  // Save a zone drawn on the map (admin only)
+  router.post("/api/admin/zones", requireAdmin, async (req, res) => {
+    try {
+      const result = createZoneSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid zone", errors: result.error.issues });
+      }
+      const invalidGeometry = validateZoneGeometry(result.data.geometry);
+      if (invalidGeometry) {
+        return res.status(400).json({ message: invalidGeometry });
+      }
+
+      const zone = await createZone(result.data as NewZone, "drawn", res.locals.admin.userId);
+      res.status(201).json(zone);
+    } catch (error) {
+      console.error("Error creating zone:", error);
+      res.status(500).json({ message: "Failed to create zone" });
+    }
+  });
+
+  // Import zones from a GeoJSON file upload ("file") or JSON body (admin only)
+  router.post("/api/admin/zones/import", requireAdmin, zoneImportUpload.single("file"), async (req, res) => {
+    try {
+      let geojson: unknown = req.body;
+      if (req.file) {
+        try {
+          geojson = JSON.parse(req.file.buffer.toString("utf8"));
+        } catch {
+          return res.status(400).json({ message: "The file is not valid JSON" });
+        }
+      }
+
+      const result = await importZones(geojson, res.locals.admin.userId);
+      if (!result) {
+        return res.status(400).json({ message: `Upload a GeoJSON FeatureCollection, Feature or Polygon with at most ${ZONE_SETTINGS.maxImportFeatures} features` });
+      }
+      if (result.created.length === 0) {
+        return res.status(400).json({ message: "No zones could be imported", ...result });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error importing zones:", error);
+      res.status(500).json({ message: "Failed to import zones" });
+    }
+  });
+
+  // Rename, redraw, change tiers or (de)activate a zone (admin only)
+  router.patch("/api/admin/zones/:zoneId", requireAdmin, async (req, res) => {
+    try {
+      const result = updateZoneSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid zone", errors: result.error.issues });
+      }
+      if (result.data.geometry !== undefined) {
+        const invalidGeometry = validateZoneGeometry(result.data.geometry);
+        if (invalidGeometry) {
+          return res.status(400).json({ message: invalidGeometry });
+        }
+      }
+
+      const zone = await getZone(req.params.zoneId);
+      if (!zone) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+      res.json(await updateZone(zone, result.data as ZoneUpdate));
+    } catch (error) {
+      console.error("Error updating zone:", error);
+      res.status(500).json({ message: "Failed to update zone" });
+    }
+  });
+
+  router.delete("/api/admin/zones/:zoneId", requireAdmin, async (req, res) => {
+    try {
+      if (!(await deleteZone(req.params.zoneId))) {
+        return res.status(404).json({ message: "Zone not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting zone:", error);
+      res.status(500).json({ message: "Failed to delete zone" });
+    }
+  });
+
   // AI-Powered Support Chat endpoint
   router.post("/api/support/chat", async (req, res) => {
     try {
@@ -5439,6 +6733,11 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
         }
       }
       
+      // Push the message to both participants' realtime streams
+      notificationService.pushJobMessage(newMessage).catch(err => {
+        console.error("Failed to push job message:", err);
+      });
+      
       res.status(201).json(newMessage);
     } catch (error) {
       console.error("Error sending message:", error);
@@ -5550,6 +6849,11 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
         }).returning();
       }
       
+      // Push the new position to customers tracking this operator
+      notificationService.pushOperatorLocation(location).catch(err => {
+        console.error("Failed to push operator location:", err);
+      });
+      
       res.json(location);
     } catch (error) {
       console.error("Error updating operator location:", error);
@@ -5805,20 +7109,15 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
         return res.status(401).json({ message: "Authentication required" });
       }
       
-      // Get or create wallet for user
-      let [wallet] = await db.select().from(wallets).where(eq(wallets.userId, userId)).limit(1);
-      
-      if (!wallet) {
-        [wallet] = await db.insert(wallets).values({
-          userId,
-          balance: "0.00",
-          pendingBalance: "0.00",
-          totalEarnings: "0.00",
-          referralCredits: "0.00",
-          currency: "CAD"
-        }).returning();
+      // Wallets are keyed by users.id, the session carries users.userId
+      const walletUserId = await resolveWalletUserId(userId);
+      if (!walletUserId) {
+        return res.status(404).json({ message: "User not found" });
       }
       
+      // Get or create wallet for user
+      const wallet = await getOrCreateWallet(walletUserId);
+      
       res.json(wallet);
     } catch (error) {
       console.error("Error fetching wallet:", error);
@@ -5839,8 +7138,13 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
       const type = req.query.type as string | undefined;
       const tier = req.query.tier as string | undefined;
       
+      const walletUserId = await resolveWalletUserId(userId);
+      if (!walletUserId) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
       let query = db.select().from(walletTransactions)
-        .where(eq(walletTransactions.userId, userId))
+        .where(eq(walletTransactions.userId, walletUserId))
         .orderBy(desc(walletTransactions.createdAt))
         .limit(limit)
         .offset(offset);
@@ -5877,36 +7181,30 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
       }
       
       // Get wallet
-      const [wallet] = await db.select().from(wallets).where(eq(wallets.userId, userId)).limit(1);
+      const walletUserId = await resolveWalletUserId(userId);
+      const [wallet] = walletUserId
+        ? await db.select().from(wallets).where(eq(wallets.userId, walletUserId)).limit(1)
+        : [];
       if (!wallet) {
         return res.status(404).json({ message: "Wallet not found" });
       }
       
-      const currentBalance = parseFloat(wallet.balance);
       const withdrawalAmount = parseFloat(amount);
       
-      if (withdrawalAmount > currentBalance) {
+      if (withdrawalAmount > parseFloat(wallet.balance)) {
         return res.status(400).json({ message: "Insufficient balance" });
       }
       
-      // Create pending withdrawal transaction
-      const [transaction] = await db.insert(walletTransactions).values({
-        walletId: wallet.id,
-        userId,
-        type: "withdrawal",
-        amount: (-withdrawalAmount).toFixed(2),
-        description: "Withdrawal to Bank Account",
-        status: "pending"
-      }).returning();
+      const limitError = await checkWithdrawalLimits(wallet.id, withdrawalAmount);
+      if (limitError) {
+        return res.status(400).json({ message: limitError });
+      }
       
-      // Update wallet balance and pending balance
-      await db.update(wallets)
-        .set({
-          balance: (currentBalance - withdrawalAmount).toFixed(2),
-          pendingBalance: (parseFloat(wallet.pendingBalance) + withdrawalAmount).toFixed(2),
-          updatedAt: new Date()
-        })
-        .where(eq(wallets.id, wallet.id));
+      // Create pending withdrawal transaction and move the amount to pending balance
+      const transaction = await requestWithdrawal(wallet, withdrawalAmount);
+      if (!transaction) {
+        return res.status(400).json({ message: "Insufficient balance" });
+      }
       
       res.json({ 
         message: "Withdrawal request submitted",
@@ -5918,6 +7216,52 @@ Be friendly, concise, and helpful. If you cannot help with something or the user
     }
   });
 
+  // Minimum withdrawal and daily limit, for the withdraw dialog
+  router.get("/api/wallet/withdrawal-limits", async (req, res) => {
+    res.json(getWithdrawalLimits());
+  });
+
+  // Recent payout batches (admin only)
+  router.get("/api/admin/payouts/batches", requireAdmin, async (req, res) => {
+    try {
+      const batches = await getPayoutBatches(parseInt(req.query.limit as string) || 20);
+      res.json(batches);
+    } catch (error) {
+      console.error("Error fetching payout batches:", error);
+      res.status(500).json({ message: "Failed to fetch payout batches" });
+    }
+  });
+
+  // Pay out all pending withdrawals now instead of waiting for the weekly run (admin only)
+  router.post("/api/admin/payouts/run", requireAdmin, async (req, res) => {
+    try {
+      const adminUserId = req.sessionData?.userId || req.session?.userId || "admin";
+      const batch = await runPayoutBatch(adminUserId);
+      if (!batch) {
+        return res.json({ message: "No pending withdrawals", batch: null });
+      }
+      res.json({ message: "Payout batch processed", batch });
+    } catch (error) {
+      console.error("Error running payout batch:", error);
+      res.status(500).json({ message: "Failed to run payout batch" });
+    }
+  });
+
+  // Wallets whose stored balances disagree with the ledger, plus any unbalanced journals (admin only)
+  router.get("/api/admin/ledger/reconciliation", requireAdmin, async (req, res) => {
+    try {
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      if (userId !== undefined && isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid userId" });
+      }
+      const report = await reconcileWallets(userId);
+      res.json(report);
+    } catch (error) {
+      console.error("Error reconciling wallets:", error);
+      res.status(500).json({ message: "Failed to reconcile wallets" });
+    }
+  });
+
   // ==================== PAYMENT CARDS API ROUTES ====================
   
   // Get user's payment cards (with masked numbers)
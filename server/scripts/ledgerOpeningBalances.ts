@@ -0,0 +1,21 @@
+/**
+ * Ledger Opening Balances - Posts opening_balance journals for wallet balances that predate the ledger
+ * Run once with `npm run ledger:opening-balances` right after the ledger is deployed, so reconciliation
+ * starts from zero drift. Wallets that already have an opening journal are skipped.
+ */
+
+import { postOpeningBalances } from "../services/ledgerService";
+
+async function main() {
+  const posted = await postOpeningBalances();
+  for (const { userId, balanceCents, pendingCents } of posted) {
+    console.log(`  wallet ${userId}: available ${(balanceCents / 100).toFixed(2)}, pending ${(pendingCents / 100).toFixed(2)}`);
+  }
+  console.log(`Posted opening balances for ${posted.length} wallets`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error("Posting opening balances failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+/**
+ * Blob Store - Storage-agnostic file persistence for uploads
+ * Uploaded files (operator documents, dispute evidence) are written under a key and read back by the server,
+ * never served directly. The active store is chosen by BLOB_STORE; "local" (the default)
+ * keeps files on disk under BLOB_STORAGE_DIR.
+ */
+
+import { LocalBlobStore } from "./localBlobStore";
+
+export interface BlobStore {
+  readonly name: string;
+  /** Write the data under the key, replacing anything already there */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  /** Read the data stored under the key, or null if there is none */
+  get(key: string): Promise<Buffer | null>;
+  /** Remove the key; removing a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
+
+let activeStore: BlobStore | null = null;
+
+function createStore(): BlobStore {
+  const configured = process.env.BLOB_STORE || "local";
+  if (configured !== "local") {
+    throw new Error(`Unknown BLOB_STORE "${configured}"`);
+  }
+  return new LocalBlobStore(process.env.BLOB_STORAGE_DIR || "uploads");
+}
+
+export function getBlobStore(): BlobStore {
+  if (!activeStore) {
+    activeStore = createStore();
+    console.log(`[Blobs] Using ${activeStore.name} blob store`);
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the active store, e.g. with one rooted in a temporary directory in tests
+ */
+export function setBlobStore(store: BlobStore): void {
+  activeStore = store;
+}
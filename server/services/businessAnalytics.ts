@@ -0,0 +1,324 @@
+/**
+ * Business Analytics Service - Team and fleet performance for professional-tier businesses
+ * Revenue and job counts come from operator_daily_earnings, time on jobs from accepted_jobs,
+ * response times from dispatch_queue and ratings from the ratings table
+ */
+
+import { db } from "../db";
+import { acceptedJobs, operatorDailyEarnings, dispatchQueue, ratings } from "@shared/schema";
+import type { Operator, Vehicle, AcceptedJob } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { and, gte, lt, lte, inArray, isNotNull } from "drizzle-orm";
+
+export type AnalyticsRange = "today" | "week" | "month" | "custom";
+
+export interface AnalyticsWindow {
+  range: AnalyticsRange;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  days: number;
+}
+
+export interface PerformanceMetrics {
+  revenue: number;
+  jobsCompleted: number;
+  averageRating: number | null;
+  ratingCount: number;
+  avgResponseSeconds: number | null;
+  activeHours: number;
+  utilization: number; // Percent of available hours spent on jobs, 0-100
+}
+
+export interface DriverAnalytics extends PerformanceMetrics {
+  operatorId: string;
+  name: string;
+  isOnline: boolean;
+  services: string[];
+  completionRate: number | null; // Percent of accepted jobs completed rather than dropped by the driver
+  rank: number;
+}
+
+export interface VehicleAnalytics extends PerformanceMetrics {
+  vehicleId: string;
+  name: string;
+  vehicleType: string;
+  operatorId: string;
+  isActive: boolean;
+}
+
+// Hours a driver or vehicle is expected to be available per day when computing utilization
+export const AVAILABLE_HOURS_PER_DAY = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Resolve a named range (or custom from/to) to inclusive UTC dates
+ * Dates match the UTC YYYY-MM-DD keys written to operator_daily_earnings
+ */
+export function resolveAnalyticsWindow(range: string = "week", from?: string, to?: string, now: Date = new Date()): AnalyticsWindow | null {
+  const today = toDateString(now);
+
+  if (range === "custom") {
+    const fromDate = new Date(`${from}T00:00:00Z`);
+    const toDate = new Date(`${to}T00:00:00Z`);
+    if (!from || !to || isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || toDate < fromDate) {
+      return null;
+    }
+    return { range, from, to, days: Math.round((toDate.getTime() - fromDate.getTime()) / DAY_MS) + 1 };
+  }
+
+  const days = range === "today" ? 1 : range === "month" ? 30 : range === "week" ? 7 : 0;
+  if (days === 0) return null;
+
+  return {
+    range: range as AnalyticsRange,
+    from: toDateString(new Date(new Date(`${today}T00:00:00Z`).getTime() - (days - 1) * DAY_MS)),
+    to: today,
+    days,
+  };
+}
+
+function windowBounds(window: AnalyticsWindow) {
+  return {
+    start: new Date(`${window.from}T00:00:00Z`),
+    end: new Date(new Date(`${window.to}T00:00:00Z`).getTime() + DAY_MS), // Exclusive
+  };
+}
+
+function jobHours(job: AcceptedJob): number {
+  if (!job.startedAt || !job.completedAt) return 0;
+  return Math.max(0, (job.completedAt.getTime() - job.startedAt.getTime()) / (60 * 60 * 1000));
+}
+
+function jobServiceType(job: AcceptedJob): string | undefined {
+  return (job.jobData as { serviceType?: string } | null)?.serviceType;
+}
+
+/**
+ * Jobs do not record which vehicle was used, so attribute each one to the driver's vehicle
+ * that offers the job's service (preferring the active vehicle), then to the active vehicle
+ */
+export function attributeJobToVehicle(job: AcceptedJob, operatorVehicles: Vehicle[]): Vehicle | null {
+  if (operatorVehicles.length === 0) return null;
+
+  const serviceType = jobServiceType(job);
+  const byPreference = [...operatorVehicles].sort((a, b) => b.isActive - a.isActive);
+  const offeringService = serviceType
+    ? byPreference.find(v => Array.isArray(v.services) && (v.services as string[]).includes(serviceType))
+    : undefined;
+
+  return offeringService || byPreference.find(v => v.isActive === 1) || (operatorVehicles.length === 1 ? operatorVehicles[0] : null);
+}
+
+interface AnalyticsData {
+  drivers: Operator[];
+  vehicles: Vehicle[];
+  dailyEarnings: Array<typeof operatorDailyEarnings.$inferSelect>;
+  completedJobs: AcceptedJob[];
+  acceptedInWindow: AcceptedJob[];
+  responses: Array<typeof dispatchQueue.$inferSelect>;
+  ratingRows: Array<typeof ratings.$inferSelect>;
+}
+
+async function loadAnalyticsData(storage: IStorage, businessId: string, window: AnalyticsWindow): Promise<AnalyticsData> {
+  const drivers = await storage.getBusinessDrivers(businessId);
+  const operatorIds = drivers.map(d => d.operatorId);
+  const vehicles = (await Promise.all(operatorIds.map(id => storage.getOperatorVehicles(id)))).flat();
+
+  if (operatorIds.length === 0) {
+    return { drivers, vehicles, dailyEarnings: [], completedJobs: [], acceptedInWindow: [], responses: [], ratingRows: [] };
+  }
+
+  const { start, end } = windowBounds(window);
+
+  const [dailyEarnings, completedJobs, acceptedInWindow, responses, ratingRows] = await Promise.all([
+    db.select().from(operatorDailyEarnings).where(and(
+      inArray(operatorDailyEarnings.operatorId, operatorIds),
+      gte(operatorDailyEarnings.date, window.from),
+      lte(operatorDailyEarnings.date, window.to)
+    )),
+    db.select().from(acceptedJobs).where(and(
+      inArray(acceptedJobs.operatorId, operatorIds),
+      isNotNull(acceptedJobs.completedAt),
+      gte(acceptedJobs.completedAt, start),
+      lt(acceptedJobs.completedAt, end)
+    )),
+    db.select().from(acceptedJobs).where(and(
+      inArray(acceptedJobs.operatorId, operatorIds),
+      gte(acceptedJobs.acceptedAt, start),
+      lt(acceptedJobs.acceptedAt, end)
+    )),
+    db.select().from(dispatchQueue).where(and(
+      inArray(dispatchQueue.operatorId, operatorIds),
+      isNotNull(dispatchQueue.responseTimeSeconds),
+      gte(dispatchQueue.respondedAt, start),
+      lt(dispatchQueue.respondedAt, end)
+    )),
+    db.select().from(ratings).where(and(
+      inArray(ratings.operatorId, operatorIds),
+      gte(ratings.createdAt, start),
+      lt(ratings.createdAt, end)
+    )),
+  ]);
+
+  return { drivers, vehicles, dailyEarnings, completedJobs, acceptedInWindow, responses, ratingRows };
+}
+
+function summarizeMetrics(params: {
+  revenue: number;
+  jobsCompleted: number;
+  ratingValues: number[];
+  responseSeconds: number[];
+  activeHours: number;
+  availableHours: number;
+}): PerformanceMetrics {
+  const { revenue, jobsCompleted, ratingValues, responseSeconds, activeHours, availableHours } = params;
+  return {
+    revenue: round(revenue),
+    jobsCompleted,
+    averageRating: ratingValues.length > 0 ? round(ratingValues.reduce((a, b) => a + b, 0) / ratingValues.length) : null,
+    ratingCount: ratingValues.length,
+    avgResponseSeconds: responseSeconds.length > 0 ? Math.round(responseSeconds.reduce((a, b) => a + b, 0) / responseSeconds.length) : null,
+    activeHours: round(activeHours),
+    utilization: availableHours > 0 ? round(Math.min(100, (activeHours / availableHours) * 100), 1) : 0,
+  };
+}
+
+function buildDriverAnalytics(data: AnalyticsData, window: AnalyticsWindow): DriverAnalytics[] {
+  const availableHours = window.days * AVAILABLE_HOURS_PER_DAY;
+
+  const driverStats = data.drivers.map(driver => {
+    const earnings = data.dailyEarnings.filter(e => e.operatorId === driver.operatorId);
+    const completed = data.completedJobs.filter(j => j.operatorId === driver.operatorId);
+    const accepted = data.acceptedInWindow.filter(j => j.operatorId === driver.operatorId);
+    const dropped = accepted.filter(j => j.status === "cancelled" && j.cancelledByOperator === 1).length;
+    const finished = accepted.filter(j => j.status === "completed").length;
+
+    return {
+      operatorId: driver.operatorId,
+      name: driver.driverName || driver.name,
+      isOnline: driver.isOnline === 1,
+      services: Array.isArray(driver.services) ? driver.services as string[] : [],
+      completionRate: finished + dropped > 0 ? round((finished / (finished + dropped)) * 100, 1) : null,
+      rank: 0,
+      ...summarizeMetrics({
+        revenue: earnings.reduce((sum, e) => sum + parseFloat(e.earnings), 0),
+        jobsCompleted: earnings.reduce((sum, e) => sum + e.jobsCompleted, 0),
+        ratingValues: data.ratingRows.filter(r => r.operatorId === driver.operatorId).map(r => r.rating),
+        responseSeconds: data.responses.filter(r => r.operatorId === driver.operatorId).map(r => r.responseTimeSeconds!),
+        activeHours: completed.reduce((sum, j) => sum + jobHours(j), 0),
+        availableHours,
+      }),
+    };
+  });
+
+  // Rank by revenue, then jobs completed
+  return driverStats
+    .sort((a, b) => b.revenue - a.revenue || b.jobsCompleted - a.jobsCompleted)
+    .map((driver, index) => ({ ...driver, rank: index + 1 }));
+}
+
+function buildVehicleAnalytics(data: AnalyticsData, window: AnalyticsWindow): VehicleAnalytics[] {
+  const availableHours = window.days * AVAILABLE_HOURS_PER_DAY;
+  const jobsByVehicle = new Map<string, AcceptedJob[]>();
+
+  for (const job of data.completedJobs) {
+    const vehicle = attributeJobToVehicle(job, data.vehicles.filter(v => v.operatorId === job.operatorId));
+    if (!vehicle) continue;
+    if (!jobsByVehicle.has(vehicle.vehicleId)) {
+      jobsByVehicle.set(vehicle.vehicleId, []);
+    }
+    jobsByVehicle.get(vehicle.vehicleId)!.push(job);
+  }
+
+  return data.vehicles.map(vehicle => {
+    const jobs = jobsByVehicle.get(vehicle.vehicleId) || [];
+    const jobIds = new Set(jobs.flatMap(j => [j.acceptedJobId, j.jobSourceId]));
+
+    return {
+      vehicleId: vehicle.vehicleId,
+      name: vehicle.name,
+      vehicleType: vehicle.vehicleType,
+      operatorId: vehicle.operatorId,
+      isActive: vehicle.isActive === 1,
+      ...summarizeMetrics({
+        revenue: jobs.reduce((sum, j) => sum + parseFloat(j.actualEarnings || "0"), 0),
+        jobsCompleted: jobs.length,
+        ratingValues: data.ratingRows.filter(r => r.jobId && jobIds.has(r.jobId)).map(r => r.rating),
+        responseSeconds: [],
+        activeHours: jobs.reduce((sum, j) => sum + jobHours(j), 0),
+        availableHours,
+      }),
+    };
+  }).sort((a, b) => b.revenue - a.revenue);
+}
+
+function buildDailySeries(data: AnalyticsData, window: AnalyticsWindow) {
+  const series: Array<{ date: string; revenue: number; jobsCompleted: number }> = [];
+  const start = new Date(`${window.from}T00:00:00Z`).getTime();
+
+  for (let i = 0; i < window.days; i++) {
+    const date = toDateString(new Date(start + i * DAY_MS));
+    const rows = data.dailyEarnings.filter(e => e.date === date);
+    series.push({
+      date,
+      revenue: round(rows.reduce((sum, e) => sum + parseFloat(e.earnings), 0)),
+      jobsCompleted: rows.reduce((sum, e) => sum + e.jobsCompleted, 0),
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Business-wide totals with a daily revenue series
+ */
+export async function getBusinessAnalytics(storage: IStorage, businessId: string, window: AnalyticsWindow) {
+  const data = await loadAnalyticsData(storage, businessId, window);
+  const drivers = buildDriverAnalytics(data, window);
+
+  const totals = summarizeMetrics({
+    revenue: drivers.reduce((sum, d) => sum + d.revenue, 0),
+    jobsCompleted: drivers.reduce((sum, d) => sum + d.jobsCompleted, 0),
+    ratingValues: data.ratingRows.map(r => r.rating),
+    responseSeconds: data.responses.map(r => r.responseTimeSeconds!),
+    activeHours: drivers.reduce((sum, d) => sum + d.activeHours, 0),
+    availableHours: Math.max(1, data.drivers.length) * window.days * AVAILABLE_HOURS_PER_DAY,
+  });
+
+  return {
+    businessId,
+    window,
+    totals,
+    driverCount: data.drivers.length,
+    driversOnline: data.drivers.filter(d => d.isOnline === 1).length,
+    vehicleCount: data.vehicles.length,
+    activeVehicles: data.vehicles.filter(v => v.isActive === 1).length,
+    daily: buildDailySeries(data, window),
+  };
+}
+
+/**
+ * Per-driver metrics, ranked by revenue
+ */
+export async function getDriverAnalytics(storage: IStorage, businessId: string, window: AnalyticsWindow) {
+  const data = await loadAnalyticsData(storage, businessId, window);
+  return { businessId, window, drivers: buildDriverAnalytics(data, window) };
+}
+
+/**
+ * Per-vehicle metrics for every vehicle owned by the business's drivers
+ */
+export async function getVehicleAnalytics(storage: IStorage, businessId: string, window: AnalyticsWindow) {
+  const data = await loadAnalyticsData(storage, businessId, window);
+  return { businessId, window, vehicles: buildVehicleAnalytics(data, window) };
+}
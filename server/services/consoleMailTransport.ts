@@ -0,0 +1,13 @@
+/**
+ * Console Mail Transport - Logs outgoing mail instead of sending it, for development
+ */
+
+import type { MailMessage, MailTransport } from "./mailTransport";
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Customer Grouping Service - Batches nearby open requests for the same service into customer groups
+ * The grouping job clusters pending broadcast service requests by service type and proximity and
+ * offers each cluster to operators until the group expires. Several operators can work the same
+ * group: each one accepts the whole group or selected customers from it, every accepted customer
+ * becomes its own accepted job, and job_assignments records each operator's choice per customer.
+ */
+
+import { db } from "../db";
+import { customerGroups, jobAssignments, serviceRequests, acceptedJobs, OPERATOR_TIER_INFO } from "@shared/schema";
+import type { CustomerGroupRecord, Operator, OperatorTier, ServiceRequest } from "@shared/schema";
+import { canAccessFeature } from "@shared/tierCapabilities";
+import { and, eq, inArray, isNotNull, isNull, lte } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+import { authorizeJobPayment, getAuthorizationAmount } from "./paymentService";
+import { notificationService } from "../notificationService";
+
+export const GROUPING_SETTINGS = {
+  clusterRadiusKm: 2, // Members are within this distance of the group's first request
+  minGroupSize: 2,
+  maxGroupSize: 10,
+  groupLifetimeMs: 60 * 60 * 1000, // Groups are offered for an hour, then regrouped
+};
+
+const KM_TO_MILES = 0.621371;
+
+/**
+ * A request as the clustering step sees it
+ */
+export interface GroupableRequest {
+  requestId: string;
+  serviceType: string;
+  latitude: number;
+  longitude: number;
+  requestedAt: Date;
+}
+
+/**
+ * A group as offered to one operator - matches CustomerGroup in CustomerGrouping.tsx
+ */
+export interface CustomerGroupOffer {
+  id: string;
+  serviceType: string;
+  location: string;
+  customerCount: number;
+  totalValue: string;
+  customers: Array<{ requestId: string; name: string; address: string; service: string }>;
+  distance: number; // miles
+  expiresIn: number; // minutes
+}
+
+export interface CustomerGroupAcceptance {
+  accepted: Array<{ requestId: string; acceptedJobId: string }>;
+  unavailable: string[]; // Taken by another operator or withdrawn since the group was offered
+}
+
+/**
+ * Cluster requests by service type and proximity, oldest request first
+ * Each cluster is seeded by the oldest ungrouped request and filled with the closest requests for the
+ * same service within clusterRadiusKm of it. Seeds that cannot reach minGroupSize stay ungrouped.
+ */
+export function clusterRequests(requests: GroupableRequest[], settings = GROUPING_SETTINGS): GroupableRequest[][] {
+  const byService = new Map<string, GroupableRequest[]>();
+  for (const request of requests) {
+    const key = request.serviceType.trim().toLowerCase();
+    byService.set(key, [...(byService.get(key) || []), request]);
+  }
+
+  const clusters: GroupableRequest[][] = [];
+  for (const serviceRequestsForType of Array.from(byService.values())) {
+    let remaining = [...serviceRequestsForType].sort((a, b) => a.requestedAt.getTime() - b.requestedAt.getTime());
+
+    while (remaining.length > 0) {
+      const [seed, ...others] = remaining;
+      const neighbours = others
+        .map(request => ({ request, distanceKm: calculateDistance(seed.latitude, seed.longitude, request.latitude, request.longitude) }))
+        .filter(({ distanceKm }) => distanceKm <= settings.clusterRadiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm)
+        .slice(0, settings.maxGroupSize - 1)
+        .map(({ request }) => request);
+
+      if (neighbours.length + 1 < settings.minGroupSize) {
+        remaining = others;
+        continue;
+      }
+
+      const members = [seed, ...neighbours];
+      clusters.push(members);
+      remaining = others.filter(request => !neighbours.includes(request));
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Expire lapsed groups and group the open requests that are not in a group yet
+ * @returns Number of groups created
+ */
+export async function refreshCustomerGroups(now: Date = new Date(), settings = GROUPING_SETTINGS): Promise<number> {
+  await db.update(customerGroups)
+    .set({ status: "expired" })
+    .where(and(eq(customerGroups.status, "open"), lte(customerGroups.expiresAt, now)));
+
+  const openGroups = await db.select().from(customerGroups).where(eq(customerGroups.status, "open"));
+  const grouped = new Set(openGroups.flatMap(group => group.requestIds));
+
+  // Only broadcast requests can be grouped - targeted and emergency requests have their own flows
+  const candidates = await db.select().from(serviceRequests)
+    .where(and(
+      eq(serviceRequests.status, "pending"),
+      isNull(serviceRequests.operatorId),
+      eq(serviceRequests.isEmergency, 0),
+      isNotNull(serviceRequests.latitude),
+      isNotNull(serviceRequests.longitude)
+    ));
+
+  const ungrouped = candidates.filter(request => !grouped.has(request.requestId));
+  const requestsById = new Map(ungrouped.map(request => [request.requestId, request]));
+  const clusters = clusterRequests(ungrouped.map(request => ({
+    requestId: request.requestId,
+    serviceType: request.serviceType,
+    latitude: parseFloat(request.latitude!),
+    longitude: parseFloat(request.longitude!),
+    requestedAt: request.requestedAt,
+  })), settings);
+
+  for (const members of clusters) {
+    const centerLatitude = members.reduce((sum, member) => sum + member.latitude, 0) / members.length;
+    const centerLongitude = members.reduce((sum, member) => sum + member.longitude, 0) / members.length;
+
+    await db.insert(customerGroups).values({
+      groupId: `GRP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      serviceType: requestsById.get(members[0].requestId)!.serviceType,
+      location: requestsById.get(members[0].requestId)!.location,
+      centerLatitude: centerLatitude.toFixed(7),
+      centerLongitude: centerLongitude.toFixed(7),
+      requestIds: members.map(member => member.requestId),
+      status: "open",
+      expiresAt: new Date(now.getTime() + settings.groupLifetimeMs),
+    });
+  }
+
+  return clusters.length;
+}
+
+/**
+ * An open, unexpired group
+ */
+export async function getOpenCustomerGroup(groupId: string, now: Date = new Date()): Promise<CustomerGroupRecord | null> {
+  const group = await db.query.customerGroups.findFirst({
+    where: eq(customerGroups.groupId, groupId),
+  });
+  if (!group || group.status !== "open" || group.expiresAt <= now) return null;
+  return group;
+}
+
+// Group members nobody has taken yet
+async function getOpenMembers(requestIds: string[]): Promise<ServiceRequest[]> {
+  if (requestIds.length === 0) return [];
+  return db.select().from(serviceRequests)
+    .where(and(
+      inArray(serviceRequests.requestId, requestIds),
+      eq(serviceRequests.status, "pending"),
+      isNull(serviceRequests.operatorId)
+    ));
+}
+
+// Requests this operator already accepted or declined, per group
+async function getDecidedRequestIds(operatorId: string, groupIds: string[]): Promise<Set<string>> {
+  if (groupIds.length === 0) return new Set();
+  const decided = await db.select().from(jobAssignments)
+    .where(and(eq(jobAssignments.operatorId, operatorId), inArray(jobAssignments.groupId, groupIds)));
+  return new Set(decided.map(assignment => `${assignment.groupId}:${assignment.serviceRequestId}`));
+}
+
+/**
+ * Open groups within the operator's tier radius, showing only the customers still available to them
+ * Groups are only offered on tiers with the customerGroups feature (Manual).
+ */
+export async function getOperatorCustomerGroups(operator: Operator, now: Date = new Date()): Promise<CustomerGroupOffer[]> {
+  const effectiveTier = operator.viewTier || operator.activeTier;
+  const tierInfo = effectiveTier ? OPERATOR_TIER_INFO[effectiveTier as keyof typeof OPERATOR_TIER_INFO] : null;
+  if (!tierInfo || !canAccessFeature(effectiveTier as OperatorTier, "customerGroups")) return [];
+
+  const groups = await db.select().from(customerGroups)
+    .where(eq(customerGroups.status, "open"));
+  const liveGroups = groups.filter(group => group.expiresAt > now);
+
+  const members = await getOpenMembers(liveGroups.flatMap(group => group.requestIds));
+  const membersById = new Map(members.map(request => [request.requestId, request]));
+  const decided = await getDecidedRequestIds(operator.operatorId, liveGroups.map(group => group.groupId));
+
+  // Distances are measured from home, like the operator's request feed, falling back to their current position
+  const operatorLat = parseFloat(operator.homeLatitude || operator.latitude);
+  const operatorLon = parseFloat(operator.homeLongitude || operator.longitude);
+
+  const offers: CustomerGroupOffer[] = [];
+  for (const group of liveGroups) {
+    const available = group.requestIds
+      .filter(requestId => !decided.has(`${group.groupId}:${requestId}`))
+      .map(requestId => membersById.get(requestId))
+      .filter((request): request is ServiceRequest => !!request);
+    if (available.length < GROUPING_SETTINGS.minGroupSize) continue;
+
+    const distanceKm = calculateDistance(operatorLat, operatorLon, parseFloat(group.centerLatitude), parseFloat(group.centerLongitude));
+    if (tierInfo.radiusKm !== null && distanceKm > tierInfo.radiusKm) continue;
+
+    const totalValue = available.reduce((sum, request) => sum + getAuthorizationAmount(request.estimatedCost, request), 0);
+    offers.push({
+      id: group.groupId,
+      serviceType: group.serviceType,
+      location: group.location,
+      customerCount: available.length,
+      totalValue: `$${Math.round(totalValue)}`,
+      customers: available.map(request => ({
+        requestId: request.requestId,
+        name: request.customerName,
+        address: request.location,
+        service: request.serviceType,
+      })),
+      distance: Math.round(distanceKm * KM_TO_MILES * 10) / 10,
+      expiresIn: Math.max(0, Math.floor((group.expiresAt.getTime() - now.getTime()) / 60000)),
+    });
+  }
+
+  return offers.sort((a, b) => a.distance - b.distance);
+}
+
+// Close a group once every member has been taken
+async function closeGroupIfTaken(group: CustomerGroupRecord): Promise<void> {
+  const remaining = await getOpenMembers(group.requestIds);
+  if (remaining.length > 0) return;
+  await db.update(customerGroups)
+    .set({ status: "closed" })
+    .where(and(eq(customerGroups.groupId, group.groupId), eq(customerGroups.status, "open")));
+}
+
+/**
+ * Accept the whole group, or only the given requests from it, creating one accepted job per customer
+ * Customers the operator leaves out are recorded as declined so the group stops offering them to that
+ * operator, and stay open to other operators.
+ * @param tier - Must be a tier with the customerGroups feature
+ * @param requestIds - Requests to accept; defaults to every customer still open in the group
+ * @returns null if the group is no longer open
+ */
+export async function acceptCustomerGroup(
+  operator: Operator,
+  tier: string,
+  groupId: string,
+  requestIds?: string[],
+  now: Date = new Date()
+): Promise<CustomerGroupAcceptance | null> {
+  if (!canAccessFeature(tier as OperatorTier, "customerGroups")) {
+    throw new Error(`Customer groups are not available on the ${tier} tier`);
+  }
+
+  const group = await getOpenCustomerGroup(groupId, now);
+  if (!group) return null;
+
+  const decided = await getDecidedRequestIds(operator.operatorId, [groupId]);
+  const offered = group.requestIds.filter(requestId => !decided.has(`${groupId}:${requestId}`));
+  const selected = requestIds ? offered.filter(requestId => requestIds.includes(requestId)) : offered;
+
+  const result: CustomerGroupAcceptance = { accepted: [], unavailable: [] };
+  for (const requestId of selected) {
+    // Claim the request so two operators accepting from the same group cannot both take it
+    const [claimed] = await db.update(serviceRequests)
+      .set({
+        status: "assigned",
+        operatorId: operator.operatorId,
+        operatorName: operator.name,
+        assignedOperatorId: operator.operatorId,
+        respondedAt: now,
+        decisionAt: now,
+      })
+      .where(and(
+        eq(serviceRequests.requestId, requestId),
+        eq(serviceRequests.status, "pending"),
+        isNull(serviceRequests.operatorId)
+      ))
+      .returning();
+    if (!claimed) {
+      result.unavailable.push(requestId);
+      continue;
+    }
+
+    const acceptedJobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    await db.insert(acceptedJobs).values({
+      acceptedJobId,
+      operatorId: operator.operatorId,
+      jobSourceId: requestId,
+      jobSourceType: "group",
+      tier,
+      status: "accepted",
+      progress: 0,
+      jobData: claimed,
+    });
+
+    await db.update(serviceRequests)
+      .set({ activeJobId: acceptedJobId })
+      .where(eq(serviceRequests.requestId, requestId));
+
+    await db.insert(jobAssignments).values({
+      assignmentId: `ASN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      groupId,
+      customerId: claimed.customerId,
+      operatorId: operator.operatorId,
+      serviceRequestId: requestId,
+      status: "accepted",
+      acceptedAt: now,
+    });
+
+    // Place a hold on the customer's card, as for a single accepted request
+    await authorizeJobPayment({
+      serviceRequestId: requestId,
+      acceptedJobId,
+      operatorId: operator.operatorId,
+      amount: getAuthorizationAmount(claimed.estimatedCost, claimed),
+    });
+
+    await notificationService.notifyCustomerOfGroupAcceptance(requestId, claimed.customerId, operator.operatorId, operator.name, groupId, acceptedJobId);
+    result.accepted.push({ requestId, acceptedJobId });
+  }
+
+  if (requestIds) {
+    await recordDeclines(operator.operatorId, groupId, offered.filter(requestId => !requestIds.includes(requestId)), now);
+  }
+
+  await closeGroupIfTaken(group);
+  return result;
+}
+
+/**
+ * Decline every customer in the group still offered to the operator; other operators still see them
+ * @returns null if the group is no longer open, otherwise the number of customers declined
+ */
+export async function declineCustomerGroup(operatorId: string, groupId: string, now: Date = new Date()): Promise<number | null> {
+  const group = await getOpenCustomerGroup(groupId, now);
+  if (!group) return null;
+
+  const decided = await getDecidedRequestIds(operatorId, [groupId]);
+  const offered = group.requestIds.filter(requestId => !decided.has(`${groupId}:${requestId}`));
+  return recordDeclines(operatorId, groupId, offered, now);
+}
+
+// Write a declined assignment for each request that is still open
+async function recordDeclines(operatorId: string, groupId: string, requestIds: string[], now: Date): Promise<number> {
+  const open = await getOpenMembers(requestIds);
+  for (const request of open) {
+    await db.insert(jobAssignments).values({
+      assignmentId: `ASN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      groupId,
+      customerId: request.customerId,
+      operatorId,
+      serviceRequestId: request.requestId,
+      status: "declined",
+      declinedAt: now,
+    });
+  }
+  return open.length;
+}
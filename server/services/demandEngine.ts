@@ -0,0 +1,278 @@
+/**
+ * Demand Engine - Demand per service-area city, raised by the weather alerts covering it
+ * Each distinct city in operator_service_areas is a zone of DEMAND_SETTINGS.zoneRadiusKm around its
+ * centre. A zone's demand starts from its open requests against its online operators; an active
+ * winter or storm alert covering the zone raises it to "high", or to "surge" for warnings and
+ * Extreme alerts whose polygon contains the zone. Surge lets operators who opted in apply their
+ * urgencyMultipliers.weatherSurge, and offline operators serving the zone hear about each new alert.
+ */
+
+import { db } from "../db";
+import { zoneDemand, weatherAlerts, operators, operatorServiceAreas, serviceRequests } from "@shared/schema";
+import type { Operator, WeatherAlert, ZoneDemand } from "@shared/schema";
+import { DEMAND_LEVELS, DEMAND_COLORS, isPointInPolygon, toServiceKey, createCirclePolygon } from "@shared/zones";
+import type { AreaDemand, DemandLevel, ServiceZone } from "@shared/zones";
+import { and, eq, gte, isNull, notInArray } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+import { isStormEvent, isWinterEvent } from "./weatherService";
+import type { AlertGeometry } from "./weatherService";
+import { getServiceKey } from "./documentService";
+import { notificationService } from "../notificationService";
+
+export const DEMAND_SETTINGS = {
+  zoneRadiusKm: 25, // Zones cover this distance around a service-area city's centre
+};
+
+// Services each kind of weather drives demand for, as service keys
+const WINTER_SERVICES = ["snow_plowing", "snow_shoveling", "ice_removal", "towing"];
+const STORM_SERVICES = ["towing", "hauling", "debris_removal", "yard_cleanup", "roadside_assistance"];
+
+interface DemandZone {
+  zoneId: string;
+  name: string;
+  countryCode: string;
+  stateCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+function maxLevel(a: DemandLevel, b: DemandLevel): DemandLevel {
+  return DEMAND_LEVELS.indexOf(a) >= DEMAND_LEVELS.indexOf(b) ? a : b;
+}
+
+// Services an alert drives demand for, or none if it is not winter or storm weather
+export function getAlertServiceTypes(event: string): string[] {
+  const services = new Set<string>();
+  if (isWinterEvent(event)) WINTER_SERVICES.forEach(service => services.add(service));
+  if (isStormEvent(event)) STORM_SERVICES.forEach(service => services.add(service));
+  return Array.from(services);
+}
+
+// Whether the alert's warned area contains a point
+function geometryContains(geometry: AlertGeometry, latitude: number, longitude: number): boolean {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(polygon => isPointInPolygon([longitude, latitude], polygon[0]));
+}
+
+/**
+ * How an alert covers a zone
+ * "polygon" when its warned area contains the zone's centre; "region" when it has no polygon but
+ * names the zone's country and state or province; null when it does not cover the zone.
+ */
+export function getAlertCoverage(alert: WeatherAlert, zone: DemandZone): "polygon" | "region" | null {
+  if (alert.geometry) {
+    return geometryContains(alert.geometry as AlertGeometry, zone.latitude, zone.longitude) ? "polygon" : null;
+  }
+  const inRegion = alert.countryCode === zone.countryCode.toUpperCase() && (alert.regionCodes || []).includes(zone.stateCode.toUpperCase());
+  return inRegion ? "region" : null;
+}
+
+/**
+ * Demand level for a zone from its workload and the alerts covering it
+ */
+export function computeDemandLevel(
+  pendingJobs: number,
+  activeOperators: number,
+  coveringAlerts: Array<{ alert: WeatherAlert; coverage: "polygon" | "region" }>
+): DemandLevel {
+  let level: DemandLevel = pendingJobs === 0 ? "low" : pendingJobs <= activeOperators ? "medium" : "high";
+
+  for (const { alert, coverage } of coveringAlerts) {
+    // Region-wide alerts may miss the city, so only a containing polygon justifies surge pricing
+    const isWarning = alert.severity === "Extreme" || alert.event.toLowerCase().includes("warning");
+    level = maxLevel(level, coverage === "polygon" && isWarning ? "surge" : "high");
+  }
+  return level;
+}
+
+// One zone per distinct service-area city with coordinates
+async function getDemandZones(): Promise<DemandZone[]> {
+  const areas = await db.select().from(operatorServiceAreas)
+    .where(eq(operatorServiceAreas.isActive, 1));
+
+  const zones = new Map<string, DemandZone>();
+  for (const area of areas) {
+    if (!area.cityLatitude || !area.cityLongitude) continue;
+    const zoneId = `${area.countryCode}-${area.stateCode}-${toServiceKey(area.cityName)}`.toUpperCase();
+    if (zones.has(zoneId)) continue;
+    zones.set(zoneId, {
+      zoneId,
+      name: area.cityName,
+      countryCode: area.countryCode,
+      stateCode: area.stateCode,
+      latitude: parseFloat(area.cityLatitude),
+      longitude: parseFloat(area.cityLongitude),
+    });
+  }
+  return Array.from(zones.values());
+}
+
+/**
+ * Recompute every zone's demand from live data and alert offline operators about new weather
+ * @returns The number of zones in surge
+ */
+export async function refreshZoneDemand(now: Date = new Date()): Promise<number> {
+  const zones = await getDemandZones();
+
+  // Cities no operator serves any more drop off the map
+  if (zones.length === 0) {
+    await db.delete(zoneDemand);
+    return 0;
+  }
+  await db.delete(zoneDemand)
+    .where(notInArray(zoneDemand.zoneId, zones.map(zone => zone.zoneId)));
+
+  const alerts = await db.select().from(weatherAlerts)
+    .where(and(eq(weatherAlerts.isActive, 1), gte(weatherAlerts.expires, now)));
+  const demandAlerts = alerts.filter(alert => getAlertServiceTypes(alert.event).length > 0);
+
+  const openRequests = await db.select().from(serviceRequests)
+    .where(and(eq(serviceRequests.status, "pending"), isNull(serviceRequests.operatorId)));
+  const allOperators = await db.select().from(operators);
+  const existing = await db.select().from(zoneDemand);
+  const existingById = new Map(existing.map(record => [record.zoneId, record]));
+
+  const within = (zone: DemandZone, latitude: string | null, longitude: string | null) =>
+    !!latitude && !!longitude &&
+    calculateDistance(zone.latitude, zone.longitude, parseFloat(latitude), parseFloat(longitude)) <= DEMAND_SETTINGS.zoneRadiusKm;
+
+  // Each operator hears about an alert once, even when it covers several of their zones
+  const notified = new Set<string>();
+  let surging = 0;
+
+  for (const zone of zones) {
+    const coveringAlerts = demandAlerts
+      .map(alert => ({ alert, coverage: getAlertCoverage(alert, zone) }))
+      .filter((entry): entry is { alert: WeatherAlert; coverage: "polygon" | "region" } => entry.coverage !== null);
+
+    const pendingJobs = openRequests.filter(request => within(zone, request.latitude, request.longitude)).length;
+    const activeOperators = allOperators.filter(op => op.isOnline === 1 && within(zone, op.latitude, op.longitude)).length;
+    const demandLevel = computeDemandLevel(pendingJobs, activeOperators, coveringAlerts);
+    if (demandLevel === "surge") surging++;
+
+    const alertIds = coveringAlerts.map(({ alert }) => alert.alertId);
+    const surgeServiceTypes = Array.from(new Set(coveringAlerts.flatMap(({ alert }) => getAlertServiceTypes(alert.event))));
+
+    const previous = existingById.get(zone.zoneId);
+    const alreadyNotified = (previous?.notifiedAlertIds || []).filter(alertId => alertIds.includes(alertId));
+    const newAlerts = coveringAlerts.filter(({ alert }) => !alreadyNotified.includes(alert.alertId));
+
+    const values = {
+      name: zone.name,
+      countryCode: zone.countryCode,
+      stateCode: zone.stateCode,
+      centerLatitude: String(zone.latitude),
+      centerLongitude: String(zone.longitude),
+      radiusKm: DEMAND_SETTINGS.zoneRadiusKm,
+      demandLevel,
+      pendingJobs,
+      activeOperators,
+      alertIds,
+      surgeServiceTypes,
+      notifiedAlertIds: [...alreadyNotified, ...newAlerts.map(({ alert }) => alert.alertId)],
+      updatedAt: now,
+    };
+    if (previous) {
+      await db.update(zoneDemand).set(values).where(eq(zoneDemand.zoneId, zone.zoneId));
+    } else {
+      await db.insert(zoneDemand).values({ zoneId: zone.zoneId, ...values });
+    }
+
+    for (const { alert } of newAlerts) {
+      await notifyOfflineOperators(zone, alert, allOperators, notified);
+    }
+  }
+
+  return surging;
+}
+
+// Tell offline operators who serve the zone and offer an affected service that demand is coming
+async function notifyOfflineOperators(zone: DemandZone, alert: WeatherAlert, allOperators: Operator[], notified: Set<string>): Promise<void> {
+  const affected = getAlertServiceTypes(alert.event);
+
+  const areas = await db.select().from(operatorServiceAreas)
+    .where(and(
+      eq(operatorServiceAreas.isActive, 1),
+      eq(operatorServiceAreas.countryCode, zone.countryCode),
+      eq(operatorServiceAreas.stateCode, zone.stateCode)
+    ));
+  const servingIds = new Set(areas
+    .filter(area => toServiceKey(area.cityName) === toServiceKey(zone.name))
+    .map(area => area.operatorId));
+
+  for (const operator of allOperators) {
+    if (operator.isOnline === 1 || !servingIds.has(operator.operatorId)) continue;
+    const key = `${operator.operatorId}:${alert.alertId}`;
+    if (notified.has(key)) continue;
+
+    const offered = ((operator.services as unknown[]) || [])
+      .map(getServiceKey)
+      .filter((service): service is string => !!service)
+      .map(toServiceKey);
+    const services = affected.filter(service => offered.includes(service));
+    if (services.length === 0) continue;
+
+    notified.add(key);
+    await notificationService.notifyOperatorOfWeatherDemand(operator.operatorId, zone.name, alert.alertId, alert.event, services, alert.expires);
+  }
+}
+
+function toAreaDemand(record: ZoneDemand, alerts: WeatherAlert[]): AreaDemand {
+  return {
+    zoneId: record.zoneId,
+    zoneName: record.name,
+    demandLevel: record.demandLevel as DemandLevel,
+    surgeServiceTypes: record.surgeServiceTypes,
+    alerts: alerts
+      .filter(alert => record.alertIds.includes(alert.alertId))
+      .map(alert => ({ alertId: alert.alertId, event: alert.event, headline: alert.headline, expires: alert.expires.toISOString() })),
+  };
+}
+
+/**
+ * Demand at a point - the nearest zone covering it, or low demand outside every zone
+ */
+export async function getAreaDemand(latitude: number, longitude: number): Promise<AreaDemand> {
+  const records = await db.select().from(zoneDemand);
+  const nearest = records
+    .map(record => ({
+      record,
+      distanceKm: calculateDistance(latitude, longitude, parseFloat(record.centerLatitude), parseFloat(record.centerLongitude)),
+    }))
+    .filter(({ record, distanceKm }) => distanceKm <= record.radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)[0];
+
+  if (!nearest) {
+    return { zoneId: null, zoneName: null, demandLevel: "low", surgeServiceTypes: [], alerts: [] };
+  }
+
+  const alerts = nearest.record.alertIds.length > 0
+    ? await db.select().from(weatherAlerts).where(eq(weatherAlerts.isActive, 1))
+    : [];
+  return toAreaDemand(nearest.record, alerts);
+}
+
+/**
+ * Every zone with its current demand, shaped for convertZonesToGeoJSON
+ */
+export async function getDemandZoneMap(): Promise<ServiceZone[]> {
+  const records = await db.select().from(zoneDemand);
+  return records.map(record => {
+    const center: [number, number] = [parseFloat(record.centerLongitude), parseFloat(record.centerLatitude)];
+    const level = record.demandLevel as DemandLevel;
+    return {
+      id: record.zoneId,
+      name: record.name,
+      displayName: record.name,
+      description: `${record.pendingJobs} open requests, ${record.activeOperators} operators online`,
+      geometry: createCirclePolygon(center, record.radiusKm),
+      center,
+      allowedTiers: ["manual", "equipped", "professional"],
+      demandLevel: level,
+      activeOperators: record.activeOperators,
+      pendingJobs: record.pendingJobs,
+      color: DEMAND_COLORS[level].fill,
+      borderColor: DEMAND_COLORS[level].border,
+    };
+  });
+}
@@ -0,0 +1,511 @@
+/**
+ * Dispatch Engine - Rolling, one-at-a-time dispatch for emergency broadcasts and SOS requests
+ * Operators are offered a request in priority order (distance, then rating, then response time).
+ * When an operator declines or their window lapses the next one is notified, and when the
+ * whole queue has declined the search radius is widened and a new wave is appended.
+ */
+
+import { db } from "../db";
+import { operators, dispatchQueue, serviceRequests, emergencyRequests } from "@shared/schema";
+import type { DispatchQueue, EmergencyRequest, Operator, ServiceRequest } from "@shared/schema";
+import { and, eq, gt, inArray, isNotNull, isNull, lte, asc, sql } from "drizzle-orm";
+import { findOperatorsWithinRadius } from "./spatialQueryService";
+import type { WithDistance } from "./spatialQueryService";
+import { notificationService } from "../notificationService";
+
+/**
+ * Source of the current time - swap in a fake clock to drive the cascade in tests
+ */
+export interface DispatchClock {
+  now(): Date;
+}
+
+export const systemClock: DispatchClock = {
+  now: () => new Date(),
+};
+
+/**
+ * A dispatch queue belongs either to a broadcast service request or to an SOS emergency
+ */
+export type DispatchTarget =
+  | { type: "service_request"; requestId: string }
+  | { type: "emergency"; emergencyId: string };
+
+/**
+ * Everything the engine reads and writes - swap in an in-memory store to test the cascade
+ * Conditional writes return undefined when the entry had already moved on.
+ */
+export interface DispatchStore {
+  getServiceRequest(requestId: string): Promise<ServiceRequest | undefined>;
+  getEmergencyRequest(emergencyId: string): Promise<EmergencyRequest | undefined>;
+  findOperatorsWithinRadius(latitude: number, longitude: number, radiusKm: number, onlineOnly: boolean): Promise<Array<WithDistance<Operator>>>;
+  getRecentResponseTimes(operatorId: string, limit: number): Promise<number[]>; // Seconds, most recent first
+  getQueue(target: DispatchTarget): Promise<DispatchQueue[]>; // In queue position order
+  insertQueueEntries(entries: NewDispatchQueueEntry[]): Promise<DispatchQueue[]>;
+  markNotified(id: number, notifiedAt: Date, expiresAt: Date): Promise<DispatchQueue | undefined>; // Pending entries only
+  findOpenOffer(target: DispatchTarget, operatorId: string): Promise<DispatchQueue | undefined>;
+  recordResponse(id: number, accepted: boolean, respondedAt: Date, responseTimeSeconds: number): Promise<DispatchQueue | undefined>; // Open entries whose window has not lapsed only
+  closeOpenOffers(target: DispatchTarget, exceptId: number, respondedAt: Date): Promise<void>;
+  expireLapsedOffers(now: Date): Promise<DispatchQueue[]>;
+  cancelEmergency(emergencyId: string, now: Date): Promise<void>; // Searching SOS requests only
+}
+
+export type NewDispatchQueueEntry = typeof dispatchQueue.$inferInsert;
+
+export type DispatchNotifier = Pick<typeof notificationService, "notifyOperatorOfDispatch" | "notifyOperatorOfDispatchExpired" | "createStatusEvent">;
+
+export interface DispatchCandidate {
+  operatorId: string;
+  distanceKm: number;
+  rating: number;
+  avgResponseTime: number; // seconds
+}
+
+export const DISPATCH_SETTINGS = {
+  emergencyResponseWindowMs: 10 * 60 * 1000, // SOS operators get 10 minutes to respond
+  broadcastResponseWindowMs: 15 * 60 * 1000, // Broadcast operators get 15 minutes
+  defaultRadiusKm: 25,
+  radiusGrowthFactor: 2, // Double the radius each time the queue is exhausted
+  maxRadiusKm: 100,
+  maxWaveSize: 10, // Operators queued per radius wave
+  defaultAvgResponseSeconds: 300, // Assumed response time for operators with no history
+};
+
+// Entries that still hold (or are waiting for) a response window
+const OPEN_DISPATCH_STATUSES = ["pending", "notified"];
+
+// Broadcast requests keep cascading until an operator accepts or the customer cancels
+export const DISPATCHABLE_REQUEST_STATUSES = ["pending", "operator_declined"];
+
+/**
+ * Dispatch priority: closest first, then highest rating, then fastest responder
+ */
+function compareDispatchCandidates(a: DispatchCandidate, b: DispatchCandidate): number {
+  if (a.distanceKm !== b.distanceKm) {
+    return a.distanceKm - b.distanceKm;
+  }
+  if (a.rating !== b.rating) {
+    return b.rating - a.rating;
+  }
+  return a.avgResponseTime - b.avgResponseTime;
+}
+
+export function rankDispatchCandidates(candidates: DispatchCandidate[]): DispatchCandidate[] {
+  return [...candidates].sort(compareDispatchCandidates);
+}
+
+/**
+ * Order stored queue entries by their frozen priority snapshots
+ */
+export function rankQueueEntries(entries: DispatchQueue[]): DispatchQueue[] {
+  const toCandidate = (entry: DispatchQueue): DispatchCandidate => ({
+    operatorId: entry.operatorId,
+    distanceKm: parseFloat(entry.distanceKm || "0"),
+    rating: parseFloat(entry.operatorRatingSnapshot || "0"),
+    avgResponseTime: parseFloat(entry.operatorAvgResponseTime || String(DISPATCH_SETTINGS.defaultAvgResponseSeconds)),
+  });
+  return [...entries].sort((a, b) => compareDispatchCandidates(toCandidate(a), toCandidate(b)));
+}
+
+/**
+ * Next search radius after a wave is exhausted, or null once the maximum has been reached
+ */
+export function nextDispatchRadius(currentRadiusKm: number): number | null {
+  if (currentRadiusKm >= DISPATCH_SETTINGS.maxRadiusKm) {
+    return null;
+  }
+  return Math.min(currentRadiusKm * DISPATCH_SETTINGS.radiusGrowthFactor, DISPATCH_SETTINGS.maxRadiusKm);
+}
+
+export function getDispatchTarget(entry: DispatchQueue): DispatchTarget {
+  return entry.serviceRequestId
+    ? { type: "service_request", requestId: entry.serviceRequestId }
+    : { type: "emergency", emergencyId: entry.emergencyId! };
+}
+
+function getTargetId(target: DispatchTarget): string {
+  return target.type === "service_request" ? target.requestId : target.emergencyId;
+}
+
+function queueCondition(target: DispatchTarget) {
+  return target.type === "service_request"
+    ? eq(dispatchQueue.serviceRequestId, target.requestId)
+    : and(eq(dispatchQueue.emergencyId, target.emergencyId), isNull(dispatchQueue.serviceRequestId));
+}
+
+export const dbDispatchStore: DispatchStore = {
+  async getServiceRequest(requestId) {
+    return db.query.serviceRequests.findFirst({ where: eq(serviceRequests.requestId, requestId) });
+  },
+
+  async getEmergencyRequest(emergencyId) {
+    return db.query.emergencyRequests.findFirst({ where: eq(emergencyRequests.emergencyId, emergencyId) });
+  },
+
+  async findOperatorsWithinRadius(latitude, longitude, radiusKm, onlineOnly) {
+    return findOperatorsWithinRadius(latitude, longitude, radiusKm, onlineOnly ? eq(operators.isOnline, 1) : undefined);
+  },
+
+  async getRecentResponseTimes(operatorId, limit) {
+    const previousResponses = await db.select({ responseTimeSeconds: dispatchQueue.responseTimeSeconds })
+      .from(dispatchQueue)
+      .where(and(
+        eq(dispatchQueue.operatorId, operatorId),
+        isNotNull(dispatchQueue.responseTimeSeconds)
+      ))
+      .orderBy(sql`${dispatchQueue.respondedAt} DESC NULLS LAST`)
+      .limit(limit);
+    return previousResponses.map(r => r.responseTimeSeconds || 0);
+  },
+
+  async getQueue(target) {
+    return db.select()
+      .from(dispatchQueue)
+      .where(queueCondition(target))
+      .orderBy(asc(dispatchQueue.queuePosition));
+  },
+
+  async insertQueueEntries(entries) {
+    return db.insert(dispatchQueue).values(entries).returning();
+  },
+
+  async markNotified(id, notifiedAt, expiresAt) {
+    const [notified] = await db.update(dispatchQueue)
+      .set({ status: "notified", notifiedAt, expiresAt })
+      .where(and(eq(dispatchQueue.id, id), eq(dispatchQueue.status, "pending")))
+      .returning();
+    return notified;
+  },
+
+  async findOpenOffer(target, operatorId) {
+    return db.query.dispatchQueue.findFirst({
+      where: and(
+        queueCondition(target),
+        eq(dispatchQueue.operatorId, operatorId),
+        inArray(dispatchQueue.status, OPEN_DISPATCH_STATUSES),
+        isNotNull(dispatchQueue.notifiedAt)
+      ),
+    });
+  },
+
+  async recordResponse(id, accepted, respondedAt, responseTimeSeconds) {
+    const [updated] = await db.update(dispatchQueue)
+      .set({ status: accepted ? "accepted" : "declined", respondedAt, responseTimeSeconds })
+      .where(and(
+        eq(dispatchQueue.id, id),
+        inArray(dispatchQueue.status, OPEN_DISPATCH_STATUSES),
+        gt(dispatchQueue.expiresAt, respondedAt)
+      ))
+      .returning();
+    return updated;
+  },
+
+  async closeOpenOffers(target, exceptId, respondedAt) {
+    await db.update(dispatchQueue)
+      .set({ status: "declined", respondedAt })
+      .where(and(
+        queueCondition(target),
+        sql`${dispatchQueue.id} != ${exceptId}`,
+        inArray(dispatchQueue.status, OPEN_DISPATCH_STATUSES)
+      ));
+  },
+
+  async expireLapsedOffers(now) {
+    return db.update(dispatchQueue)
+      .set({ status: "expired" })
+      .where(and(
+        inArray(dispatchQueue.status, OPEN_DISPATCH_STATUSES),
+        isNotNull(dispatchQueue.expiresAt),
+        lte(dispatchQueue.expiresAt, now)
+      ))
+      .returning();
+  },
+
+  async cancelEmergency(emergencyId, now) {
+    await db.update(emergencyRequests)
+      .set({ status: "cancelled", updatedAt: now })
+      .where(and(
+        eq(emergencyRequests.emergencyId, emergencyId),
+        eq(emergencyRequests.status, "searching")
+      ));
+  },
+};
+
+interface DispatchContext {
+  latitude: number;
+  longitude: number;
+  serviceType: string;
+  requireService: boolean; // Broadcasts only go to operators offering the service
+  onlineOnly: boolean; // SOS only goes to operators who are online
+  responseWindowMs: number;
+  status: string; // The request's status when the context was loaded
+}
+
+export class DispatchEngine {
+  constructor(
+    private clock: DispatchClock = systemClock,
+    private store: DispatchStore = dbDispatchStore,
+    private notifier: DispatchNotifier = notificationService
+  ) {}
+
+  private async loadContext(target: DispatchTarget): Promise<DispatchContext | null> {
+    if (target.type === "service_request") {
+      const request = await this.store.getServiceRequest(target.requestId);
+      // Stop cascading once the request was accepted or cancelled
+      if (!request || !DISPATCHABLE_REQUEST_STATUSES.includes(request.status)) return null;
+      if (!request.latitude || !request.longitude) return null;
+
+      return {
+        latitude: parseFloat(request.latitude),
+        longitude: parseFloat(request.longitude),
+        serviceType: request.serviceType,
+        requireService: true,
+        onlineOnly: false,
+        responseWindowMs: DISPATCH_SETTINGS.broadcastResponseWindowMs,
+        status: request.status,
+      };
+    }
+
+    const emergency = await this.store.getEmergencyRequest(target.emergencyId);
+    // Stop cascading once the SOS was accepted or cancelled
+    if (!emergency || emergency.status !== "searching") return null;
+
+    return {
+      latitude: parseFloat(emergency.latitude),
+      longitude: parseFloat(emergency.longitude),
+      serviceType: emergency.serviceType,
+      requireService: false,
+      onlineOnly: true,
+      responseWindowMs: DISPATCH_SETTINGS.emergencyResponseWindowMs,
+      status: emergency.status,
+    };
+  }
+
+  /**
+   * Average of an operator's last recorded dispatch response times, in seconds
+   */
+  async getAverageResponseTime(operatorId: string): Promise<number> {
+    const responseTimes = await this.store.getRecentResponseTimes(operatorId, 10);
+
+    if (responseTimes.length === 0) {
+      return DISPATCH_SETTINGS.defaultAvgResponseSeconds;
+    }
+    return responseTimes.reduce((sum, seconds) => sum + seconds, 0) / responseTimes.length;
+  }
+
+  private async findCandidates(context: DispatchContext, radiusKm: number, excludeOperatorIds: Set<string>): Promise<DispatchCandidate[]> {
+    const nearbyOperators = await this.store.findOperatorsWithinRadius(context.latitude, context.longitude, radiusKm, context.onlineOnly);
+
+    const candidates: DispatchCandidate[] = [];
+    for (const { item: op, distanceKm } of nearbyOperators) {
+      if (excludeOperatorIds.has(op.operatorId)) continue;
+      if (!op.latitude || !op.longitude) continue;
+
+      if (context.requireService) {
+        const services = Array.isArray(op.services) ? op.services : [];
+        if (!services.includes(context.serviceType)) continue;
+      }
+
+      candidates.push({
+        operatorId: op.operatorId,
+        distanceKm,
+        rating: parseFloat(op.rating?.toString() || "0"),
+        avgResponseTime: await this.getAverageResponseTime(op.operatorId),
+      });
+    }
+
+    return rankDispatchCandidates(candidates).slice(0, DISPATCH_SETTINGS.maxWaveSize);
+  }
+
+  /**
+   * Queue a wave of candidates within radiusKm behind any existing entries
+   * @returns Entries created for this wave
+   */
+  private async enqueueWave(target: DispatchTarget, context: DispatchContext, radiusKm: number): Promise<DispatchQueue[]> {
+    const queue = await this.store.getQueue(target);
+    const alreadyQueued = new Set(queue.map(q => q.operatorId));
+    const candidates = await this.findCandidates(context, radiusKm, alreadyQueued);
+    if (candidates.length === 0) return [];
+
+    const lastPosition = queue.reduce((max, q) => Math.max(max, q.queuePosition), 0);
+    const now = this.clock.now();
+
+    return this.store.insertQueueEntries(candidates.map((candidate, index) => ({
+      queueId: `queue_${now.getTime()}_${Math.random().toString(36).substr(2, 9)}_${lastPosition + index + 1}`,
+      serviceRequestId: target.type === "service_request" ? target.requestId : null,
+      emergencyId: getTargetId(target),
+      operatorId: candidate.operatorId,
+      queuePosition: lastPosition + index + 1,
+      status: "pending",
+      distanceKm: candidate.distanceKm.toFixed(2),
+      operatorRatingSnapshot: candidate.rating.toFixed(2),
+      operatorAvgResponseTime: candidate.avgResponseTime.toFixed(2),
+      radiusKm: radiusKm.toFixed(2),
+    })));
+  }
+
+  /**
+   * Build the dispatch queue for a request and notify the first operator
+   * @returns Every entry queued, in queue order
+   */
+  async startDispatch(target: DispatchTarget, radiusKm: number = DISPATCH_SETTINGS.defaultRadiusKm): Promise<DispatchQueue[]> {
+    const context = await this.loadContext(target);
+    if (!context) {
+      throw new Error(`Cannot dispatch ${getTargetId(target)}: request not found, no longer open, or has no location`);
+    }
+
+    await this.enqueueWave(target, context, radiusKm);
+    await this.notifyNext(target);
+    return this.store.getQueue(target);
+  }
+
+  /**
+   * Notify the next waiting operator unless someone accepted or still holds an open window.
+   * Widens the radius when the queue has run out.
+   * @returns The entry that was notified, if any
+   */
+  async notifyNext(target: DispatchTarget): Promise<DispatchQueue | null> {
+    const now = this.clock.now();
+    const context = await this.loadContext(target);
+    if (!context) return null;
+
+    let queue = await this.store.getQueue(target);
+
+    while (true) {
+      const isHeld = queue.some(q =>
+        q.status === "accepted" ||
+        (OPEN_DISPATCH_STATUSES.includes(q.status) && q.expiresAt && q.expiresAt > now)
+      );
+      if (isHeld) return null;
+
+      const waiting = rankQueueEntries(queue.filter(q => q.status === "pending" && !q.expiresAt));
+      if (waiting.length > 0) {
+        const next = waiting[0];
+        const expiresAt = new Date(now.getTime() + context.responseWindowMs);
+
+        const notified = await this.store.markNotified(next.id, now, expiresAt);
+        if (!notified) return null;
+
+        await this.notifier.notifyOperatorOfDispatch(
+          getTargetId(target),
+          notified.operatorId,
+          context.serviceType,
+          notified.queueId,
+          notified.queuePosition,
+          expiresAt
+        );
+        return notified;
+      }
+
+      // Everyone in range declined or timed out - widen the search
+      const currentRadius = queue.reduce((max, q) => Math.max(max, parseFloat(q.radiusKm || "0")), 0)
+        || DISPATCH_SETTINGS.defaultRadiusKm;
+      let radius = nextDispatchRadius(currentRadius);
+      let wave: DispatchQueue[] = [];
+      while (radius !== null && wave.length === 0) {
+        wave = await this.enqueueWave(target, context, radius);
+        if (wave.length === 0) {
+          radius = nextDispatchRadius(radius);
+        }
+      }
+
+      if (wave.length === 0) {
+        await this.markExhausted(target, context, Math.max(currentRadius, DISPATCH_SETTINGS.maxRadiusKm));
+        return null;
+      }
+
+      console.log(`[Dispatch] Widened ${getTargetId(target)} to ${radius}km, queued ${wave.length} more operators`);
+      queue = await this.store.getQueue(target);
+    }
+  }
+
+  /**
+   * Record an operator's answer to their dispatch offer
+   * Stores responseTimeSeconds, and on decline moves the cascade to the next operator
+   * @returns The updated entry, or null if this operator holds no open offer or its window has lapsed
+   */
+  async respond(target: DispatchTarget, operatorId: string, accepted: boolean): Promise<DispatchQueue | null> {
+    const now = this.clock.now();
+
+    const entry = await this.store.findOpenOffer(target, operatorId);
+    if (!entry) return null;
+
+    // The window lapsed before the expiry job caught it - expire it now rather than take a late answer
+    if (!entry.expiresAt || entry.expiresAt <= now) {
+      await this.expireLapsedDispatches();
+      return null;
+    }
+
+    const responseTimeSeconds = Math.max(0, Math.round((now.getTime() - entry.notifiedAt!.getTime()) / 1000));
+
+    const updated = await this.store.recordResponse(entry.id, accepted, now, responseTimeSeconds);
+    if (!updated) return null;
+
+    if (accepted) {
+      // Close out everyone else still waiting in the queue
+      await this.store.closeOpenOffers(target, entry.id, now);
+    } else {
+      await this.notifyNext(target);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Expire offers whose response window lapsed and move each queue along
+   * @returns Number of entries expired
+   */
+  async expireLapsedDispatches(): Promise<number> {
+    const now = this.clock.now();
+
+    const lapsedEntries = await this.store.expireLapsedOffers(now);
+
+    const advancedTargets = new Set<string>();
+    for (const entry of lapsedEntries) {
+      const target = getDispatchTarget(entry);
+
+      await this.notifier.notifyOperatorOfDispatchExpired(
+        getTargetId(target),
+        entry.operatorId,
+        entry.queueId,
+        entry.status
+      );
+
+      if (advancedTargets.has(getTargetId(target))) continue;
+      advancedTargets.add(getTargetId(target));
+
+      await this.notifyNext(target);
+    }
+
+    return lapsedEntries.length;
+  }
+
+  /**
+   * Nobody accepted even at the maximum radius
+   * SOS requests are closed like a final decline. Broadcast requests keep their status and stay open for quotes.
+   */
+  private async markExhausted(target: DispatchTarget, context: DispatchContext, radiusKm: number): Promise<void> {
+    const now = this.clock.now();
+    let toStatus = context.status;
+
+    if (target.type === "emergency") {
+      await this.store.cancelEmergency(target.emergencyId, now);
+      toStatus = "cancelled";
+    }
+
+    await this.notifier.createStatusEvent({
+      requestId: getTargetId(target),
+      actorRole: "system",
+      actorId: getTargetId(target),
+      actorName: "Fleetly",
+      fromStatus: context.status,
+      toStatus,
+      eventType: "dispatch_exhausted",
+      metadata: { radiusKm },
+    });
+
+    console.log(`[Dispatch] No operator accepted ${getTargetId(target)} within ${radiusKm}km`);
+  }
+}
+
+export const dispatchEngine = new DispatchEngine();
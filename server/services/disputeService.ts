@@ -0,0 +1,459 @@
+/**
+ * Dispute Service - Customers and operators contesting a completed service request
+ * Either side can open one dispute per request within DISPUTE_WINDOW_HOURS of completion. Opening
+ * it moves the request to "disputed" and pauses its earnings release until an admin resolves it
+ * with a full refund, a partial refund or a release to the operator. A refund comes out of the
+ * operator's earnings first and the platform fee after that. Every step writes a
+ * request_status_events row, and evidence files are kept in the blob store.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { disputes, disputeEvidence, serviceRequests, operators } from "@shared/schema";
+import type { Dispute, DisputeCategory, DisputeEvidence, DisputeResolution, DisputeStatus, ServiceRequest, User } from "@shared/schema";
+import { and, asc, desc, eq, lt, or } from "drizzle-orm";
+import { getBlobStore } from "./blobStore";
+import { DOCUMENT_CONTENT_TYPES } from "./documentService";
+import { getOpenJobPayment, refundJobPayment } from "./paymentService";
+import { toCents } from "./paymentProvider";
+import { debitWallet } from "./walletService";
+import { postJournal, debitCredit, LEDGER_ACCOUNTS } from "./ledgerService";
+import { pauseEarningsRelease, releaseDisputedEarnings, findCompletedJob, findEarningsRecipient } from "../jobs/earningsRelease";
+import { notificationService } from "../notificationService";
+
+// Matches the 24 hour dispute window promised on the Help page
+const DEFAULT_DISPUTE_WINDOW_HOURS = 24;
+// A resolution still "resolving" after this long was interrupted and can be retried
+const RESOLVING_STALE_MS = 10 * 60 * 1000;
+
+export type DisputeRole = "customer" | "operator";
+
+export interface DisputeEvidenceFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Hours after completion a request can be disputed, configurable with DISPUTE_WINDOW_HOURS
+ */
+export function getDisputeWindowHours(): number {
+  const configured = process.env.DISPUTE_WINDOW_HOURS;
+  const hours = configured ? Number(configured) : NaN;
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_DISPUTE_WINDOW_HOURS;
+}
+
+// earningsHoldReason set on the request while the dispute is open
+function getHoldReason(disputeId: string): string {
+  return `dispute:${disputeId}`;
+}
+
+/**
+ * Which side of the request the user is on, or null if they are not a party to it
+ * Requests carry either the customer's userId or a customers.customerId
+ */
+export async function getDisputeRole(request: ServiceRequest, user: User): Promise<DisputeRole | null> {
+  const operatorId = request.assignedOperatorId || request.operatorId;
+  if (operatorId && user.operatorId === operatorId) return "operator";
+  if (request.customerId === user.userId) return "customer";
+
+  const customerUserId = await notificationService.getUserIdFromCustomerId(request.customerId);
+  return customerUserId === user.userId ? "customer" : null;
+}
+
+/**
+ * Why the request cannot be disputed, or null if it can
+ */
+export async function checkDisputeEligibility(request: ServiceRequest, now: Date = new Date()): Promise<string | null> {
+  if (request.status === "disputed") return "A dispute is already open for this request";
+  if (request.status !== "completed" || !request.completedAt) return "Only completed requests can be disputed";
+  if (!request.assignedOperatorId && !request.operatorId) return "This request has no operator";
+
+  const windowHours = getDisputeWindowHours();
+  if (now.getTime() - request.completedAt.getTime() > windowHours * 60 * 60 * 1000) {
+    return `Disputes must be opened within ${windowHours} hours of completion`;
+  }
+
+  const [existing] = await db.select().from(disputes)
+    .where(eq(disputes.serviceRequestId, request.requestId))
+    .limit(1);
+  return existing ? "A dispute has already been filed for this request" : null;
+}
+
+async function saveEvidence(disputeId: string, role: DisputeRole | "admin", userId: string, note: string | null, file?: DisputeEvidenceFile): Promise<DisputeEvidence> {
+  let storageKey: string | null = null;
+  if (file) {
+    const extension = DOCUMENT_CONTENT_TYPES[file.contentType] || "bin";
+    storageKey = `disputes/${disputeId}/${Date.now()}-${crypto.randomBytes(4).toString("hex")}.${extension}`;
+    await getBlobStore().put(storageKey, file.data, file.contentType);
+  }
+
+  const [evidence] = await db.insert(disputeEvidence).values({
+    disputeId,
+    submittedByRole: role,
+    submittedByUserId: userId,
+    note,
+    storageKey,
+    fileName: file?.fileName || null,
+    contentType: file?.contentType || null,
+    fileSize: file ? file.data.length : null,
+  }).returning();
+  return evidence;
+}
+
+/**
+ * Open a dispute, move the request to "disputed" and pause its earnings release
+ * @returns The dispute, or null if the request stopped being completed in the meantime
+ */
+export async function openDispute(params: {
+  request: ServiceRequest;
+  role: DisputeRole;
+  user: User;
+  category: DisputeCategory;
+  description: string;
+  files: DisputeEvidenceFile[];
+}): Promise<Dispute | null> {
+  const { request, role, user } = params;
+  const disputeId = `DSP-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const dispute = await db.transaction(async (tx) => {
+    // Claim the request so two parties cannot open disputes at once
+    const [claimed] = await tx.update(serviceRequests)
+      .set({ status: "disputed" })
+      .where(and(
+        eq(serviceRequests.requestId, request.requestId),
+        eq(serviceRequests.status, "completed")
+      ))
+      .returning();
+    if (!claimed) return null;
+
+    const [created] = await tx.insert(disputes).values({
+      disputeId,
+      serviceRequestId: request.requestId,
+      customerId: request.customerId,
+      operatorId: (request.assignedOperatorId || request.operatorId)!,
+      openedByRole: role,
+      openedByUserId: user.userId,
+      category: params.category,
+      description: params.description,
+    }).returning();
+    return created;
+  });
+  if (!dispute) return null;
+
+  // Already-released earnings are clawed back from the operator's wallet if the resolution refunds the customer
+  const earningsHeld = await pauseEarningsRelease(request.requestId, getHoldReason(disputeId));
+
+  for (const file of params.files) {
+    await saveEvidence(disputeId, role, user.userId, null, file);
+  }
+
+  const eventId = await notificationService.createStatusEvent({
+    requestId: request.requestId,
+    actorRole: role,
+    actorId: user.userId,
+    actorName: user.name,
+    fromStatus: "completed",
+    toStatus: "disputed",
+    eventType: "dispute_opened",
+    metadata: { disputeId, category: params.category, earningsHeld },
+  });
+
+  const otherPartyUserId = role === "customer"
+    ? await notificationService.getUserIdFromOperatorId(dispute.operatorId)
+    : await notificationService.getUserIdFromCustomerId(dispute.customerId);
+  if (otherPartyUserId) {
+    await notificationService.notifyDisputeOpened(
+      otherPartyUserId,
+      role === "customer" ? "operator" : "customer",
+      request.requestId,
+      disputeId,
+      request.serviceType,
+      eventId
+    );
+  }
+
+  return dispute;
+}
+
+/**
+ * Add a statement or file to an open dispute
+ * @returns The evidence, or null if the dispute is not open
+ */
+export async function addDisputeEvidence(params: {
+  dispute: Dispute;
+  role: DisputeRole | "admin";
+  user: User;
+  note: string | null;
+  file?: DisputeEvidenceFile;
+}): Promise<DisputeEvidence | null> {
+  if (params.dispute.status !== "open") return null;
+
+  const evidence = await saveEvidence(params.dispute.disputeId, params.role, params.user.userId, params.note, params.file);
+  await notificationService.createStatusEvent({
+    requestId: params.dispute.serviceRequestId,
+    actorRole: params.role,
+    actorId: params.user.userId,
+    actorName: params.user.name,
+    fromStatus: "disputed",
+    toStatus: "disputed",
+    eventType: "dispute_evidence_added",
+    metadata: { disputeId: params.dispute.disputeId, evidenceId: evidence.id, fileName: evidence.fileName },
+  });
+  return evidence;
+}
+
+export async function getDispute(disputeId: string): Promise<Dispute | null> {
+  const [dispute] = await db.select().from(disputes)
+    .where(eq(disputes.disputeId, disputeId))
+    .limit(1);
+  return dispute || null;
+}
+
+/**
+ * The dispute with its evidence, oldest evidence first
+ */
+export async function getDisputeDetails(disputeId: string) {
+  const dispute = await getDispute(disputeId);
+  if (!dispute) return null;
+
+  const evidence = await db.select().from(disputeEvidence)
+    .where(eq(disputeEvidence.disputeId, disputeId))
+    .orderBy(asc(disputeEvidence.createdAt));
+  return {
+    ...dispute,
+    evidence: evidence.map(({ storageKey, ...item }) => ({
+      ...item,
+      fileUrl: storageKey ? `/api/disputes/${disputeId}/evidence/${item.id}/file` : null,
+    })),
+  };
+}
+
+export async function getRequestDispute(requestId: string): Promise<Dispute | null> {
+  const [dispute] = await db.select().from(disputes)
+    .where(eq(disputes.serviceRequestId, requestId))
+    .limit(1);
+  return dispute || null;
+}
+
+/**
+ * An evidence file with its contents
+ */
+export async function getEvidenceFile(disputeId: string, evidenceId: number): Promise<{ evidence: DisputeEvidence; data: Buffer } | null> {
+  const [evidence] = await db.select().from(disputeEvidence)
+    .where(and(eq(disputeEvidence.disputeId, disputeId), eq(disputeEvidence.id, evidenceId)))
+    .limit(1);
+  if (!evidence?.storageKey) return null;
+
+  const data = await getBlobStore().get(evidence.storageKey);
+  return data ? { evidence, data } : null;
+}
+
+/**
+ * Disputes in a status (open ones oldest first, so the longest-waiting case is at the top)
+ */
+export async function getDisputeQueue(status: DisputeStatus = "open") {
+  return db.select({
+    dispute: disputes,
+    serviceType: serviceRequests.serviceType,
+    customerName: serviceRequests.customerName,
+    operatorName: operators.name,
+  })
+    .from(disputes)
+    .leftJoin(serviceRequests, eq(serviceRequests.requestId, disputes.serviceRequestId))
+    .leftJoin(operators, eq(operators.operatorId, disputes.operatorId))
+    .where(eq(disputes.status, status))
+    .orderBy(status === "open" ? asc(disputes.createdAt) : desc(disputes.resolvedAt));
+}
+
+/**
+ * Cents the customer could still get back for the request
+ */
+export async function getRefundableCents(requestId: string): Promise<number> {
+  const payment = await getOpenJobPayment(requestId);
+  if (!payment || payment.status === "authorized") return 0;
+  return payment.capturedCents - payment.refundedCents;
+}
+
+function describeResolution(resolution: DisputeResolution, refundedCents: number): string {
+  switch (resolution) {
+    case "full_refund":
+      return `The dispute was resolved with a full refund of $${(refundedCents / 100).toFixed(2)} to the customer`;
+    case "partial_refund":
+      return `The dispute was resolved with a partial refund of $${(refundedCents / 100).toFixed(2)} to the customer`;
+    case "release_to_operator":
+      return "The dispute was resolved in the operator's favour and the earnings have been released";
+  }
+}
+
+/**
+ * Resolve an open dispute and settle the money
+ * - full_refund: the customer gets back everything not yet refunded and the operator earns nothing
+ * - partial_refund: refundAmount dollars go back to the customer and come off the operator's earnings
+ * - release_to_operator: nothing is refunded
+ * Held earnings are settled straight away. Earnings that were released before the dispute was
+ * opened are clawed back from the operator's wallet, and any refund beyond them reverses the
+ * platform fee. The operator only loses what the customer actually got back.
+ * The dispute is marked resolved only once the refund has gone through. If the payment provider
+ * refunds less than asked, the dispute goes back to "open" with nothing else settled, so it can
+ * be resolved again.
+ */
+export type DisputeResolutionResult =
+  | { status: "resolved"; dispute: Dispute }
+  | { status: "not_found" } // Does not exist, or is resolved or being resolved
+  | { status: "refund_failed"; dispute: Dispute; requestedCents: number; refundedCents: number };
+
+export async function resolveDispute(params: {
+  disputeId: string;
+  resolution: DisputeResolution;
+  refundAmount?: number;
+  resolutionNote: string | null;
+  resolvedBy: User;
+  now?: Date;
+}): Promise<DisputeResolutionResult> {
+  const now = params.now || new Date();
+
+  // Claim the dispute so a second resolution cannot move money twice
+  const [claimed] = await db.update(disputes)
+    .set({ status: "resolving", updatedAt: now })
+    .where(and(
+      eq(disputes.disputeId, params.disputeId),
+      or(
+        eq(disputes.status, "open"),
+        and(eq(disputes.status, "resolving"), lt(disputes.updatedAt, new Date(now.getTime() - RESOLVING_STALE_MS)))
+      )
+    ))
+    .returning();
+  if (!claimed) return { status: "not_found" };
+
+  const requestId = claimed.serviceRequestId;
+  const [request] = await db.select().from(serviceRequests)
+    .where(eq(serviceRequests.requestId, requestId))
+    .limit(1);
+  const job = await findCompletedJob(requestId, claimed.operatorId);
+  const earnedCents = job?.actualEarnings ? toCents(parseFloat(job.actualEarnings)) : 0;
+
+  const before = await getOpenJobPayment(requestId);
+  const refundableCents = await getRefundableCents(requestId);
+  let requestedCents = 0;
+  if (params.resolution === "full_refund") {
+    requestedCents = refundableCents;
+  } else if (params.resolution === "partial_refund") {
+    // Less anything already refunded by an earlier attempt that fell short
+    requestedCents = Math.max(0, Math.min(toCents(params.refundAmount || 0) - claimed.refundedCents, refundableCents));
+  }
+
+  let refundedCents = 0;
+  if (requestedCents > 0 || (params.resolution === "full_refund" && before?.status === "authorized")) {
+    const after = await refundJobPayment(requestId, requestedCents / 100);
+    refundedCents = after && before ? after.refundedCents - before.refundedCents : 0;
+    const voided = before?.status === "authorized" && after?.status === "voided";
+    if (refundedCents < requestedCents || (requestedCents === 0 && !voided)) {
+      console.warn(`[Disputes] Refund for ${requestId} returned ${refundedCents} of ${requestedCents} cents, dispute reopened`);
+      const [reopened] = await db.update(disputes)
+        .set({ status: "open", refundedCents: claimed.refundedCents + refundedCents, updatedAt: new Date() })
+        .where(eq(disputes.disputeId, claimed.disputeId))
+        .returning();
+      return { status: "refund_failed", dispute: reopened, requestedCents, refundedCents };
+    }
+  }
+
+  // A full refund forfeits the operator's earnings; a partial one costs them only what the customer got back
+  const totalRefundedCents = claimed.refundedCents + refundedCents;
+  let deductionCents = 0;
+  if (params.resolution === "full_refund") {
+    deductionCents = earnedCents;
+  } else if (params.resolution === "partial_refund") {
+    deductionCents = Math.min(totalRefundedCents, earnedCents);
+  }
+
+  const holdReason = getHoldReason(claimed.disputeId);
+  await db.update(serviceRequests)
+    .set({ status: "completed" })
+    .where(and(eq(serviceRequests.requestId, requestId), eq(serviceRequests.status, "disputed")));
+
+  if (request && !request.paymentAvailableAt) {
+    if (!(await releaseDisputedEarnings(requestId, holdReason, deductionCents, now))) {
+      console.warn(`[Disputes] Earnings for ${requestId} stay held under ${holdReason}`);
+    }
+  } else {
+    const recipient = await findEarningsRecipient(claimed.operatorId);
+    if (!recipient) {
+      // Earnings were never credited anywhere, so there is nothing to claw back
+      deductionCents = 0;
+    } else if (deductionCents > 0) {
+      if (recipient.kind === "payroll") {
+        await postJournal(db, {
+          kind: "dispute_adjustment",
+          lines: debitCredit(LEDGER_ACCOUNTS.businessPayroll(recipient.businessId), LEDGER_ACCOUNTS.customerFunds, deductionCents),
+          description: `Dispute adjustment for ${requestId}`,
+          reference: requestId,
+        });
+      } else {
+        await debitWallet({
+          userId: recipient.userId,
+          amount: deductionCents / 100,
+          description: `Dispute adjustment for ${requestId}`,
+          reference: requestId,
+          kind: "dispute_adjustment",
+          creditTo: LEDGER_ACCOUNTS.customerFunds,
+          metadata: { disputeId: claimed.disputeId },
+        });
+      }
+    }
+    // A refund larger than the operator's earnings comes out of the platform fee
+    const feeReversalCents = totalRefundedCents - deductionCents;
+    if (feeReversalCents > 0) {
+      await postJournal(db, {
+        kind: "dispute_adjustment",
+        lines: debitCredit(LEDGER_ACCOUNTS.fees, LEDGER_ACCOUNTS.customerFunds, feeReversalCents),
+        description: `Platform fee reversed for dispute on ${requestId}`,
+        reference: requestId,
+      });
+    }
+    if (params.resolution === "full_refund") {
+      await db.update(serviceRequests)
+        .set({ paymentStatus: "refunded" })
+        .where(eq(serviceRequests.requestId, requestId));
+    }
+  }
+
+  const [resolved] = await db.update(disputes)
+    .set({
+      status: "resolved",
+      resolution: params.resolution,
+      resolutionNote: params.resolutionNote,
+      resolvedBy: params.resolvedBy.userId,
+      resolvedAt: now,
+      refundedCents: totalRefundedCents,
+      operatorDeductionCents: deductionCents,
+      updatedAt: new Date(),
+    })
+    .where(eq(disputes.disputeId, claimed.disputeId))
+    .returning();
+
+  const eventId = await notificationService.createStatusEvent({
+    requestId,
+    actorRole: "admin",
+    actorId: params.resolvedBy.userId,
+    actorName: params.resolvedBy.name,
+    fromStatus: "disputed",
+    toStatus: "completed",
+    eventType: "dispute_resolved",
+    metadata: { disputeId: claimed.disputeId, resolution: params.resolution, refundedCents: totalRefundedCents, operatorDeductionCents: deductionCents },
+  });
+
+  const body = describeResolution(params.resolution, totalRefundedCents);
+  const [customerUserId, operatorUserId] = await Promise.all([
+    notificationService.getUserIdFromCustomerId(claimed.customerId),
+    notificationService.getUserIdFromOperatorId(claimed.operatorId),
+  ]);
+  if (customerUserId) {
+    await notificationService.notifyDisputeResolved(customerUserId, "customer", requestId, claimed.disputeId, body, eventId);
+  }
+  if (operatorUserId) {
+    await notificationService.notifyDisputeResolved(operatorUserId, "operator", requestId, claimed.disputeId, body, eventId);
+  }
+
+  return { status: "resolved", dispute: resolved };
+}
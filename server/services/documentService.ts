@@ -0,0 +1,387 @@
+/**
+ * Document Service - Operator document submissions and the admin review workflow
+ * Services that need credentials (trade certification, business licence) stay locked on an
+ * operator's profile until every required document is approved. Requirements come from
+ * service_document_requirements, falling back to the certification / business licence flags in
+ * TIER_SERVICES for services with no rows. Files are kept in the blob store; submissions are
+ * served back through the API rather than by their storage key.
+ */
+
+import { db } from "../db";
+import { operatorDocumentSubmissions, serviceDocumentRequirements, operators } from "@shared/schema";
+import type { DocumentReviewStatus, OperatorDocumentSubmission } from "@shared/schema";
+import type { OperatorTierProfile } from "@shared/schema";
+import { TIER_SERVICES } from "@shared/tierCapabilities";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { getBlobStore } from "./blobStore";
+import { notificationService } from "../notificationService";
+
+export interface DocumentRequirement {
+  serviceType: string;
+  documentType: string;
+  documentName: string;
+  description: string | null;
+  isRequired: boolean;
+}
+
+export const DOCUMENT_CONTENT_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Largest accepted upload in bytes, configurable with DOCUMENT_MAX_BYTES
+ */
+export function getDocumentMaxBytes(): number {
+  const configured = Number(process.env.DOCUMENT_MAX_BYTES);
+  return Number.isFinite(configured) && configured > 0 ? configured : 10 * 1024 * 1024;
+}
+
+function fallbackRequirements(serviceType: string): DocumentRequirement[] {
+  const service = TIER_SERVICES.find(s => s.id === serviceType);
+  if (!service) return [];
+
+  const requirements: DocumentRequirement[] = [];
+  if (service.requiresCertification) {
+    requirements.push({
+      serviceType,
+      documentType: "certification",
+      documentName: "Trade Certification",
+      description: `Proof of certification for ${service.name}`,
+      isRequired: true,
+    });
+  }
+  if (service.requiresBusinessLicense) {
+    requirements.push({
+      serviceType,
+      documentType: "business_license",
+      documentName: "Business License",
+      description: "A current business license in your name or your company's",
+      isRequired: true,
+    });
+  }
+  return requirements;
+}
+
+/**
+ * Documents required for each of the given services at a tier, keyed by service type
+ * Rows with no tier apply to every tier
+ */
+export async function getRequirementsByService(serviceTypes: string[], tier: string | null): Promise<Map<string, DocumentRequirement[]>> {
+  const byService = new Map<string, DocumentRequirement[]>();
+  if (serviceTypes.length === 0) return byService;
+
+  const rows = await db.select().from(serviceDocumentRequirements)
+    .where(inArray(serviceDocumentRequirements.serviceType, serviceTypes))
+    .orderBy(asc(serviceDocumentRequirements.id));
+
+  for (const serviceType of serviceTypes) {
+    const serviceRows = rows.filter(row => row.serviceType === serviceType);
+    if (serviceRows.length === 0) {
+      byService.set(serviceType, fallbackRequirements(serviceType));
+      continue;
+    }
+    byService.set(serviceType, serviceRows
+      .filter(row => !row.tier || row.tier === tier)
+      .map(row => ({
+        serviceType,
+        documentType: row.documentType,
+        documentName: row.documentName,
+        description: row.description,
+        isRequired: row.isRequired === 1,
+      })));
+  }
+  return byService;
+}
+
+export async function getDocumentRequirements(serviceType: string, tier: string | null): Promise<DocumentRequirement[]> {
+  const byService = await getRequirementsByService([serviceType], tier);
+  return byService.get(serviceType) || [];
+}
+
+/**
+ * Display name of a submission's document type, e.g. "Trade Certification"
+ */
+export async function getDocumentName(submission: OperatorDocumentSubmission): Promise<string> {
+  const requirements = await getDocumentRequirements(submission.serviceType, submission.tier);
+  return requirements.find(r => r.documentType === submission.documentType)?.documentName || submission.documentType;
+}
+
+export async function getOperatorDocuments(operatorId: string): Promise<OperatorDocumentSubmission[]> {
+  return db.select().from(operatorDocumentSubmissions)
+    .where(eq(operatorDocumentSubmissions.operatorId, operatorId))
+    .orderBy(asc(operatorDocumentSubmissions.serviceType), asc(operatorDocumentSubmissions.documentType));
+}
+
+function isApproved(submission: OperatorDocumentSubmission, now: Date): boolean {
+  return submission.status === "approved" && (!submission.expiresAt || submission.expiresAt > now);
+}
+
+/**
+ * Service types, among those given, that the operator may not work yet because a required
+ * document is missing, unapproved or expired
+ */
+export async function getLockedServiceTypes(operatorId: string, serviceTypes: string[], tier: string | null, now: Date = new Date()): Promise<Set<string>> {
+  const requirements = await getRequirementsByService(serviceTypes, tier);
+  const submissions = await getOperatorDocuments(operatorId);
+
+  const locked = new Set<string>();
+  requirements.forEach((serviceRequirements, serviceType) => {
+    const missing = serviceRequirements.some(requirement => requirement.isRequired && !submissions.some(s =>
+      s.serviceType === serviceType && s.documentType === requirement.documentType && isApproved(s, now)
+    ));
+    if (missing) locked.add(serviceType);
+  });
+  return locked;
+}
+
+interface OperatorServiceEntry {
+  serviceId?: string;
+  locked?: boolean;
+  certificationUploaded?: boolean;
+  certificationVerified?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Apply a change to each of an operator's tier profiles
+ * Profiles are stored either as an array or keyed by tier, and keep that shape
+ */
+function mapTierProfiles(tierProfiles: unknown, update: (profile: OperatorTierProfile, tier: string) => OperatorTierProfile): unknown {
+  if (Array.isArray(tierProfiles)) {
+    return tierProfiles.map(profile => update(profile as OperatorTierProfile, (profile as OperatorTierProfile)?.tier));
+  }
+  if (tierProfiles && typeof tierProfiles === "object") {
+    return Object.fromEntries(Object.entries(tierProfiles).map(([tier, profile]) => [tier, update(profile as OperatorTierProfile, tier)]));
+  }
+  return tierProfiles;
+}
+
+/**
+ * Services suspended on any of the operator's tier profiles
+ */
+export function getSuspendedServices(tierProfiles: unknown): Set<string> {
+  const suspended = new Set<string>();
+  mapTierProfiles(tierProfiles, profile => {
+    (profile?.suspendedServices || []).forEach(service => suspended.add(service));
+    return profile;
+  });
+  return suspended;
+}
+
+/**
+ * Service id of an operators.services entry, which is either a plain string or a service object
+ */
+export function getServiceKey(entry: unknown): string | null {
+  if (typeof entry === "string") return entry;
+  if (entry && typeof entry === "object") {
+    const serviceId = (entry as OperatorServiceEntry).serviceId;
+    return typeof serviceId === "string" ? serviceId : null;
+  }
+  return null;
+}
+
+/**
+ * Whether an operators.services entry can be shown to customers: not suspended and not locked
+ * waiting on documents
+ */
+export function isServiceAvailable(entry: unknown, suspended: Set<string>): boolean {
+  const key = getServiceKey(entry);
+  if (key && suspended.has(key)) return false;
+  return !(entry && typeof entry === "object" && (entry as OperatorServiceEntry).locked);
+}
+
+/**
+ * Refresh the locked / certification flags on the operator's configured services from their
+ * document submissions, and lift tier profile suspensions whose documents are approved again
+ * @param suspend - Service types to suspend on the tier profiles that offer them
+ */
+export async function syncServiceLocks(operatorId: string, suspend: string[] = []): Promise<void> {
+  const operator = await db.query.operators.findFirst({ where: eq(operators.operatorId, operatorId) });
+  if (!operator) return;
+
+  const services = ((operator.services as unknown[]) || [])
+    .filter((s): s is OperatorServiceEntry => typeof s === "object" && s !== null);
+  const suspended = getSuspendedServices(operator.operatorTierProfiles);
+  const serviceTypes = Array.from(new Set([
+    ...services.map(s => s.serviceId).filter((id): id is string => !!id),
+    ...suspended,
+    ...suspend,
+  ]));
+  if (serviceTypes.length === 0) return;
+
+  const tier = operator.activeTier || operator.operatorTier;
+  const locked = await getLockedServiceTypes(operatorId, serviceTypes, tier);
+  const requirements = await getRequirementsByService(serviceTypes, tier);
+  const submissions = await getOperatorDocuments(operatorId);
+
+  const updated = ((operator.services as unknown[]) || []).map(entry => {
+    if (typeof entry !== "object" || entry === null) return entry;
+    const service = entry as OperatorServiceEntry;
+    if (!service.serviceId || (requirements.get(service.serviceId) || []).length === 0) return service;
+
+    const serviceSubmissions = submissions.filter(s => s.serviceType === service.serviceId);
+    return {
+      ...service,
+      locked: locked.has(service.serviceId),
+      certificationUploaded: serviceSubmissions.length > 0,
+      certificationVerified: !locked.has(service.serviceId),
+    };
+  });
+
+  const tierProfiles = mapTierProfiles(operator.operatorTierProfiles, (profile, profileTier) => {
+    if (!profile) return profile;
+    const offered = (serviceType: string) =>
+      TIER_SERVICES.find(s => s.id === serviceType)?.tiers.some(t => t === profileTier) ?? true;
+    const profileSuspended = new Set([
+      ...(profile.suspendedServices || []),
+      ...suspend.filter(offered),
+    ]);
+    // A suspension lasts until the service's documents are approved again
+    const stillSuspended = Array.from(profileSuspended).filter(serviceType => locked.has(serviceType));
+    if (stillSuspended.length === 0 && !profile.suspendedServices) return profile;
+    return { ...profile, suspendedServices: stillSuspended };
+  });
+
+  await db.update(operators)
+    .set({ services: updated, operatorTierProfiles: tierProfiles })
+    .where(eq(operators.operatorId, operatorId));
+}
+
+/**
+ * Store an uploaded document and (re)submit it for review
+ * A resubmission replaces the previous file and resets the review.
+ */
+export async function saveDocumentSubmission(params: {
+  operatorId: string;
+  serviceType: string;
+  documentType: string;
+  tier: string | null;
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+  expiresAt: Date | null;
+}): Promise<OperatorDocumentSubmission> {
+  const extension = DOCUMENT_CONTENT_TYPES[params.contentType] || "bin";
+  const storageKey = `documents/${params.operatorId}/${params.serviceType}/${params.documentType}-${Date.now()}.${extension}`;
+  const blobStore = getBlobStore();
+  await blobStore.put(storageKey, params.data, params.contentType);
+
+  const [previous] = await db.select().from(operatorDocumentSubmissions)
+    .where(and(
+      eq(operatorDocumentSubmissions.operatorId, params.operatorId),
+      eq(operatorDocumentSubmissions.serviceType, params.serviceType),
+      eq(operatorDocumentSubmissions.documentType, params.documentType)
+    ))
+    .limit(1);
+
+  const now = new Date();
+  const fields = {
+    documentUrl: `/api/operators/${params.operatorId}/documents/${params.serviceType}/${params.documentType}/file`,
+    storageKey,
+    fileName: params.fileName,
+    contentType: params.contentType,
+    fileSize: params.data.length,
+    tier: params.tier,
+    status: "pending",
+    reviewNote: null,
+    reviewedAt: null,
+    reviewedBy: null,
+    expiresAt: params.expiresAt,
+    expiryWarningDays: null,
+    submittedAt: now,
+  };
+
+  const [submission] = await db.insert(operatorDocumentSubmissions)
+    .values({
+      operatorId: params.operatorId,
+      serviceType: params.serviceType,
+      documentType: params.documentType,
+      ...fields,
+    })
+    .onConflictDoUpdate({
+      target: [operatorDocumentSubmissions.operatorId, operatorDocumentSubmissions.serviceType, operatorDocumentSubmissions.documentType],
+      set: fields,
+    })
+    .returning();
+
+  if (previous?.storageKey && previous.storageKey !== storageKey) {
+    await blobStore.delete(previous.storageKey).catch(error => {
+      console.error(`[Documents] Failed to delete replaced file ${previous.storageKey}:`, error);
+    });
+  }
+
+  await syncServiceLocks(params.operatorId);
+  return submission;
+}
+
+/**
+ * The operator's submission for a service document, with its file contents
+ */
+export async function getDocumentFile(operatorId: string, serviceType: string, documentType: string): Promise<{ submission: OperatorDocumentSubmission; data: Buffer } | null> {
+  const [submission] = await db.select().from(operatorDocumentSubmissions)
+    .where(and(
+      eq(operatorDocumentSubmissions.operatorId, operatorId),
+      eq(operatorDocumentSubmissions.serviceType, serviceType),
+      eq(operatorDocumentSubmissions.documentType, documentType)
+    ))
+    .limit(1);
+  if (!submission?.storageKey) return null;
+
+  const data = await getBlobStore().get(submission.storageKey);
+  return data ? { submission, data } : null;
+}
+
+/**
+ * Submissions awaiting review (or in the given status), oldest first, with the operator's name
+ */
+export async function getDocumentReviewQueue(status: DocumentReviewStatus = "pending") {
+  return db.select({
+    submission: operatorDocumentSubmissions,
+    operatorName: operators.name,
+    operatorEmail: operators.email,
+  })
+    .from(operatorDocumentSubmissions)
+    .leftJoin(operators, eq(operators.operatorId, operatorDocumentSubmissions.operatorId))
+    .where(eq(operatorDocumentSubmissions.status, status))
+    .orderBy(asc(operatorDocumentSubmissions.submittedAt));
+}
+
+/**
+ * Approve or reject a submission, update the operator's service locks and notify them
+ * @returns The reviewed submission, or null if it does not exist or was already reviewed
+ */
+export async function reviewDocument(params: {
+  submissionId: number;
+  decision: Extract<DocumentReviewStatus, "approved" | "rejected">;
+  reviewNote: string | null;
+  reviewedBy: string;
+}): Promise<OperatorDocumentSubmission | null> {
+  const [reviewed] = await db.update(operatorDocumentSubmissions)
+    .set({
+      status: params.decision,
+      reviewNote: params.reviewNote,
+      reviewedAt: new Date(),
+      reviewedBy: params.reviewedBy,
+    })
+    .where(and(
+      eq(operatorDocumentSubmissions.id, params.submissionId),
+      eq(operatorDocumentSubmissions.status, "pending")
+    ))
+    .returning();
+  if (!reviewed) return null;
+
+  await syncServiceLocks(reviewed.operatorId);
+
+  await notificationService.notifyOperatorOfDocumentReview(
+    reviewed.operatorId,
+    reviewed.id,
+    reviewed.serviceType,
+    await getDocumentName(reviewed),
+    params.decision,
+    params.reviewNote
+  );
+  return reviewed;
+}
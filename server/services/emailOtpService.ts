@@ -0,0 +1,153 @@
+/**
+ * Email OTP Service - One-time codes for signup verification, password reset and email change
+ * Codes are six digits, stored hashed, valid for OTP_TTL_MINUTES and locked after
+ * OTP_MAX_ATTEMPTS wrong guesses. Issuing a new code replaces any earlier unused code for the
+ * same address and purpose. Codes are delivered through the mail transport.
+ */
+
+import crypto from "crypto";
+import { db } from "../db";
+import { emailOtpCodes, users } from "@shared/schema";
+import type { EmailOtpCode, EmailOtpPurpose } from "@shared/schema";
+import { and, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import { getMailTransport } from "./mailTransport";
+
+export const OTP_TTL_MINUTES = 10;
+export const OTP_MAX_ATTEMPTS = 5;
+// Minimum wait before another code can be sent to the same address for the same purpose
+export const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+export type OtpVerification =
+  | { status: "verified"; otp: EmailOtpCode }
+  | { status: "invalid"; attemptsRemaining: number }
+  | { status: "expired" }
+  | { status: "locked" }
+  | { status: "not_found" };
+
+const OTP_MESSAGES: Record<EmailOtpPurpose, { subject: string; intro: string }> = {
+  signup: { subject: "Verify your Fleetly email", intro: "Use this code to verify your email address" },
+  password_reset: { subject: "Reset your Fleetly password", intro: "Use this code to reset your password" },
+  email_change: { subject: "Confirm your new Fleetly email", intro: "Use this code to confirm your new email address" },
+};
+
+function hashCode(code: string): string {
+  return crypto.createHash("sha256").update(code).digest("hex");
+}
+
+function normalizeAddress(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Generate, store and send a new code
+ * @param userId - Account the code is for; email_change codes are only accepted from this account
+ * @returns Seconds to wait before retrying when a code was sent too recently, otherwise null
+ */
+export async function issueOtp(email: string, purpose: EmailOtpPurpose, userId: string | null, now: Date = new Date()): Promise<{ retryAfterSeconds: number } | null> {
+  const address = normalizeAddress(email);
+
+  const [latest] = await db.select().from(emailOtpCodes)
+    .where(and(eq(emailOtpCodes.email, address), eq(emailOtpCodes.purpose, purpose)))
+    .orderBy(desc(emailOtpCodes.createdAt))
+    .limit(1);
+  if (latest) {
+    const elapsedSeconds = (now.getTime() - latest.createdAt.getTime()) / 1000;
+    if (elapsedSeconds < OTP_RESEND_COOLDOWN_SECONDS) {
+      return { retryAfterSeconds: Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - elapsedSeconds) };
+    }
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await db.transaction(async (tx) => {
+    // Only the newest code for an address and purpose can be used
+    await tx.update(emailOtpCodes)
+      .set({ usedAt: now })
+      .where(and(
+        eq(emailOtpCodes.email, address),
+        eq(emailOtpCodes.purpose, purpose),
+        isNull(emailOtpCodes.usedAt)
+      ));
+    await tx.insert(emailOtpCodes).values({
+      email: address,
+      userId,
+      code: hashCode(code),
+      purpose,
+      expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+      createdAt: now,
+    });
+  });
+
+  const message = OTP_MESSAGES[purpose];
+  await getMailTransport().send({
+    to: email.trim(),
+    subject: message.subject,
+    text: `${message.intro}: ${code}\n\nThe code expires in ${OTP_TTL_MINUTES} minutes. If you didn't request it, you can ignore this email.`,
+  });
+  return null;
+}
+
+/**
+ * Check a code against the newest unused code for the address and purpose
+ * A correct code is consumed; a wrong one counts towards the attempt limit.
+ */
+export async function verifyOtp(email: string, purpose: EmailOtpPurpose, code: string, now: Date = new Date()): Promise<OtpVerification> {
+  const address = normalizeAddress(email);
+  const [otp] = await db.select().from(emailOtpCodes)
+    .where(and(
+      eq(emailOtpCodes.email, address),
+      eq(emailOtpCodes.purpose, purpose),
+      isNull(emailOtpCodes.usedAt)
+    ))
+    .orderBy(desc(emailOtpCodes.createdAt))
+    .limit(1);
+
+  if (!otp) return { status: "not_found" };
+  if (otp.attempts >= OTP_MAX_ATTEMPTS) return { status: "locked" };
+  if (otp.expiresAt <= now) return { status: "expired" };
+
+  // Count the guess before checking it, in one statement, so concurrent guesses cannot share an attempt
+  const [attempt] = await db.update(emailOtpCodes)
+    .set({ attempts: sql`${emailOtpCodes.attempts} + 1` })
+    .where(and(eq(emailOtpCodes.id, otp.id), isNull(emailOtpCodes.usedAt), lt(emailOtpCodes.attempts, OTP_MAX_ATTEMPTS)))
+    .returning();
+  if (!attempt) return { status: "locked" };
+
+  const expected = Buffer.from(attempt.code, "hex");
+  const received = Buffer.from(hashCode(code.trim()), "hex");
+  if (!crypto.timingSafeEqual(expected, received)) {
+    return attempt.attempts >= OTP_MAX_ATTEMPTS
+      ? { status: "locked" }
+      : { status: "invalid", attemptsRemaining: OTP_MAX_ATTEMPTS - attempt.attempts };
+  }
+
+  // Consume the code; the usedAt guard stops a concurrent request using it twice
+  const [consumed] = await db.update(emailOtpCodes)
+    .set({ usedAt: now })
+    .where(and(eq(emailOtpCodes.id, otp.id), isNull(emailOtpCodes.usedAt), gt(emailOtpCodes.expiresAt, now)))
+    .returning();
+  return consumed ? { status: "verified", otp: consumed } : { status: "not_found" };
+}
+
+/**
+ * Client-facing message for a failed verification
+ */
+export function describeOtpFailure(result: Exclude<OtpVerification, { status: "verified" }>): string {
+  switch (result.status) {
+    case "invalid":
+      return `Incorrect code. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? "" : "s"} remaining.`;
+    case "expired":
+      return "This code has expired. Request a new one.";
+    case "locked":
+      return "Too many incorrect attempts. Request a new code.";
+    case "not_found":
+      return "No active code for this email. Request a new one.";
+  }
+}
+
+/**
+ * Whether the account linked to an operator has verified its email
+ */
+export async function isOperatorEmailVerified(operatorId: string): Promise<boolean> {
+  const user = await db.query.users.findFirst({ where: eq(users.operatorId, operatorId) });
+  return user?.emailVerified === 1;
+}
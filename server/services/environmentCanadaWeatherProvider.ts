@@ -0,0 +1,189 @@
+/**
+ * Environment Canada Weather Provider - Public weather alerts for Canada
+ * Alerts are read from an ATOM feed of CAP (Common Alerting Protocol) messages, by default the
+ * National Alert Aggregation and Dissemination (NAAD) feed, keeping only those Environment Canada
+ * issued. Each entry carries its CAP message inline or links to it.
+ * CAP-CP documentation: https://www.publicsafety.gc.ca/cnt/mrgnc-mngmnt/mrgnc-prprdnss/capcp/index-en.aspx
+ */
+
+import type { WeatherProvider } from "./weatherProvider";
+import type { AlertGeometry, WeatherAlert } from "./weatherService";
+
+const DEFAULT_FEED_URL = "https://rss.naad-adna.pelmorex.com/";
+
+// Environment Canada's sender address on its CAP messages
+const EC_SENDER = "cap-pac@canada.ca";
+
+// First two digits of a CAP-CP location code (a Statistics Canada geographic code) to the province
+const PROVINCES_BY_SGC: Record<string, string> = {
+  "10": "NL",
+  "11": "PE",
+  "12": "NS",
+  "13": "NB",
+  "24": "QC",
+  "35": "ON",
+  "46": "MB",
+  "47": "SK",
+  "48": "AB",
+  "59": "BC",
+  "60": "YT",
+  "61": "NT",
+  "62": "NU",
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+// Every <tag>...</tag> body in the XML, ignoring namespace prefixes
+function getBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, "g");
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function getText(xml: string, tag: string): string | undefined {
+  const block = getBlocks(xml, tag)[0];
+  return block === undefined ? undefined : decodeXml(block);
+}
+
+// CAP <valueName>/<value> pairs, e.g. from <geocode> or <parameter>
+function getValues(xml: string, tag: string, valueName: string): string[] {
+  return getBlocks(xml, tag)
+    .filter(block => getText(block, "valueName") === valueName)
+    .map(block => getText(block, "value") || "")
+    .filter(Boolean);
+}
+
+// CAP polygons are "lat,lon lat,lon ..." with the first point repeated last
+function toGeometry(polygons: string[]): AlertGeometry | null {
+  const rings = polygons
+    .map(polygon => polygon.trim().split(/\s+/).map(point => {
+      const [latitude, longitude] = point.split(",").map(Number);
+      return [longitude, latitude];
+    }))
+    .filter(ring => ring.length >= 4 && ring.every(([longitude, latitude]) => !isNaN(longitude) && !isNaN(latitude)));
+
+  if (rings.length === 0) return null;
+  if (rings.length === 1) return { type: "Polygon", coordinates: [rings[0]] };
+  return { type: "MultiPolygon", coordinates: rings.map(ring => [ring]) };
+}
+
+// "snowfall warning" as "Snowfall Warning", to read like NWS event names
+function toTitleCase(text: string): string {
+  return text.replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Convert a CAP message to an alert, using its English info block
+ * @returns null for cancellations, messages from other issuers and messages without an expiry
+ */
+export function parseCapAlert(cap: string): WeatherAlert | null {
+  const identifier = getText(cap, "identifier");
+  const sender = getText(cap, "sender");
+  const messageType = getText(cap, "msgType") as WeatherAlert["messageType"] | undefined;
+  if (!identifier || sender?.toLowerCase() !== EC_SENDER || messageType === "Cancel") return null;
+
+  const infos = getBlocks(cap, "info");
+  const info = infos.find(block => getText(block, "language")?.toLowerCase().startsWith("en")) || infos[0];
+  if (!info) return null;
+
+  const expires = getText(info, "expires");
+  if (!expires) return null;
+
+  const areas = getBlocks(info, "area");
+  const regionCodes = areas
+    .flatMap(area => getValues(area, "geocode", "profile:CAP-CP:Location:0.3"))
+    .map(code => PROVINCES_BY_SGC[code.slice(0, 2)])
+    .filter((code): code is string => !!code);
+
+  // Environment Canada names the alert, e.g. "snowfall warning", in a parameter; <event> is just "snowfall"
+  const alertName = getValues(info, "parameter", "layer:EC-MSC-SMC:1.0:Alert_Name")[0];
+
+  // Environment Canada issues most warnings as Moderate where NWS would say Severe; treat them
+  // alike so the severe-alert filters keep Canadian warnings
+  let severity = (getText(info, "severity") || "Unknown") as WeatherAlert["severity"];
+  const alertType = getValues(info, "parameter", "layer:EC-MSC-SMC:1.0:Alert_Type")[0];
+  if (alertType?.toLowerCase() === "warning" && severity !== "Extreme") severity = "Severe";
+
+  return {
+    id: identifier,
+    event: toTitleCase(alertName || getText(info, "event") || "Weather Alert"),
+    headline: getText(info, "headline") || "",
+    description: getText(info, "description") || "",
+    severity,
+    certainty: (getText(info, "certainty") || "Unknown") as WeatherAlert["certainty"],
+    urgency: (getText(info, "urgency") || "Unknown") as WeatherAlert["urgency"],
+    areaDesc: areas.map(area => getText(area, "areaDesc")).filter(Boolean).join("; "),
+    effective: getText(info, "effective") || getText(cap, "sent") || new Date().toISOString(),
+    expires,
+    status: (getText(cap, "status") || "Actual") as WeatherAlert["status"],
+    messageType: messageType || "Alert",
+    category: (getText(info, "category") || "Met") as WeatherAlert["category"],
+    instruction: getText(info, "instruction"),
+    countryCode: "CA",
+    regionCodes: Array.from(new Set(regionCodes)),
+    geometry: toGeometry(areas.flatMap(area => getBlocks(area, "polygon").map(decodeXml))),
+  };
+}
+
+export class EnvironmentCanadaWeatherProvider implements WeatherProvider {
+  readonly name = "environment-canada";
+  private readonly feedUrl: string;
+
+  constructor(feedUrl: string = DEFAULT_FEED_URL) {
+    this.feedUrl = feedUrl;
+  }
+
+  covers(countryCode: string): boolean {
+    return countryCode === "CA";
+  }
+
+  async getAlerts(_countryCode: string, regionCodes: string[]): Promise<WeatherAlert[]> {
+    const feed = await this.fetchText(this.feedUrl);
+
+    const alerts = new Map<string, WeatherAlert>();
+    for (const entry of getBlocks(feed, "entry")) {
+      const cap = await this.getEntryCap(entry);
+      const alert = cap ? parseCapAlert(cap) : null;
+      if (!alert) continue;
+      if (regionCodes.length > 0 && !alert.regionCodes.some(code => regionCodes.includes(code))) continue;
+      alerts.set(alert.id, alert);
+    }
+    return Array.from(alerts.values());
+  }
+
+  // The entry's CAP message, inline or fetched from its link
+  private async getEntryCap(entry: string): Promise<string | null> {
+    if (/<(?:\w+:)?alert[\s>]/.test(entry)) return entry;
+
+    const link = entry.match(/<link\b[^>]*href="([^"]+)"/);
+    if (!link) return null;
+    try {
+      return await this.fetchText(decodeXml(link[1]));
+    } catch (error) {
+      console.error("Error fetching Environment Canada CAP message:", error);
+      return null;
+    }
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "Fleetly/1.0 (contact@fleetly.app)",
+        "Accept": "application/atom+xml, application/xml, text/xml"
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Environment Canada alerts error: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Estimate Service - What a service is likely to cost at a location, before it is requested
+ * Samples come from two places. Each nearby operator's active pricing config for the service is
+ * priced for the location by the shared pricing engine, including any weather surge they opted in
+ * to. Recent completed jobs nearby add their actual earnings, raised while demand is high since
+ * most were earned in normal conditions. The estimate is the quartiles of all samples.
+ */
+
+import { db } from "../db";
+import { acceptedJobs, operators, operatorPricingConfigs, OPERATOR_TIER_INFO } from "@shared/schema";
+import type { OperatorTier } from "@shared/schema";
+import { calculateQuotePrice } from "@shared/pricing";
+import type { PriceEstimate, PricedRequest } from "@shared/pricing";
+import type { DemandLevel } from "@shared/zones";
+import { and, eq, gte, isNotNull, sql } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+import { getAreaDemand } from "./demandEngine";
+
+export const ESTIMATE_SETTINGS = {
+  radiusKm: 25, // Operators and past jobs within this distance count
+  lookbackDays: 90, // Completed jobs older than this are left out
+  // Past earnings scaled by current demand
+  demandAdjustments: { low: 1, medium: 1, high: 1.1, surge: 1.25 } as Record<DemandLevel, number>,
+};
+
+// Linear interpolation between the closest ranks, on sorted values
+function percentile(sorted: number[], fraction: number): number {
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Price distribution for a service at a location
+ * @param request - The service and whatever is known of the job, e.g. urgency and snow area size
+ */
+export async function getPriceEstimate(request: PricedRequest, latitude: number, longitude: number, now: Date = new Date()): Promise<PriceEstimate> {
+  const demand = await getAreaDemand(latitude, longitude);
+
+  // Nearby operators' own prices for the job, each within their tier's radius
+  const configs = await db.select({
+    config: operatorPricingConfigs,
+    latitude: operators.latitude,
+    longitude: operators.longitude,
+  })
+    .from(operatorPricingConfigs)
+    .innerJoin(operators, eq(operators.operatorId, operatorPricingConfigs.operatorId))
+    .where(and(
+      eq(operatorPricingConfigs.serviceType, request.serviceType),
+      eq(operatorPricingConfigs.isActive, 1)
+    ));
+
+  const operatorSamples: number[] = [];
+  for (const { config, latitude: operatorLat, longitude: operatorLon } of configs) {
+    const distanceKm = calculateDistance(parseFloat(operatorLat), parseFloat(operatorLon), latitude, longitude);
+    const tierRadiusKm = OPERATOR_TIER_INFO[config.tier as OperatorTier]?.radiusKm ?? ESTIMATE_SETTINGS.radiusKm;
+    if (distanceKm > Math.min(tierRadiusKm, ESTIMATE_SETTINGS.radiusKm)) continue;
+
+    const price = calculateQuotePrice({ rates: config, tier: config.tier, request, travelDistanceKm: distanceKm, demand });
+    if (price && price.total > 0) operatorSamples.push(price.total);
+  }
+
+  // What nearby operators were actually paid for the service recently
+  const since = new Date(now.getTime() - ESTIMATE_SETTINGS.lookbackDays * 24 * 60 * 60 * 1000);
+  const completedJobs = await db.select({ actualEarnings: acceptedJobs.actualEarnings, jobData: acceptedJobs.jobData })
+    .from(acceptedJobs)
+    .where(and(
+      eq(acceptedJobs.status, "completed"),
+      gte(acceptedJobs.completedAt, since),
+      isNotNull(acceptedJobs.actualEarnings),
+      sql`${acceptedJobs.jobData}->>'serviceType' = ${request.serviceType}`
+    ));
+
+  const adjustment = ESTIMATE_SETTINGS.demandAdjustments[demand.demandLevel] ?? 1;
+  const jobSamples: number[] = [];
+  for (const job of completedJobs) {
+    const jobData = job.jobData as { latitude?: string | number | null; longitude?: string | number | null };
+    if (!jobData.latitude || !jobData.longitude) continue;
+    const distanceKm = calculateDistance(latitude, longitude, Number(jobData.latitude), Number(jobData.longitude));
+    const earnings = parseFloat(job.actualEarnings!);
+    if (distanceKm <= ESTIMATE_SETTINGS.radiusKm && earnings > 0) {
+      jobSamples.push(earnings * adjustment);
+    }
+  }
+
+  const samples = [...operatorSamples, ...jobSamples].sort((a, b) => a - b);
+  const hasSamples = samples.length > 0;
+
+  return {
+    serviceType: request.serviceType,
+    low: hasSamples ? Math.round(percentile(samples, 0.25)) : null,
+    median: hasSamples ? Math.round(percentile(samples, 0.5)) : null,
+    high: hasSamples ? Math.round(percentile(samples, 0.75)) : null,
+    sampleCount: samples.length,
+    operatorCount: operatorSamples.length,
+    completedJobCount: jobSamples.length,
+    demandLevel: demand.demandLevel,
+  };
+}
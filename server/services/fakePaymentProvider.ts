@@ -0,0 +1,145 @@
+/**
+ * Fake Payment Provider - Deterministic in-process gateway for development and tests
+ * IDs are sequential and outcomes depend only on the inputs, so the whole
+ * authorize -> capture -> refund / payout lifecycle can run offline.
+ *
+ * Test inputs:
+ * - Payment methods starting with "pm_fake_decline" are declined (card_declined)
+ * - Payment methods starting with "pm_fake_insufficient" are declined (insufficient_funds)
+ * - Payout destinations starting with "acct_fake_fail" are rejected (account_closed)
+ * Any other payment method or payout destination, including none at all, is approved.
+ *
+ * Charges, payouts and idempotency keys live only in this process's memory and are lost on
+ * restart, so a payment authorized before a restart can no longer be captured or refunded.
+ */
+
+import type { AuthorizeRequest, PaymentProvider, PaymentResult, PayoutRequest, PayoutResult } from "./paymentProvider";
+
+interface FakeCharge {
+  id: string;
+  amountCents: number;
+  capturedCents: number;
+  refundedCents: number;
+  status: "authorized" | "captured" | "voided";
+}
+
+export interface FakePayout {
+  id: string;
+  amountCents: number;
+  currency: string;
+  destination: string;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  private sequence = 0;
+  private charges = new Map<string, FakeCharge>();
+  private payouts = new Map<string, FakePayout>();
+  private resultsByIdempotencyKey = new Map<string, PaymentResult | PayoutResult>();
+
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `${prefix}_${String(this.sequence).padStart(6, "0")}`;
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+    const previous = this.resultsByIdempotencyKey.get(request.idempotencyKey);
+    if (previous) return previous as PaymentResult;
+
+    let result: PaymentResult;
+    const method = request.paymentMethodId || "";
+    if (request.amountCents <= 0) {
+      result = { success: false, providerPaymentId: null, amountCents: 0, failureReason: "invalid_amount" };
+    } else if (method.startsWith("pm_fake_decline")) {
+      result = { success: false, providerPaymentId: null, amountCents: 0, failureReason: "card_declined" };
+    } else if (method.startsWith("pm_fake_insufficient")) {
+      result = { success: false, providerPaymentId: null, amountCents: 0, failureReason: "insufficient_funds" };
+    } else {
+      const id = this.nextId("fake_pi");
+      this.charges.set(id, { id, amountCents: request.amountCents, capturedCents: 0, refundedCents: 0, status: "authorized" });
+      result = { success: true, providerPaymentId: id, amountCents: request.amountCents };
+    }
+
+    this.resultsByIdempotencyKey.set(request.idempotencyKey, result);
+    return result;
+  }
+
+  async capture(providerPaymentId: string, amountCents: number): Promise<PaymentResult> {
+    const charge = this.charges.get(providerPaymentId);
+    if (!charge) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: "payment_not_found" };
+    }
+    if (charge.status === "captured") {
+      // Capturing twice is a no-op, like a retried request
+      return { success: true, providerPaymentId, amountCents: charge.capturedCents };
+    }
+    if (charge.status !== "authorized") {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: `payment_${charge.status}` };
+    }
+    if (amountCents <= 0 || amountCents > charge.amountCents) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: "amount_too_large" };
+    }
+
+    charge.capturedCents = amountCents;
+    charge.status = "captured";
+    return { success: true, providerPaymentId, amountCents };
+  }
+
+  async refund(providerPaymentId: string, amountCents: number, idempotencyKey: string): Promise<PaymentResult> {
+    const previous = this.resultsByIdempotencyKey.get(idempotencyKey);
+    if (previous) return previous as PaymentResult;
+
+    const result = this.refundCharge(providerPaymentId, amountCents);
+    this.resultsByIdempotencyKey.set(idempotencyKey, result);
+    return result;
+  }
+
+  private refundCharge(providerPaymentId: string, amountCents: number): PaymentResult {
+    const charge = this.charges.get(providerPaymentId);
+    if (!charge) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: "payment_not_found" };
+    }
+    if (charge.status === "voided") {
+      return { success: true, providerPaymentId, amountCents: 0 };
+    }
+    if (charge.status === "authorized") {
+      charge.status = "voided";
+      return { success: true, providerPaymentId, amountCents: 0 };
+    }
+    if (amountCents <= 0 || charge.refundedCents + amountCents > charge.capturedCents) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: "amount_too_large" };
+    }
+
+    charge.refundedCents += amountCents;
+    return { success: true, providerPaymentId, amountCents };
+  }
+
+  async payout(request: PayoutRequest): Promise<PayoutResult> {
+    const previous = this.resultsByIdempotencyKey.get(request.idempotencyKey);
+    if (previous) return previous as PayoutResult;
+
+    let result: PayoutResult;
+    if (request.amountCents <= 0) {
+      result = { success: false, providerPayoutId: null, failureReason: "invalid_amount" };
+    } else if (request.destination?.startsWith("acct_fake_fail")) {
+      result = { success: false, providerPayoutId: null, failureReason: "account_closed" };
+    } else {
+      const id = this.nextId("fake_po");
+      this.payouts.set(id, { id, amountCents: request.amountCents, currency: request.currency, destination: request.destination || "acct_fake_default" });
+      result = { success: true, providerPayoutId: id };
+    }
+
+    this.resultsByIdempotencyKey.set(request.idempotencyKey, result);
+    return result;
+  }
+
+  /** Current state of a charge, for inspecting the gateway in tests */
+  getCharge(providerPaymentId: string): FakeCharge | undefined {
+    return this.charges.get(providerPaymentId);
+  }
+
+  getPayouts(): FakePayout[] {
+    return Array.from(this.payouts.values());
+  }
+}
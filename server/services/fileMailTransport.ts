@@ -0,0 +1,24 @@
+/**
+ * File Mail Transport - Writes each outgoing message to a file in an outbox directory
+ * Files are named "{timestamp}-{recipient}.txt" so the latest message for an address is easy to find.
+ */
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { MailMessage, MailTransport } from "./mailTransport";
+
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+  private readonly outbox: string;
+
+  constructor(outbox: string) {
+    this.outbox = path.resolve(outbox);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outbox, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filePath = path.join(this.outbox, `${Date.now()}-${recipient}.txt`);
+    await writeFile(filePath, `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+  }
+}
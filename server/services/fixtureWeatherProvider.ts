@@ -0,0 +1,45 @@
+/**
+ * Fixture Weather Provider - Reads weather alerts from a JSON file for offline development and tests
+ * The file holds an array of alerts shaped like WeatherAlert, for any country. It is read on every
+ * call so edits apply at the next sync. "effective" and "expires" may be ISO timestamps or hour
+ * offsets from now such as "-2h" or "+24h", so a fixture stays active however old it is.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { WeatherProvider } from "./weatherProvider";
+import type { WeatherAlert } from "./weatherService";
+
+const OFFSET_PATTERN = /^([+-]\d+(?:\.\d+)?)h$/;
+
+function resolveTime(value: string, now: Date): string {
+  const offset = value.match(OFFSET_PATTERN);
+  return offset ? new Date(now.getTime() + Number(offset[1]) * 60 * 60 * 1000).toISOString() : value;
+}
+
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixture";
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  covers(_countryCode: string): boolean {
+    return true;
+  }
+
+  async getAlerts(countryCode: string, regionCodes: string[]): Promise<WeatherAlert[]> {
+    const alerts: WeatherAlert[] = JSON.parse(await readFile(this.filePath, "utf8"));
+    const now = new Date();
+
+    return alerts
+      .filter(alert => alert.countryCode.toUpperCase() === countryCode)
+      .filter(alert => regionCodes.length === 0 || alert.regionCodes.some(code => regionCodes.includes(code.toUpperCase())))
+      .map(alert => ({
+        ...alert,
+        effective: resolveTime(alert.effective, now),
+        expires: resolveTime(alert.expires, now),
+      }));
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Ledger Service - Append-only double-entry ledger
+ * Every money movement is posted as a journal of lines that sum to zero (debit > 0, credit < 0).
+ * Wallet balances are liabilities to the wallet owner, so their ledger balance is the negated
+ * sum of the wallet account's lines; reconciliation compares that to the wallets table.
+ *
+ * Accounts:
+ * - platform:cash - funds held with the payment provider (asset)
+ * - platform:customer_funds - captured customer payments not yet settled to an operator (liability)
+ * - platform:fees / platform:cancellation_fees - platform revenue
+ * - platform:opening_balances - the other side of wallet balances that predate the ledger
+ * - business:{businessId}:payroll - payroll funded by a business
+ * - wallet:{userId}:available / wallet:{userId}:pending - a user's spendable and in-flight balances
+ */
+
+import { db } from "../db";
+import { ledgerEntries, wallets } from "@shared/schema";
+import type { LedgerEntry, LedgerEntryKind } from "@shared/schema";
+import { and, desc, eq, like, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+
+// The db itself or an open transaction, so postings can commit with the balance change they record
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export const LEDGER_ACCOUNTS = {
+  cash: "platform:cash",
+  customerFunds: "platform:customer_funds",
+  fees: "platform:fees",
+  cancellationFees: "platform:cancellation_fees",
+  openingBalances: "platform:opening_balances",
+  businessPayroll: (businessId: string) => `business:${businessId}:payroll`,
+  walletAvailable: (userId: number) => `wallet:${userId}:available`,
+  walletPending: (userId: number) => `wallet:${userId}:pending`,
+};
+
+export interface LedgerLine {
+  account: string;
+  amountCents: number; // Debit > 0, credit < 0
+}
+
+const WALLET_ACCOUNT_PATTERN = /^wallet:(\d+):/;
+
+/**
+ * Post a balanced journal
+ * @throws If the lines do not sum to zero - an unbalanced posting is a programming error
+ */
+export async function postJournal(executor: DbExecutor, journal: {
+  kind: LedgerEntryKind;
+  lines: LedgerLine[];
+  description: string;
+  reference?: string | null;
+  currency?: string;
+}): Promise<LedgerEntry[]> {
+  const lines = journal.lines.filter(line => line.amountCents !== 0);
+  if (lines.length === 0) return [];
+
+  const total = lines.reduce((sum, line) => sum + line.amountCents, 0);
+  if (total !== 0 || lines.some(line => !Number.isInteger(line.amountCents))) {
+    throw new Error(`Unbalanced ${journal.kind} journal: lines sum to ${total} cents`);
+  }
+
+  const journalId = `jrn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  return executor.insert(ledgerEntries).values(lines.map(line => {
+    const walletOwner = line.account.match(WALLET_ACCOUNT_PATTERN);
+    return {
+      journalId,
+      kind: journal.kind,
+      account: line.account,
+      userId: walletOwner ? parseInt(walletOwner[1]) : null,
+      amountCents: line.amountCents,
+      currency: journal.currency || "CAD",
+      reference: journal.reference || null,
+      description: journal.description,
+    };
+  })).returning();
+}
+
+/**
+ * The two lines of a simple journal: debit one account and credit another
+ */
+export function debitCredit(debitAccount: string, creditAccount: string, amountCents: number): LedgerLine[] {
+  return [
+    { account: debitAccount, amountCents },
+    { account: creditAccount, amountCents: -amountCents },
+  ];
+}
+
+export interface WalletReconciliation {
+  userId: number;
+  walletId: number;
+  balance: string;
+  ledgerBalance: string;
+  balanceDrift: string; // wallets.balance - ledger
+  pendingBalance: string;
+  ledgerPendingBalance: string;
+  pendingDrift: string;
+  hasDrift: boolean;
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Ledger balance of each account matching the condition, in cents
+ * Wallet and payroll accounts are liabilities, so their balance is the negated sum of their lines.
+ */
+async function getLedgerBalances(executor: DbExecutor, where: SQL): Promise<Map<string, number>> {
+  const sums = await executor.select({
+    account: ledgerEntries.account,
+    total: sql<string>`SUM(${ledgerEntries.amountCents})`,
+  })
+    .from(ledgerEntries)
+    .where(where)
+    .groupBy(ledgerEntries.account);
+  return new Map(sums.map(row => [row.account, -parseInt(row.total)]));
+}
+
+/**
+ * Funds held in a liability account such as a business payroll, in cents
+ */
+export async function getAccountBalanceCents(account: string, executor: DbExecutor = db): Promise<number> {
+  const balances = await getLedgerBalances(executor, eq(ledgerEntries.account, account));
+  return balances.get(account) || 0;
+}
+
+/**
+ * Compare each wallet's stored balances with the balances derived from the ledger
+ * @param userId - Only check this user's wallet
+ */
+export async function reconcileWallets(userId?: number) {
+  const walletRows = userId !== undefined
+    ? await db.select().from(wallets).where(eq(wallets.userId, userId))
+    : await db.select().from(wallets);
+
+  const ledgerCents = await getLedgerBalances(db, userId !== undefined ? eq(ledgerEntries.userId, userId) : like(ledgerEntries.account, "wallet:%"));
+
+  const results: WalletReconciliation[] = walletRows.map(wallet => {
+    const balanceCents = Math.round(parseFloat(wallet.balance) * 100);
+    const pendingCents = Math.round(parseFloat(wallet.pendingBalance) * 100);
+    const ledgerBalance = ledgerCents.get(LEDGER_ACCOUNTS.walletAvailable(wallet.userId)) || 0;
+    const ledgerPending = ledgerCents.get(LEDGER_ACCOUNTS.walletPending(wallet.userId)) || 0;
+
+    return {
+      userId: wallet.userId,
+      walletId: wallet.id,
+      balance: wallet.balance,
+      ledgerBalance: formatCents(ledgerBalance),
+      balanceDrift: formatCents(balanceCents - ledgerBalance),
+      pendingBalance: wallet.pendingBalance,
+      ledgerPendingBalance: formatCents(ledgerPending),
+      pendingDrift: formatCents(pendingCents - ledgerPending),
+      hasDrift: balanceCents !== ledgerBalance || pendingCents !== ledgerPending,
+    };
+  });
+
+  // Journals whose lines do not sum to zero mean the ledger itself is corrupt
+  const unbalanced = await db.select({
+    journalId: ledgerEntries.journalId,
+    total: sql<string>`SUM(${ledgerEntries.amountCents})`,
+  })
+    .from(ledgerEntries)
+    .groupBy(ledgerEntries.journalId)
+    .having(sql`SUM(${ledgerEntries.amountCents}) <> 0`);
+
+  return {
+    checkedAt: new Date().toISOString(),
+    walletCount: results.length,
+    driftCount: results.filter(r => r.hasDrift).length,
+    wallets: results.filter(r => r.hasDrift),
+    unbalancedJournals: unbalanced.map(row => ({ journalId: row.journalId, totalCents: parseInt(row.total) })),
+  };
+}
+
+/**
+ * Ledger lines for one wallet owner, newest first
+ */
+export async function getWalletLedger(userId: number, limit: number = 100): Promise<LedgerEntry[]> {
+  return db.select().from(ledgerEntries)
+    .where(eq(ledgerEntries.userId, userId))
+    .orderBy(desc(ledgerEntries.createdAt), desc(ledgerEntries.id))
+    .limit(limit);
+}
+
+export interface OpeningBalance {
+  userId: number;
+  balanceCents: number;
+  pendingCents: number;
+}
+
+/**
+ * Post an opening_balance journal for every wallet whose stored balances exceed its ledger balances
+ * Run once, right after the ledger is deployed (`npm run ledger:opening-balances`); run later, it
+ * would book real drift as an opening balance. Wallets that already have one are skipped.
+ * @returns The opening balances posted
+ */
+export async function postOpeningBalances(): Promise<OpeningBalance[]> {
+  const walletRows = await db.select({ userId: wallets.userId }).from(wallets);
+  const posted: OpeningBalance[] = [];
+
+  for (const { userId } of walletRows) {
+    const opening = await db.transaction(async (tx) => {
+      // Lock the wallet so no credit lands between reading its balance and its ledger
+      const [wallet] = await tx.select().from(wallets).where(eq(wallets.userId, userId)).for("update");
+      const [existing] = await tx.select({ id: ledgerEntries.id }).from(ledgerEntries)
+        .where(and(eq(ledgerEntries.userId, userId), eq(ledgerEntries.kind, "opening_balance")))
+        .limit(1);
+      if (!wallet || existing) return null;
+
+      const ledgerCents = await getLedgerBalances(tx, eq(ledgerEntries.userId, userId));
+      const balanceCents = Math.round(parseFloat(wallet.balance) * 100) - (ledgerCents.get(LEDGER_ACCOUNTS.walletAvailable(userId)) || 0);
+      const pendingCents = Math.round(parseFloat(wallet.pendingBalance) * 100) - (ledgerCents.get(LEDGER_ACCOUNTS.walletPending(userId)) || 0);
+      if (balanceCents === 0 && pendingCents === 0) return null;
+
+      await postJournal(tx, {
+        kind: "opening_balance",
+        lines: [
+          ...debitCredit(LEDGER_ACCOUNTS.openingBalances, LEDGER_ACCOUNTS.walletAvailable(userId), balanceCents),
+          ...debitCredit(LEDGER_ACCOUNTS.openingBalances, LEDGER_ACCOUNTS.walletPending(userId), pendingCents),
+        ],
+        description: "Wallet balance from before the ledger",
+        reference: `opening_balance_${userId}`,
+      });
+      return { userId, balanceCents, pendingCents };
+    });
+    if (opening) posted.push(opening);
+  }
+
+  return posted;
+}
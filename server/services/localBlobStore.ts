@@ -0,0 +1,45 @@
+/**
+ * Local Blob Store - Keeps blobs as files under a root directory
+ * Keys map to relative paths (e.g. "documents/op_1/welding/certification-123.pdf"); keys that
+ * would resolve outside the root are rejected.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { BlobStore } from "./blobStore";
+
+export class LocalBlobStore implements BlobStore {
+  readonly name = "local";
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Mail Transport - Provider-agnostic outgoing email
+ * Transactional mail (verification codes, password resets) is sent through the active
+ * transport. MAIL_TRANSPORT chooses "console" (the default, logs each message) or "file",
+ * which writes each message under MAIL_OUTBOX_DIR so codes can be read back offline.
+ */
+
+import { ConsoleMailTransport } from "./consoleMailTransport";
+import { FileMailTransport } from "./fileMailTransport";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+let activeTransport: MailTransport | null = null;
+
+function createTransport(): MailTransport {
+  const configured = process.env.MAIL_TRANSPORT || "console";
+  if (configured === "file") {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || "mail-outbox");
+  }
+  if (configured !== "console") {
+    throw new Error(`Unknown MAIL_TRANSPORT "${configured}"`);
+  }
+  return new ConsoleMailTransport();
+}
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransport();
+    console.log(`[Mail] Using ${activeTransport.name} mail transport`);
+  }
+  return activeTransport;
+}
+
+/**
+ * Replace the active transport, e.g. with one that records messages in tests
+ */
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
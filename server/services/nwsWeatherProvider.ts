@@ -0,0 +1,73 @@
+/**
+ * NWS Weather Provider - National Weather Service (NWS) API Integration
+ * Provides free, unlimited weather alerts for the United States
+ * API Documentation: https://www.weather.gov/documentation/services-web-api
+ */
+
+import type { WeatherProvider } from "./weatherProvider";
+import type { AlertGeometry, WeatherAlert } from "./weatherService";
+
+type NWSAlertProperties = Omit<WeatherAlert, "countryCode" | "regionCodes" | "geometry"> & {
+  geocode?: { UGC?: string[] }; // NWS zone/county codes, e.g. "COZ039" - the first two letters are the state
+};
+
+interface NWSResponse {
+  features: Array<{
+    id: string;
+    properties: NWSAlertProperties;
+    geometry: AlertGeometry | null;
+  }>;
+}
+
+// States an alert covers, from its UGC codes
+function getRegionCodes(properties: NWSAlertProperties): string[] {
+  const codes = (properties.geocode?.UGC || []).map(code => code.slice(0, 2).toUpperCase());
+  return Array.from(new Set(codes));
+}
+
+export class NwsWeatherProvider implements WeatherProvider {
+  readonly name = "nws";
+
+  covers(countryCode: string): boolean {
+    return countryCode === "US";
+  }
+
+  async getAlerts(_countryCode: string, regionCodes: string[]): Promise<WeatherAlert[]> {
+    if (regionCodes.length === 0) {
+      return this.fetchAlerts("https://api.weather.gov/alerts/active");
+    }
+
+    // An alert spanning several states is returned for each of them
+    const alerts = new Map<string, WeatherAlert>();
+    for (const regionCode of regionCodes) {
+      const regionAlerts = await this.fetchAlerts(`https://api.weather.gov/alerts/active?area=${encodeURIComponent(regionCode)}`);
+      regionAlerts.forEach(alert => alerts.set(alert.id, alert));
+    }
+    return Array.from(alerts.values());
+  }
+
+  private async fetchAlerts(url: string): Promise<WeatherAlert[]> {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "Fleetly/1.0 (contact@fleetly.app)", // NWS requires a User-Agent
+        "Accept": "application/geo+json"
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`NWS API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as NWSResponse;
+
+    return data.features.map(feature => {
+      const { geocode: _geocode, ...properties } = feature.properties;
+      return {
+        ...properties,
+        countryCode: "US",
+        regionCodes: getRegionCodes(feature.properties),
+        geometry: feature.geometry,
+      };
+    });
+  }
+}
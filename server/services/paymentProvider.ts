@@ -0,0 +1,105 @@
+/**
+ * Payment Provider - Gateway-agnostic payment operations
+ * Jobs place a hold on the customer's card when accepted (authorize), charge it on
+ * completion (capture), return it on cancellation (refund) and pay operators out (payout).
+ * The active provider is chosen by PAYMENT_PROVIDER ("stripe" | "fake"); without it, Stripe is
+ * used when STRIPE_SECRET_KEY is set and the in-process fake gateway otherwise. The fake keeps
+ * charges in memory, so it is refused when NODE_ENV=production.
+ */
+
+import { StripePaymentProvider } from "./stripePaymentProvider";
+import { FakePaymentProvider } from "./fakePaymentProvider";
+
+export interface AuthorizeRequest {
+  amountCents: number;
+  currency: string;
+  paymentMethodId: string | null; // Provider payment method; null when the customer has none on file
+  description: string;
+  idempotencyKey: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentResult {
+  success: boolean;
+  providerPaymentId: string | null;
+  amountCents: number; // Amount authorized, captured or refunded by this call
+  failureReason?: string;
+}
+
+export interface PayoutRequest {
+  amountCents: number;
+  currency: string;
+  destination: string | null; // Provider account receiving the funds; null when none is connected
+  description: string;
+  idempotencyKey: string;
+}
+
+export interface PayoutResult {
+  success: boolean;
+  providerPayoutId: string | null;
+  failureReason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  /** Place a hold for the amount without charging it */
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  /** Charge up to the authorized amount */
+  capture(providerPaymentId: string, amountCents: number): Promise<PaymentResult>;
+  /**
+   * Return captured funds, or release the hold when nothing was captured yet
+   * A retry with the same idempotencyKey returns the first result rather than refunding again
+   */
+  refund(providerPaymentId: string, amountCents: number, idempotencyKey: string): Promise<PaymentResult>;
+  /** Transfer funds to an operator's payout account */
+  payout(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * Provider selected by the environment
+ * @throws When Stripe is selected without a key, or when production would fall back to the fake
+ */
+export function createPaymentProvider(): PaymentProvider {
+  const configured = process.env.PAYMENT_PROVIDER;
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+
+  if (configured === "stripe" || (!configured && secretKey)) {
+    if (!secretKey) {
+      throw new Error("PAYMENT_PROVIDER is stripe but STRIPE_SECRET_KEY is not set");
+    }
+    return new StripePaymentProvider(secretKey);
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("No payment provider configured for production: set STRIPE_SECRET_KEY");
+  }
+  return new FakePaymentProvider();
+}
+
+/**
+ * The active provider, created on first use - call at startup to fail fast on bad configuration
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!activeProvider) {
+    activeProvider = createPaymentProvider();
+    console.log(`[Payments] Using ${activeProvider.name} payment provider`);
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider, e.g. with a fresh FakePaymentProvider in tests
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Convert a dollar amount (number or decimal string) to whole cents
+ */
+export function toCents(amount: number | string | null | undefined): number {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  if (!value || !Number.isFinite(value) || value <= 0) return 0;
+  return Math.round(value * 100);
+}
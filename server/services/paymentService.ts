@@ -0,0 +1,257 @@
+/**
+ * Payment Service - Customer payment lifecycle for accepted jobs
+ * A hold is authorized when an operator accepts a service request, captured when the job
+ * completes and refunded (or released) when it is cancelled. Each step is recorded in the
+ * payments table and money that actually moves is posted to the ledger; gateway declines and
+ * errors are recorded rather than failing the job flow.
+ */
+
+import { db } from "../db";
+import { payments, paymentCards, serviceRequests, users, customers } from "@shared/schema";
+import type { Payment, PaymentStatus } from "@shared/schema";
+import { resolveBudget } from "@shared/pricing";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { getPaymentProvider, toCents } from "./paymentProvider";
+import type { PaymentResult } from "./paymentProvider";
+import { postJournal, debitCredit, LEDGER_ACCOUNTS } from "./ledgerService";
+
+export const PAYMENT_CURRENCY = "CAD";
+
+// Payments that still hold or have taken the customer's money
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ["authorized", "captured", "partially_refunded"];
+
+async function callProvider(operation: () => Promise<PaymentResult>, providerPaymentId: string | null = null): Promise<PaymentResult> {
+  try {
+    return await operation();
+  } catch (error) {
+    console.error("[Payments] Provider request failed:", error);
+    return { success: false, providerPaymentId, amountCents: 0, failureReason: "provider_error" };
+  }
+}
+
+/**
+ * Provider payment method for the customer's default card, if they have one on file
+ * Service requests carry either the user's userId or a customers.customerId
+ */
+export async function findCustomerPaymentMethod(customerId: string): Promise<string | null> {
+  let user = await db.query.users.findFirst({ where: eq(users.userId, customerId) });
+  if (!user) {
+    const customer = await db.query.customers.findFirst({ where: eq(customers.customerId, customerId) });
+    if (customer) {
+      user = await db.query.users.findFirst({ where: eq(users.email, customer.email) });
+    }
+  }
+  if (!user) return null;
+
+  const [card] = await db.select().from(paymentCards)
+    .where(eq(paymentCards.userId, user.id))
+    .orderBy(desc(paymentCards.isDefault), desc(paymentCards.createdAt))
+    .limit(1);
+  return card?.stripePaymentMethodId || null;
+}
+
+/**
+ * Amount to hold for a job: the agreed price, otherwise the top of the customer's budget
+ */
+export function getAuthorizationAmount(actualEarnings: string | number | null | undefined, jobData: unknown): number {
+  const agreed = typeof actualEarnings === "string" ? parseFloat(actualEarnings) : actualEarnings;
+  if (agreed && agreed > 0) return agreed;
+
+  return resolveBudget(jobData)?.max ?? 0;
+}
+
+/**
+ * The open payment for a service request, if any
+ */
+export async function getOpenJobPayment(serviceRequestId: string): Promise<Payment | null> {
+  const [payment] = await db.select().from(payments)
+    .where(and(
+      eq(payments.serviceRequestId, serviceRequestId),
+      inArray(payments.status, OPEN_PAYMENT_STATUSES)
+    ))
+    .orderBy(desc(payments.createdAt))
+    .limit(1);
+  return payment || null;
+}
+
+/**
+ * Place a hold on the customer's card when an operator accepts their request
+ * Returns the existing payment if the request already has one, and null when there is
+ * nothing to charge (no service request or no price yet)
+ */
+export async function authorizeJobPayment(params: {
+  serviceRequestId: string;
+  acceptedJobId: string;
+  operatorId: string;
+  amount: number;
+}): Promise<Payment | null> {
+  const existing = await getOpenJobPayment(params.serviceRequestId);
+  if (existing) return existing;
+
+  const request = await db.query.serviceRequests.findFirst({
+    where: eq(serviceRequests.requestId, params.serviceRequestId),
+  });
+  const amountCents = toCents(params.amount);
+  if (!request || amountCents === 0) return null;
+
+  const provider = getPaymentProvider();
+  const paymentMethodId = await findCustomerPaymentMethod(request.customerId);
+  const result = await callProvider(() => provider.authorize({
+    amountCents,
+    currency: PAYMENT_CURRENCY,
+    paymentMethodId,
+    description: `Fleetly ${request.serviceType} (${request.requestId})`,
+    idempotencyKey: `authorize_${params.acceptedJobId}`,
+    metadata: { serviceRequestId: request.requestId, acceptedJobId: params.acceptedJobId },
+  }));
+
+  const now = new Date();
+  const [payment] = await db.insert(payments).values({
+    paymentId: `pay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    serviceRequestId: request.requestId,
+    acceptedJobId: params.acceptedJobId,
+    customerId: request.customerId,
+    operatorId: params.operatorId,
+    provider: provider.name,
+    providerPaymentId: result.providerPaymentId,
+    paymentMethodId,
+    status: result.success ? "authorized" : "failed",
+    currency: PAYMENT_CURRENCY,
+    authorizedCents: result.success ? result.amountCents : 0,
+    failureReason: result.failureReason || null,
+    authorizedAt: result.success ? now : null,
+  }).returning();
+
+  if (result.success) {
+    await db.update(serviceRequests)
+      .set({ paymentStatus: "authorized" })
+      .where(eq(serviceRequests.requestId, request.requestId));
+  } else {
+    console.warn(`[Payments] Authorization for ${request.requestId} failed: ${result.failureReason}`);
+  }
+
+  return payment;
+}
+
+/**
+ * Charge the customer for a completed job, up to the authorized amount
+ * Returns the updated payment, or null when the request has no authorized payment
+ */
+export async function captureJobPayment(serviceRequestId: string, amount: number): Promise<Payment | null> {
+  const payment = await getOpenJobPayment(serviceRequestId);
+  if (!payment || payment.status !== "authorized" || !payment.providerPaymentId) return payment;
+
+  const requestedCents = toCents(amount) || payment.authorizedCents;
+  const amountCents = Math.min(requestedCents, payment.authorizedCents);
+  if (requestedCents > payment.authorizedCents) {
+    console.warn(`[Payments] Capture for ${serviceRequestId} exceeds the hold, capturing ${amountCents} of ${requestedCents} cents`);
+  }
+
+  const provider = getPaymentProvider();
+  const providerPaymentId = payment.providerPaymentId;
+  const result = await callProvider(() => provider.capture(providerPaymentId, amountCents), providerPaymentId);
+  if (!result.success) {
+    console.warn(`[Payments] Capture for ${serviceRequestId} failed: ${result.failureReason}`);
+    const [failed] = await db.update(payments)
+      .set({ failureReason: result.failureReason || null, updatedAt: new Date() })
+      .where(eq(payments.paymentId, payment.paymentId))
+      .returning();
+    return failed;
+  }
+
+  const now = new Date();
+  return db.transaction(async (tx) => {
+    const [captured] = await tx.update(payments)
+      .set({ status: "captured", capturedCents: result.amountCents, capturedAt: now, failureReason: null, updatedAt: now })
+      .where(eq(payments.paymentId, payment.paymentId))
+      .returning();
+
+    await postJournal(tx, {
+      kind: "customer_charge",
+      lines: debitCredit(LEDGER_ACCOUNTS.cash, LEDGER_ACCOUNTS.customerFunds, result.amountCents),
+      description: `Customer charged for ${serviceRequestId}`,
+      reference: serviceRequestId,
+      currency: payment.currency,
+    });
+    return captured;
+  });
+}
+
+/**
+ * Refund a job's payment, or release the hold if it was never captured
+ * @param amount - Dollars to refund; defaults to everything not yet refunded
+ * Returns the updated payment, or null when the request has no open payment
+ */
+export async function refundJobPayment(serviceRequestId: string, amount?: number): Promise<Payment | null> {
+  const payment = await getOpenJobPayment(serviceRequestId);
+  if (!payment || !payment.providerPaymentId) return null;
+
+  const remainingCents = payment.capturedCents - payment.refundedCents;
+  const amountCents = payment.status === "authorized"
+    ? 0
+    : Math.min(amount !== undefined ? toCents(amount) : remainingCents, remainingCents);
+  if (payment.status !== "authorized" && amountCents === 0) return payment;
+
+  const provider = getPaymentProvider();
+  const providerPaymentId = payment.providerPaymentId;
+  // Keyed by what was refunded before this attempt, so a retry after a timeout cannot refund twice
+  const idempotencyKey = `refund_${payment.paymentId}_${payment.refundedCents}`;
+  const result = await callProvider(() => provider.refund(providerPaymentId, amountCents, idempotencyKey), providerPaymentId);
+  if (!result.success) {
+    console.warn(`[Payments] Refund for ${serviceRequestId} failed: ${result.failureReason}`);
+    const [failed] = await db.update(payments)
+      .set({ failureReason: result.failureReason || null, updatedAt: new Date() })
+      .where(eq(payments.paymentId, payment.paymentId))
+      .returning();
+    return failed;
+  }
+
+  const refundedCents = payment.refundedCents + result.amountCents;
+  const status: PaymentStatus = payment.status === "authorized"
+    ? "voided"
+    : refundedCents >= payment.capturedCents ? "refunded" : "partially_refunded";
+
+  const now = new Date();
+  return db.transaction(async (tx) => {
+    const [refunded] = await tx.update(payments)
+      .set({ status, refundedCents, refundedAt: now, failureReason: null, updatedAt: now })
+      .where(eq(payments.paymentId, payment.paymentId))
+      .returning();
+
+    // Releasing a hold moves no money, so only real refunds are posted
+    await postJournal(tx, {
+      kind: "refund",
+      lines: debitCredit(LEDGER_ACCOUNTS.customerFunds, LEDGER_ACCOUNTS.cash, result.amountCents),
+      description: `Customer refunded for ${serviceRequestId}`,
+      reference: serviceRequestId,
+      currency: payment.currency,
+    });
+    return refunded;
+  });
+}
+
+/**
+ * Settle the payment for a request the customer cancelled
+ * Captures the cancellation fee from the hold (the rest of the hold is released) and books it
+ * as platform revenue, or releases the whole hold when there is no fee
+ */
+export async function chargeCancellationFee(serviceRequestId: string, feeCents: number): Promise<Payment | null> {
+  const payment = await getOpenJobPayment(serviceRequestId);
+  if (!payment || payment.status !== "authorized") return payment;
+
+  if (feeCents <= 0) {
+    return refundJobPayment(serviceRequestId);
+  }
+
+  const captured = await captureJobPayment(serviceRequestId, feeCents / 100);
+  if (captured?.status === "captured") {
+    await postJournal(db, {
+      kind: "cancellation_fee",
+      lines: debitCredit(LEDGER_ACCOUNTS.customerFunds, LEDGER_ACCOUNTS.cancellationFees, captured.capturedCents),
+      description: `Cancellation fee for ${serviceRequestId}`,
+      reference: serviceRequestId,
+      currency: captured.currency,
+    });
+  }
+  return captured;
+}
@@ -0,0 +1,333 @@
+/**
+ * Payout Service - Wallet withdrawals and the batches that pay them out
+ * A withdrawal moves money from balance to pendingBalance. A payout batch then sends each
+ * pending withdrawal through the payment provider's payout operation, completing it or, on
+ * failure, returning the funds to balance with a compensating "refund" transaction. Each step
+ * commits together with its ledger journal. A batch left "processing" by a crash is picked up
+ * again by recoverStalePayoutBatches; payouts are idempotent per withdrawal, so re-sending is safe.
+ */
+
+import { db } from "../db";
+import { wallets, walletTransactions, payoutBatches, users } from "@shared/schema";
+import type { PayoutBatch, Wallet, WalletTransaction } from "@shared/schema";
+import { and, desc, eq, gte, inArray, isNull, lt, sql } from "drizzle-orm";
+import { getPaymentProvider, toCents } from "./paymentProvider";
+import type { PayoutResult } from "./paymentProvider";
+import { notificationService } from "../notificationService";
+import { postJournal, debitCredit, LEDGER_ACCOUNTS } from "./ledgerService";
+
+export const PAYOUT_SETTINGS = {
+  staleBatchMs: 60 * 60 * 1000, // A batch still processing after this long is assumed interrupted
+};
+
+function readAmountSetting(name: string, fallback: number): number {
+  const configured = process.env[name];
+  const value = configured ? Number(configured) : NaN;
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Withdrawal limits, configurable with WITHDRAWAL_MIN_AMOUNT and WITHDRAWAL_DAILY_LIMIT (dollars)
+ */
+export function getWithdrawalLimits() {
+  return {
+    minAmount: readAmountSetting("WITHDRAWAL_MIN_AMOUNT", 10),
+    dailyLimit: readAmountSetting("WITHDRAWAL_DAILY_LIMIT", 2000),
+  };
+}
+
+/**
+ * Check a withdrawal against the minimum amount and the wallet's daily limit
+ * @returns A message explaining why the withdrawal is not allowed, or null if it is
+ */
+export async function checkWithdrawalLimits(walletId: number, amount: number, now: Date = new Date()): Promise<string | null> {
+  const { minAmount, dailyLimit } = getWithdrawalLimits();
+  if (amount < minAmount) {
+    return `Minimum withdrawal is $${minAmount.toFixed(2)}`;
+  }
+
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const [today] = await db.select({
+    total: sql<string>`COALESCE(SUM(-${walletTransactions.amount}), 0)`,
+  })
+    .from(walletTransactions)
+    .where(and(
+      eq(walletTransactions.walletId, walletId),
+      eq(walletTransactions.type, "withdrawal"),
+      inArray(walletTransactions.status, ["pending", "completed"]),
+      gte(walletTransactions.createdAt, startOfDay)
+    ));
+
+  const withdrawnToday = parseFloat(today?.total || "0");
+  if (withdrawnToday + amount > dailyLimit) {
+    const remaining = Math.max(0, dailyLimit - withdrawnToday);
+    return `Daily withdrawal limit is $${dailyLimit.toFixed(2)} ($${remaining.toFixed(2)} remaining today)`;
+  }
+  return null;
+}
+
+/**
+ * Move the amount from balance to pendingBalance and record a pending withdrawal
+ * @returns The withdrawal transaction, or null if the balance is too low
+ */
+export async function requestWithdrawal(wallet: Wallet, amount: number): Promise<WalletTransaction | null> {
+  const amountText = amount.toFixed(2);
+
+  return db.transaction(async (tx) => {
+    // Guard on the balance in SQL so two concurrent withdrawals cannot overdraw the wallet
+    const [debited] = await tx.update(wallets)
+      .set({
+        balance: sql`${wallets.balance} - ${amountText}`,
+        pendingBalance: sql`${wallets.pendingBalance} + ${amountText}`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(wallets.id, wallet.id),
+        gte(wallets.balance, amountText)
+      ))
+      .returning();
+    if (!debited) return null;
+
+    const [transaction] = await tx.insert(walletTransactions).values({
+      walletId: wallet.id,
+      userId: wallet.userId,
+      type: "withdrawal",
+      amount: (-amount).toFixed(2),
+      description: "Withdrawal to Bank Account",
+      status: "pending"
+    }).returning();
+
+    await postJournal(tx, {
+      kind: "withdrawal",
+      lines: debitCredit(LEDGER_ACCOUNTS.walletAvailable(wallet.userId), LEDGER_ACCOUNTS.walletPending(wallet.userId), toCents(amount)),
+      description: `Withdrawal #${transaction.id} requested`,
+      reference: `withdrawal_${transaction.id}`,
+      currency: wallet.currency,
+    });
+    return transaction;
+  });
+}
+
+async function notifyWithdrawalResult(walletUserId: number, amount: string, transactionId: number, failureReason?: string) {
+  const user = await db.query.users.findFirst({ where: eq(users.id, walletUserId) });
+  if (!user) return;
+
+  if (failureReason) {
+    await notificationService.notifyUserOfWithdrawalFailed(user.userId, user.role, amount, transactionId, failureReason);
+  } else {
+    await notificationService.notifyUserOfWithdrawalPaid(user.userId, user.role, amount, transactionId);
+  }
+}
+
+/**
+ * Pay out one claimed withdrawal and settle the wallet
+ * @returns Whether the payout succeeded
+ */
+async function processWithdrawal(withdrawal: WalletTransaction, batchId: string, now: Date): Promise<boolean> {
+  const amount = Math.abs(parseFloat(withdrawal.amount));
+  const amountText = amount.toFixed(2);
+  const [wallet] = await db.select().from(wallets).where(eq(wallets.id, withdrawal.walletId)).limit(1);
+
+  let result: PayoutResult;
+  try {
+    result = wallet
+      ? await getPaymentProvider().payout({
+        amountCents: toCents(amount),
+        currency: wallet.currency,
+        destination: wallet.payoutAccountId,
+        description: `Fleetly withdrawal #${withdrawal.id}`,
+        idempotencyKey: `withdrawal_${withdrawal.id}`,
+      })
+      : { success: false, providerPayoutId: null, failureReason: "wallet_not_found" };
+  } catch (error) {
+    console.error(`[Payouts] Provider request failed for withdrawal ${withdrawal.id}:`, error);
+    result = { success: false, providerPayoutId: null, failureReason: "provider_error" };
+  }
+
+  const metadata = (withdrawal.metadata as Record<string, unknown> | null) || {};
+
+  const amountCents = toCents(amount);
+  const reference = `withdrawal_${withdrawal.id}`;
+
+  // Only a still-pending withdrawal is settled, so a recovered batch cannot settle one twice
+  const pendingWithdrawal = and(eq(walletTransactions.id, withdrawal.id), eq(walletTransactions.status, "pending"));
+
+  if (result.success) {
+    const settled = await db.transaction(async (tx) => {
+      const [completed] = await tx.update(walletTransactions)
+        .set({ status: "completed", processedAt: now, metadata: { ...metadata, providerPayoutId: result.providerPayoutId } })
+        .where(pendingWithdrawal)
+        .returning();
+      if (!completed) return false;
+      await tx.update(wallets)
+        .set({ pendingBalance: sql`${wallets.pendingBalance} - ${amountText}`, updatedAt: now })
+        .where(eq(wallets.id, withdrawal.walletId));
+      await postJournal(tx, {
+        kind: "payout",
+        lines: debitCredit(LEDGER_ACCOUNTS.walletPending(withdrawal.userId), LEDGER_ACCOUNTS.cash, amountCents),
+        description: `Withdrawal #${withdrawal.id} paid out`,
+        reference,
+      });
+      return true;
+    });
+    if (settled) await notifyWithdrawalResult(withdrawal.userId, amountText, withdrawal.id);
+    return true;
+  }
+
+  const failureReason = result.failureReason || "payout_failed";
+  const settled = await db.transaction(async (tx) => {
+    const [failed] = await tx.update(walletTransactions)
+      .set({ status: "failed", processedAt: now, metadata: { ...metadata, failureReason } })
+      .where(pendingWithdrawal)
+      .returning();
+    if (!failed) return false;
+
+    if (!wallet) return true;
+
+    // Compensate: return the funds to the spendable balance and record why
+    await tx.update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${amountText}`,
+        pendingBalance: sql`${wallets.pendingBalance} - ${amountText}`,
+        updatedAt: now
+      })
+      .where(eq(wallets.id, wallet.id));
+    await tx.insert(walletTransactions).values({
+      walletId: wallet.id,
+      userId: withdrawal.userId,
+      type: "refund",
+      amount: amountText,
+      description: "Withdrawal returned to wallet (payout failed)",
+      status: "completed",
+      reference,
+      metadata: { withdrawalId: withdrawal.id, failureReason },
+      payoutBatchId: batchId,
+    });
+    await postJournal(tx, {
+      kind: "payout_reversal",
+      lines: debitCredit(LEDGER_ACCOUNTS.walletPending(withdrawal.userId), LEDGER_ACCOUNTS.walletAvailable(withdrawal.userId), amountCents),
+      description: `Withdrawal #${withdrawal.id} returned (${failureReason})`,
+      reference,
+      currency: wallet.currency,
+    });
+    return true;
+  });
+
+  if (settled) await notifyWithdrawalResult(withdrawal.userId, amountText, withdrawal.id, failureReason);
+  return false;
+}
+
+/**
+ * Record a batch's outcome from its withdrawals' statuses
+ */
+async function finishPayoutBatch(batchId: string): Promise<PayoutBatch> {
+  const withdrawals = await db.select().from(walletTransactions)
+    .where(and(eq(walletTransactions.payoutBatchId, batchId), eq(walletTransactions.type, "withdrawal")));
+  const paid = withdrawals.filter(t => t.status === "completed");
+  const succeeded = paid.length;
+  const failed = withdrawals.filter(t => t.status === "failed").length;
+  const paidAmount = paid.reduce((sum, t) => sum + Math.abs(parseFloat(t.amount)), 0);
+
+  const [batch] = await db.update(payoutBatches)
+    .set({
+      status: failed === 0 ? "completed" : succeeded === 0 ? "failed" : "partial",
+      succeededCount: succeeded,
+      failedCount: failed,
+      paidAmount: paidAmount.toFixed(2),
+      completedAt: new Date(),
+    })
+    .where(eq(payoutBatches.batchId, batchId))
+    .returning();
+  return batch;
+}
+
+/**
+ * Send every pending withdrawal through the payment provider as one batch
+ * @param triggeredBy - "schedule" for the weekly run, otherwise the admin's userId
+ * @returns The finished batch, or null when there were no pending withdrawals
+ */
+export async function runPayoutBatch(triggeredBy: string = "schedule", now: Date = new Date()): Promise<PayoutBatch | null> {
+  const batchId = `payout_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  // Claim the pending withdrawals so a concurrent run cannot pay them twice. The batch row commits
+  // with the claim, so a crash cannot leave withdrawals pointing at a batch recovery never finds
+  const claimed = await db.transaction(async (tx) => {
+    const withdrawals = await tx.update(walletTransactions)
+      .set({ payoutBatchId: batchId })
+      .where(and(
+        eq(walletTransactions.type, "withdrawal"),
+        eq(walletTransactions.status, "pending"),
+        isNull(walletTransactions.payoutBatchId)
+      ))
+      .returning();
+    if (withdrawals.length === 0) return withdrawals;
+
+    await tx.insert(payoutBatches).values({
+      batchId,
+      payoutDate: now.toISOString().split('T')[0],
+      status: "processing",
+      provider: getPaymentProvider().name,
+      withdrawalCount: withdrawals.length,
+      totalAmount: withdrawals.reduce((sum, t) => sum + Math.abs(parseFloat(t.amount)), 0).toFixed(2),
+      triggeredBy,
+    });
+    return withdrawals;
+  });
+  if (claimed.length === 0) return null;
+
+  for (const withdrawal of claimed) {
+    await processWithdrawal(withdrawal, batchId, now);
+  }
+
+  const batch = await finishPayoutBatch(batchId);
+  console.log(`[Payouts] Batch ${batchId}: ${batch.succeededCount} paid, ${batch.failedCount} failed ($${batch.paidAmount} of $${batch.totalAmount})`);
+  return batch;
+}
+
+/**
+ * Finish batches a crash left "processing": withdrawals they claimed but never settled are sent
+ * again (the provider's idempotency key stops a double payout) and the batch totals are recorded
+ * @returns The recovered batches
+ */
+export async function recoverStalePayoutBatches(now: Date = new Date()): Promise<PayoutBatch[]> {
+  const stale = await db.select().from(payoutBatches)
+    .where(and(
+      eq(payoutBatches.status, "processing"),
+      lt(payoutBatches.createdAt, new Date(now.getTime() - PAYOUT_SETTINGS.staleBatchMs))
+    ));
+
+  const recovered: PayoutBatch[] = [];
+  for (const stuck of stale) {
+    const unsettled = await db.select().from(walletTransactions)
+      .where(and(
+        eq(walletTransactions.payoutBatchId, stuck.batchId),
+        eq(walletTransactions.type, "withdrawal"),
+        eq(walletTransactions.status, "pending")
+      ));
+    for (const withdrawal of unsettled) {
+      await processWithdrawal(withdrawal, stuck.batchId, now);
+    }
+
+    const batch = await finishPayoutBatch(stuck.batchId);
+    console.log(`[Payouts] Recovered batch ${stuck.batchId}: resent ${unsettled.length}, ${batch.succeededCount} paid, ${batch.failedCount} failed`);
+    recovered.push(batch);
+  }
+  return recovered;
+}
+
+/**
+ * Whether the scheduled batch already ran for the given payout date
+ */
+export async function hasScheduledBatch(payoutDate: string): Promise<boolean> {
+  const [batch] = await db.select().from(payoutBatches)
+    .where(and(
+      eq(payoutBatches.payoutDate, payoutDate),
+      eq(payoutBatches.triggeredBy, "schedule")
+    ))
+    .limit(1);
+  return !!batch;
+}
+
+export async function getPayoutBatches(limit: number = 20): Promise<PayoutBatch[]> {
+  return db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt)).limit(limit);
+}
@@ -0,0 +1,414 @@
+/**
+ * Payroll Service - Driver payroll for professional-tier businesses
+ * Builds per-period statements from each driver's completed accepted_jobs, applies the
+ * driver's commission or hourly split, and pays approved periods into driver wallets from the
+ * business payroll account
+ */
+
+import { db } from "../db";
+import {
+  operators, users, businesses, acceptedJobs,
+  driverPayRates, payrollPeriods, payrollStatements,
+} from "@shared/schema";
+import type { Operator, DriverPayRate, DriverPayType, PayrollLineItem, PayrollPeriod, PayrollStatement } from "@shared/schema";
+import { and, eq, gte, gt, lt, inArray, asc } from "drizzle-orm";
+import { notificationService } from "../notificationService";
+import { creditWallet } from "./walletService";
+import { LEDGER_ACCOUNTS, getAccountBalanceCents } from "./ledgerService";
+import { toCents } from "./paymentProvider";
+
+// Drivers without a configured rate keep this share of their job earnings
+export const DEFAULT_DRIVER_COMMISSION_PERCENT = 70;
+
+export interface DriverPaySettings {
+  operatorId: string;
+  driverName: string;
+  payType: DriverPayType;
+  commissionPercent: number | null;
+  hourlyRate: number | null;
+  isDefault: boolean; // True when the business has not configured this driver yet
+}
+
+/**
+ * Operators attached to a business, excluding the owner's own operator profile
+ */
+export async function getPayrollDrivers(businessId: string, ownerOperatorId?: string | null): Promise<Operator[]> {
+  const attached = await db.select().from(operators).where(eq(operators.businessId, businessId));
+  return attached.filter(op => op.operatorId !== ownerOperatorId);
+}
+
+/**
+ * Pay settings for every driver, falling back to the default commission split
+ */
+export async function getDriverPaySettings(businessId: string, drivers: Operator[]): Promise<DriverPaySettings[]> {
+  const rates = await db.select().from(driverPayRates).where(eq(driverPayRates.businessId, businessId));
+  const rateByOperator = new Map<string, DriverPayRate>(rates.map(r => [r.operatorId, r]));
+
+  return drivers.map(driver => {
+    const rate = rateByOperator.get(driver.operatorId);
+    return {
+      operatorId: driver.operatorId,
+      driverName: driver.driverName || driver.name,
+      payType: (rate?.payType as DriverPayType) || "commission",
+      commissionPercent: rate
+        ? (rate.commissionPercent ? parseFloat(rate.commissionPercent) : null)
+        : DEFAULT_DRIVER_COMMISSION_PERCENT,
+      hourlyRate: rate?.hourlyRate ? parseFloat(rate.hourlyRate) : null,
+      isDefault: !rate,
+    };
+  });
+}
+
+/**
+ * Create or replace a driver's pay split (inputs are validated by the route)
+ */
+export async function setDriverPayRate(businessId: string, operatorId: string, payType: DriverPayType, commissionPercent?: string | null, hourlyRate?: string | null): Promise<DriverPayRate> {
+  const values = {
+    payType,
+    commissionPercent: payType === "commission" ? parseFloat(commissionPercent!).toFixed(2) : null,
+    hourlyRate: payType === "hourly" ? parseFloat(hourlyRate!).toFixed(2) : null,
+    updatedAt: new Date(),
+  };
+
+  const [rate] = await db.insert(driverPayRates)
+    .values({ businessId, operatorId, ...values })
+    .onConflictDoUpdate({
+      target: [driverPayRates.businessId, driverPayRates.operatorId],
+      set: values,
+    })
+    .returning();
+  return rate;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Apply a driver's split to their completed jobs
+ * Hourly drivers are paid for the time between job start and completion
+ */
+export function calculateDriverPay(settings: DriverPaySettings, jobs: Array<{
+  acceptedJobId: string;
+  serviceType: string;
+  actualEarnings: string | null;
+  startedAt: Date | null;
+  completedAt: Date;
+}>) {
+  const lineItems: PayrollLineItem[] = jobs.map(job => {
+    const earnings = parseFloat(job.actualEarnings || "0");
+    const hours = job.startedAt
+      ? Math.max(0, (job.completedAt.getTime() - job.startedAt.getTime()) / (60 * 60 * 1000))
+      : 0;
+    const pay = settings.payType === "hourly"
+      ? hours * (settings.hourlyRate || 0)
+      : earnings * (settings.commissionPercent || 0) / 100;
+
+    return {
+      acceptedJobId: job.acceptedJobId,
+      serviceType: job.serviceType,
+      completedAt: job.completedAt.toISOString(),
+      hours: roundCurrency(hours),
+      earnings: roundCurrency(earnings),
+      pay: roundCurrency(pay),
+    };
+  });
+
+  const grossEarnings = roundCurrency(lineItems.reduce((sum, item) => sum + item.earnings, 0));
+  const driverPay = roundCurrency(lineItems.reduce((sum, item) => sum + item.pay, 0));
+
+  return {
+    lineItems,
+    jobCount: lineItems.length,
+    hoursWorked: roundCurrency(lineItems.reduce((sum, item) => sum + item.hours, 0)),
+    grossEarnings,
+    driverPay,
+    businessShare: roundCurrency(grossEarnings - driverPay),
+  };
+}
+
+/**
+ * An existing period for the business that shares any time with the given range
+ * Periods may not overlap so no job is paid twice
+ */
+export async function findOverlappingPayrollPeriod(businessId: string, periodStart: Date, periodEnd: Date): Promise<PayrollPeriod | null> {
+  const [overlapping] = await db.select().from(payrollPeriods).where(and(
+    eq(payrollPeriods.businessId, businessId),
+    lt(payrollPeriods.periodStart, periodEnd),
+    gt(payrollPeriods.periodEnd, periodStart)
+  )).limit(1);
+  return overlapping || null;
+}
+
+/**
+ * Build a draft payroll period with one statement per driver
+ */
+export async function createPayrollPeriod(businessId: string, periodStart: Date, periodEnd: Date, ownerOperatorId?: string | null): Promise<PayrollPeriod & { statements: PayrollStatement[] }> {
+  const drivers = await getPayrollDrivers(businessId, ownerOperatorId);
+  const settings = await getDriverPaySettings(businessId, drivers);
+
+  const completedJobs = drivers.length > 0
+    ? await db.select().from(acceptedJobs).where(and(
+      inArray(acceptedJobs.operatorId, drivers.map(d => d.operatorId)),
+      eq(acceptedJobs.status, "completed"),
+      gte(acceptedJobs.completedAt, periodStart),
+      lt(acceptedJobs.completedAt, periodEnd)
+    )).orderBy(asc(acceptedJobs.completedAt))
+    : [];
+
+  const payrollPeriodId = `payroll_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  const statementValues = settings.map((driverSettings, index) => {
+    const jobs = completedJobs
+      .filter(job => job.operatorId === driverSettings.operatorId)
+      .map(job => ({
+        acceptedJobId: job.acceptedJobId,
+        serviceType: (job.jobData as { serviceType?: string } | null)?.serviceType || "service",
+        actualEarnings: job.actualEarnings,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt!,
+      }));
+    const pay = calculateDriverPay(driverSettings, jobs);
+
+    return {
+      statementId: `stmt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}_${index}`,
+      payrollPeriodId,
+      businessId,
+      operatorId: driverSettings.operatorId,
+      driverName: driverSettings.driverName,
+      payType: driverSettings.payType,
+      commissionPercent: driverSettings.commissionPercent?.toFixed(2) ?? null,
+      hourlyRate: driverSettings.hourlyRate?.toFixed(2) ?? null,
+      jobCount: pay.jobCount,
+      hoursWorked: pay.hoursWorked.toFixed(2),
+      grossEarnings: pay.grossEarnings.toFixed(2),
+      driverPay: pay.driverPay.toFixed(2),
+      businessShare: pay.businessShare.toFixed(2),
+      lineItems: pay.lineItems,
+    };
+  });
+
+  const [period] = await db.insert(payrollPeriods).values({
+    payrollPeriodId,
+    businessId,
+    periodStart,
+    periodEnd,
+    totalGrossEarnings: roundCurrency(statementValues.reduce((sum, s) => sum + parseFloat(s.grossEarnings), 0)).toFixed(2),
+    totalDriverPay: roundCurrency(statementValues.reduce((sum, s) => sum + parseFloat(s.driverPay), 0)).toFixed(2),
+  }).returning();
+
+  const statements = statementValues.length > 0
+    ? await db.insert(payrollStatements).values(statementValues).returning()
+    : [];
+
+  return { ...period, statements };
+}
+
+export async function getPayrollPeriod(businessId: string, payrollPeriodId: string) {
+  const [period] = await db.select().from(payrollPeriods).where(and(
+    eq(payrollPeriods.businessId, businessId),
+    eq(payrollPeriods.payrollPeriodId, payrollPeriodId)
+  ));
+  if (!period) return null;
+
+  const statements = await db.select().from(payrollStatements)
+    .where(eq(payrollStatements.payrollPeriodId, payrollPeriodId))
+    .orderBy(asc(payrollStatements.driverName));
+
+  return { ...period, statements };
+}
+
+export type PayrollApproval =
+  | { status: "approved"; period: PayrollPeriod & { statements: PayrollStatement[] } }
+  | { status: "not_found" }
+  | { status: "already_paid" }
+  | { status: "unfunded"; requiredCents: number; availableCents: number };
+
+/**
+ * Claim one unpaid statement and credit the driver's wallet in a single transaction
+ * A failed credit rolls the claim back, leaving the statement unpaid for the next approval
+ * @returns Whether money was paid into a wallet
+ */
+async function payPayrollStatement(statement: PayrollStatement, businessName: string, periodLabel: string, now: Date): Promise<boolean> {
+  const amount = parseFloat(statement.driverPay);
+  const driverUser = await db.query.users.findFirst({
+    where: eq(users.operatorId, statement.operatorId),
+  });
+
+  const paid = await db.transaction(async (tx) => {
+    // The claim makes a concurrent approval skip this statement rather than pay it twice
+    const [claimed] = await tx.update(payrollStatements)
+      .set(driverUser ? { status: "paid", paidAt: now } : { status: "no_wallet" })
+      .where(and(
+        eq(payrollStatements.id, statement.id),
+        eq(payrollStatements.status, "draft")
+      ))
+      .returning();
+    if (!claimed || !driverUser || amount <= 0) return false;
+
+    const { transaction } = await creditWallet({
+      userId: driverUser.id,
+      amount,
+      description: `Payroll from ${businessName} (${periodLabel})`,
+      reference: statement.payrollPeriodId,
+      kind: "payroll",
+      fundedBy: LEDGER_ACCOUNTS.businessPayroll(statement.businessId),
+      tier: "professional",
+      metadata: { statementId: statement.statementId, businessId: statement.businessId, jobCount: statement.jobCount },
+    }, tx);
+
+    await tx.update(payrollStatements)
+      .set({ walletTransactionId: transaction.id })
+      .where(eq(payrollStatements.id, statement.id));
+    return true;
+  });
+
+  if (paid) {
+    await notificationService.notifyDriverOfPayrollPaid(
+      statement.operatorId,
+      businessName,
+      amount.toFixed(2),
+      statement.payrollPeriodId,
+      statement.statementId
+    );
+  }
+  return paid;
+}
+
+/**
+ * Approve a period and pay each driver's unpaid statement into their wallet
+ * Pay comes out of the business payroll account, which its drivers' released earnings fund, and
+ * approval is refused while that account holds less than the unpaid pay. Each statement is paid
+ * in its own transaction; approving an approved period again pays any statement a failure left
+ * unpaid. Drivers without a user account are marked no_wallet and must be paid outside Fleetly.
+ */
+export async function approvePayrollPeriod(businessId: string, payrollPeriodId: string, approvedBy: string): Promise<PayrollApproval> {
+  const now = new Date();
+
+  const [period] = await db.select().from(payrollPeriods).where(and(
+    eq(payrollPeriods.businessId, businessId),
+    eq(payrollPeriods.payrollPeriodId, payrollPeriodId)
+  ));
+  if (!period) return { status: "not_found" };
+
+  const unpaid = await db.select().from(payrollStatements).where(and(
+    eq(payrollStatements.payrollPeriodId, payrollPeriodId),
+    eq(payrollStatements.status, "draft")
+  ));
+  if (period.status !== "draft" && unpaid.length === 0) return { status: "already_paid" };
+
+  const requiredCents = unpaid.reduce((sum, statement) => sum + toCents(parseFloat(statement.driverPay)), 0);
+  const availableCents = await getAccountBalanceCents(LEDGER_ACCOUNTS.businessPayroll(businessId));
+  if (requiredCents > availableCents) {
+    return { status: "unfunded", requiredCents, availableCents };
+  }
+
+  if (period.status === "draft") {
+    await db.update(payrollPeriods)
+      .set({ status: "approved", approvedBy, approvedAt: now })
+      .where(and(
+        eq(payrollPeriods.id, period.id),
+        eq(payrollPeriods.status, "draft")
+      ));
+  }
+
+  const business = await db.query.businesses.findFirst({
+    where: eq(businesses.businessId, businessId),
+  });
+  const businessName = business?.name || "Your business";
+  const periodLabel = `${period.periodStart.toISOString().split("T")[0]} to ${period.periodEnd.toISOString().split("T")[0]}`;
+
+  for (const statement of unpaid) {
+    try {
+      await payPayrollStatement(statement, businessName, periodLabel, now);
+    } catch (error) {
+      console.error(`[Payroll] Failed to pay statement ${statement.statementId}:`, error);
+    }
+  }
+
+  return { status: "approved", period: await getPayrollPeriod(businessId, payrollPeriodId) };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatPayRate(statement: PayrollStatement): string {
+  return statement.payType === "hourly"
+    ? `$${statement.hourlyRate}/hour`
+    : `${statement.commissionPercent}% commission`;
+}
+
+/**
+ * Pay stub as CSV - a summary block followed by one row per job
+ */
+export function buildPayStubCsv(statement: PayrollStatement, period: PayrollPeriod, businessName: string): string {
+  const rows: Array<Array<string | number>> = [
+    ["Business", businessName],
+    ["Driver", statement.driverName],
+    ["Period", period.periodStart.toISOString().split("T")[0], period.periodEnd.toISOString().split("T")[0]],
+    ["Pay Rate", formatPayRate(statement)],
+    ["Jobs", statement.jobCount],
+    ["Hours", statement.hoursWorked],
+    ["Gross Earnings", statement.grossEarnings],
+    ["Driver Pay", statement.driverPay],
+    ["Status", statement.status],
+    [],
+    ["Job ID", "Service", "Completed At", "Hours", "Job Earnings", "Pay"],
+    ...(statement.lineItems as PayrollLineItem[]).map(item => [
+      item.acceptedJobId, item.serviceType, item.completedAt, item.hours.toFixed(2), item.earnings.toFixed(2), item.pay.toFixed(2),
+    ]),
+  ];
+  return rows.map(row => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Pay stub as a single-page PDF (monospaced text so the job table lines up; long job lists are truncated)
+ */
+export function buildPayStubPdf(statement: PayrollStatement, period: PayrollPeriod, businessName: string): Buffer {
+  const lineItems = statement.lineItems as PayrollLineItem[];
+  const maxJobLines = 40;
+  const lines = [
+    `Pay Stub - ${businessName}`,
+    "",
+    `Driver: ${statement.driverName} (${statement.operatorId})`,
+    `Period: ${period.periodStart.toISOString().split("T")[0]} to ${period.periodEnd.toISOString().split("T")[0]}`,
+    `Pay Rate: ${formatPayRate(statement)}`,
+    `Jobs: ${statement.jobCount}    Hours: ${statement.hoursWorked}`,
+    `Gross Earnings: $${statement.grossEarnings}`,
+    `Driver Pay: $${statement.driverPay}`,
+    `Status: ${statement.status}`,
+    "",
+    "Completed      Service              Hours    Earnings    Pay",
+    ...lineItems.slice(0, maxJobLines).map(item =>
+      `${item.completedAt.split("T")[0]}     ${item.serviceType.padEnd(20).slice(0, 20)} ${item.hours.toFixed(2).padStart(5)}    ${item.earnings.toFixed(2).padStart(8)}    ${item.pay.toFixed(2).padStart(8)}`
+    ),
+    ...(lineItems.length > maxJobLines ? [`... ${lineItems.length - maxJobLines} more jobs in the CSV stub`] : []),
+  ];
+
+  // PDF strings only take ASCII here - escape delimiters and drop anything else
+  const escape = (text: string) => text.replace(/[^\x20-\x7E]/g, "?").replace(/([\\()])/g, "\\$1");
+  const content = `BT /F1 10 Tf 14 TL 50 790 Td ${lines.map(line => `(${escape(line)}) Tj T*`).join(" ")} ET`;
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "ascii");
+}
@@ -0,0 +1,59 @@
+/**
+ * Pricing Service - Prices an operator's quote on the server from operator_pricing_configs
+ * Gathers what the shared pricing engine needs: the operator's active config for the tier and
+ * service, the distance from the operator's location to the job, and the demand where the job is.
+ */
+
+import { db } from "../db";
+import { operators, operatorPricingConfigs } from "@shared/schema";
+import type { ServiceRequest } from "@shared/schema";
+import { calculateQuotePrice } from "@shared/pricing";
+import type { QuoteBreakdown } from "@shared/pricing";
+import { and, eq } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+import { getAreaDemand } from "./demandEngine";
+
+export const QUOTE_PRICING_SETTINGS = {
+  totalDriftRatio: 0.05, // How far the price may move between showing it and submitting the quote, e.g. as the operator drives
+};
+
+/**
+ * The suggested price for an operator quoting on a request as a tier
+ * Travel is always measured from the operator's current location on the server.
+ * @returns null when the operator has no pricing config and the request has no usable budget
+ */
+export async function priceQuote(request: ServiceRequest, operatorId: string, tier: string): Promise<QuoteBreakdown | null> {
+  const [config] = await db.select().from(operatorPricingConfigs)
+    .where(and(
+      eq(operatorPricingConfigs.operatorId, operatorId),
+      eq(operatorPricingConfigs.tier, tier),
+      eq(operatorPricingConfigs.serviceType, request.serviceType),
+      eq(operatorPricingConfigs.isActive, 1)
+    ))
+    .limit(1);
+
+  const hasLocation = !!request.latitude && !!request.longitude;
+  const latitude = hasLocation ? parseFloat(request.latitude!) : 0;
+  const longitude = hasLocation ? parseFloat(request.longitude!) : 0;
+
+  let travelDistanceKm: number | null = null;
+  if (config && hasLocation) {
+    const [operator] = await db.select({ latitude: operators.latitude, longitude: operators.longitude })
+      .from(operators)
+      .where(eq(operators.operatorId, operatorId))
+      .limit(1);
+    if (operator) {
+      travelDistanceKm = calculateDistance(parseFloat(operator.latitude), parseFloat(operator.longitude), latitude, longitude);
+    }
+  }
+
+  const demand = config && hasLocation ? await getAreaDemand(latitude, longitude) : null;
+
+  return calculateQuotePrice({
+    rates: config || null,
+    tier,
+    request,
+    travelDistanceKm,
+    demand,
+  });
+}
@@ -0,0 +1,246 @@
+/**
+ * Rating History Service - Operator reviews and rating trends
+ * Merges `ratings` rows with ratings left directly on service requests (`customerRating`)
+ * so the reviews list and the trend chart are built from the same set of reviews
+ */
+
+import { db } from "../db";
+import { ratings, serviceRequests, customers, acceptedJobs, operators } from "@shared/schema";
+import { and, eq, inArray, isNotNull } from "drizzle-orm";
+
+export interface OperatorReview {
+  ratingId: string;
+  customerId: string;
+  customerName: string;
+  rating: number;
+  review: string | null;
+  tier: string;
+  jobId: string | null;
+  createdAt: string;
+}
+
+export type RatingPeriod = "weekly" | "monthly";
+
+export type StarDistribution = Record<1 | 2 | 3 | 4 | 5, number>;
+
+export interface RatingHistoryPoint {
+  periodStart: string; // ISO date of the first day of the week (Monday) or month
+  date: string; // Short chart label, e.g. "Mar 04" or "Mar 2025"
+  rating: number; // Rolling average over the trailing window, 0 when there are no reviews yet
+  averageRating: number | null; // Average of reviews inside this period only
+  reviews: number; // Reviews left in this period
+  distribution: StarDistribution;
+}
+
+export interface RatingHistorySeries {
+  period: RatingPeriod;
+  points: RatingHistoryPoint[];
+  averageRating: number;
+  reviewCount: number;
+  distribution: StarDistribution;
+  recentReviews: OperatorReview[];
+}
+
+export const RATING_HISTORY_SETTINGS = {
+  weekly: { periods: 12, rollingWindow: 4 }, // 12 weeks, 4-week rolling average
+  monthly: { periods: 12, rollingWindow: 3 }, // 12 months, 3-month rolling average
+  recentReviewCount: 5,
+};
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function emptyDistribution(): StarDistribution {
+  return { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+}
+
+function roundRating(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function summarize(reviews: OperatorReview[]) {
+  const distribution = emptyDistribution();
+  let total = 0;
+  for (const review of reviews) {
+    const stars = Math.min(5, Math.max(1, Math.round(review.rating))) as keyof StarDistribution;
+    distribution[stars]++;
+    total += review.rating;
+  }
+  return {
+    averageRating: reviews.length > 0 ? roundRating(total / reviews.length) : 0,
+    reviewCount: reviews.length,
+    distribution,
+  };
+}
+
+/**
+ * Every review for an operator, newest first
+ * Ratings recorded in both places for the same job are only counted once
+ */
+export async function getOperatorReviews(operatorId: string): Promise<OperatorReview[]> {
+  const operator = await db.query.operators.findFirst({
+    where: eq(operators.operatorId, operatorId),
+  });
+  const defaultTier = operator?.activeTier || operator?.operatorTier || "manual";
+
+  const [ratingRows, ratedRequests, jobs] = await Promise.all([
+    db.select().from(ratings).where(eq(ratings.operatorId, operatorId)),
+    db.select().from(serviceRequests).where(and(
+      eq(serviceRequests.operatorId, operatorId),
+      isNotNull(serviceRequests.customerRating)
+    )),
+    db.select().from(acceptedJobs).where(eq(acceptedJobs.operatorId, operatorId)),
+  ]);
+
+  // A rating's jobId may point at the accepted job or at the original request
+  const tierByJobId = new Map<string, string>();
+  const requestIdByJobId = new Map<string, string>();
+  for (const job of jobs) {
+    tierByJobId.set(job.acceptedJobId, job.tier);
+    tierByJobId.set(job.jobSourceId, job.tier);
+    requestIdByJobId.set(job.acceptedJobId, job.jobSourceId);
+  }
+
+  const customerIds = Array.from(new Set(ratingRows.map(r => r.customerId)));
+  const customerRows = customerIds.length > 0
+    ? await db.select().from(customers).where(inArray(customers.customerId, customerIds))
+    : [];
+  const customerNames = new Map(customerRows.map(c => [c.customerId, c.name]));
+
+  const reviewedRequestIds = new Set<string>();
+  const reviews: OperatorReview[] = ratingRows.map(rating => {
+    if (rating.jobId) {
+      reviewedRequestIds.add(requestIdByJobId.get(rating.jobId) || rating.jobId);
+    }
+    return {
+      ratingId: rating.ratingId,
+      customerId: rating.customerId,
+      customerName: customerNames.get(rating.customerId) || "Customer",
+      rating: rating.rating,
+      review: rating.review,
+      tier: (rating.jobId && tierByJobId.get(rating.jobId)) || defaultTier,
+      jobId: rating.jobId,
+      createdAt: rating.createdAt.toISOString(),
+    };
+  });
+
+  for (const request of ratedRequests) {
+    if (reviewedRequestIds.has(request.requestId)) continue;
+    reviews.push({
+      ratingId: `request_${request.requestId}`,
+      customerId: request.customerId,
+      customerName: request.customerName || "Customer",
+      rating: request.customerRating!,
+      review: request.customerReview,
+      tier: tierByJobId.get(request.requestId) || defaultTier,
+      jobId: request.requestId,
+      createdAt: (request.customerRatedAt || request.completedAt || request.requestedAt).toISOString(),
+    });
+  }
+
+  return reviews.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function getPeriodStart(date: Date, period: RatingPeriod): Date {
+  if (period === "monthly") {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+  // Weeks start on Monday
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday));
+}
+
+function shiftPeriod(start: Date, period: RatingPeriod, count: number): Date {
+  return period === "monthly"
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + count, 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + count * 7));
+}
+
+function formatPeriodLabel(start: Date, period: RatingPeriod): string {
+  const month = MONTH_LABELS[start.getUTCMonth()];
+  return period === "monthly"
+    ? `${month} ${start.getUTCFullYear()}`
+    : `${month} ${String(start.getUTCDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Bucket reviews into weekly or monthly points ending with the current period
+ * @param reviews - Reviews to bucket, in any order
+ * @param period - "weekly" or "monthly"
+ * @param now - End of the series (defaults to the current time)
+ */
+export function buildRatingSeries(reviews: OperatorReview[], period: RatingPeriod, now: Date = new Date()): RatingHistorySeries {
+  const { periods, rollingWindow } = RATING_HISTORY_SETTINGS[period];
+  const firstStart = shiftPeriod(getPeriodStart(now, period), period, -(periods - 1));
+
+  // Bucket per period, keeping earlier reviews so the first points have a full rolling window
+  const buckets: OperatorReview[][] = Array.from({ length: periods + rollingWindow - 1 }, () => []);
+  const bucketOrigin = shiftPeriod(firstStart, period, -(rollingWindow - 1));
+  const bucketIndexByStart = new Map(buckets.map((_, i) => [shiftPeriod(bucketOrigin, period, i).getTime(), i]));
+  for (const review of reviews) {
+    const index = bucketIndexByStart.get(getPeriodStart(new Date(review.createdAt), period).getTime());
+    if (index !== undefined) {
+      buckets[index].push(review);
+    }
+  }
+
+  const points: RatingHistoryPoint[] = [];
+  for (let i = 0; i < periods; i++) {
+    const bucketIndex = i + rollingWindow - 1;
+    const periodReviews = buckets[bucketIndex];
+    const windowReviews = buckets.slice(bucketIndex - rollingWindow + 1, bucketIndex + 1).flat();
+    const periodSummary = summarize(periodReviews);
+    const start = shiftPeriod(firstStart, period, i);
+
+    points.push({
+      periodStart: start.toISOString().split("T")[0],
+      date: formatPeriodLabel(start, period),
+      rating: summarize(windowReviews).averageRating,
+      averageRating: periodReviews.length > 0 ? periodSummary.averageRating : null,
+      reviews: periodSummary.reviewCount,
+      distribution: periodSummary.distribution,
+    });
+  }
+
+  const seriesReviews = reviews.filter(r => new Date(r.createdAt) >= firstStart);
+  const summary = summarize(seriesReviews);
+
+  return {
+    period,
+    points,
+    averageRating: summary.averageRating,
+    reviewCount: summary.reviewCount,
+    distribution: summary.distribution,
+    recentReviews: [...seriesReviews]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, RATING_HISTORY_SETTINGS.recentReviewCount),
+  };
+}
+
+/**
+ * Weekly and monthly series for all tiers combined ("all") and for each tier with reviews
+ */
+export async function getOperatorRatingHistory(operatorId: string, now: Date = new Date()) {
+  const reviews = await getOperatorReviews(operatorId);
+
+  const reviewsByTier = new Map<string, OperatorReview[]>([["all", reviews]]);
+  for (const review of reviews) {
+    if (!reviewsByTier.has(review.tier)) {
+      reviewsByTier.set(review.tier, []);
+    }
+    reviewsByTier.get(review.tier)!.push(review);
+  }
+
+  const tiers: Record<string, { weekly: RatingHistorySeries; monthly: RatingHistorySeries }> = {};
+  reviewsByTier.forEach((tierReviews, tier) => {
+    tiers[tier] = {
+      weekly: buildRatingSeries(tierReviews, "weekly", now),
+      monthly: buildRatingSeries(tierReviews, "monthly", now),
+    };
+  });
+
+  return {
+    operatorId,
+    ...summarize(reviews),
+    tiers,
+  };
+}
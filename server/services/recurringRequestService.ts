@@ -0,0 +1,514 @@
+/**
+ * Recurring Request Service - Service request series and the requests they generate
+ * A series is a recurring contract: either a schedule ("mow every Tuesday", an RRULE from
+ * shared/recurrence.ts) or a snowfall trigger ("plow after every 5cm"). The recurring request job
+ * posts a child service request for each occurrence. Until an operator accepts the series, children
+ * go out as ordinary open requests; once accepted, every child is assigned to that operator and gets
+ * its own accepted job and payment hold.
+ */
+
+import { db } from "../db";
+import { serviceRequestSeries, serviceRequests, acceptedJobs, OPERATOR_TIER_INFO } from "@shared/schema";
+import type { Operator, ServiceRequest, ServiceRequestSeries, SeriesStatus } from "@shared/schema";
+import { addDays, describeRecurrenceRule, nextOccurrence, parseRecurrenceRule, SNOWFALL_SERVICE_TYPES } from "@shared/recurrence";
+import { formatBudgetRange, resolveBudget } from "@shared/pricing";
+import { and, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+import { getSnowfallCm } from "./weatherService";
+import { authorizeJobPayment, getAuthorizationAmount } from "./paymentService";
+import { notificationService } from "../notificationService";
+
+export const SERIES_SETTINGS = {
+  leadDays: 2, // Scheduled occurrences are posted this many days ahead so operators can plan
+  snowfallCheckIntervalMs: 60 * 60 * 1000, // Snowfall series poll the forecast grid hourly
+  minSnowfallThresholdCm: 1,
+  maxSnowfallThresholdCm: 50,
+};
+
+const KM_TO_MILES = 0.621371;
+
+export interface NewRequestSeries {
+  customerId: string;
+  customerName: string;
+  serviceType: string;
+  description: string;
+  location: string;
+  latitude?: number;
+  longitude?: number;
+  preferredTime?: string;
+  timeFlexibility?: string;
+  budgetRange?: string;
+  budgetMin?: number;
+  budgetMax?: number;
+  estimatedCost?: string;
+  details?: unknown;
+  triggerType: "schedule" | "snowfall";
+  rrule?: string;
+  startDate: string;
+  endDate?: string;
+  snowfallThresholdCm?: number;
+}
+
+/**
+ * A series with a plain-English schedule, as shown to customers and operators
+ */
+export interface RequestSeriesSummary extends ServiceRequestSeries {
+  summary: string; // e.g. "Every Tuesday" or "After every 5cm of snow"
+  upcomingDates: string[]; // Next few scheduled dates - empty for snowfall series
+  distance?: number; // miles, operator views only
+}
+
+/**
+ * Validate a new series beyond its field types
+ * @returns The reason the series cannot be created, or null if it is valid
+ */
+export function validateNewSeries(input: NewRequestSeries, today: string): string | null {
+  if (input.startDate < today) return "startDate cannot be in the past";
+  if (input.endDate && input.endDate < input.startDate) return "endDate must be on or after startDate";
+
+  if (input.triggerType === "schedule") {
+    if (!input.rrule) return "A schedule series needs a recurrence rule";
+    const rule = parseRecurrenceRule(input.rrule);
+    if (!rule) return "Invalid recurrence rule";
+    const firstDate = nextOccurrence(rule, input.startDate, null, 0);
+    if (!firstDate || (input.endDate && firstDate > input.endDate)) return "The recurrence rule has no occurrences";
+    return null;
+  }
+
+  if (!SNOWFALL_SERVICE_TYPES.includes(input.serviceType)) {
+    return `Snowfall triggers are only available for ${SNOWFALL_SERVICE_TYPES.join(", ")}`;
+  }
+  const threshold = input.snowfallThresholdCm;
+  if (threshold === undefined || threshold < SERIES_SETTINGS.minSnowfallThresholdCm || threshold > SERIES_SETTINGS.maxSnowfallThresholdCm) {
+    return `snowfallThresholdCm must be between ${SERIES_SETTINGS.minSnowfallThresholdCm} and ${SERIES_SETTINGS.maxSnowfallThresholdCm}`;
+  }
+  if (input.latitude === undefined || input.longitude === undefined) {
+    return "A snowfall series needs the service location's coordinates";
+  }
+  return null;
+}
+
+/**
+ * Create a series and post any occurrence already within the lead time
+ * Callers validate the input with validateNewSeries first.
+ */
+export async function createRequestSeries(input: NewRequestSeries, now: Date = new Date()): Promise<ServiceRequestSeries> {
+  const rule = input.rrule ? parseRecurrenceRule(input.rrule) : null;
+  const firstDate = rule ? nextOccurrence(rule, input.startDate, null, 0) : null;
+  const budget = resolveBudget(input);
+
+  const [series] = await db.insert(serviceRequestSeries).values({
+    seriesId: `SER-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    customerId: input.customerId,
+    customerName: input.customerName,
+    serviceType: input.serviceType,
+    description: input.description,
+    location: input.location,
+    latitude: input.latitude !== undefined ? String(input.latitude) : null,
+    longitude: input.longitude !== undefined ? String(input.longitude) : null,
+    preferredTime: input.preferredTime || null,
+    timeFlexibility: input.timeFlexibility || null,
+    budgetRange: budget ? formatBudgetRange(budget) : input.budgetRange || null,
+    budgetMin: budget ? String(budget.min) : null,
+    budgetMax: budget ? String(budget.max) : null,
+    estimatedCost: input.estimatedCost || null,
+    details: input.details ?? null,
+    triggerType: input.triggerType,
+    rrule: rule ? input.rrule!.toUpperCase().replace(/^RRULE:/, "") : null,
+    startDate: input.startDate,
+    endDate: input.endDate || null,
+    nextOccurrenceDate: firstDate,
+    snowfallThresholdCm: input.triggerType === "snowfall" ? String(input.snowfallThresholdCm) : null,
+    // Snowfall counts from the moment the series is created
+    weatherCheckedAt: input.triggerType === "snowfall" ? now : null,
+  }).returning();
+
+  if (series.triggerType === "schedule") {
+    await postScheduledOccurrences(series, now);
+  }
+
+  return (await getRequestSeries(series.seriesId)) || series;
+}
+
+export async function getRequestSeries(seriesId: string): Promise<ServiceRequestSeries | null> {
+  const [series] = await db.select().from(serviceRequestSeries)
+    .where(eq(serviceRequestSeries.seriesId, seriesId))
+    .limit(1);
+  return series || null;
+}
+
+export function summarizeSeries(series: ServiceRequestSeries): RequestSeriesSummary {
+  if (series.triggerType === "snowfall") {
+    return { ...series, summary: `After every ${Number(series.snowfallThresholdCm)}cm of snow`, upcomingDates: [] };
+  }
+
+  const rule = series.rrule ? parseRecurrenceRule(series.rrule) : null;
+  if (!rule) {
+    return { ...series, summary: "Custom schedule", upcomingDates: [] };
+  }
+
+  // Dates still to be posted, from the series' position in the rule
+  const upcomingDates: string[] = [];
+  let next = series.status === "ended" || series.status === "cancelled" ? null : series.nextOccurrenceDate;
+  let count = series.occurrenceCount;
+  while (next && upcomingDates.length < 3 && (!series.endDate || next <= series.endDate)) {
+    upcomingDates.push(next);
+    count++;
+    next = nextOccurrence(rule, series.startDate, next, count);
+  }
+
+  return { ...series, summary: describeRecurrenceRule(rule), upcomingDates };
+}
+
+/**
+ * A customer's series, newest first
+ */
+export async function getCustomerSeries(customerId: string): Promise<RequestSeriesSummary[]> {
+  const series = await db.select().from(serviceRequestSeries)
+    .where(eq(serviceRequestSeries.customerId, customerId));
+  return series
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map(summarizeSeries);
+}
+
+/**
+ * Requests generated by a series, oldest first
+ */
+export async function getSeriesRequests(seriesId: string): Promise<ServiceRequest[]> {
+  const requests = await db.select().from(serviceRequests)
+    .where(eq(serviceRequests.seriesId, seriesId));
+  return requests.sort((a, b) => (a.seriesOccurrence || 0) - (b.seriesOccurrence || 0));
+}
+
+/**
+ * Pause, resume or cancel a series
+ * Requests already posted are left alone; the customer cancels those individually.
+ * @returns null if the series has already ended or been cancelled
+ */
+export async function updateSeriesStatus(
+  series: ServiceRequestSeries,
+  status: Extract<SeriesStatus, "active" | "paused" | "cancelled">,
+  now: Date = new Date()
+): Promise<ServiceRequestSeries | null> {
+  const [updated] = await db.update(serviceRequestSeries)
+    .set({
+      status,
+      updatedAt: now,
+      // Snow that fell while a snowfall series was paused does not count
+      ...(status === "active" && series.triggerType === "snowfall" ? { weatherCheckedAt: now, snowfallAccumulatedCm: "0" } : {}),
+    })
+    .where(and(
+      eq(serviceRequestSeries.seriesId, series.seriesId),
+      inArray(serviceRequestSeries.status, ["active", "paused"])
+    ))
+    .returning();
+  if (!updated) return null;
+
+  // Scheduled dates missed while paused are skipped rather than posted late
+  if (status === "active" && updated.triggerType === "schedule") {
+    await skipPastOccurrences(updated, now);
+  }
+
+  return (await getRequestSeries(series.seriesId)) || updated;
+}
+
+/**
+ * Series an operator can take on within their tier's radius, and the series they have accepted
+ */
+export async function getOperatorSeries(operator: Operator): Promise<{ available: RequestSeriesSummary[]; accepted: RequestSeriesSummary[] }> {
+  const effectiveTier = operator.viewTier || operator.activeTier;
+  const tierInfo = effectiveTier ? OPERATOR_TIER_INFO[effectiveTier as keyof typeof OPERATOR_TIER_INFO] : null;
+
+  const series = await db.select().from(serviceRequestSeries)
+    .where(and(
+      eq(serviceRequestSeries.status, "active"),
+      or(isNull(serviceRequestSeries.operatorId), eq(serviceRequestSeries.operatorId, operator.operatorId))
+    ));
+
+  // Distances are measured from home, like the operator's request feed, falling back to their current position
+  const operatorLat = parseFloat(operator.homeLatitude || operator.latitude);
+  const operatorLon = parseFloat(operator.homeLongitude || operator.longitude);
+
+  const available: RequestSeriesSummary[] = [];
+  const accepted: RequestSeriesSummary[] = [];
+  for (const item of series) {
+    const distanceKm = item.latitude && item.longitude
+      ? calculateDistance(operatorLat, operatorLon, parseFloat(item.latitude), parseFloat(item.longitude))
+      : null;
+    const summary: RequestSeriesSummary = {
+      ...summarizeSeries(item),
+      distance: distanceKm !== null ? Math.round(distanceKm * KM_TO_MILES * 10) / 10 : undefined,
+    };
+
+    if (item.operatorId === operator.operatorId) {
+      accepted.push(summary);
+    } else if (tierInfo && distanceKm !== null && (tierInfo.radiusKm === null || distanceKm <= tierInfo.radiusKm)) {
+      available.push(summary);
+    }
+  }
+
+  const byDistance = (a: RequestSeriesSummary, b: RequestSeriesSummary) => (a.distance ?? Infinity) - (b.distance ?? Infinity);
+  return { available: available.sort(byDistance), accepted: accepted.sort(byDistance) };
+}
+
+/**
+ * Accept a whole series: the operator takes every open request it has posted and every one it posts later
+ * @returns null if another operator took the series first or it is no longer active
+ */
+export async function acceptRequestSeries(
+  operator: Operator,
+  tier: string,
+  seriesId: string,
+  now: Date = new Date()
+): Promise<{ series: ServiceRequestSeries; acceptedJobIds: string[] } | null> {
+  // Claim the series so two operators cannot both accept it
+  const [series] = await db.update(serviceRequestSeries)
+    .set({
+      operatorId: operator.operatorId,
+      operatorName: operator.name,
+      acceptedTier: tier,
+      acceptedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(serviceRequestSeries.seriesId, seriesId),
+      eq(serviceRequestSeries.status, "active"),
+      isNull(serviceRequestSeries.operatorId)
+    ))
+    .returning();
+  if (!series) return null;
+
+  const openRequests = await db.select().from(serviceRequests)
+    .where(and(
+      eq(serviceRequests.seriesId, seriesId),
+      eq(serviceRequests.status, "pending"),
+      isNull(serviceRequests.operatorId)
+    ));
+
+  const acceptedJobIds: string[] = [];
+  for (const request of openRequests) {
+    const acceptedJobId = await assignToSeriesOperator(series, request.requestId, now);
+    if (acceptedJobId) acceptedJobIds.push(acceptedJobId);
+  }
+
+  // Series are created from the customer's session, so customerId is their userId
+  await notificationService.notifyCustomerOfSeriesAcceptance(series.customerId, seriesId, operator.operatorId, operator.name, series.serviceType);
+  return { series, acceptedJobIds };
+}
+
+/**
+ * Post every occurrence that is due - called by the recurring request job
+ * @returns The number of requests posted
+ */
+export async function runRecurringRequests(now: Date = new Date()): Promise<number> {
+  const today = now.toISOString().split("T")[0];
+  let posted = 0;
+
+  const scheduled = await db.select().from(serviceRequestSeries)
+    .where(and(
+      eq(serviceRequestSeries.status, "active"),
+      eq(serviceRequestSeries.triggerType, "schedule"),
+      lte(serviceRequestSeries.nextOccurrenceDate, addDays(today, SERIES_SETTINGS.leadDays))
+    ));
+  for (const series of scheduled) {
+    posted += await postScheduledOccurrences(series, now);
+  }
+
+  const snowfall = await db.select().from(serviceRequestSeries)
+    .where(and(
+      eq(serviceRequestSeries.status, "active"),
+      eq(serviceRequestSeries.triggerType, "snowfall")
+    ));
+  for (const series of snowfall) {
+    if (series.endDate && series.endDate < today) {
+      await endSeries(series, now);
+      continue;
+    }
+    if (series.startDate > today) continue;
+    if (series.weatherCheckedAt && now.getTime() - series.weatherCheckedAt.getTime() < SERIES_SETTINGS.snowfallCheckIntervalMs) continue;
+    if (await checkSnowfall(series, now)) posted++;
+  }
+
+  return posted;
+}
+
+// Post the series' scheduled occurrences that fall within the lead time
+async function postScheduledOccurrences(series: ServiceRequestSeries, now: Date): Promise<number> {
+  const rule = series.rrule ? parseRecurrenceRule(series.rrule) : null;
+  if (!rule) return 0;
+
+  const horizon = addDays(now.toISOString().split("T")[0], SERIES_SETTINGS.leadDays);
+  let current = series;
+  let posted = 0;
+
+  while (current.nextOccurrenceDate && current.nextOccurrenceDate <= horizon) {
+    const date = current.nextOccurrenceDate;
+    if (current.endDate && date > current.endDate) break;
+
+    const occurrence = current.occurrenceCount + 1;
+    const following = nextOccurrence(rule, current.startDate, date, occurrence);
+
+    // Advance the series first so an overlapping run cannot post the same date twice
+    const [advanced] = await db.update(serviceRequestSeries)
+      .set({ nextOccurrenceDate: following, occurrenceCount: occurrence, updatedAt: now })
+      .where(and(
+        eq(serviceRequestSeries.seriesId, current.seriesId),
+        eq(serviceRequestSeries.occurrenceCount, current.occurrenceCount)
+      ))
+      .returning();
+    if (!advanced) return posted;
+
+    await postOccurrence(advanced, occurrence, date, now);
+    current = advanced;
+    posted++;
+  }
+
+  if (!current.nextOccurrenceDate || (current.endDate && current.nextOccurrenceDate > current.endDate)) {
+    await endSeries(current, now);
+  }
+  return posted;
+}
+
+// Move a resumed schedule past dates that went by while it was paused
+async function skipPastOccurrences(series: ServiceRequestSeries, now: Date): Promise<void> {
+  const rule = series.rrule ? parseRecurrenceRule(series.rrule) : null;
+  if (!rule || !series.nextOccurrenceDate) return;
+
+  const today = now.toISOString().split("T")[0];
+  if (series.nextOccurrenceDate >= today) return;
+
+  // Skipped dates still count towards COUNT, as they would in a calendar
+  let next: string | null = series.nextOccurrenceDate;
+  let count = series.occurrenceCount;
+  while (next && next < today) {
+    count++;
+    next = nextOccurrence(rule, series.startDate, next, count);
+  }
+
+  await db.update(serviceRequestSeries)
+    .set({ nextOccurrenceDate: next, occurrenceCount: count, updatedAt: now })
+    .where(and(
+      eq(serviceRequestSeries.seriesId, series.seriesId),
+      eq(serviceRequestSeries.occurrenceCount, series.occurrenceCount)
+    ));
+}
+
+// Add the snowfall since the last check and post a request once the threshold is reached
+async function checkSnowfall(series: ServiceRequestSeries, now: Date): Promise<boolean> {
+  const since = series.weatherCheckedAt || series.createdAt;
+  const snowfallCm = await getSnowfallCm(parseFloat(series.latitude!), parseFloat(series.longitude!), since, now);
+  // Leave weatherCheckedAt alone when NWS is unavailable so the next check covers the gap
+  if (snowfallCm === null) return false;
+
+  const accumulated = Number(series.snowfallAccumulatedCm) + snowfallCm;
+  const triggered = accumulated >= Number(series.snowfallThresholdCm);
+  const occurrence = series.occurrenceCount + 1;
+
+  const [updated] = await db.update(serviceRequestSeries)
+    .set({
+      snowfallAccumulatedCm: String(triggered ? 0 : Math.round(accumulated * 10) / 10),
+      weatherCheckedAt: now,
+      occurrenceCount: triggered ? occurrence : series.occurrenceCount,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(serviceRequestSeries.seriesId, series.seriesId),
+      eq(serviceRequestSeries.occurrenceCount, series.occurrenceCount)
+    ))
+    .returning();
+  if (!updated || !triggered) return false;
+
+  await postOccurrence(updated, occurrence, now.toISOString().split("T")[0], now);
+  return true;
+}
+
+// Create the child request for one occurrence, assigned straight away if the series has an operator
+async function postOccurrence(series: ServiceRequestSeries, occurrence: number, preferredDate: string, now: Date): Promise<ServiceRequest> {
+  const [request] = await db.insert(serviceRequests).values({
+    requestId: `REQ-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    customerId: series.customerId,
+    customerName: series.customerName,
+    serviceType: series.serviceType,
+    description: series.description,
+    status: "pending",
+    location: series.location,
+    latitude: series.latitude,
+    longitude: series.longitude,
+    preferredDate,
+    // A snowfall occurrence needs clearing as soon as possible
+    preferredTime: series.triggerType === "snowfall" ? null : series.preferredTime,
+    timeFlexibility: series.triggerType === "snowfall" ? "asap" : series.timeFlexibility,
+    budgetRange: series.budgetRange,
+    budgetMin: series.budgetMin,
+    budgetMax: series.budgetMax,
+    details: series.details,
+    estimatedCost: series.estimatedCost,
+    quoteWindowExpiresAt: new Date(now.getTime() + 12 * 60 * 60 * 1000),
+    quoteStatus: "open",
+    quoteCount: 0,
+    seriesId: series.seriesId,
+    seriesOccurrence: occurrence,
+  }).returning();
+
+  if (series.operatorId) {
+    await assignToSeriesOperator(series, request.requestId, now);
+  }
+  return request;
+}
+
+// Assign an open child request to the series' operator, like accepting it from the request feed
+async function assignToSeriesOperator(series: ServiceRequestSeries, requestId: string, now: Date): Promise<string | null> {
+  if (!series.operatorId) return null;
+
+  const [claimed] = await db.update(serviceRequests)
+    .set({
+      status: "assigned",
+      operatorId: series.operatorId,
+      operatorName: series.operatorName,
+      assignedOperatorId: series.operatorId,
+      respondedAt: now,
+      decisionAt: now,
+    })
+    .where(and(
+      eq(serviceRequests.requestId, requestId),
+      eq(serviceRequests.status, "pending"),
+      isNull(serviceRequests.operatorId)
+    ))
+    .returning();
+  if (!claimed) return null;
+
+  const acceptedJobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  await db.insert(acceptedJobs).values({
+    acceptedJobId,
+    operatorId: series.operatorId,
+    jobSourceId: requestId,
+    jobSourceType: "series",
+    tier: series.acceptedTier || "manual",
+    status: "accepted",
+    progress: 0,
+    jobData: claimed,
+  });
+
+  await db.update(serviceRequests)
+    .set({ activeJobId: acceptedJobId })
+    .where(eq(serviceRequests.requestId, requestId));
+
+  // Each occurrence is charged on its own, as for a single accepted request
+  await authorizeJobPayment({
+    serviceRequestId: requestId,
+    acceptedJobId,
+    operatorId: series.operatorId,
+    amount: getAuthorizationAmount(claimed.estimatedCost, claimed),
+  });
+
+  return acceptedJobId;
+}
+
+async function endSeries(series: ServiceRequestSeries, now: Date): Promise<void> {
+  await db.update(serviceRequestSeries)
+    .set({ status: "ended", updatedAt: now })
+    .where(and(
+      eq(serviceRequestSeries.seriesId, series.seriesId),
+      eq(serviceRequestSeries.status, "active")
+    ));
+}
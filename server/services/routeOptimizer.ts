@@ -0,0 +1,314 @@
+/**
+ * Route Optimizer - Orders an operator's accepted jobs into a visit sequence
+ * Solved locally with no routing API: a nearest-neighbour tour is built from the operator's
+ * position, then improved with 2-opt. Legs use straight-line distance scaled up to approximate
+ * roads, and a stop reached after its preferred time window closes costs extra, so the solver
+ * trades a little distance for being on time.
+ */
+
+import { db } from "../db";
+import { acceptedJobs, serviceRequests, operators, operatorLiveLocations } from "@shared/schema";
+import type { AcceptedJob, ServiceRequest } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { calculateDistance } from "../utils/distance";
+
+export const ROUTE_SETTINGS = {
+  averageSpeedKmh: 40,
+  roadDistanceFactor: 1.3, // Roads are rarely straight - scale the haversine distance up
+  serviceMinutes: 45, // Time spent at each stop
+  latePenaltyKmPerMinute: 2, // Extra distance the solver will drive to save a minute of lateness
+  maxTwoOptPasses: 50,
+};
+
+// Window around preferredTime for each timeFlexibility; "very-flexible" allows the whole day
+const FLEXIBILITY_MINUTES: Record<string, number> = {
+  exact: 15,
+  flexible: 120,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteStop extends RoutePoint {
+  id: string;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+}
+
+export interface RouteLeg {
+  stopId: string;
+  distanceKm: number;
+  travelMinutes: number;
+  arrivalAt: Date;
+  waitMinutes: number; // Arrived before the window opened
+  lateMinutes: number; // Arrived after the window closed
+  departAt: Date;
+}
+
+export interface PlannedRoute {
+  stops: RouteStop[];
+  legs: RouteLeg[];
+  totalDistanceKm: number;
+  totalLateMinutes: number;
+  finishAt: Date;
+}
+
+/**
+ * Estimated road distance between two points
+ */
+export function legDistanceKm(from: RoutePoint, to: RoutePoint, settings = ROUTE_SETTINGS): number {
+  return calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) * settings.roadDistanceFactor;
+}
+
+/**
+ * Drive the stops in the given order, waiting for windows that have not opened yet
+ */
+export function scheduleRoute(start: RoutePoint, stops: RouteStop[], departAt: Date, settings = ROUTE_SETTINGS): PlannedRoute {
+  const legs: RouteLeg[] = [];
+  let position = start;
+  let clock = departAt.getTime();
+  let totalDistanceKm = 0;
+  let totalLateMinutes = 0;
+
+  for (const stop of stops) {
+    const distanceKm = legDistanceKm(position, stop, settings);
+    const travelMinutes = (distanceKm / settings.averageSpeedKmh) * 60;
+    const arrival = clock + travelMinutes * MINUTE_MS;
+    const serviceStart = stop.windowStart ? Math.max(arrival, stop.windowStart.getTime()) : arrival;
+    const lateMinutes = stop.windowEnd ? Math.max(0, (arrival - stop.windowEnd.getTime()) / MINUTE_MS) : 0;
+
+    clock = serviceStart + settings.serviceMinutes * MINUTE_MS;
+    legs.push({
+      stopId: stop.id,
+      distanceKm,
+      travelMinutes,
+      arrivalAt: new Date(arrival),
+      waitMinutes: (serviceStart - arrival) / MINUTE_MS,
+      lateMinutes,
+      departAt: new Date(clock),
+    });
+
+    totalDistanceKm += distanceKm;
+    totalLateMinutes += lateMinutes;
+    position = stop;
+  }
+
+  return { stops, legs, totalDistanceKm, totalLateMinutes, finishAt: new Date(clock) };
+}
+
+function routeCost(route: PlannedRoute, settings = ROUTE_SETTINGS): number {
+  return route.totalDistanceKm + route.totalLateMinutes * settings.latePenaltyKmPerMinute;
+}
+
+/**
+ * Greedy tour: always drive to the cheapest next stop, counting lateness on arrival
+ */
+export function nearestNeighbourOrder(start: RoutePoint, stops: RouteStop[], departAt: Date, settings = ROUTE_SETTINGS): RouteStop[] {
+  const remaining = [...stops];
+  const order: RouteStop[] = [];
+
+  while (remaining.length > 0) {
+    const position = order.length > 0 ? order[order.length - 1] : start;
+    const clock = scheduleRoute(start, order, departAt, settings).finishAt;
+
+    let bestIndex = 0;
+    let bestCost = Infinity;
+    remaining.forEach((stop, index) => {
+      const [leg] = scheduleRoute(position, [stop], clock, settings).legs;
+      const cost = leg.distanceKm + leg.lateMinutes * settings.latePenaltyKmPerMinute;
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestIndex = index;
+      }
+    });
+
+    order.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return order;
+}
+
+/**
+ * Improve a tour by reversing segments while that lowers its cost
+ * The route is open - it starts at the operator and ends at the last stop
+ */
+export function twoOpt(start: RoutePoint, order: RouteStop[], departAt: Date, settings = ROUTE_SETTINGS): RouteStop[] {
+  let best = order;
+  let bestCost = routeCost(scheduleRoute(start, best, departAt, settings), settings);
+
+  for (let pass = 0; pass < settings.maxTwoOptPasses; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = routeCost(scheduleRoute(start, candidate, departAt, settings), settings);
+        if (cost < bestCost - 1e-9) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return best;
+}
+
+/**
+ * Order the stops with nearest neighbour plus 2-opt and schedule the result
+ */
+export function planRoute(start: RoutePoint, stops: RouteStop[], departAt: Date, settings = ROUTE_SETTINGS): PlannedRoute {
+  const order = twoOpt(start, nearestNeighbourOrder(start, stops, departAt, settings), departAt, settings);
+  return scheduleRoute(start, order, departAt, settings);
+}
+
+/**
+ * The customer's preferred time window for a request
+ * preferredDate and preferredTime are the customer's wall-clock values and are read in server time
+ */
+export function getPreferredWindow(request: Pick<ServiceRequest, "preferredDate" | "preferredTime" | "timeFlexibility">): { windowStart: Date | null; windowEnd: Date | null } {
+  if (!request.preferredDate) return { windowStart: null, windowEnd: null };
+
+  const dayStart = new Date(`${request.preferredDate}T00:00:00`);
+  if (isNaN(dayStart.getTime())) return { windowStart: null, windowEnd: null };
+
+  const preferredAt = request.preferredTime ? new Date(`${request.preferredDate}T${request.preferredTime}`) : null;
+  if (!preferredAt || isNaN(preferredAt.getTime()) || request.timeFlexibility === "very-flexible") {
+    return { windowStart: dayStart, windowEnd: new Date(dayStart.getTime() + 24 * 60 * MINUTE_MS) };
+  }
+
+  const margin = (FLEXIBILITY_MINUTES[request.timeFlexibility || "flexible"] ?? FLEXIBILITY_MINUTES.flexible) * MINUTE_MS;
+  return {
+    windowStart: new Date(preferredAt.getTime() - margin),
+    windowEnd: new Date(preferredAt.getTime() + margin),
+  };
+}
+
+export interface OperatorRouteStop {
+  sequence: number;
+  acceptedJobId: string;
+  requestId: string;
+  serviceType: string | null;
+  customerName: string | null;
+  location: string | null;
+  latitude: number;
+  longitude: number;
+  windowStart: Date | null;
+  windowEnd: Date | null;
+  distanceKm: number; // Leg from the previous stop (or the start)
+  travelMinutes: number;
+  eta: Date;
+  waitMinutes: number;
+  lateMinutes: number;
+  departAt: Date;
+}
+
+export interface OperatorRoute {
+  start: RoutePoint & { source: "live" | "profile"; updatedAt: Date | null };
+  departAt: Date;
+  stops: OperatorRouteStop[];
+  totalDistanceKm: number;
+  totalMinutes: number;
+  finishAt: Date;
+  geometry: { type: "LineString"; coordinates: Array<[number, number]> }; // GeoJSON, [lng, lat]
+  unrouted: Array<{ acceptedJobId: string; requestId: string; reason: string }>;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Coordinates from the live request, falling back to the snapshot taken when the job was accepted
+function getJobPoint(job: AcceptedJob, request: ServiceRequest | undefined): RoutePoint | null {
+  const snapshot = job.jobData as { latitude?: string | number | null; longitude?: string | number | null } | null;
+  const latitude = Number(request?.latitude ?? snapshot?.latitude);
+  const longitude = Number(request?.longitude ?? snapshot?.longitude);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || (latitude === 0 && longitude === 0)) return null;
+  return { latitude, longitude };
+}
+
+/**
+ * Visit order for the operator's accepted jobs that have not started yet
+ * Starts from the operator's live location, or their profile location if they have not shared one
+ * @returns null if the operator does not exist
+ */
+export async function getOperatorRoute(operatorId: string, departAt: Date = new Date(), settings = ROUTE_SETTINGS): Promise<OperatorRoute | null> {
+  const operator = await db.query.operators.findFirst({
+    where: eq(operators.operatorId, operatorId),
+  });
+  if (!operator) return null;
+
+  const live = await db.query.operatorLiveLocations.findFirst({
+    where: eq(operatorLiveLocations.operatorId, operatorId),
+  });
+  const start: OperatorRoute["start"] = live
+    ? { latitude: parseFloat(live.latitude), longitude: parseFloat(live.longitude), source: "live", updatedAt: live.updatedAt }
+    : { latitude: parseFloat(operator.latitude), longitude: parseFloat(operator.longitude), source: "profile", updatedAt: null };
+
+  const jobs = await db.select().from(acceptedJobs)
+    .where(and(eq(acceptedJobs.operatorId, operatorId), eq(acceptedJobs.status, "accepted")));
+
+  const requestIds = jobs.map(job => job.jobSourceId);
+  const requests = requestIds.length > 0
+    ? await db.select().from(serviceRequests).where(inArray(serviceRequests.requestId, requestIds))
+    : [];
+  const requestsById = new Map(requests.map(request => [request.requestId, request]));
+
+  const stops: RouteStop[] = [];
+  const jobsById = new Map<string, AcceptedJob>();
+  const unrouted: OperatorRoute["unrouted"] = [];
+  for (const job of jobs) {
+    const request = requestsById.get(job.jobSourceId);
+    const point = getJobPoint(job, request);
+    if (!point) {
+      unrouted.push({ acceptedJobId: job.acceptedJobId, requestId: job.jobSourceId, reason: "No location on the request" });
+      continue;
+    }
+
+    jobsById.set(job.acceptedJobId, job);
+    stops.push({ id: job.acceptedJobId, ...point, ...(request ? getPreferredWindow(request) : { windowStart: null, windowEnd: null }) });
+  }
+
+  const plan = planRoute(start, stops, departAt, settings);
+  const routeStops = plan.stops.map((stop, index): OperatorRouteStop => {
+    const job = jobsById.get(stop.id)!;
+    const request = requestsById.get(job.jobSourceId);
+    const snapshot = job.jobData as Partial<ServiceRequest> | null;
+    const leg = plan.legs[index];
+    return {
+      sequence: index + 1,
+      acceptedJobId: job.acceptedJobId,
+      requestId: job.jobSourceId,
+      serviceType: request?.serviceType ?? snapshot?.serviceType ?? null,
+      customerName: request?.customerName ?? snapshot?.customerName ?? null,
+      location: request?.location ?? snapshot?.location ?? null,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      windowStart: stop.windowStart,
+      windowEnd: stop.windowEnd,
+      distanceKm: round(leg.distanceKm, 2),
+      travelMinutes: Math.round(leg.travelMinutes),
+      eta: leg.arrivalAt,
+      waitMinutes: Math.round(leg.waitMinutes),
+      lateMinutes: Math.round(leg.lateMinutes),
+      departAt: leg.departAt,
+    };
+  });
+
+  return {
+    start,
+    departAt,
+    stops: routeStops,
+    totalDistanceKm: round(plan.totalDistanceKm, 2),
+    totalMinutes: Math.round((plan.finishAt.getTime() - departAt.getTime()) / MINUTE_MS),
+    finishAt: plan.finishAt,
+    geometry: {
+      type: "LineString",
+      coordinates: [[start.longitude, start.latitude], ...plan.stops.map((stop): [number, number] => [stop.longitude, stop.latitude])],
+    },
+    unrouted,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Service Area Service - The cities, and optionally neighborhoods, an operator covers in each tier
+ * Each tier has its own areas, limited by SERVICE_AREA_LIMITS: how many cities and whether they must
+ * share a province. One active area per tier is the primary (home) city. Broadcast requests are only
+ * shown to operators whose areas for their tier cover the job; operators without areas see every job
+ * within their home radius, as before areas could be edited.
+ */
+
+import { db } from "../db";
+import { operatorServiceAreas, OPERATOR_TIER_INFO, SERVICE_AREA_LIMITS } from "@shared/schema";
+import type { CoverageType, OperatorServiceArea, OperatorTier, ServiceRequest } from "@shared/schema";
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { isWithinRadius } from "../utils/distance";
+
+export interface ServiceAreaLocation {
+  countryCode: string;
+  stateCode: string;
+  cityName: string;
+}
+
+export interface NewServiceArea extends ServiceAreaLocation {
+  countryName: string;
+  stateName: string;
+  cityLatitude?: number;
+  cityLongitude?: number;
+  neighborhoods?: string[];
+  coverageType?: CoverageType;
+  isPrimary?: boolean;
+}
+
+export interface ServiceAreaUpdate {
+  neighborhoods?: string[];
+  coverageType?: CoverageType;
+  isPrimary?: boolean;
+  isActive?: boolean;
+}
+
+export interface ServiceAreaLimitError {
+  message: string;
+  limit?: number;
+  received?: number;
+}
+
+function isSameCity(a: ServiceAreaLocation, b: ServiceAreaLocation): boolean {
+  return a.countryCode === b.countryCode && a.stateCode === b.stateCode && a.cityName.toLowerCase() === b.cityName.toLowerCase();
+}
+
+/**
+ * Check a tier's full set of active areas against its limits
+ * @returns null if the areas are allowed
+ */
+export function validateServiceAreas(tier: OperatorTier, areas: ServiceAreaLocation[]): ServiceAreaLimitError | null {
+  const limits = SERVICE_AREA_LIMITS[tier];
+  const label = OPERATOR_TIER_INFO[tier].label;
+
+  if (limits.maxCities && areas.length > limits.maxCities) {
+    return {
+      message: `${label} operators can only select up to ${limits.maxCities} city(s).`,
+      limit: limits.maxCities,
+      received: areas.length
+    };
+  }
+
+  if (areas.length > 1) {
+    const [first] = areas;
+    if (limits.requireSameProvince && areas.some(area => area.stateCode !== first.stateCode || area.countryCode !== first.countryCode)) {
+      return { message: `${label} operators must select cities within the same province/state.` };
+    }
+    if (areas.some(area => area.countryCode !== first.countryCode)) {
+      return { message: `${label} operators must select cities within the same country.` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Why a coverage setting cannot be used, or null if it is valid
+ */
+export function validateCoverage(coverageType: CoverageType, neighborhoods: string[] | null | undefined): string | null {
+  if (coverageType === "neighborhoods_only" && !(neighborhoods || []).some(name => name.trim())) {
+    return "Add at least one neighborhood to cover only neighborhoods";
+  }
+  return null;
+}
+
+/**
+ * An operator's areas, primary first
+ * @param tier - Only this tier's areas; all tiers when omitted
+ */
+export async function getServiceAreas(operatorId: string, tier?: string, activeOnly: boolean = false): Promise<OperatorServiceArea[]> {
+  return db.select().from(operatorServiceAreas)
+    .where(and(
+      eq(operatorServiceAreas.operatorId, operatorId),
+      tier ? eq(operatorServiceAreas.tier, tier) : undefined,
+      activeOnly ? eq(operatorServiceAreas.isActive, 1) : undefined
+    ))
+    .orderBy(desc(operatorServiceAreas.isPrimary), asc(operatorServiceAreas.createdAt));
+}
+
+export async function getServiceArea(operatorId: string, areaId: number): Promise<OperatorServiceArea | null> {
+  const [area] = await db.select().from(operatorServiceAreas)
+    .where(and(eq(operatorServiceAreas.id, areaId), eq(operatorServiceAreas.operatorId, operatorId)))
+    .limit(1);
+  return area || null;
+}
+
+/**
+ * Centre of a city from the bundled country/state/city data
+ * @returns null if the city is not listed or has no coordinates
+ */
+export async function lookupCityCoordinates(location: ServiceAreaLocation): Promise<{ latitude: number; longitude: number } | null> {
+  const { City } = await import("country-state-city");
+  const city = City.getCitiesOfState(location.countryCode.toUpperCase(), location.stateCode.toUpperCase())
+    .find(c => c.name.toLowerCase() === location.cityName.toLowerCase());
+  if (!city?.latitude || !city?.longitude) return null;
+
+  const latitude = parseFloat(city.latitude);
+  const longitude = parseFloat(city.longitude);
+  return isNaN(latitude) || isNaN(longitude) ? null : { latitude, longitude };
+}
+
+// Trimmed, without blanks or repeats
+function cleanNeighborhoods(neighborhoods: string[] | undefined): string[] {
+  const names = (neighborhoods || []).map(name => name.trim()).filter(Boolean);
+  return Array.from(new Map(names.map(name => [name.toLowerCase(), name])).values());
+}
+
+// Make one area the tier's primary and every other area not
+async function setPrimaryServiceArea(area: OperatorServiceArea, now: Date): Promise<void> {
+  await db.update(operatorServiceAreas)
+    .set({ isPrimary: sql`CASE WHEN ${operatorServiceAreas.id} = ${area.id} THEN 1 ELSE 0 END`, updatedAt: now })
+    .where(and(eq(operatorServiceAreas.operatorId, area.operatorId), eq(operatorServiceAreas.tier, area.tier)));
+}
+
+// Promote the oldest active area when the tier has no active primary, e.g. after the primary is removed
+async function ensurePrimaryServiceArea(operatorId: string, tier: string, now: Date): Promise<void> {
+  const areas = await getServiceAreas(operatorId, tier, true);
+  if (areas.length === 0 || areas.some(area => area.isPrimary === 1)) return;
+  const oldest = areas.reduce((a, b) => (b.createdAt < a.createdAt ? b : a));
+  await setPrimaryServiceArea(oldest, now);
+}
+
+/**
+ * Add a city to a tier, or reactivate it if it was deactivated
+ * Call validateServiceAreas first. Coordinates are looked up when not given.
+ */
+export async function addServiceArea(operatorId: string, tier: OperatorTier, input: NewServiceArea, now: Date = new Date()): Promise<OperatorServiceArea> {
+  const coordinates = input.cityLatitude !== undefined && input.cityLongitude !== undefined
+    ? { latitude: input.cityLatitude, longitude: input.cityLongitude }
+    : await lookupCityCoordinates(input);
+
+  const values = {
+    countryName: input.countryName,
+    stateName: input.stateName,
+    cityLatitude: coordinates ? coordinates.latitude.toString() : null,
+    cityLongitude: coordinates ? coordinates.longitude.toString() : null,
+    neighborhoods: cleanNeighborhoods(input.neighborhoods),
+    coverageType: input.coverageType || "full_city",
+    isActive: 1,
+    updatedAt: now,
+  };
+
+  const existing = (await getServiceAreas(operatorId, tier)).find(area => isSameCity(area, input));
+  let area: OperatorServiceArea;
+  if (existing) {
+    [area] = await db.update(operatorServiceAreas)
+      .set(values)
+      .where(eq(operatorServiceAreas.id, existing.id))
+      .returning();
+  } else {
+    [area] = await db.insert(operatorServiceAreas)
+      .values({
+        ...values,
+        operatorId,
+        tier,
+        countryCode: input.countryCode,
+        stateCode: input.stateCode,
+        cityName: input.cityName,
+        isPrimary: 0,
+      })
+      .returning();
+  }
+
+  if (input.isPrimary) {
+    await setPrimaryServiceArea(area, now);
+  } else {
+    await ensurePrimaryServiceArea(operatorId, tier, now);
+  }
+  return (await getServiceArea(operatorId, area.id)) || area;
+}
+
+/**
+ * Change an area's coverage, make it the primary city, or (de)activate it
+ * Call validateServiceAreas first when reactivating. A deactivated area cannot be primary.
+ */
+export async function updateServiceArea(area: OperatorServiceArea, updates: ServiceAreaUpdate, now: Date = new Date()): Promise<OperatorServiceArea> {
+  const isActive = updates.isActive !== undefined ? (updates.isActive ? 1 : 0) : area.isActive;
+
+  await db.update(operatorServiceAreas)
+    .set({
+      ...(updates.neighborhoods !== undefined ? { neighborhoods: cleanNeighborhoods(updates.neighborhoods) } : {}),
+      ...(updates.coverageType !== undefined ? { coverageType: updates.coverageType } : {}),
+      isActive,
+      ...(isActive === 0 ? { isPrimary: 0 } : {}),
+      updatedAt: now,
+    })
+    .where(eq(operatorServiceAreas.id, area.id));
+
+  if (updates.isPrimary && isActive === 1) {
+    await setPrimaryServiceArea(area, now);
+  }
+  await ensurePrimaryServiceArea(area.operatorId, area.tier, now);
+
+  return (await getServiceArea(area.operatorId, area.id)) || area;
+}
+
+/**
+ * Delete an area; if it was the primary city, the tier's oldest remaining area becomes primary
+ */
+export async function removeServiceArea(area: OperatorServiceArea, now: Date = new Date()): Promise<void> {
+  await db.delete(operatorServiceAreas).where(eq(operatorServiceAreas.id, area.id));
+  await ensurePrimaryServiceArea(area.operatorId, area.tier, now);
+}
+
+// Whether the job is in the area's city: within the tier's radius of its centre when both locations are
+// known, otherwise by the city's name in the job's address. Tiers without a radius are not limited.
+function isInCity(request: Pick<ServiceRequest, "location" | "latitude" | "longitude">, area: OperatorServiceArea): boolean {
+  const radiusKm = SERVICE_AREA_LIMITS[area.tier as OperatorTier]?.radiusKm;
+  if (radiusKm === null) return true;
+
+  if (request.latitude && request.longitude && area.cityLatitude && area.cityLongitude) {
+    return isWithinRadius(
+      parseFloat(area.cityLatitude),
+      parseFloat(area.cityLongitude),
+      parseFloat(request.latitude),
+      parseFloat(request.longitude),
+      radiusKm
+    );
+  }
+  return request.location.toLowerCase().includes(area.cityName.toLowerCase());
+}
+
+/**
+ * Whether any of the areas covers a job
+ * full_city areas cover the whole city; neighborhoods_only areas cover jobs whose address names one
+ * of their neighborhoods. An operator with no active areas is not limited by them.
+ */
+export function matchesServiceAreas(request: Pick<ServiceRequest, "location" | "latitude" | "longitude">, areas: OperatorServiceArea[]): boolean {
+  const activeAreas = areas.filter(area => area.isActive === 1);
+  if (activeAreas.length === 0) return true;
+
+  const address = request.location.toLowerCase();
+  return activeAreas.some(area => {
+    if (!isInCity(request, area)) return false;
+    if (area.coverageType !== "neighborhoods_only") return true;
+    return (area.neighborhoods || []).some(name => address.includes(name.toLowerCase()));
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Spatial Query Service - Within-radius and nearest queries for operators and service requests
+ * Rows are narrowed in SQL to the latitude/longitude bounding box around the search circle, which the
+ * (latitude, longitude) indexes answer without reading the whole table. Every row in the box is then
+ * measured with calculateDistance, so results match the old full-table haversine filter exactly.
+ * Boxes that cross the antimeridian are split in two, and boxes that reach a pole span every longitude.
+ */
+
+import { db } from "../db";
+import { operators, serviceRequests } from "@shared/schema";
+import type { Operator, ServiceRequest } from "@shared/schema";
+import { and, between, or } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { calculateDistance } from "../utils/distance";
+
+export const SPATIAL_QUERY_SETTINGS = {
+  earthRadiusKm: 6371, // Same radius as calculateDistance
+  boxPaddingDegrees: 0.000001, // ~10cm, so rounding never drops a row haversine would keep
+  nearestStartRadiusKm: 5, // First search ring for nearest queries, doubled until enough rows are found
+};
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  longitudeRanges: Array<[number, number]>; // Two ranges when the box crosses the antimeridian
+}
+
+export interface WithDistance<T> {
+  item: T;
+  distanceKm: number;
+}
+
+// Half the Earth's circumference - a circle this big covers every point
+const MAX_RADIUS_KM = Math.PI * SPATIAL_QUERY_SETTINGS.earthRadiusKm;
+
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+/**
+ * Smallest latitude/longitude box holding every point within radiusKm of the centre
+ */
+export function getBoundingBox(latitude: number, longitude: number, radiusKm: number): BoundingBox {
+  const padding = SPATIAL_QUERY_SETTINGS.boxPaddingDegrees;
+  const angularRadius = radiusKm / SPATIAL_QUERY_SETTINGS.earthRadiusKm;
+  const minLatitude = latitude - toDegrees(angularRadius) - padding;
+  const maxLatitude = latitude + toDegrees(angularRadius) + padding;
+
+  // A circle over a pole covers every longitude
+  if (minLatitude <= -90 || maxLatitude >= 90) {
+    return { minLatitude: Math.max(minLatitude, -90), maxLatitude: Math.min(maxLatitude, 90), longitudeRanges: [[-180, 180]] };
+  }
+
+  // Widest longitude span is where the circle touches its meridians, not at the centre's latitude
+  const longitudeDelta = toDegrees(Math.asin(Math.sin(angularRadius) / Math.cos(toRadians(latitude)))) + padding;
+  const minLongitude = longitude - longitudeDelta;
+  const maxLongitude = longitude + longitudeDelta;
+
+  let longitudeRanges: Array<[number, number]>;
+  if (minLongitude < -180) {
+    longitudeRanges = [[minLongitude + 360, 180], [-180, maxLongitude]];
+  } else if (maxLongitude > 180) {
+    longitudeRanges = [[minLongitude, 180], [-180, maxLongitude - 360]];
+  } else {
+    longitudeRanges = [[minLongitude, maxLongitude]];
+  }
+  return { minLatitude, maxLatitude, longitudeRanges };
+}
+
+export function isInBoundingBox(box: BoundingBox, latitude: number, longitude: number): boolean {
+  return latitude >= box.minLatitude && latitude <= box.maxLatitude &&
+    box.longitudeRanges.some(([min, max]) => longitude >= min && longitude <= max);
+}
+
+/**
+ * SQL condition for rows inside a bounding box
+ */
+export function boundingBoxCondition(latitudeColumn: AnyPgColumn, longitudeColumn: AnyPgColumn, box: BoundingBox): SQL | undefined {
+  const longitudeConditions = box.longitudeRanges[0][0] <= -180 && box.longitudeRanges[0][1] >= 180
+    ? []
+    : box.longitudeRanges.map(([min, max]) => between(longitudeColumn, String(min), String(max)));
+  return and(
+    between(latitudeColumn, String(box.minLatitude), String(box.maxLatitude)),
+    longitudeConditions.length > 0 ? or(...longitudeConditions) : undefined
+  );
+}
+
+/**
+ * Items within radiusKm of the centre, closest first
+ * Items without coordinates are left out.
+ */
+export function filterWithinRadius<T>(
+  items: T[],
+  getPoint: (item: T) => { latitude: string | number | null; longitude: string | number | null },
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+): Array<WithDistance<T>> {
+  const results: Array<WithDistance<T>> = [];
+  for (const item of items) {
+    const point = getPoint(item);
+    if (point.latitude === null || point.longitude === null) continue;
+    const distanceKm = calculateDistance(latitude, longitude, parseFloat(String(point.latitude)), parseFloat(String(point.longitude)));
+    if (distanceKm <= radiusKm) {
+      results.push({ item, distanceKm });
+    }
+  }
+  return results.sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * The k closest items, searching rings that double in radius until k are found or maxRadiusKm is searched
+ * Every item within a ring is returned by search, so once k are found inside it they are the k closest overall.
+ * @param search - Items within a radius, closest first
+ */
+export async function findNearest<T>(
+  search: (radiusKm: number) => Promise<Array<WithDistance<T>>>,
+  k: number,
+  maxRadiusKm: number = MAX_RADIUS_KM
+): Promise<Array<WithDistance<T>>> {
+  let radiusKm = Math.min(SPATIAL_QUERY_SETTINGS.nearestStartRadiusKm, maxRadiusKm);
+  for (;;) {
+    const found = await search(radiusKm);
+    if (found.length >= k || radiusKm >= maxRadiusKm) {
+      return found.slice(0, k);
+    }
+    radiusKm = Math.min(radiusKm * 2, maxRadiusKm);
+  }
+}
+
+/**
+ * Operators within radiusKm, closest first
+ * @param where - Extra conditions, e.g. online only
+ */
+export async function findOperatorsWithinRadius(latitude: number, longitude: number, radiusKm: number, where?: SQL): Promise<Array<WithDistance<Operator>>> {
+  const box = getBoundingBox(latitude, longitude, radiusKm);
+  const candidates = await db.select().from(operators)
+    .where(and(boundingBoxCondition(operators.latitude, operators.longitude, box), where));
+  return filterWithinRadius(candidates, op => op, latitude, longitude, radiusKm);
+}
+
+export async function findNearestOperators(latitude: number, longitude: number, k: number, where?: SQL, maxRadiusKm?: number): Promise<Array<WithDistance<Operator>>> {
+  return findNearest(radiusKm => findOperatorsWithinRadius(latitude, longitude, radiusKm, where), k, maxRadiusKm);
+}
+
+/**
+ * Service requests within radiusKm, closest first; requests without coordinates are left out
+ * @param where - Extra conditions, e.g. pending and unassigned
+ */
+export async function findServiceRequestsWithinRadius(latitude: number, longitude: number, radiusKm: number, where?: SQL): Promise<Array<WithDistance<ServiceRequest>>> {
+  const box = getBoundingBox(latitude, longitude, radiusKm);
+  const candidates = await db.select().from(serviceRequests)
+    .where(and(boundingBoxCondition(serviceRequests.latitude, serviceRequests.longitude, box), where));
+  return filterWithinRadius(candidates, request => request, latitude, longitude, radiusKm);
+}
+
+export async function findNearestServiceRequests(latitude: number, longitude: number, k: number, where?: SQL, maxRadiusKm?: number): Promise<Array<WithDistance<ServiceRequest>>> {
+  return findNearest(radiusKm => findServiceRequestsWithinRadius(latitude, longitude, radiusKm, where), k, maxRadiusKm);
+}
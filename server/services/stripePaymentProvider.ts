@@ -0,0 +1,129 @@
+/**
+ * Stripe Payment Provider - PaymentProvider backed by the Stripe REST API
+ * Authorizations are manual-capture PaymentIntents and payouts are Connect transfers
+ */
+
+import type { AuthorizeRequest, PaymentProvider, PaymentResult, PayoutRequest, PayoutResult } from "./paymentProvider";
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+interface StripeError {
+  error?: { message?: string; code?: string; decline_code?: string };
+}
+
+type StripeParams = Record<string, string | number | undefined>;
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe";
+
+  constructor(private secretKey: string) {}
+
+  private async request<T>(method: "GET" | "POST", path: string, params: StripeParams = {}, idempotencyKey?: string) {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) body.append(key, String(value));
+    }
+
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    if (idempotencyKey) {
+      headers["Idempotency-Key"] = idempotencyKey;
+    }
+
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method,
+      headers,
+      body: method === "POST" ? body : undefined,
+    });
+    const data = await response.json() as T & StripeError;
+
+    if (!response.ok) {
+      const reason = data.error?.decline_code || data.error?.code || data.error?.message || `stripe_http_${response.status}`;
+      return { ok: false as const, reason };
+    }
+    return { ok: true as const, data };
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+    if (!request.paymentMethodId) {
+      return { success: false, providerPaymentId: null, amountCents: 0, failureReason: "no_payment_method" };
+    }
+
+    const params: StripeParams = {
+      amount: request.amountCents,
+      currency: request.currency.toLowerCase(),
+      payment_method: request.paymentMethodId,
+      "payment_method_types[]": "card",
+      capture_method: "manual",
+      confirm: "true",
+      description: request.description,
+    };
+    for (const [key, value] of Object.entries(request.metadata || {})) {
+      params[`metadata[${key}]`] = value;
+    }
+
+    const result = await this.request<{ id: string; status: string; amount: number }>(
+      "POST", "/payment_intents", params, request.idempotencyKey
+    );
+    if (!result.ok) {
+      return { success: false, providerPaymentId: null, amountCents: 0, failureReason: result.reason };
+    }
+    if (result.data.status !== "requires_capture") {
+      return { success: false, providerPaymentId: result.data.id, amountCents: 0, failureReason: `unexpected_status_${result.data.status}` };
+    }
+    return { success: true, providerPaymentId: result.data.id, amountCents: result.data.amount };
+  }
+
+  async capture(providerPaymentId: string, amountCents: number): Promise<PaymentResult> {
+    const result = await this.request<{ id: string; amount_received: number }>(
+      "POST", `/payment_intents/${providerPaymentId}/capture`, { amount_to_capture: amountCents }, `capture_${providerPaymentId}`
+    );
+    if (!result.ok) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: result.reason };
+    }
+    return { success: true, providerPaymentId, amountCents: result.data.amount_received };
+  }
+
+  async refund(providerPaymentId: string, amountCents: number, idempotencyKey: string): Promise<PaymentResult> {
+    const intent = await this.request<{ status: string; amount: number }>("GET", `/payment_intents/${providerPaymentId}`);
+    if (!intent.ok) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: intent.reason };
+    }
+
+    // Nothing captured yet - cancelling the intent releases the hold
+    if (intent.data.status === "requires_capture") {
+      const cancelled = await this.request<{ id: string }>("POST", `/payment_intents/${providerPaymentId}/cancel`, {}, idempotencyKey);
+      if (!cancelled.ok) {
+        return { success: false, providerPaymentId, amountCents: 0, failureReason: cancelled.reason };
+      }
+      return { success: true, providerPaymentId, amountCents: 0 };
+    }
+
+    const result = await this.request<{ id: string; amount: number }>(
+      "POST", "/refunds", { payment_intent: providerPaymentId, amount: amountCents }, idempotencyKey
+    );
+    if (!result.ok) {
+      return { success: false, providerPaymentId, amountCents: 0, failureReason: result.reason };
+    }
+    return { success: true, providerPaymentId, amountCents: result.data.amount };
+  }
+
+  async payout(request: PayoutRequest): Promise<PayoutResult> {
+    if (!request.destination) {
+      return { success: false, providerPayoutId: null, failureReason: "no_payout_account" };
+    }
+
+    const result = await this.request<{ id: string }>("POST", "/transfers", {
+      amount: request.amountCents,
+      currency: request.currency.toLowerCase(),
+      destination: request.destination,
+      description: request.description,
+    }, request.idempotencyKey);
+    if (!result.ok) {
+      return { success: false, providerPayoutId: null, failureReason: result.reason };
+    }
+    return { success: true, providerPayoutId: result.data.id };
+  }
+}
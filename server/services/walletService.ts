@@ -0,0 +1,148 @@
+/**
+ * Wallet Service - Shared wallet crediting and debiting for payroll, earnings settlement and disputes
+ * Wallets are keyed by users.id; every balance change is recorded as a wallet_transactions row
+ * and posted to the ledger
+ */
+
+import { db } from "../db";
+import { wallets, walletTransactions, users } from "@shared/schema";
+import type { LedgerEntryKind, Wallet, WalletTransaction } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { postJournal, debitCredit, LEDGER_ACCOUNTS } from "./ledgerService";
+import type { DbExecutor } from "./ledgerService";
+import { toCents } from "./paymentProvider";
+
+/**
+ * Wallet owner (users.id) for a session's userId
+ */
+export async function resolveWalletUserId(sessionUserId: string): Promise<number | null> {
+  const user = await db.query.users.findFirst({ where: eq(users.userId, sessionUserId) });
+  return user?.id ?? null;
+}
+
+/**
+ * The user's wallet, created empty on first use
+ * @param executor - A surrounding transaction, so the wallet is created on the same connection
+ */
+export async function getOrCreateWallet(userId: number, executor: DbExecutor = db): Promise<Wallet> {
+  const [existing] = await executor.select().from(wallets).where(eq(wallets.userId, userId)).limit(1);
+  if (existing) return existing;
+
+  // The unique userId makes a concurrent create a no-op rather than a duplicate
+  const [created] = await executor.insert(wallets).values({
+    userId,
+    balance: "0.00",
+    pendingBalance: "0.00",
+    totalEarnings: "0.00",
+    referralCredits: "0.00",
+    currency: "CAD"
+  }).onConflictDoNothing({ target: wallets.userId }).returning();
+  if (created) return created;
+
+  const [wallet] = await executor.select().from(wallets).where(eq(wallets.userId, userId)).limit(1);
+  return wallet;
+}
+
+/**
+ * Add earnings to a user's wallet balance, record a "credit" transaction and post the
+ * matching ledger journal in one database transaction
+ * @param fundedBy - Ledger account the money comes from (debited)
+ * @param executor - A surrounding transaction to commit or roll back with
+ */
+export async function creditWallet(params: {
+  userId: number;
+  amount: number;
+  description: string;
+  reference: string;
+  kind: Extract<LedgerEntryKind, "operator_earning" | "payroll">;
+  fundedBy: string;
+  tier?: string | null;
+  metadata?: Record<string, unknown>;
+}, executor: DbExecutor = db): Promise<{ wallet: Wallet; transaction: WalletTransaction }> {
+  const wallet = await getOrCreateWallet(params.userId, executor);
+  const amount = params.amount.toFixed(2);
+
+  return executor.transaction(async (tx) => {
+    const [transaction] = await tx.insert(walletTransactions).values({
+      walletId: wallet.id,
+      userId: params.userId,
+      type: "credit",
+      amount,
+      description: params.description,
+      status: "completed",
+      reference: params.reference,
+      tier: params.tier || null,
+      metadata: params.metadata || null,
+    }).returning();
+
+    // Increment in SQL so concurrent credits cannot overwrite each other
+    const [updated] = await tx.update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${amount}`,
+        totalEarnings: sql`${wallets.totalEarnings} + ${amount}`,
+        updatedAt: new Date()
+      })
+      .where(eq(wallets.id, wallet.id))
+      .returning();
+
+    await postJournal(tx, {
+      kind: params.kind,
+      lines: debitCredit(params.fundedBy, LEDGER_ACCOUNTS.walletAvailable(params.userId), toCents(params.amount)),
+      description: params.description,
+      reference: params.reference,
+      currency: wallet.currency,
+    });
+
+    return { wallet: updated, transaction };
+  });
+}
+
+/**
+ * Take money back out of a user's wallet balance, record a "debit" transaction and post the
+ * matching ledger journal in one database transaction. The balance may go negative, which
+ * blocks withdrawals until later earnings cover it.
+ * @param creditTo - Ledger account the money goes back to (credited)
+ */
+export async function debitWallet(params: {
+  userId: number;
+  amount: number;
+  description: string;
+  reference: string;
+  kind: Extract<LedgerEntryKind, "dispute_adjustment">;
+  creditTo: string;
+  metadata?: Record<string, unknown>;
+}): Promise<{ wallet: Wallet; transaction: WalletTransaction }> {
+  const wallet = await getOrCreateWallet(params.userId);
+  const amount = params.amount.toFixed(2);
+
+  return db.transaction(async (tx) => {
+    const [transaction] = await tx.insert(walletTransactions).values({
+      walletId: wallet.id,
+      userId: params.userId,
+      type: "debit",
+      amount,
+      description: params.description,
+      status: "completed",
+      reference: params.reference,
+      metadata: params.metadata || null,
+    }).returning();
+
+    const [updated] = await tx.update(wallets)
+      .set({
+        balance: sql`${wallets.balance} - ${amount}`,
+        updatedAt: new Date()
+      })
+      .where(eq(wallets.id, wallet.id))
+      .returning();
+
+    await postJournal(tx, {
+      kind: params.kind,
+      lines: debitCredit(LEDGER_ACCOUNTS.walletAvailable(params.userId), params.creditTo, toCents(params.amount)),
+      description: params.description,
+      reference: params.reference,
+      currency: wallet.currency,
+    });
+
+    return { wallet: updated, transaction };
+  });
+}
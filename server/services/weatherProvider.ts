@@ -0,0 +1,55 @@
+/**
+ * Weather Provider - Source-agnostic weather alerts
+ * Each provider covers one or more countries. WEATHER_PROVIDER chooses "live" (the default),
+ * which uses the National Weather Service for the US and Environment Canada for Canada, or
+ * "fixture", which reads alerts for every country from WEATHER_FIXTURE_FILE for offline work.
+ */
+
+import { NwsWeatherProvider } from "./nwsWeatherProvider";
+import { EnvironmentCanadaWeatherProvider } from "./environmentCanadaWeatherProvider";
+import { FixtureWeatherProvider } from "./fixtureWeatherProvider";
+import type { WeatherAlert } from "./weatherService";
+
+export interface WeatherProvider {
+  readonly name: string;
+  /** Whether the provider has alerts for the ISO2 country code */
+  covers(countryCode: string): boolean;
+  /** Active alerts for states or provinces of a covered country, or the whole country when none are given */
+  getAlerts(countryCode: string, regionCodes: string[]): Promise<WeatherAlert[]>;
+}
+
+let activeProviders: WeatherProvider[] | null = null;
+
+function createProviders(): WeatherProvider[] {
+  const configured = process.env.WEATHER_PROVIDER || "live";
+  if (configured === "fixture") {
+    return [new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_FILE || "fixtures/weather-alerts.json")];
+  }
+  if (configured !== "live") {
+    throw new Error(`Unknown WEATHER_PROVIDER "${configured}"`);
+  }
+  return [new NwsWeatherProvider(), new EnvironmentCanadaWeatherProvider(process.env.EC_ALERTS_FEED_URL)];
+}
+
+function getWeatherProviders(): WeatherProvider[] {
+  if (!activeProviders) {
+    activeProviders = createProviders();
+    console.log(`[Weather] Using ${activeProviders.map(provider => provider.name).join(", ")} weather provider(s)`);
+  }
+  return activeProviders;
+}
+
+/**
+ * The provider with alerts for a country, or null if none covers it
+ */
+export function getWeatherProvider(countryCode: string): WeatherProvider | null {
+  const code = countryCode.toUpperCase();
+  return getWeatherProviders().find(provider => provider.covers(code)) || null;
+}
+
+/**
+ * Replace the active providers, e.g. with a fixture provider in tests
+ */
+export function setWeatherProviders(providers: WeatherProvider[]): void {
+  activeProviders = providers;
+}
@@ -1,9 +1,12 @@
 /**
- * Weather Service - National Weather Service (NWS) API Integration
- * Provides free, unlimited weather alerts for the United States
- * API Documentation: https://www.weather.gov/documentation/services-web-api
+ * Weather Service - Weather alerts from the provider covering each country
+ * Alerts come through a WeatherProvider (see weatherProvider.ts): the National Weather Service
+ * for the United States and Environment Canada for Canada, or a fixture file offline.
+ * Snowfall forecasts still come from the NWS gridpoint API and so cover the United States only.
  */
 
+import { getWeatherProvider } from "./weatherProvider";
+
 export interface WeatherAlert {
   id: string;
   event: string; // e.g., "Winter Storm Warning", "Heavy Snow Watch"
@@ -19,65 +22,81 @@ export interface WeatherAlert {
   messageType: "Alert" | "Update" | "Cancel";
   category: "Met" | "Geo" | "Safety" | "Security" | "Rescue" | "Fire" | "Health" | "Env" | "Transport" | "Infra" | "CBRNE" | "Other";
   instruction?: string;
+  countryCode: string; // ISO2 country code of the issuing service, e.g. "US", "CA"
+  regionCodes: string[]; // States or provinces the alert covers, e.g. ["CO"] or ["ON"]
+  geometry?: AlertGeometry | null; // Warned area, absent for alerts issued by zone
 }
 
-export interface NWSResponse {
-  features: Array<{
-    id: string;
-    properties: WeatherAlert;
-  }>;
-}
+export type AlertGeometry =
+  | { type: "Polygon"; coordinates: number[][][] }
+  | { type: "MultiPolygon"; coordinates: number[][][][] };
 
 /**
- * Fetch active weather alerts for a specific state or area
- * @param area - Two-letter state code (e.g., "CO", "NY") or "US" for all alerts
- * @returns Array of active weather alerts
+ * Fetch active weather alerts for states or provinces of a country
+ * @param countryCode - ISO2 country code (e.g., "US", "CA")
+ * @param regionCodes - State or province codes (e.g., "CO", "ON"); empty for the whole country
+ * @returns Array of active weather alerts, empty when no provider covers the country
  */
-export async function getWeatherAlerts(area: string = "US"): Promise<WeatherAlert[]> {
-  try {
-    const url = `https://api.weather.gov/alerts/active${area !== "US" ? `?area=${area}` : ""}`;
-    
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "Fleetly/1.0 (contact@fleetly.app)", // NWS requires a User-Agent
-        "Accept": "application/geo+json"
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`NWS API error: ${response.status} ${response.statusText}`);
-    }
+export async function getWeatherAlerts(countryCode: string = "US", regionCodes: string[] = []): Promise<WeatherAlert[]> {
+  const provider = getWeatherProvider(countryCode);
+  if (!provider) {
+    console.warn(`[Weather] No weather provider covers ${countryCode}`);
+    return [];
+  }
 
-    const data: NWSResponse = await response.json();
-    
-    return data.features.map(feature => feature.properties);
+  try {
+    return await provider.getAlerts(countryCode.toUpperCase(), regionCodes.map(code => code.toUpperCase()));
   } catch (error) {
-    console.error("Error fetching weather alerts:", error);
+    console.error(`Error fetching weather alerts from ${provider.name}:`, error);
     return [];
   }
 }
 
+const WINTER_KEYWORDS = [
+  "snow",
+  "winter storm",
+  "blizzard",
+  "ice storm",
+  "freezing",
+  "winter weather",
+  "heavy snow"
+];
+
+const STORM_KEYWORDS = [
+  "storm",
+  "thunderstorm",
+  "severe weather",
+  "tornado",
+  "hurricane",
+  "high wind",
+  "flood"
+];
+
+/**
+ * Whether an alert event names winter weather, e.g. "Winter Storm Warning"
+ */
+export function isWinterEvent(event: string): boolean {
+  const eventLower = event.toLowerCase();
+  return WINTER_KEYWORDS.some(keyword => eventLower.includes(keyword));
+}
+
+/**
+ * Whether an alert event names a storm, e.g. "Severe Thunderstorm Warning"
+ */
+export function isStormEvent(event: string): boolean {
+  const eventLower = event.toLowerCase();
+  return STORM_KEYWORDS.some(keyword => eventLower.includes(keyword));
+}
+
 /**
  * Check if alerts contain severe winter weather
  * @param alerts - Array of weather alerts
  * @returns Array of winter weather alerts (only Extreme or Severe severity)
  */
 export function filterWinterWeatherAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
-  const winterKeywords = [
-    "snow",
-    "winter storm",
-    "blizzard",
-    "ice storm",
-    "freezing",
-    "winter weather",
-    "heavy snow"
-  ];
-
   return alerts.filter(alert => {
-    const eventLower = alert.event.toLowerCase();
-    const matchesKeyword = winterKeywords.some(keyword => eventLower.includes(keyword));
     const isSevereEnough = alert.severity === "Extreme" || alert.severity === "Severe";
-    return matchesKeyword && isSevereEnough;
+    return isWinterEvent(alert.event) && isSevereEnough;
   });
 }
 
@@ -87,31 +106,20 @@ export function filterWinterWeatherAlerts(alerts: WeatherAlert[]): WeatherAlert[
  * @returns Array of storm alerts (only Extreme or Severe severity)
  */
 export function filterStormAlerts(alerts: WeatherAlert[]): WeatherAlert[] {
-  const stormKeywords = [
-    "storm",
-    "thunderstorm",
-    "severe weather",
-    "tornado",
-    "hurricane",
-    "high wind",
-    "flood"
-  ];
-
   return alerts.filter(alert => {
-    const eventLower = alert.event.toLowerCase();
-    const matchesKeyword = stormKeywords.some(keyword => eventLower.includes(keyword));
     const isSevereEnough = alert.severity === "Extreme" || alert.severity === "Severe";
-    return matchesKeyword && isSevereEnough;
+    return isStormEvent(alert.event) && isSevereEnough;
   });
 }
 
 /**
  * Get relevant alerts for snow plowing, towing, and hauling services
- * @param area - State code or "US"
+ * @param countryCode - ISO2 country code
+ * @param regionCodes - State or province codes; empty for the whole country
  * @returns Object with winter and storm alerts
  */
-export async function getServiceRelevantAlerts(area: string = "US") {
-  const allAlerts = await getWeatherAlerts(area);
+export async function getServiceRelevantAlerts(countryCode: string = "US", regionCodes: string[] = []) {
+  const allAlerts = await getWeatherAlerts(countryCode, regionCodes);
   
   return {
     winterAlerts: filterWinterWeatherAlerts(allAlerts),
@@ -122,3 +130,70 @@ export async function getServiceRelevantAlerts(area: string = "US") {
     )
   };
 }
+
+interface NWSGridValue {
+  validTime: string; // ISO 8601 interval, e.g. "2026-01-14T06:00:00+00:00/PT6H"
+  value: number | null;
+}
+
+interface NWSPointResponse {
+  properties?: { forecastGridData?: string };
+}
+
+interface NWSGridResponse {
+  properties?: { snowfallAmount?: { values: NWSGridValue[] } }; // Values in mm
+}
+
+// Hours in an ISO 8601 duration such as "PT6H" or "P1DT12H"
+function durationHours(duration: string): number {
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) return 0;
+  return Number(match[1] || 0) * 24 + Number(match[2] || 0) + Number(match[3] || 0) / 60;
+}
+
+/**
+ * Snowfall expected at a point over a period, from the NWS gridpoint forecast
+ * Grid values overlapping the period count in proportion to the overlap. The grid keeps the
+ * last few hours of each forecast, so a period ending now reads as snowfall that has fallen.
+ * @param since - Start of the period
+ * @param until - End of the period
+ * @returns Snowfall in centimetres, or null when NWS has no grid for the point or is unavailable
+ */
+export async function getSnowfallCm(latitude: number, longitude: number, since: Date, until: Date): Promise<number | null> {
+  const headers = {
+    "User-Agent": "Fleetly/1.0 (contact@fleetly.app)", // NWS requires a User-Agent
+    "Accept": "application/geo+json"
+  };
+
+  try {
+    const pointResponse = await fetch(`https://api.weather.gov/points/${latitude.toFixed(4)},${longitude.toFixed(4)}`, { headers });
+    if (!pointResponse.ok) return null;
+    const point: NWSPointResponse = await pointResponse.json();
+    const gridUrl = point.properties?.forecastGridData;
+    if (!gridUrl) return null;
+
+    const gridResponse = await fetch(gridUrl, { headers });
+    if (!gridResponse.ok) {
+      throw new Error(`NWS API error: ${gridResponse.status} ${gridResponse.statusText}`);
+    }
+    const grid: NWSGridResponse = await gridResponse.json();
+    const values = grid.properties?.snowfallAmount?.values || [];
+
+    let totalMm = 0;
+    for (const { validTime, value } of values) {
+      if (!value) continue;
+      const [startText, duration] = validTime.split("/");
+      const start = new Date(startText).getTime();
+      const end = start + durationHours(duration) * 60 * 60 * 1000;
+      const overlap = Math.min(end, until.getTime()) - Math.max(start, since.getTime());
+      if (overlap > 0 && end > start) {
+        totalMm += value * (overlap / (end - start));
+      }
+    }
+
+    return Math.round(totalMm) / 10;
+  } catch (error) {
+    console.error("Error fetching snowfall forecast:", error);
+    return null;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Zone Service - Service zones admins draw on the map or import as GeoJSON
+ * A zone is a polygon plus the tiers allowed to take jobs inside it. The zone counts job fills in each
+ * zone's operators (recent operator_live_locations of online operators) and open requests, and rates
+ * its demand from them. A job inside one or more zones is only open to tiers that at least one of
+ * those zones allows; jobs outside every zone are open to every tier.
+ */
+
+import { db } from "../db";
+import { serviceZones, operatorLiveLocations, operators, serviceRequests } from "@shared/schema";
+import type { OperatorTier, ServiceZoneRecord, ZoneSource } from "@shared/schema";
+import { DEMAND_COLORS, ZONE_TIERS, getGeometryCenter, getZonesContainingPoint, isPointInZone, validateZoneGeometry } from "@shared/zones";
+import type { DemandLevel, ServiceZone, ZoneGeometry } from "@shared/zones";
+import { and, arrayContains, eq, gte, isNull } from "drizzle-orm";
+import { computeDemandLevel } from "./demandEngine";
+
+export const ZONE_SETTINGS = {
+  liveLocationMaxAgeMs: 10 * 60 * 1000, // Operators whose last location is older than this are not counted
+  maxImportFeatures: 500,
+};
+
+export interface NewZone {
+  name: string;
+  description?: string | null;
+  geometry: ZoneGeometry;
+  allowedTiers?: OperatorTier[];
+}
+
+export interface ZoneUpdate {
+  name?: string;
+  description?: string | null;
+  geometry?: ZoneGeometry;
+  allowedTiers?: OperatorTier[];
+  isActive?: boolean;
+}
+
+export interface ZoneImportResult {
+  created: ServiceZoneRecord[];
+  errors: Array<{ index: number; message: string }>; // Features that were skipped, by position in the import
+}
+
+/**
+ * A stored zone shaped for the map, coloured by its demand
+ */
+export function toServiceZone(zone: ServiceZoneRecord): ServiceZone {
+  const level = zone.demandLevel as DemandLevel;
+  return {
+    id: zone.zoneId,
+    name: zone.name,
+    displayName: zone.name,
+    description: zone.description || `${zone.pendingJobs} open requests, ${zone.activeOperators} operators nearby`,
+    geometry: zone.geometry as ZoneGeometry,
+    center: [parseFloat(zone.centerLongitude), parseFloat(zone.centerLatitude)],
+    allowedTiers: zone.allowedTiers as OperatorTier[],
+    demandLevel: level,
+    activeOperators: zone.activeOperators,
+    pendingJobs: zone.pendingJobs,
+    color: DEMAND_COLORS[level].fill,
+    borderColor: DEMAND_COLORS[level].border,
+  };
+}
+
+/**
+ * Active zones, or every zone for the admin list
+ * @param tier - Only zones this tier may work in
+ */
+export async function getZones(tier?: string, includeInactive: boolean = false): Promise<ServiceZoneRecord[]> {
+  return db.select().from(serviceZones)
+    .where(and(
+      includeInactive ? undefined : eq(serviceZones.isActive, 1),
+      tier ? arrayContains(serviceZones.allowedTiers, [tier]) : undefined
+    ))
+    .orderBy(serviceZones.name);
+}
+
+export async function getZone(zoneId: string): Promise<ServiceZoneRecord | null> {
+  const [zone] = await db.select().from(serviceZones).where(eq(serviceZones.zoneId, zoneId)).limit(1);
+  return zone || null;
+}
+
+function getCenterColumns(geometry: ZoneGeometry) {
+  const [longitude, latitude] = getGeometryCenter(geometry);
+  return { centerLatitude: latitude.toFixed(7), centerLongitude: longitude.toFixed(7) };
+}
+
+/**
+ * Store a zone; call validateZoneGeometry on the geometry first
+ */
+export async function createZone(input: NewZone, source: ZoneSource, createdBy: string | null, now: Date = new Date()): Promise<ServiceZoneRecord> {
+  const [zone] = await db.insert(serviceZones)
+    .values({
+      zoneId: `ZONE-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: input.name,
+      description: input.description || null,
+      geometry: input.geometry,
+      ...getCenterColumns(input.geometry),
+      allowedTiers: input.allowedTiers && input.allowedTiers.length > 0 ? input.allowedTiers : ZONE_TIERS,
+      source,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return zone;
+}
+
+function isZoneTier(tier: unknown): tier is OperatorTier {
+  return ZONE_TIERS.includes(tier as OperatorTier);
+}
+
+/**
+ * Create a zone for every polygon in a GeoJSON FeatureCollection, Feature or bare geometry
+ * Feature properties may set name, description and allowedTiers. Features that are not polygons,
+ * or name tiers that do not exist, are skipped and reported.
+ * @returns null if the input is not GeoJSON or has too many features
+ */
+export async function importZones(geojson: unknown, createdBy: string | null, now: Date = new Date()): Promise<ZoneImportResult | null> {
+  if (!geojson || typeof geojson !== "object") return null;
+  const { type } = geojson as { type?: unknown };
+
+  let features: unknown[];
+  if (type === "FeatureCollection") {
+    features = (geojson as { features?: unknown }).features as unknown[];
+    if (!Array.isArray(features)) return null;
+  } else if (type === "Feature") {
+    features = [geojson];
+  } else if (type === "Polygon" || type === "MultiPolygon") {
+    features = [{ type: "Feature", geometry: geojson, properties: {} }];
+  } else {
+    return null;
+  }
+  if (features.length > ZONE_SETTINGS.maxImportFeatures) return null;
+
+  const result: ZoneImportResult = { created: [], errors: [] };
+  for (const [index, feature] of features.entries()) {
+    const { geometry, properties } = (feature || {}) as { geometry?: unknown; properties?: Record<string, unknown> | null };
+    const invalid = validateZoneGeometry(geometry);
+    if (invalid) {
+      result.errors.push({ index, message: invalid });
+      continue;
+    }
+
+    const allowedTiers = properties?.allowedTiers;
+    if (allowedTiers !== undefined && (!Array.isArray(allowedTiers) || !allowedTiers.every(isZoneTier))) {
+      result.errors.push({ index, message: `allowedTiers must list tiers from ${ZONE_TIERS.join(", ")}` });
+      continue;
+    }
+
+    const name = typeof properties?.name === "string" && properties.name.trim() ? properties.name.trim() : `Imported zone ${index + 1}`;
+    const description = typeof properties?.description === "string" ? properties.description : null;
+    result.created.push(await createZone({ name, description, geometry: geometry as ZoneGeometry, allowedTiers: allowedTiers as OperatorTier[] | undefined }, "imported", createdBy, now));
+  }
+  return result;
+}
+
+/**
+ * Rename, redraw, change the allowed tiers, or (de)activate a zone
+ * Redrawn zones keep their old counts until the next counts run.
+ */
+export async function updateZone(zone: ServiceZoneRecord, updates: ZoneUpdate, now: Date = new Date()): Promise<ServiceZoneRecord> {
+  const [updated] = await db.update(serviceZones)
+    .set({
+      ...(updates.name !== undefined ? { name: updates.name } : {}),
+      ...(updates.description !== undefined ? { description: updates.description || null } : {}),
+      ...(updates.geometry !== undefined ? { geometry: updates.geometry, ...getCenterColumns(updates.geometry) } : {}),
+      ...(updates.allowedTiers !== undefined ? { allowedTiers: updates.allowedTiers.length > 0 ? updates.allowedTiers : ZONE_TIERS } : {}),
+      ...(updates.isActive !== undefined ? { isActive: updates.isActive ? 1 : 0 } : {}),
+      updatedAt: now,
+    })
+    .where(eq(serviceZones.zoneId, zone.zoneId))
+    .returning();
+  return updated;
+}
+
+/**
+ * @returns false if the zone does not exist
+ */
+export async function deleteZone(zoneId: string): Promise<boolean> {
+  const deleted = await db.delete(serviceZones).where(eq(serviceZones.zoneId, zoneId)).returning();
+  return deleted.length > 0;
+}
+
+/**
+ * Recount every active zone's operators and open requests and rate its demand - called by the zone counts job
+ * @returns The number of zones counted
+ */
+export async function refreshZoneCounts(now: Date = new Date()): Promise<number> {
+  const zones = await getZones();
+  if (zones.length === 0) return 0;
+
+  const since = new Date(now.getTime() - ZONE_SETTINGS.liveLocationMaxAgeMs);
+  const liveLocations = await db.select({ latitude: operatorLiveLocations.latitude, longitude: operatorLiveLocations.longitude })
+    .from(operatorLiveLocations)
+    .innerJoin(operators, eq(operators.operatorId, operatorLiveLocations.operatorId))
+    .where(and(eq(operators.isOnline, 1), gte(operatorLiveLocations.updatedAt, since)));
+
+  const openRequests = await db.select({ latitude: serviceRequests.latitude, longitude: serviceRequests.longitude })
+    .from(serviceRequests)
+    .where(and(eq(serviceRequests.status, "pending"), isNull(serviceRequests.operatorId)));
+
+  const toPoint = ({ latitude, longitude }: { latitude: string | null; longitude: string | null }): [number, number] | null =>
+    latitude && longitude ? [parseFloat(longitude), parseFloat(latitude)] : null;
+  const operatorPoints = liveLocations.map(toPoint).filter((point): point is [number, number] => !!point);
+  const requestPoints = openRequests.map(toPoint).filter((point): point is [number, number] => !!point);
+
+  for (const zone of zones) {
+    const geometry = { geometry: zone.geometry as ZoneGeometry };
+    const activeOperators = operatorPoints.filter(point => isPointInZone(point, geometry)).length;
+    const pendingJobs = requestPoints.filter(point => isPointInZone(point, geometry)).length;
+
+    await db.update(serviceZones)
+      .set({
+        activeOperators,
+        pendingJobs,
+        demandLevel: computeDemandLevel(pendingJobs, activeOperators, []),
+        countsUpdatedAt: now,
+      })
+      .where(eq(serviceZones.id, zone.id));
+  }
+
+  return zones.length;
+}
+
+/**
+ * Whether a tier may take a job at a point, given the active zones
+ */
+export function isTierAllowedInZones(tier: string, latitude: number, longitude: number, zones: ServiceZoneRecord[]): boolean {
+  const containing = getZonesContainingPoint([longitude, latitude], zones.map(zone => ({ ...zone, geometry: zone.geometry as ZoneGeometry })));
+  return containing.length === 0 || containing.some(zone => zone.allowedTiers.includes(tier));
+}
+
+/**
+ * Whether a tier may take a job at a point
+ */
+export async function isTierAllowedAt(tier: string, latitude: number, longitude: number): Promise<boolean> {
+  return isTierAllowedInZones(tier, latitude, longitude, await getZones());
+}
@@ -20,8 +20,14 @@ import type {
   PaymentCard, InsertPaymentCard
 } from "@shared/schema";
 import { db } from "./db";
-import { operatorDailyEarnings, operatorMonthlyEarnings, operatorPenalties, acceptedJobs, operatorPricingConfigs, operatorQuotes, serviceRequests } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  jobs, operators, customers, ratings, favorites, operatorLocations, customerServiceHistory, businesses,
+  vehicles, users, sessions, operatorTierStats, operatorDailyEarnings, operatorMonthlyEarnings, operatorPenalties,
+  acceptedJobs, operatorPricingConfigs, operatorQuotes, serviceRequests, wallets, walletTransactions, paymentCards
+} from "@shared/schema";
+import { eq, and, ne, desc, inArray, lt, sql } from "drizzle-orm";
+import { formatBudgetRange, resolveBudget } from "@shared/pricing";
+import { getBoundingBox, boundingBoxCondition } from "./services/spatialQueryService";
 
 export interface IStorage {
   getJobs(customerId?: string): Promise<Job[]>;
@@ -156,6 +162,183 @@ export interface IStorage {
   setDefaultPaymentCard(cardId: number, userId: number): Promise<boolean>;
 }
 
+// Build the stored details object from a request's service-specific fields
+export function buildServiceRequestDetails(request: InsertServiceRequest) {
+  if (request.snowDetails) {
+    return { type: 'snow', payload: request.snowDetails };
+  } else if (request.towingDetails) {
+    return { type: 'towing', payload: request.towingDetails };
+  } else if (request.haulingDetails) {
+    return { type: 'hauling', payload: request.haulingDetails };
+  } else if (request.courierDetails) {
+    return { type: 'courier', payload: request.courierDetails };
+  }
+  return null;
+}
+
+// Coordinates stored for a request's location
+export function resolveRequestCoordinates(request: { latitude?: number; longitude?: number }) {
+  // TODO: Implement proper Mapbox Geocoding API integration to convert address to coordinates
+  // For now, use mock coordinates (Toronto area) with slight randomization for testing
+  const baseLat = 43.6532;
+  const baseLon = -79.3832;
+  const randomOffset = () => (Math.random() - 0.5) * 0.1; // Random offset within ~5km
+  
+  return {
+    latitude: request.latitude ? String(request.latitude) : String(baseLat + randomOffset()),
+    longitude: request.longitude ? String(request.longitude) : String(baseLon + randomOffset()),
+  };
+}
+
+// Service requests live in Postgres for both storage implementations
+async function insertServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
+  const details = buildServiceRequestDetails(request);
+  
+  const { latitude, longitude } = resolveRequestCoordinates(request);
+  const budget = resolveBudget(request);
+  
+  // Calculate quote window expiry (12 hours from now)
+  const quoteWindowExpiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000);
+  
+  // Insert into database using Drizzle
+  const [newRequest] = await db.insert(serviceRequests).values({
+    requestId: `REQ-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    customerId: request.customerId,
+    customerName: request.customerName,
+    operatorId: request.operatorId || null,
+    operatorName: request.operatorName || null,
+    serviceType: request.serviceType,
+    isEmergency: request.isEmergency ? 1 : 0,
+    urgencyLevel: request.urgencyLevel || null,
+    description: request.description,
+    status: request.status || "pending",
+    location: request.location,
+    latitude,
+    longitude,
+    preferredDate: request.preferredDate || null,
+    preferredTime: request.preferredTime || null,
+    timeFlexibility: request.timeFlexibility || null,
+    budgetRange: budget ? formatBudgetRange(budget) : request.budgetRange || null,
+    budgetMin: budget ? String(budget.min) : null,
+    budgetMax: budget ? String(budget.max) : null,
+    imageCount: request.imageCount || 0,
+    details,
+    estimatedCost: request.estimatedCost || null,
+    quoteWindowExpiresAt,
+    quoteStatus: "open",
+    quoteCount: 0,
+  }).returning();
+  
+  return newRequest;
+}
+
+// Haversine distance in miles
+function distanceMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 3959; // Earth's radius in miles
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Operators who cancel before reaching 50% progress are penalised the midpoint of the customer's budget
+function getCancellationPenalty(job: AcceptedJob): number | undefined {
+  if (job.progress >= 50) return undefined;
+
+  const budget = resolveBudget(job.jobData);
+  if (!budget) return undefined;
+  return (budget.min + budget.max) / 2;
+}
+
+/**
+ * Operators who offer the request's service within their tier's radius, best rated and then closest first
+ */
+function rankAlternativeOperators(
+  request: ServiceRequest,
+  candidates: Operator[],
+  excludeOperatorIds: string[]
+): Array<Operator & { distanceKm: number }> {
+  if (!request.latitude || !request.longitude) {
+    return [];
+  }
+
+  const requestLat = parseFloat(request.latitude.toString());
+  const requestLon = parseFloat(request.longitude.toString());
+
+  // Haversine formula to calculate distance in kilometers
+  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const R = 6371; // Earth's radius in km
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLon = (lon2 - lon1) * Math.PI / 180;
+    const a = 
+      Math.sin(dLat/2) * Math.sin(dLat/2) +
+      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+      Math.sin(dLon/2) * Math.sin(dLon/2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+    return R * c;
+  };
+
+  // Get all operators that offer this service type
+  const matchingOperators = candidates.filter((op) => {
+    // Exclude already-declined operators
+    if (excludeOperatorIds.includes(op.operatorId)) return false;
+
+    // Check if operator offers this service type
+    const services = Array.isArray(op.services) ? op.services : [];
+    if (!services.includes(request.serviceType)) return false;
+
+    // Check if operator has valid location
+    if (!op.latitude || !op.longitude) return false;
+
+    return true;
+  });
+
+  // Calculate distance and filter by tier operating radius
+  const operatorsWithDistance = matchingOperators.map((op) => {
+    const opLat = parseFloat(op.latitude!.toString());
+    const opLon = parseFloat(op.longitude!.toString());
+    const distanceKm = calculateDistance(requestLat, requestLon, opLat, opLon);
+
+    return {
+      ...op,
+      distanceKm
+    };
+  }).filter((op) => {
+    // Filter by tier operating radius
+    const tier = op.activeTier || op.operatorTier || 'manual';
+    const tierInfo = {
+      professional: null, // No radius restriction
+      equipped: 15, // 15km radius
+      manual: 5, // 5km radius from home
+    };
+    
+    const maxRadius = tierInfo[tier as keyof typeof tierInfo];
+    if (maxRadius === null) return true; // Professional - no limit
+    
+    return op.distanceKm <= maxRadius;
+  });
+
+  // Sort by rating (highest first), then by distance (closest first)
+  operatorsWithDistance.sort((a, b) => {
+    const ratingA = parseFloat(a.rating?.toString() || '0');
+    const ratingB = parseFloat(b.rating?.toString() || '0');
+    
+    if (ratingA !== ratingB) {
+      return ratingB - ratingA; // Higher rating first
+    }
+    
+    return a.distanceKm - b.distanceKm; // Closer first if ratings equal
+  });
+
+  return operatorsWithDistance;
+}
+
 export class MemStorage implements IStorage {
   private jobs: Job[] = [];
   private operators: Operator[] = [];
@@ -372,58 +555,7 @@ export class MemStorage implements IStorage {
   }
 
   async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
-    // Build details object from service-specific fields
-    let details: any = null;
-    if (request.snowDetails) {
-      details = { type: 'snow', payload: request.snowDetails };
-    } else if (request.towingDetails) {
-      details = { type: 'towing', payload: request.towingDetails };
-    } else if (request.haulingDetails) {
-      details = { type: 'hauling', payload: request.haulingDetails };
-    } else if (request.courierDetails) {
-      details = { type: 'courier', payload: request.courierDetails };
-    }
-    
-    // TODO: Implement proper Mapbox Geocoding API integration to convert address to coordinates
-    // For now, use mock coordinates (Toronto area) with slight randomization for testing
-    const baseLat = 43.6532;
-    const baseLon = -79.3832;
-    const randomOffset = () => (Math.random() - 0.5) * 0.1; // Random offset within ~5km
-    
-    const latitude = request.latitude ? String(request.latitude) : String(baseLat + randomOffset());
-    const longitude = request.longitude ? String(request.longitude) : String(baseLon + randomOffset());
-    
-    // Calculate quote window expiry (12 hours from now)
-    const quoteWindowExpiresAt = new Date(Date.now() + 12 * 60 * 60 * 1000);
-    
-    // Insert into database using Drizzle
-    const [newRequest] = await db.insert(serviceRequests).values({
-      requestId: `REQ-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      customerId: request.customerId,
-      customerName: request.customerName,
-      operatorId: request.operatorId || null,
-      operatorName: request.operatorName || null,
-      serviceType: request.serviceType,
-      isEmergency: request.isEmergency ? 1 : 0,
-      urgencyLevel: request.urgencyLevel || null,
-      description: request.description,
-      status: request.status || "pending",
-      location: request.location,
-      latitude,
-      longitude,
-      preferredDate: request.preferredDate || null,
-      preferredTime: request.preferredTime || null,
-      timeFlexibility: request.timeFlexibility || null,
-      budgetRange: request.budgetRange || null,
-      imageCount: request.imageCount || 0,
-      details,
-      estimatedCost: request.estimatedCost || null,
-      quoteWindowExpiresAt,
-      quoteStatus: "open",
-      quoteCount: 0,
-    }).returning();
-    
-    return newRequest;
+    return insertServiceRequest(request);
   }
 
   async updateServiceRequest(id: number, status: string, respondedAt?: Date): Promise<ServiceRequest | undefined> {
@@ -592,17 +724,7 @@ export class MemStorage implements IStorage {
   }
 
   private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 3959; // Earth's radius in miles
-    const dLat = ((lat2 - lat1) * Math.PI) / 180;
-    const dLon = ((lon2 - lon1) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos((lat1 * Math.PI) / 180) *
-        Math.cos((lat2 * Math.PI) / 180) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    return distanceMiles(lat1, lon1, lat2, lon2);
   }
 
   // Business management implementation
@@ -819,6 +941,133 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  // Authentication & Users
+  async createUser(user: InsertUser): Promise<User> {
+    const newUser: User = {
+      id: this.nextUserId++,
+      userId: user.userId,
+      name: user.name,
+      nameLower: null,
+      email: user.email,
+      emailNormalized: null,
+      passwordHash: user.passwordHash || null,
+      role: user.role || "customer",
+      operatorId: user.operatorId || null,
+      businessId: user.businessId || null,
+      isAdmin: 0,
+      emailVerified: 0,
+      emailVerifiedAt: null,
+      createdAt: new Date(),
+    };
+    this.users.push(newUser);
+    return newUser;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return this.users.find((u) => u.email === email);
+  }
+
+  async getUserByUserId(userId: string): Promise<User | undefined> {
+    return this.users.find((u) => u.userId === userId);
+  }
+
+  async updateUser(userId: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const index = this.users.findIndex((u) => u.userId === userId);
+    if (index === -1) return undefined;
+
+    this.users[index] = {
+      ...this.users[index],
+      ...updates,
+    };
+    return this.users[index];
+  }
+
+  // Sessions
+  async createSession(session: InsertSession): Promise<Session> {
+    const newSession: Session = {
+      id: this.nextSessionId++,
+      sessionId: session.sessionId,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+      createdAt: new Date(),
+    };
+    this.sessions.push(newSession);
+    return newSession;
+  }
+
+  async getSession(sessionId: string): Promise<Session | undefined> {
+    return this.sessions.find((s) => s.sessionId === sessionId);
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const index = this.sessions.findIndex((s) => s.sessionId === sessionId);
+    if (index === -1) return false;
+    this.sessions.splice(index, 1);
+    return true;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const now = Date.now();
+    const before = this.sessions.length;
+    this.sessions = this.sessions.filter((s) => s.expiresAt.getTime() >= now);
+    return before - this.sessions.length;
+  }
+
+  // Operator Tier Stats
+  private tierStats: OperatorTierStats[] = [];
+  private nextTierStatId = 1;
+
+  async getOperatorTierStats(operatorId: string): Promise<OperatorTierStats[]> {
+    return this.tierStats.filter((t) => t.operatorId === operatorId);
+  }
+
+  async getOperatorTierStat(operatorId: string, tier: string): Promise<OperatorTierStats | undefined> {
+    return this.tierStats.find((t) => t.operatorId === operatorId && t.tier === tier);
+  }
+
+  async createOperatorTierStat(stat: InsertOperatorTierStats): Promise<OperatorTierStats> {
+    const newStat: OperatorTierStats = {
+      id: this.nextTierStatId++,
+      operatorId: stat.operatorId,
+      tier: stat.tier,
+      jobsCompleted: stat.jobsCompleted || 0,
+      totalEarnings: stat.totalEarnings || "0",
+      rating: stat.rating || "0",
+      totalRatings: stat.totalRatings || 0,
+      lastActiveAt: stat.lastActiveAt || null,
+      createdAt: new Date(),
+    };
+    this.tierStats.push(newStat);
+    return newStat;
+  }
+
+  async updateOperatorTierStat(operatorId: string, tier: string, updates: Partial<InsertOperatorTierStats>): Promise<OperatorTierStats | undefined> {
+    const stat = await this.getOperatorTierStat(operatorId, tier);
+    if (!stat) return undefined;
+
+    Object.assign(stat, updates);
+    return stat;
+  }
+
+  private getOrCreateTierStat(operatorId: string, tier: string): OperatorTierStats {
+    let stat = this.tierStats.find((t) => t.operatorId === operatorId && t.tier === tier);
+    if (!stat) {
+      stat = {
+        id: this.nextTierStatId++,
+        operatorId,
+        tier,
+        jobsCompleted: 0,
+        totalEarnings: "0",
+        rating: "0",
+        totalRatings: 0,
+        lastActiveAt: null,
+        createdAt: new Date(),
+      };
+      this.tierStats.push(stat);
+    }
+    return stat;
+  }
+
   // Accepted Jobs - Persistent job tracking
   async getAcceptedJobs(operatorId: string, tier?: string): Promise<AcceptedJob[]> {
     let jobs = this.acceptedJobs.filter((j) => j.operatorId === operatorId);
@@ -836,11 +1085,21 @@ export class MemStorage implements IStorage {
   async createAcceptedJob(job: InsertAcceptedJob): Promise<AcceptedJob> {
     const newJob: AcceptedJob = {
       id: this.nextAcceptedJobId++,
-      ...job,
+      acceptedJobId: job.acceptedJobId,
+      operatorId: job.operatorId,
+      jobSourceId: job.jobSourceId,
+      jobSourceType: job.jobSourceType,
+      tier: job.tier,
+      status: job.status || "accepted",
+      progress: job.progress || 0,
+      jobData: job.jobData,
+      actualEarnings: job.actualEarnings || null,
+      cancelledByOperator: job.cancelledByOperator || 0,
       acceptedAt: new Date(),
-      startedAt: null,
-      completedAt: null,
-      cancelledAt: null,
+      startedAt: job.startedAt || null,
+      completedAt: job.completedAt || null,
+      cancelledAt: job.cancelledAt || null,
+      cancellationReason: job.cancellationReason || null,
     };
     this.acceptedJobs.push(newJob);
     return newJob;
@@ -888,18 +1147,7 @@ export class MemStorage implements IStorage {
     job.cancellationReason = reason;
     job.cancelledByOperator = cancelledByOperator ? 1 : 0;
     
-    let penalty: number | undefined;
-    if (cancelledByOperator && job.progress < 50) {
-      // Calculate penalty from budget range or estimated earnings
-      const jobData = job.jobData as any;
-      const budgetRange = jobData?.budgetRange || "$0";
-      const match = budgetRange.match(/\$(\d+)-\$?(\d+)/);
-      if (match) {
-        const midpoint = (parseInt(match[1]) + parseInt(match[2])) / 2;
-        penalty = midpoint;
-      }
-    }
-    
+    const penalty = cancelledByOperator ? getCancellationPenalty(job) : undefined;
     return { job, penalty };
   }
 
@@ -974,14 +1222,18 @@ export class MemStorage implements IStorage {
   }
 
   async incrementTierJobCount(operatorId: string, tier: string, earnings: number): Promise<void> {
-    // This method is a no-op for in-memory storage
-    // In database implementation, this would update operatorTierStats table
-    // For now, earnings tracking is handled by upsertDailyEarnings/upsertMonthlyEarnings
+    const stat = this.getOrCreateTierStat(operatorId, tier);
+    stat.jobsCompleted += 1;
+    stat.totalEarnings = (parseFloat(stat.totalEarnings) + earnings).toFixed(2);
+    stat.lastActiveAt = new Date();
   }
 
   async updateTierRating(operatorId: string, tier: string, newRating: number): Promise<void> {
-    // This method is a no-op for in-memory storage
-    // In database implementation, this would update operatorTierStats table
+    const stat = this.getOrCreateTierStat(operatorId, tier);
+    // Fold the new rating into the running average
+    const total = parseFloat(stat.rating) * stat.totalRatings + newRating;
+    stat.totalRatings += 1;
+    stat.rating = (total / stat.totalRatings).toFixed(2);
   }
 
   // Pricing Configuration methods
@@ -1084,79 +1336,9 @@ export class MemStorage implements IStorage {
   async findAlternativeOperators(serviceRequestId: string, excludeOperatorIds: string[] = []): Promise<Array<Operator & { distanceKm: number }>> {
     // Get the service request to extract location and service type
     const request = this.serviceRequests.find((r) => r.requestId === serviceRequestId);
-    if (!request || !request.latitude || !request.longitude) {
-      return [];
-    }
-
-    const requestLat = parseFloat(request.latitude.toString());
-    const requestLon = parseFloat(request.longitude.toString());
-
-    // Haversine formula to calculate distance in kilometers
-    const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-      const R = 6371; // Earth's radius in km
-      const dLat = (lat2 - lat1) * Math.PI / 180;
-      const dLon = (lon2 - lon1) * Math.PI / 180;
-      const a = 
-        Math.sin(dLat/2) * Math.sin(dLat/2) +
-        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-        Math.sin(dLon/2) * Math.sin(dLon/2);
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-      return R * c;
-    };
-
-    // Get all operators that offer this service type
-    const matchingOperators = this.operators.filter((op) => {
-      // Exclude already-declined operators
-      if (excludeOperatorIds.includes(op.operatorId)) return false;
-
-      // Check if operator offers this service type
-      const services = Array.isArray(op.services) ? op.services : [];
-      if (!services.includes(request.serviceType)) return false;
-
-      // Check if operator has valid location
-      if (!op.latitude || !op.longitude) return false;
+    if (!request) return [];
 
-      return true;
-    });
-
-    // Calculate distance and filter by tier operating radius
-    const operatorsWithDistance = matchingOperators.map((op) => {
-      const opLat = parseFloat(op.latitude!.toString());
-      const opLon = parseFloat(op.longitude!.toString());
-      const distanceKm = calculateDistance(requestLat, requestLon, opLat, opLon);
-
-      return {
-        ...op,
-        distanceKm
-      };
-    }).filter((op) => {
-      // Filter by tier operating radius
-      const tier = op.activeTier || op.operatorTier || 'manual';
-      const tierInfo = {
-        professional: null, // No radius restriction
-        equipped: 15, // 15km radius
-        manual: 5, // 5km radius from home
-      };
-      
-      const maxRadius = tierInfo[tier as keyof typeof tierInfo];
-      if (maxRadius === null) return true; // Professional - no limit
-      
-      return op.distanceKm <= maxRadius;
-    });
-
-    // Sort by rating (highest first), then by distance (closest first)
-    operatorsWithDistance.sort((a, b) => {
-      const ratingA = parseFloat(a.rating?.toString() || '0');
-      const ratingB = parseFloat(b.rating?.toString() || '0');
-      
-      if (ratingA !== ratingB) {
-        return ratingB - ratingA; // Higher rating first
-      }
-      
-      return a.distanceKm - b.distanceKm; // Closer first if ratings equal
-    });
-
-    return operatorsWithDistance;
+    return rankAlternativeOperators(request, this.operators, excludeOperatorIds);
   }
 
   // Wallet Management (in-memory implementation)
@@ -1182,6 +1364,7 @@ export class MemStorage implements IStorage {
         totalEarnings: "0.00",
         referralCredits: "0.00",
         currency: "CAD",
+        payoutAccountId: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -1288,3 +1471,1016 @@ export class MemStorage implements IStorage {
     return true;
   }
 }
+
+type EarningsTotals = { earnings: number; jobsCompleted: number };
+type TierDetails = { vehicle?: string; licensePlate?: string; businessLicense?: string; services?: string };
+
+const ACTIVE_JOB_STATUSES = ["accepted", "in_progress"];
+
+/**
+ * Postgres-backed storage on the existing Drizzle tables, so everything routes keep through
+ * IStorage survives a restart. Behaviour mirrors MemStorage method for method.
+ */
+export class PgStorage implements IStorage {
+  async getJobs(customerId?: string): Promise<Job[]> {
+    if (customerId) {
+      return db.select().from(jobs).where(eq(jobs.customerId, customerId));
+    }
+    return db.select().from(jobs);
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id)).limit(1);
+    return job;
+  }
+
+  async getJobByNumber(jobNumber: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.jobNumber, jobNumber)).limit(1);
+    return job;
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db.insert(jobs).values({
+      jobNumber: job.jobNumber,
+      service: job.service,
+      customerId: job.customerId,
+      customerName: job.customerName,
+      operatorId: job.operatorId || null,
+      operatorName: job.operatorName || null,
+      operatorRating: job.operatorRating || null,
+      operatorPhone: job.operatorPhone || null,
+      operatorVehicle: job.operatorVehicle || null,
+      operatorLicensePlate: job.operatorLicensePlate || null,
+      status: job.status || "pending",
+      progress: job.progress || 0,
+      location: job.location,
+      estimatedArrival: job.estimatedArrival || null,
+      estimatedCompletion: job.estimatedCompletion || null,
+      estimatedTotal: job.estimatedTotal || null,
+      actualTotal: job.actualTotal || null,
+      jobSteps: job.jobSteps || null,
+    }).returning();
+    return newJob;
+  }
+
+  async updateJob(id: number, jobUpdate: UpdateJob): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({ ...jobUpdate, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getOperators(service?: string): Promise<Operator[]> {
+    if (service) {
+      return db.select().from(operators)
+        .where(sql`${operators.services} @> ${JSON.stringify([service])}::jsonb`);
+    }
+    return db.select().from(operators);
+  }
+
+  async getOperator(id: number): Promise<Operator | undefined> {
+    const [operator] = await db.select().from(operators).where(eq(operators.id, id)).limit(1);
+    return operator;
+  }
+
+  async getOperatorByOperatorId(operatorId: string): Promise<Operator | undefined> {
+    const [operator] = await db.select().from(operators).where(eq(operators.operatorId, operatorId)).limit(1);
+    return operator;
+  }
+
+  async createOperator(operator: InsertOperator): Promise<Operator> {
+    const existing = await this.getOperatorByOperatorId(operator.operatorId);
+    if (existing) {
+      throw new Error(`Operator with ID ${operator.operatorId} already exists`);
+    }
+
+    const tier = operator.operatorTier || "manual";
+    const subscribedTiers: string[] = operator.subscribedTiers ? [...operator.subscribedTiers] : [tier];
+    const activeTier = operator.activeTier || tier;
+    if (!subscribedTiers.includes(activeTier)) {
+      subscribedTiers.push(activeTier);
+    }
+
+    const [newOperator] = await db.insert(operators).values({
+      operatorId: operator.operatorId,
+      name: operator.name,
+      driverName: operator.driverName || operator.name,
+      rating: "0",
+      totalJobs: 0,
+      services: operator.services || [],
+      vehicle: operator.vehicle || "Not specified",
+      licensePlate: operator.licensePlate || "N/A",
+      phone: operator.phone || "",
+      email: operator.email,
+      latitude: operator.latitude || "0",
+      longitude: operator.longitude || "0",
+      address: operator.address || "",
+      isOnline: operator.isOnline || 0,
+      hourlyRate: operator.hourlyRate || "0",
+      availability: operator.availability || "available",
+      photo: operator.photo || null,
+      operatorTier: tier,
+      subscribedTiers,
+      activeTier,
+      isCertified: operator.isCertified || 0,
+      businessLicense: operator.businessLicense || null,
+      businessId: operator.businessId || null,
+      businessName: operator.businessName || null,
+      homeLatitude: operator.homeLatitude || operator.latitude || "0",
+      homeLongitude: operator.homeLongitude || operator.longitude || "0",
+      operatingRadius: operator.operatingRadius || null,
+    }).returning();
+    return newOperator;
+  }
+
+  async updateOperator(operatorId: string, updates: Partial<InsertOperator>): Promise<Operator | undefined> {
+    const [operator] = await db.update(operators)
+      .set(updates)
+      .where(eq(operators.operatorId, operatorId))
+      .returning();
+    return operator;
+  }
+
+  async getNearbyOperators(lat: number, lon: number, radiusMiles: number = 10): Promise<Operator[]> {
+    // Same angular radius as distanceMiles, in the km the bounding box expects
+    const box = getBoundingBox(lat, lon, radiusMiles * (6371 / 3959));
+    const candidates = await db.select().from(operators)
+      .where(boundingBoxCondition(operators.latitude, operators.longitude, box));
+    return candidates
+      .map((operator) => ({
+        operator,
+        distance: distanceMiles(lat, lon, parseFloat(operator.latitude), parseFloat(operator.longitude)),
+      }))
+      .filter(({ distance }) => distance <= radiusMiles)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ operator }) => operator);
+  }
+
+  async getServiceRequests(customerId?: string): Promise<ServiceRequest[]> {
+    if (customerId) {
+      return db.select().from(serviceRequests).where(eq(serviceRequests.customerId, customerId));
+    }
+    return db.select().from(serviceRequests);
+  }
+
+  async getServiceRequest(id: number): Promise<ServiceRequest | undefined> {
+    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id)).limit(1);
+    return request;
+  }
+
+  async getServiceRequestByRequestId(requestId: string): Promise<ServiceRequest | undefined> {
+    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.requestId, requestId)).limit(1);
+    return request;
+  }
+
+  async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
+    return insertServiceRequest(request);
+  }
+
+  async updateServiceRequest(id: number, status: string, respondedAt?: Date): Promise<ServiceRequest | undefined> {
+    const [request] = await db.update(serviceRequests)
+      .set({ status, respondedAt: respondedAt || new Date() })
+      .where(eq(serviceRequests.id, id))
+      .returning();
+    return request;
+  }
+
+  async getCustomer(customerId: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.customerId, customerId)).limit(1);
+    return customer;
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [newCustomer] = await db.insert(customers).values({
+      customerId: customer.customerId,
+      name: customer.name,
+      email: customer.email,
+      phone: customer.phone,
+      address: customer.address || null,
+      city: customer.city || null,
+      state: customer.state || null,
+      zipCode: customer.zipCode || null,
+      photo: customer.photo || null,
+    }).returning();
+    return newCustomer;
+  }
+
+  async updateCustomer(customerId: string, customerUpdate: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [customer] = await db.update(customers)
+      .set(customerUpdate)
+      .where(eq(customers.customerId, customerId))
+      .returning();
+    return customer;
+  }
+
+  // Ratings
+  async getRatings(operatorId?: string): Promise<Rating[]> {
+    if (operatorId) {
+      return db.select().from(ratings).where(eq(ratings.operatorId, operatorId));
+    }
+    return db.select().from(ratings);
+  }
+
+  async createRating(rating: InsertRating): Promise<Rating> {
+    const [newRating] = await db.insert(ratings).values({
+      ratingId: rating.ratingId,
+      customerId: rating.customerId,
+      operatorId: rating.operatorId,
+      jobId: rating.jobId || null,
+      rating: rating.rating,
+      review: rating.review || null,
+    }).returning();
+    return newRating;
+  }
+
+  // Favorites
+  async getFavorites(customerId: string): Promise<Favorite[]> {
+    return db.select().from(favorites).where(eq(favorites.customerId, customerId));
+  }
+
+  async addFavorite(customerId: string, operatorId: string): Promise<Favorite> {
+    const [favorite] = await db.insert(favorites).values({ customerId, operatorId }).returning();
+    return favorite;
+  }
+
+  async removeFavorite(customerId: string, operatorId: string): Promise<boolean> {
+    const removed = await db.delete(favorites)
+      .where(and(eq(favorites.customerId, customerId), eq(favorites.operatorId, operatorId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async isFavorite(customerId: string, operatorId: string): Promise<boolean> {
+    const [favorite] = await db.select().from(favorites)
+      .where(and(eq(favorites.customerId, customerId), eq(favorites.operatorId, operatorId)))
+      .limit(1);
+    return !!favorite;
+  }
+
+  // Operator Locations
+  async getOperatorLocation(operatorId: string): Promise<OperatorLocation | undefined> {
+    const [location] = await this.getOperatorLocationHistory(operatorId, 1);
+    return location;
+  }
+
+  async updateOperatorLocation(location: InsertOperatorLocation): Promise<OperatorLocation> {
+    const [newLocation] = await db.insert(operatorLocations).values({
+      operatorId: location.operatorId,
+      jobId: location.jobId || null,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      heading: location.heading || null,
+      speed: location.speed || null,
+    }).returning();
+    return newLocation;
+  }
+
+  async getOperatorLocationHistory(operatorId: string, limit: number = 10): Promise<OperatorLocation[]> {
+    return db.select().from(operatorLocations)
+      .where(eq(operatorLocations.operatorId, operatorId))
+      .orderBy(desc(operatorLocations.timestamp), desc(operatorLocations.id))
+      .limit(limit);
+  }
+
+  // Customer Service History
+  async getCustomerServiceHistory(
+    operatorId: string,
+    service: string,
+    lat: number,
+    lon: number,
+    radiusMiles: number = 5
+  ): Promise<CustomerServiceHistory[]> {
+    const history = await db.select().from(customerServiceHistory)
+      .where(and(
+        eq(customerServiceHistory.operatorId, operatorId),
+        eq(customerServiceHistory.service, service)
+      ));
+
+    // Entries without coordinates are kept, as in MemStorage
+    return history.filter((h) => {
+      if (!h.latitude || !h.longitude) return true;
+      return distanceMiles(lat, lon, parseFloat(h.latitude), parseFloat(h.longitude)) <= radiusMiles;
+    });
+  }
+
+  async addServiceHistory(history: InsertCustomerServiceHistory): Promise<CustomerServiceHistory> {
+    const [newHistory] = await db.insert(customerServiceHistory).values({
+      customerId: history.customerId,
+      operatorId: history.operatorId,
+      service: history.service,
+      location: history.location,
+      latitude: history.latitude || null,
+      longitude: history.longitude || null,
+    }).returning();
+    return newHistory;
+  }
+
+  // Businesses
+  async getBusiness(businessId: string): Promise<Business | undefined> {
+    const [business] = await db.select().from(businesses).where(eq(businesses.businessId, businessId)).limit(1);
+    return business;
+  }
+
+  async createBusiness(business: InsertBusiness): Promise<Business> {
+    const [newBusiness] = await db.insert(businesses).values({
+      businessId: business.businessId,
+      name: business.name,
+      email: business.email,
+      phone: business.phone,
+      businessLicense: business.businessLicense,
+      address: business.address,
+      city: business.city,
+      state: business.state,
+      zipCode: business.zipCode,
+    }).returning();
+    return newBusiness;
+  }
+
+  async updateBusiness(businessId: string, updates: Partial<InsertBusiness>): Promise<Business | undefined> {
+    const [business] = await db.update(businesses)
+      .set(updates)
+      .where(eq(businesses.businessId, businessId))
+      .returning();
+    return business;
+  }
+
+  async getBusinessDrivers(businessId: string): Promise<Operator[]> {
+    return db.select().from(operators).where(eq(operators.businessId, businessId));
+  }
+
+  async createDriver(driver: InsertOperator): Promise<Operator> {
+    const tier = driver.operatorTier || "professional";
+
+    return db.transaction(async (tx) => {
+      const [newDriver] = await tx.insert(operators).values({
+        operatorId: driver.operatorId,
+        name: driver.name,
+        rating: driver.rating,
+        totalJobs: driver.totalJobs || 0,
+        services: driver.services,
+        vehicle: driver.vehicle,
+        licensePlate: driver.licensePlate,
+        phone: driver.phone,
+        email: driver.email || null,
+        latitude: driver.latitude,
+        longitude: driver.longitude,
+        address: driver.address,
+        isOnline: driver.isOnline || 0,
+        hourlyRate: driver.hourlyRate || null,
+        availability: driver.availability || "available",
+        photo: driver.photo || null,
+        operatorTier: tier,
+        subscribedTiers: driver.subscribedTiers || [tier],
+        activeTier: driver.activeTier || tier,
+        isCertified: driver.isCertified || 1,
+        businessLicense: driver.businessLicense || null,
+        homeLatitude: driver.homeLatitude || null,
+        homeLongitude: driver.homeLongitude || null,
+        operatingRadius: driver.operatingRadius || null,
+        businessId: driver.businessId || null,
+        businessName: driver.businessName || null,
+        driverName: driver.driverName || null,
+      }).returning();
+
+      if (driver.businessId) {
+        await tx.update(businesses)
+          .set({ totalDrivers: sql`${businesses.totalDrivers} + 1` })
+          .where(eq(businesses.businessId, driver.businessId));
+      }
+      return newDriver;
+    });
+  }
+
+  async removeDriver(driverId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [driver] = await tx.delete(operators).where(eq(operators.operatorId, driverId)).returning();
+      if (!driver) return false;
+
+      if (driver.businessId) {
+        await tx.update(businesses)
+          .set({ totalDrivers: sql`GREATEST(${businesses.totalDrivers} - 1, 0)` })
+          .where(eq(businesses.businessId, driver.businessId));
+      }
+      return true;
+    });
+  }
+
+  // Tier switching
+  async switchOperatorTier(operatorId: string, newTier: string): Promise<boolean> {
+    const operator = await this.getOperatorByOperatorId(operatorId);
+    if (!operator) return false;
+
+    const subscribedTiers = operator.subscribedTiers || [operator.operatorTier];
+    if (!subscribedTiers.includes(newTier)) return false;
+
+    await db.update(operators)
+      .set({ activeTier: newTier, operatorTier: newTier })
+      .where(eq(operators.operatorId, operatorId));
+    return true;
+  }
+
+  async addOperatorTier(operatorId: string, tier: string, details: TierDetails): Promise<boolean> {
+    const operator = await this.getOperatorByOperatorId(operatorId);
+    if (!operator) return false;
+
+    const subscribedTiers = operator.subscribedTiers || [operator.operatorTier];
+    if (subscribedTiers.includes(tier)) return false;
+
+    const updates: Partial<Operator> = {
+      subscribedTiers: [...subscribedTiers, tier],
+      activeTier: tier,
+      operatorTier: tier,
+    };
+    if (details.vehicle) updates.vehicle = details.vehicle;
+    if (details.licensePlate) updates.licensePlate = details.licensePlate;
+    if (details.businessLicense) updates.businessLicense = details.businessLicense;
+    if (details.services) {
+      updates.services = details.services.split(',').map((s: string) => s.trim());
+    }
+
+    if (tier === "professional") {
+      updates.isCertified = 1;
+      updates.operatingRadius = null;
+    } else if (tier === "equipped") {
+      updates.operatingRadius = "15.00";
+    } else if (tier === "manual") {
+      updates.operatingRadius = "5.00";
+    }
+
+    await db.update(operators).set(updates).where(eq(operators.operatorId, operatorId));
+    return true;
+  }
+
+  // Vehicle management
+  async getOperatorVehicles(operatorId: string): Promise<Vehicle[]> {
+    return db.select().from(vehicles).where(eq(vehicles.operatorId, operatorId));
+  }
+
+  async getVehicle(vehicleId: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.vehicleId, vehicleId)).limit(1);
+    return vehicle;
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const [newVehicle] = await db.insert(vehicles).values({
+      vehicleId: vehicle.vehicleId,
+      operatorId: vehicle.operatorId,
+      name: vehicle.name,
+      vehicleType: vehicle.vehicleType,
+      make: vehicle.make,
+      model: vehicle.model,
+      year: vehicle.year,
+      licensePlate: vehicle.licensePlate,
+      services: vehicle.services,
+      isActive: vehicle.isActive || 0,
+      photo: vehicle.photo || null,
+    }).returning();
+    return newVehicle;
+  }
+
+  async updateVehicle(vehicleId: string, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.update(vehicles)
+      .set(updates)
+      .where(eq(vehicles.vehicleId, vehicleId))
+      .returning();
+    return vehicle;
+  }
+
+  async deleteVehicle(vehicleId: string): Promise<boolean> {
+    const deleted = await db.delete(vehicles).where(eq(vehicles.vehicleId, vehicleId)).returning();
+    return deleted.length > 0;
+  }
+
+  async setActiveVehicle(operatorId: string, vehicleId: string): Promise<boolean> {
+    // For equipped tier: deactivate all vehicles, then activate the selected one
+    return db.transaction(async (tx) => {
+      await tx.update(vehicles).set({ isActive: 0 }).where(eq(vehicles.operatorId, operatorId));
+      const activated = await tx.update(vehicles)
+        .set({ isActive: 1 })
+        .where(eq(vehicles.vehicleId, vehicleId))
+        .returning();
+      return activated.length > 0;
+    });
+  }
+
+  // Authentication & Users
+  async createUser(user: InsertUser): Promise<User> {
+    const [newUser] = await db.insert(users).values({
+      userId: user.userId,
+      name: user.name,
+      email: user.email,
+      passwordHash: user.passwordHash || null,
+      role: user.role || "customer",
+      operatorId: user.operatorId || null,
+      businessId: user.businessId || null,
+    }).returning();
+    return newUser;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    return user;
+  }
+
+  async getUserByUserId(userId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.userId, userId)).limit(1);
+    return user;
+  }
+
+  async updateUser(userId: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.userId, userId)).returning();
+    return user;
+  }
+
+  // Sessions
+  async createSession(session: InsertSession): Promise<Session> {
+    const [newSession] = await db.insert(sessions).values({
+      sessionId: session.sessionId,
+      userId: session.userId,
+      expiresAt: session.expiresAt,
+    }).returning();
+    return newSession;
+  }
+
+  async getSession(sessionId: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.sessionId, sessionId)).limit(1);
+    return session;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const deleted = await db.delete(sessions).where(eq(sessions.sessionId, sessionId)).returning();
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const deleted = await db.delete(sessions).where(lt(sessions.expiresAt, new Date())).returning();
+    return deleted.length;
+  }
+
+  // Operator Tier Stats
+  async getOperatorTierStats(operatorId: string): Promise<OperatorTierStats[]> {
+    return db.select().from(operatorTierStats).where(eq(operatorTierStats.operatorId, operatorId));
+  }
+
+  async getOperatorTierStat(operatorId: string, tier: string): Promise<OperatorTierStats | undefined> {
+    const [stat] = await db.select().from(operatorTierStats)
+      .where(and(eq(operatorTierStats.operatorId, operatorId), eq(operatorTierStats.tier, tier)))
+      .limit(1);
+    return stat;
+  }
+
+  async createOperatorTierStat(stat: InsertOperatorTierStats): Promise<OperatorTierStats> {
+    const [newStat] = await db.insert(operatorTierStats).values({
+      operatorId: stat.operatorId,
+      tier: stat.tier,
+      jobsCompleted: stat.jobsCompleted || 0,
+      totalEarnings: stat.totalEarnings || "0",
+      rating: stat.rating || "0",
+      totalRatings: stat.totalRatings || 0,
+      lastActiveAt: stat.lastActiveAt || null,
+    }).returning();
+    return newStat;
+  }
+
+  async updateOperatorTierStat(operatorId: string, tier: string, updates: Partial<InsertOperatorTierStats>): Promise<OperatorTierStats | undefined> {
+    const [stat] = await db.update(operatorTierStats)
+      .set(updates)
+      .where(and(eq(operatorTierStats.operatorId, operatorId), eq(operatorTierStats.tier, tier)))
+      .returning();
+    return stat;
+  }
+
+  async incrementTierJobCount(operatorId: string, tier: string, earnings: number): Promise<void> {
+    const amount = earnings.toFixed(2);
+    await db.insert(operatorTierStats)
+      .values({ operatorId, tier, jobsCompleted: 1, totalEarnings: amount, lastActiveAt: new Date() })
+      .onConflictDoUpdate({
+        target: [operatorTierStats.operatorId, operatorTierStats.tier],
+        set: {
+          jobsCompleted: sql`${operatorTierStats.jobsCompleted} + 1`,
+          totalEarnings: sql`${operatorTierStats.totalEarnings} + ${amount}`,
+          lastActiveAt: new Date(),
+        },
+      });
+  }
+
+  async updateTierRating(operatorId: string, tier: string, newRating: number): Promise<void> {
+    // Fold the new rating into the running average
+    await db.insert(operatorTierStats)
+      .values({ operatorId, tier, rating: newRating.toFixed(2), totalRatings: 1 })
+      .onConflictDoUpdate({
+        target: [operatorTierStats.operatorId, operatorTierStats.tier],
+        set: {
+          rating: sql`ROUND((${operatorTierStats.rating} * ${operatorTierStats.totalRatings} + ${newRating}) / (${operatorTierStats.totalRatings} + 1), 2)`,
+          totalRatings: sql`${operatorTierStats.totalRatings} + 1`,
+        },
+      });
+  }
+
+  // Accepted Jobs
+  async getAcceptedJobs(operatorId: string, tier?: string): Promise<AcceptedJob[]> {
+    // Only active jobs (not completed or cancelled)
+    return db.select().from(acceptedJobs)
+      .where(and(
+        eq(acceptedJobs.operatorId, operatorId),
+        tier ? eq(acceptedJobs.tier, tier) : undefined,
+        inArray(acceptedJobs.status, ACTIVE_JOB_STATUSES)
+      ));
+  }
+
+  async getAcceptedJob(acceptedJobId: string): Promise<AcceptedJob | undefined> {
+    const [job] = await db.select().from(acceptedJobs).where(eq(acceptedJobs.acceptedJobId, acceptedJobId)).limit(1);
+    return job;
+  }
+
+  async createAcceptedJob(job: InsertAcceptedJob): Promise<AcceptedJob> {
+    const [newJob] = await db.insert(acceptedJobs).values({
+      acceptedJobId: job.acceptedJobId,
+      operatorId: job.operatorId,
+      jobSourceId: job.jobSourceId,
+      jobSourceType: job.jobSourceType,
+      tier: job.tier,
+      status: job.status || "accepted",
+      progress: job.progress || 0,
+      jobData: job.jobData,
+      actualEarnings: job.actualEarnings || null,
+      cancelledByOperator: job.cancelledByOperator || 0,
+      startedAt: job.startedAt || null,
+      completedAt: job.completedAt || null,
+      cancelledAt: job.cancelledAt || null,
+      cancellationReason: job.cancellationReason || null,
+    }).returning();
+    return newJob;
+  }
+
+  private async updateAcceptedJob(acceptedJobId: string, updates: Partial<AcceptedJob>): Promise<AcceptedJob | undefined> {
+    const [job] = await db.update(acceptedJobs)
+      .set(updates)
+      .where(eq(acceptedJobs.acceptedJobId, acceptedJobId))
+      .returning();
+    return job;
+  }
+
+  async updateAcceptedJobStatus(acceptedJobId: string, status: string): Promise<AcceptedJob | undefined> {
+    return this.updateAcceptedJob(acceptedJobId, { status });
+  }
+
+  async updateAcceptedJobProgress(acceptedJobId: string, progress: number): Promise<AcceptedJob | undefined> {
+    return this.updateAcceptedJob(acceptedJobId, { progress });
+  }
+
+  async startAcceptedJob(acceptedJobId: string): Promise<AcceptedJob | undefined> {
+    return this.updateAcceptedJob(acceptedJobId, { status: "in_progress", startedAt: new Date(), progress: 0 });
+  }
+
+  async completeAcceptedJob(acceptedJobId: string, earnings: number): Promise<AcceptedJob | undefined> {
+    return this.updateAcceptedJob(acceptedJobId, {
+      status: "completed",
+      completedAt: new Date(),
+      progress: 100,
+      actualEarnings: earnings.toString(),
+    });
+  }
+
+  async cancelAcceptedJob(acceptedJobId: string, reason: string, cancelledByOperator: boolean): Promise<{ job: AcceptedJob | undefined; penalty?: number }> {
+    const job = await this.updateAcceptedJob(acceptedJobId, {
+      status: "cancelled",
+      cancelledAt: new Date(),
+      cancellationReason: reason,
+      cancelledByOperator: cancelledByOperator ? 1 : 0,
+    });
+    if (!job) return { job: undefined };
+
+    const penalty = cancelledByOperator ? getCancellationPenalty(job) : undefined;
+    return { job, penalty };
+  }
+
+  async getOperatorActiveJobs(operatorId: string, excludeTier?: string): Promise<AcceptedJob[]> {
+    return db.select().from(acceptedJobs)
+      .where(and(
+        eq(acceptedJobs.operatorId, operatorId),
+        inArray(acceptedJobs.status, ACTIVE_JOB_STATUSES),
+        excludeTier ? ne(acceptedJobs.tier, excludeTier) : undefined
+      ));
+  }
+
+  // Earnings & Penalties - totals are returned as numbers, like MemStorage
+  async getDailyEarnings(operatorId: string, tier: string, date: string): Promise<EarningsTotals | undefined> {
+    const [row] = await db.select().from(operatorDailyEarnings)
+      .where(and(
+        eq(operatorDailyEarnings.operatorId, operatorId),
+        eq(operatorDailyEarnings.tier, tier),
+        eq(operatorDailyEarnings.date, date)
+      ))
+      .limit(1);
+    return row ? { earnings: parseFloat(row.earnings), jobsCompleted: row.jobsCompleted } : undefined;
+  }
+
+  async upsertDailyEarnings(operatorId: string, tier: string, date: string, earningsToAdd: number, jobsToAdd: number): Promise<void> {
+    const amount = earningsToAdd.toFixed(2);
+    await db.insert(operatorDailyEarnings)
+      .values({ operatorId, tier, date, earnings: amount, jobsCompleted: jobsToAdd })
+      .onConflictDoUpdate({
+        target: [operatorDailyEarnings.operatorId, operatorDailyEarnings.tier, operatorDailyEarnings.date],
+        set: {
+          earnings: sql`${operatorDailyEarnings.earnings} + ${amount}`,
+          jobsCompleted: sql`${operatorDailyEarnings.jobsCompleted} + ${jobsToAdd}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getMonthlyEarnings(operatorId: string, tier: string, month: string): Promise<EarningsTotals | undefined> {
+    const [row] = await db.select().from(operatorMonthlyEarnings)
+      .where(and(
+        eq(operatorMonthlyEarnings.operatorId, operatorId),
+        eq(operatorMonthlyEarnings.tier, tier),
+        eq(operatorMonthlyEarnings.month, month)
+      ))
+      .limit(1);
+    return row ? { earnings: parseFloat(row.earnings), jobsCompleted: row.jobsCompleted } : undefined;
+  }
+
+  async upsertMonthlyEarnings(operatorId: string, tier: string, month: string, earningsToAdd: number, jobsToAdd: number): Promise<void> {
+    const amount = earningsToAdd.toFixed(2);
+    await db.insert(operatorMonthlyEarnings)
+      .values({ operatorId, tier, month, earnings: amount, jobsCompleted: jobsToAdd })
+      .onConflictDoUpdate({
+        target: [operatorMonthlyEarnings.operatorId, operatorMonthlyEarnings.tier, operatorMonthlyEarnings.month],
+        set: {
+          earnings: sql`${operatorMonthlyEarnings.earnings} + ${amount}`,
+          jobsCompleted: sql`${operatorMonthlyEarnings.jobsCompleted} + ${jobsToAdd}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getTodayEarnings(operatorId: string, tier: string): Promise<{ earnings: number; jobsCompleted: number }> {
+    const today = new Date().toISOString().split('T')[0];
+    const dailyData = await this.getDailyEarnings(operatorId, tier, today);
+    return {
+      earnings: dailyData?.earnings || 0,
+      jobsCompleted: dailyData?.jobsCompleted || 0
+    };
+  }
+
+  async getMonthEarnings(operatorId: string, tier: string): Promise<{ earnings: number; jobsCompleted: number }> {
+    const month = new Date().toISOString().substring(0, 7);
+    const monthlyData = await this.getMonthlyEarnings(operatorId, tier, month);
+    return {
+      earnings: monthlyData?.earnings || 0,
+      jobsCompleted: monthlyData?.jobsCompleted || 0
+    };
+  }
+
+  async createPenalty(operatorId: string, tier: string, acceptedJobId: string, amount: number, reason: string, progress: number): Promise<void> {
+    await db.insert(operatorPenalties).values({
+      operatorId,
+      tier,
+      acceptedJobId,
+      penaltyAmount: amount.toFixed(2),
+      reason,
+      progress,
+    });
+  }
+
+  // Pricing Configuration
+  async getOperatorPricingConfigs(operatorId: string, tier?: string): Promise<OperatorPricingConfig[]> {
+    return db.select().from(operatorPricingConfigs)
+      .where(and(
+        eq(operatorPricingConfigs.operatorId, operatorId),
+        tier ? eq(operatorPricingConfigs.tier, tier) : undefined
+      ));
+  }
+
+  async getPricingConfig(operatorId: string, tier: string, serviceType: string): Promise<OperatorPricingConfig | undefined> {
+    const [config] = await db.select().from(operatorPricingConfigs)
+      .where(and(
+        eq(operatorPricingConfigs.operatorId, operatorId),
+        eq(operatorPricingConfigs.tier, tier),
+        eq(operatorPricingConfigs.serviceType, serviceType)
+      ))
+      .limit(1);
+    return config;
+  }
+
+  async createPricingConfig(config: InsertOperatorPricingConfig): Promise<OperatorPricingConfig> {
+    const [newConfig] = await db.insert(operatorPricingConfigs).values({
+      operatorId: config.operatorId,
+      tier: config.tier,
+      serviceType: config.serviceType,
+      baseRate: config.baseRate,
+      perKmRate: config.perKmRate,
+      urgencyMultipliers: config.urgencyMultipliers,
+      minimumFee: config.minimumFee,
+      autoCalcMeta: config.autoCalcMeta || null,
+      isActive: config.isActive ?? 1,
+    }).returning();
+    return newConfig;
+  }
+
+  async updatePricingConfig(
+    operatorId: string,
+    tier: string,
+    serviceType: string,
+    updates: Partial<InsertOperatorPricingConfig>
+  ): Promise<OperatorPricingConfig | undefined> {
+    const [config] = await db.update(operatorPricingConfigs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(operatorPricingConfigs.operatorId, operatorId),
+        eq(operatorPricingConfigs.tier, tier),
+        eq(operatorPricingConfigs.serviceType, serviceType)
+      ))
+      .returning();
+    return config;
+  }
+
+  // Quote Management
+  async createQuote(quote: InsertOperatorQuote): Promise<OperatorQuote> {
+    const [newQuote] = await db.insert(operatorQuotes).values({
+      quoteId: quote.quoteId,
+      serviceRequestId: quote.serviceRequestId,
+      operatorId: quote.operatorId,
+      operatorName: quote.operatorName,
+      tier: quote.tier,
+      amount: quote.amount,
+      breakdown: quote.breakdown || null,
+      status: quote.status || "sent",
+      operatorAccepted: quote.operatorAccepted || 0,
+      customerResponseNotes: quote.customerResponseNotes || null,
+      counterAmount: quote.counterAmount || null,
+      autoCalcSnapshot: quote.autoCalcSnapshot || null,
+      notes: quote.notes || null,
+      declineReason: quote.declineReason || null,
+      declineNotes: quote.declineNotes || null,
+      expiresAt: quote.expiresAt || null,
+      respondedAt: quote.respondedAt || null,
+      history: quote.history || [],
+    }).returning();
+    return newQuote;
+  }
+
+  async getQuote(quoteId: string): Promise<OperatorQuote | undefined> {
+    const [quote] = await db.select().from(operatorQuotes).where(eq(operatorQuotes.quoteId, quoteId)).limit(1);
+    return quote;
+  }
+
+  async getQuotesByRequest(serviceRequestId: string): Promise<OperatorQuote[]> {
+    return db.select().from(operatorQuotes).where(eq(operatorQuotes.serviceRequestId, serviceRequestId));
+  }
+
+  async getQuotesByOperator(operatorId: string): Promise<OperatorQuote[]> {
+    return db.select().from(operatorQuotes).where(eq(operatorQuotes.operatorId, operatorId));
+  }
+
+  async updateQuote(quoteId: string, updates: Partial<InsertOperatorQuote>): Promise<OperatorQuote | undefined> {
+    const [quote] = await db.update(operatorQuotes)
+      .set(updates)
+      .where(eq(operatorQuotes.quoteId, quoteId))
+      .returning();
+    return quote;
+  }
+
+  async getOperatorQuoteForRequest(operatorId: string, serviceRequestId: string): Promise<OperatorQuote | undefined> {
+    const [quote] = await db.select().from(operatorQuotes)
+      .where(and(eq(operatorQuotes.operatorId, operatorId), eq(operatorQuotes.serviceRequestId, serviceRequestId)))
+      .limit(1);
+    return quote;
+  }
+
+  async findAlternativeOperators(serviceRequestId: string, excludeOperatorIds: string[] = []): Promise<Array<Operator & { distanceKm: number }>> {
+    const request = await this.getServiceRequestByRequestId(serviceRequestId);
+    if (!request) return [];
+
+    const candidates = await this.getOperators(request.serviceType);
+    return rankAlternativeOperators(request, candidates, excludeOperatorIds);
+  }
+
+  // Wallet Management
+  async getWallet(userId: number): Promise<Wallet | undefined> {
+    const [wallet] = await db.select().from(wallets).where(eq(wallets.userId, userId)).limit(1);
+    return wallet;
+  }
+
+  async getOrCreateWallet(userId: number): Promise<Wallet> {
+    // The unique userId makes a concurrent create a no-op rather than a duplicate
+    await db.insert(wallets).values({ userId }).onConflictDoNothing({ target: wallets.userId });
+    const wallet = await this.getWallet(userId);
+    return wallet!;
+  }
+
+  async updateWalletBalance(userId: number, amount: number, type: 'credit' | 'debit'): Promise<Wallet | undefined> {
+    await this.getOrCreateWallet(userId);
+    const delta = (type === 'credit' ? amount : -amount).toFixed(2);
+
+    const [wallet] = await db.update(wallets)
+      .set({
+        balance: sql`${wallets.balance} + ${delta}`,
+        totalEarnings: type === 'credit' ? sql`${wallets.totalEarnings} + ${delta}` : wallets.totalEarnings,
+        updatedAt: new Date(),
+      })
+      .where(eq(wallets.userId, userId))
+      .returning();
+    return wallet;
+  }
+
+  async getWalletTransactions(userId: number, limit = 50, offset = 0, type?: string, tier?: string): Promise<WalletTransaction[]> {
+    return db.select().from(walletTransactions)
+      .where(and(
+        eq(walletTransactions.userId, userId),
+        type && type !== 'all' ? eq(walletTransactions.type, type) : undefined,
+        tier && tier !== 'all' ? eq(walletTransactions.tier, tier) : undefined
+      ))
+      .orderBy(desc(walletTransactions.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async createWalletTransaction(transaction: InsertWalletTransaction): Promise<WalletTransaction> {
+    const [newTransaction] = await db.insert(walletTransactions).values({
+      walletId: transaction.walletId,
+      userId: transaction.userId,
+      type: transaction.type,
+      amount: transaction.amount,
+      description: transaction.description,
+      status: transaction.status || "completed",
+      reference: transaction.reference || null,
+      tier: transaction.tier || null,
+      jobId: transaction.jobId || null,
+      metadata: transaction.metadata || null,
+      payoutBatchId: transaction.payoutBatchId || null,
+      processedAt: transaction.processedAt || null,
+    }).returning();
+    return newTransaction;
+  }
+
+  // Payment Cards
+  async getPaymentCards(userId: number): Promise<PaymentCard[]> {
+    return db.select().from(paymentCards)
+      .where(eq(paymentCards.userId, userId))
+      .orderBy(desc(paymentCards.isDefault));
+  }
+
+  async getPaymentCard(cardId: number, userId: number): Promise<PaymentCard | undefined> {
+    const [card] = await db.select().from(paymentCards)
+      .where(and(eq(paymentCards.id, cardId), eq(paymentCards.userId, userId)))
+      .limit(1);
+    return card;
+  }
+
+  async createPaymentCard(card: InsertPaymentCard): Promise<PaymentCard> {
+    const [newCard] = await db.insert(paymentCards).values({
+      userId: card.userId,
+      cardholderName: card.cardholderName,
+      lastFourDigits: card.lastFourDigits,
+      cardBrand: card.cardBrand,
+      expiryMonth: card.expiryMonth,
+      expiryYear: card.expiryYear,
+      isDefault: card.isDefault || 0,
+      billingAddress: card.billingAddress || null,
+      stripePaymentMethodId: card.stripePaymentMethodId || null,
+    }).returning();
+    return newCard;
+  }
+
+  async updatePaymentCard(cardId: number, userId: number, updates: Partial<InsertPaymentCard>): Promise<PaymentCard | undefined> {
+    const [card] = await db.update(paymentCards)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(paymentCards.id, cardId), eq(paymentCards.userId, userId)))
+      .returning();
+    return card;
+  }
+
+  async deletePaymentCard(cardId: number, userId: number): Promise<boolean> {
+    const deleted = await db.delete(paymentCards)
+      .where(and(eq(paymentCards.id, cardId), eq(paymentCards.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async setDefaultPaymentCard(cardId: number, userId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.update(paymentCards).set({ isDefault: 0 }).where(eq(paymentCards.userId, userId));
+      const updated = await tx.update(paymentCards)
+        .set({ isDefault: 1, updatedAt: new Date() })
+        .where(and(eq(paymentCards.id, cardId), eq(paymentCards.userId, userId)))
+        .returning();
+      return updated.length > 0;
+    });
+  }
+}
+
+/**
+ * Storage chosen at startup: STORAGE_DRIVER=memory keeps everything in process (data is lost on
+ * restart), anything else uses Postgres
+ */
+export function createStorage(): IStorage {
+  if (process.env.STORAGE_DRIVER === "memory") {
+    console.log("[Storage] Using in-memory storage (STORAGE_DRIVER=memory)");
+    return new MemStorage();
+  }
+  console.log("[Storage] Using Postgres storage");
+  return new PgStorage();
+}
@@ -0,0 +1,329 @@
+/**
+ * Dispatch engine - The cascade driven by a fake clock over an in-memory store
+ */
+
+import { describe, it, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import type { DispatchQueue, EmergencyRequest, Operator, ServiceRequest } from "@shared/schema";
+import { DispatchEngine, DISPATCH_SETTINGS } from "../services/dispatchEngine";
+import type { DispatchClock, DispatchNotifier, DispatchStore, DispatchTarget, NewDispatchQueueEntry } from "../services/dispatchEngine";
+import { filterWithinRadius } from "../services/spatialQueryService";
+
+const CALGARY = { latitude: 51.0447, longitude: -114.0719 };
+const KM_PER_DEGREE_LATITUDE = 111.195;
+
+class FakeClock implements DispatchClock {
+  private current = new Date("2026-01-15T08:00:00Z");
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+const matchesTarget = (entry: DispatchQueue, target: DispatchTarget) =>
+  target.type === "service_request"
+    ? entry.serviceRequestId === target.requestId
+    : entry.emergencyId === target.emergencyId && entry.serviceRequestId === null;
+
+const isOpen = (entry: DispatchQueue) => entry.status === "pending" || entry.status === "notified";
+
+class InMemoryDispatchStore implements DispatchStore {
+  serviceRequests: ServiceRequest[] = [];
+  emergencies: EmergencyRequest[] = [];
+  operators: Operator[] = [];
+  entries: DispatchQueue[] = [];
+  private nextId = 1;
+
+  async getServiceRequest(requestId: string) {
+    return this.serviceRequests.find(r => r.requestId === requestId);
+  }
+
+  async getEmergencyRequest(emergencyId: string) {
+    return this.emergencies.find(e => e.emergencyId === emergencyId);
+  }
+
+  async findOperatorsWithinRadius(latitude: number, longitude: number, radiusKm: number, onlineOnly: boolean) {
+    const candidates = this.operators.filter(op => !onlineOnly || op.isOnline === 1);
+    return filterWithinRadius(candidates, op => op, latitude, longitude, radiusKm);
+  }
+
+  async getRecentResponseTimes(operatorId: string, limit: number) {
+    return this.entries
+      .filter(e => e.operatorId === operatorId && e.responseTimeSeconds !== null)
+      .sort((a, b) => (b.respondedAt?.getTime() ?? 0) - (a.respondedAt?.getTime() ?? 0))
+      .slice(0, limit)
+      .map(e => e.responseTimeSeconds!);
+  }
+
+  async getQueue(target: DispatchTarget) {
+    return this.entries.filter(e => matchesTarget(e, target)).sort((a, b) => a.queuePosition - b.queuePosition);
+  }
+
+  async insertQueueEntries(entries: NewDispatchQueueEntry[]) {
+    const inserted = entries.map(entry => ({
+      id: this.nextId++,
+      emergencyId: null,
+      serviceRequestId: null,
+      status: "pending",
+      notifiedAt: null,
+      respondedAt: null,
+      expiresAt: null,
+      distanceKm: null,
+      operatorRatingSnapshot: null,
+      operatorAvgResponseTime: null,
+      responseTimeSeconds: null,
+      radiusKm: null,
+      createdAt: new Date(),
+      ...entry,
+    } as DispatchQueue));
+    this.entries.push(...inserted);
+    return inserted;
+  }
+
+  async markNotified(id: number, notifiedAt: Date, expiresAt: Date) {
+    const entry = this.entries.find(e => e.id === id && e.status === "pending");
+    if (!entry) return undefined;
+    Object.assign(entry, { status: "notified", notifiedAt, expiresAt });
+    return { ...entry };
+  }
+
+  async findOpenOffer(target: DispatchTarget, operatorId: string) {
+    return this.entries.find(e => matchesTarget(e, target) && e.operatorId === operatorId && isOpen(e) && e.notifiedAt !== null);
+  }
+
+  async recordResponse(id: number, accepted: boolean, respondedAt: Date, responseTimeSeconds: number) {
+    const entry = this.entries.find(e => e.id === id && isOpen(e) && e.expiresAt !== null && e.expiresAt > respondedAt);
+    if (!entry) return undefined;
+    Object.assign(entry, { status: accepted ? "accepted" : "declined", respondedAt, responseTimeSeconds });
+    return { ...entry };
+  }
+
+  async closeOpenOffers(target: DispatchTarget, exceptId: number, respondedAt: Date) {
+    for (const entry of this.entries) {
+      if (matchesTarget(entry, target) && entry.id !== exceptId && isOpen(entry)) {
+        Object.assign(entry, { status: "declined", respondedAt });
+      }
+    }
+  }
+
+  async expireLapsedOffers(now: Date) {
+    const lapsed = this.entries.filter(e => isOpen(e) && e.expiresAt !== null && e.expiresAt <= now);
+    lapsed.forEach(e => (e.status = "expired"));
+    return lapsed.map(e => ({ ...e }));
+  }
+
+  async cancelEmergency(emergencyId: string, now: Date) {
+    const emergency = this.emergencies.find(e => e.emergencyId === emergencyId && e.status === "searching");
+    if (emergency) Object.assign(emergency, { status: "cancelled", updatedAt: now });
+  }
+}
+
+class RecordingNotifier implements DispatchNotifier {
+  offers: Array<{ operatorId: string; queuePosition: number; expiresAt: Date }> = [];
+  expired: string[] = [];
+  statusEvents: Array<{ fromStatus: string | null; toStatus: string; eventType: string; metadata?: Record<string, unknown> }> = [];
+
+  async notifyOperatorOfDispatch(requestId: string, operatorId: string, serviceType: string, queueId: string, queuePosition: number, expiresAt: Date) {
+    this.offers.push({ operatorId, queuePosition, expiresAt });
+    return null;
+  }
+
+  async notifyOperatorOfDispatchExpired(requestId: string, operatorId: string, queueId: string, fromStatus: string) {
+    this.expired.push(operatorId);
+    return null;
+  }
+
+  async createStatusEvent(params: { fromStatus: string | null; toStatus: string; eventType: string; metadata?: Record<string, unknown> }) {
+    this.statusEvents.push(params);
+    return `EVT-${this.statusEvents.length}`;
+  }
+}
+
+// An operator due north of Calgary
+function operatorAt(operatorId: string, distanceKm: number, overrides: Partial<Operator> = {}): Operator {
+  return {
+    operatorId,
+    latitude: (CALGARY.latitude + distanceKm / KM_PER_DEGREE_LATITUDE).toFixed(7),
+    longitude: CALGARY.longitude.toFixed(7),
+    services: ["snow_plowing"],
+    rating: "4.50",
+    isOnline: 1,
+    ...overrides,
+  } as Operator;
+}
+
+describe("DispatchEngine", () => {
+  let clock: FakeClock;
+  let store: InMemoryDispatchStore;
+  let notifier: RecordingNotifier;
+  let engine: DispatchEngine;
+  const target: DispatchTarget = { type: "service_request", requestId: "REQ-1" };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    store = new InMemoryDispatchStore();
+    notifier = new RecordingNotifier();
+    engine = new DispatchEngine(clock, store, notifier);
+    store.serviceRequests.push({
+      requestId: "REQ-1",
+      status: "pending",
+      serviceType: "snow_plowing",
+      latitude: CALGARY.latitude.toFixed(7),
+      longitude: CALGARY.longitude.toFixed(7),
+    } as ServiceRequest);
+  });
+
+  const offeredTo = () => notifier.offers.map(o => o.operatorId);
+  const entryFor = (operatorId: string) => store.entries.find(e => e.operatorId === operatorId)!;
+
+  it("offers the request one operator at a time in priority order", async () => {
+    store.operators.push(
+      operatorAt("OP-FAR", 10),
+      operatorAt("OP-NEAR", 2),
+      operatorAt("OP-NEAR-BETTER", 2, { rating: "4.90" }),
+      operatorAt("OP-OTHER-SERVICE", 1, { services: ["towing"] })
+    );
+
+    const queue = await engine.startDispatch(target);
+    assert.deepEqual(queue.map(e => e.operatorId), ["OP-NEAR-BETTER", "OP-NEAR", "OP-FAR"]);
+    assert.deepEqual(offeredTo(), ["OP-NEAR-BETTER"]);
+
+    clock.advance(45_000);
+    await engine.respond(target, "OP-NEAR-BETTER", false);
+    assert.equal(entryFor("OP-NEAR-BETTER").responseTimeSeconds, 45);
+    assert.deepEqual(offeredTo(), ["OP-NEAR-BETTER", "OP-NEAR"]);
+  });
+
+  it("moves on when a response window lapses", async () => {
+    store.operators.push(operatorAt("OP-1", 1), operatorAt("OP-2", 2));
+    await engine.startDispatch(target);
+
+    clock.advance(DISPATCH_SETTINGS.broadcastResponseWindowMs - 1000);
+    assert.equal(await engine.expireLapsedDispatches(), 0);
+
+    clock.advance(2000);
+    assert.equal(await engine.expireLapsedDispatches(), 1);
+    assert.equal(entryFor("OP-1").status, "expired");
+    assert.deepEqual(notifier.expired, ["OP-1"]);
+    assert.deepEqual(offeredTo(), ["OP-1", "OP-2"]);
+    assert.equal(notifier.offers[1].expiresAt.getTime(), clock.now().getTime() + DISPATCH_SETTINGS.broadcastResponseWindowMs);
+  });
+
+  it("refuses an answer once the response window has lapsed", async () => {
+    store.operators.push(operatorAt("OP-1", 1), operatorAt("OP-2", 2));
+    await engine.startDispatch(target);
+
+    clock.advance(DISPATCH_SETTINGS.broadcastResponseWindowMs);
+    assert.equal(await engine.respond(target, "OP-1", true), null);
+    assert.equal(entryFor("OP-1").status, "expired");
+    assert.deepEqual(notifier.expired, ["OP-1"]);
+    assert.deepEqual(offeredTo(), ["OP-1", "OP-2"]);
+  });
+
+  it("widens the radius tier by tier once everyone in range declines", async () => {
+    store.operators.push(operatorAt("OP-IN-RANGE", 5), operatorAt("OP-80KM", 80));
+    await engine.startDispatch(target);
+    assert.deepEqual(offeredTo(), ["OP-IN-RANGE"]);
+
+    await engine.respond(target, "OP-IN-RANGE", false);
+
+    // 50km finds nobody new, so the next wave comes from 100km
+    assert.deepEqual(offeredTo(), ["OP-IN-RANGE", "OP-80KM"]);
+    assert.equal(entryFor("OP-IN-RANGE").radiusKm, "25.00");
+    assert.equal(entryFor("OP-80KM").radiusKm, "100.00");
+    assert.equal(entryFor("OP-80KM").queuePosition, 2);
+  });
+
+  it("records exhaustion with the request's own status", async () => {
+    store.operators.push(operatorAt("OP-1", 5));
+    await engine.startDispatch(target);
+
+    clock.advance(DISPATCH_SETTINGS.broadcastResponseWindowMs + 1000);
+    await engine.expireLapsedDispatches();
+
+    assert.deepEqual(offeredTo(), ["OP-1"]);
+    assert.deepEqual(notifier.statusEvents, [{
+      requestId: "REQ-1",
+      actorRole: "system",
+      actorId: "REQ-1",
+      actorName: "Fleetly",
+      fromStatus: "pending",
+      toStatus: "pending",
+      eventType: "dispatch_exhausted",
+      metadata: { radiusKm: DISPATCH_SETTINGS.maxRadiusKm },
+    }]);
+  });
+
+  it("cancels an exhausted SOS", async () => {
+    const sos: DispatchTarget = { type: "emergency", emergencyId: "EMG-1" };
+    store.emergencies.push({
+      emergencyId: "EMG-1",
+      status: "searching",
+      serviceType: "towing",
+      latitude: CALGARY.latitude.toFixed(7),
+      longitude: CALGARY.longitude.toFixed(7),
+    } as EmergencyRequest);
+    store.operators.push(operatorAt("OP-ONLINE", 3), operatorAt("OP-OFFLINE", 1, { isOnline: 0 }));
+
+    await engine.startDispatch(sos);
+    assert.deepEqual(offeredTo(), ["OP-ONLINE"]);
+
+    clock.advance(DISPATCH_SETTINGS.emergencyResponseWindowMs + 1000);
+    await engine.expireLapsedDispatches();
+
+    assert.equal(store.emergencies[0].status, "cancelled");
+    assert.equal(notifier.statusEvents[0].fromStatus, "searching");
+    assert.equal(notifier.statusEvents[0].toStatus, "cancelled");
+  });
+
+  it("closes the queue when an operator accepts", async () => {
+    store.operators.push(operatorAt("OP-1", 1), operatorAt("OP-2", 2));
+    await engine.startDispatch(target);
+
+    clock.advance(20_000);
+    const accepted = await engine.respond(target, "OP-1", true);
+    assert.equal(accepted?.status, "accepted");
+    assert.equal(accepted?.responseTimeSeconds, 20);
+    assert.equal(entryFor("OP-2").status, "declined");
+    assert.equal(await engine.respond(target, "OP-2", true), null);
+    assert.deepEqual(offeredTo(), ["OP-1"]);
+  });
+
+  it("stops notifying once the request is no longer open", async () => {
+    store.operators.push(operatorAt("OP-1", 1), operatorAt("OP-2", 2));
+    await engine.startDispatch(target);
+
+    store.serviceRequests[0].status = "cancelled";
+    clock.advance(DISPATCH_SETTINGS.broadcastResponseWindowMs + 1000);
+    await engine.expireLapsedDispatches();
+
+    assert.deepEqual(offeredTo(), ["OP-1"]);
+    assert.equal(entryFor("OP-2").status, "pending");
+    assert.deepEqual(notifier.statusEvents, []);
+    await assert.rejects(() => engine.startDispatch(target), /no longer open/);
+  });
+
+  it("keeps cascading after a decline marks the request operator_declined", async () => {
+    store.operators.push(operatorAt("OP-1", 1), operatorAt("OP-2", 2));
+    await engine.startDispatch(target);
+
+    store.serviceRequests[0].status = "operator_declined";
+    await engine.respond(target, "OP-1", false);
+    assert.deepEqual(offeredTo(), ["OP-1", "OP-2"]);
+  });
+
+  it("ranks operators by their recorded response times", async () => {
+    store.operators.push(operatorAt("OP-SLOW", 2), operatorAt("OP-FAST", 2));
+    await store.insertQueueEntries([
+      { queueId: "old-1", serviceRequestId: "REQ-OLD", operatorId: "OP-FAST", queuePosition: 1, responseTimeSeconds: 30, respondedAt: clock.now() },
+      { queueId: "old-2", serviceRequestId: "REQ-OLD", operatorId: "OP-SLOW", queuePosition: 2, responseTimeSeconds: 600, respondedAt: clock.now() },
+    ]);
+
+    const queue = await engine.startDispatch(target);
+    assert.deepEqual(queue.map(e => [e.operatorId, e.operatorAvgResponseTime]), [["OP-FAST", "30.00"], ["OP-SLOW", "600.00"]]);
+  });
+});
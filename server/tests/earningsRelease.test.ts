@@ -0,0 +1,162 @@
+/**
+ * Earnings release - Only captured payments are released, never for more than the customer paid,
+ * and a business's drivers are paid through its payroll rather than their wallet
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { and, eq, sql } from "drizzle-orm";
+import { acceptedJobs, ledgerEntries, operators, payments, serviceRequests, users, wallets } from "@shared/schema";
+import { startTestDatabase } from "./testDatabase";
+
+// db.ts reads DATABASE_URL on import, so the database starts before the services are loaded
+const database = await startTestDatabase();
+const { db } = await import("../db");
+const { releaseClearedEarnings } = await import("../jobs/earningsRelease");
+const { LEDGER_ACCOUNTS } = await import("../services/ledgerService");
+
+after(() => database.stop());
+
+const NOW = new Date("2026-01-15T12:00:00Z");
+const COMPLETED_AT = new Date("2026-01-15T00:00:00Z"); // Past the 8 hour review window
+
+let nextId = 1;
+
+async function createOperator(params: { businessId?: string; ownsBusiness?: boolean } = {}) {
+  const n = nextId++;
+  const operatorId = `OP-${n}`;
+  await db.insert(operators).values({
+    operatorId,
+    name: `Operator ${n}`,
+    rating: "5.00",
+    services: ["snow_plowing"],
+    vehicle: "Truck",
+    licensePlate: "ABC 123",
+    phone: "555-0100",
+    latitude: "51.0447000",
+    longitude: "-114.0719000",
+    address: "Calgary",
+    businessId: params.businessId || null,
+  });
+  const [user] = await db.insert(users).values({
+    userId: `USER-${n}`,
+    name: `Operator ${n}`,
+    email: `operator${n}@example.com`,
+    role: "operator",
+    operatorId,
+    businessId: params.ownsBusiness ? params.businessId : null,
+  }).returning();
+  return { operatorId, userId: user.id };
+}
+
+async function completeJob(operatorId: string, params: { earnings: string; paymentStatus: string; capturedCents?: number }) {
+  const requestId = `REQ-${nextId++}`;
+  await db.insert(serviceRequests).values({
+    requestId,
+    customerId: "CUST-1",
+    customerName: "Customer",
+    serviceType: "snow_plowing",
+    description: "Driveway",
+    location: "Calgary",
+    status: "completed",
+    assignedOperatorId: operatorId,
+    completedAt: COMPLETED_AT,
+    paymentStatus: params.paymentStatus,
+  });
+  await db.insert(acceptedJobs).values({
+    acceptedJobId: `AJ-${requestId}`,
+    operatorId,
+    jobSourceId: requestId,
+    jobSourceType: "service_request",
+    tier: "manual",
+    jobData: {},
+    status: "completed",
+    actualEarnings: params.earnings,
+    completedAt: COMPLETED_AT,
+  });
+  if (params.capturedCents !== undefined) {
+    await db.insert(payments).values({
+      paymentId: `pay_${requestId}`,
+      serviceRequestId: requestId,
+      customerId: "CUST-1",
+      operatorId,
+      provider: "fake",
+      providerPaymentId: `fake_${requestId}`,
+      status: "captured",
+      authorizedCents: params.capturedCents,
+      capturedCents: params.capturedCents,
+    });
+  }
+  return requestId;
+}
+
+async function walletBalance(userId: number) {
+  const wallet = await db.query.wallets.findFirst({ where: eq(wallets.userId, userId) });
+  return wallet?.balance ?? null;
+}
+
+async function accountBalanceCents(account: string, reference: string) {
+  const [row] = await db.select({ total: sql<string>`coalesce(sum(${ledgerEntries.amountCents}), 0)` })
+    .from(ledgerEntries)
+    .where(and(eq(ledgerEntries.account, account), eq(ledgerEntries.reference, reference)));
+  return Number(row.total);
+}
+
+async function paymentStatusOf(requestId: string) {
+  const request = await db.query.serviceRequests.findFirst({ where: eq(serviceRequests.requestId, requestId) });
+  return request?.paymentStatus;
+}
+
+describe("releaseClearedEarnings", () => {
+  it("caps the credit at what the customer was charged", async () => {
+    const operator = await createOperator();
+    const requestId = await completeJob(operator.operatorId, { earnings: "100000.00", paymentStatus: "captured", capturedCents: 12000 });
+
+    await releaseClearedEarnings(NOW);
+
+    assert.equal(await paymentStatusOf(requestId), "available");
+    assert.equal(await walletBalance(operator.userId), "120.00");
+    assert.equal(await accountBalanceCents(LEDGER_ACCOUNTS.fees, requestId), 0);
+  });
+
+  it("books what the customer paid beyond the earnings as the platform fee", async () => {
+    const operator = await createOperator();
+    const requestId = await completeJob(operator.operatorId, { earnings: "80.00", paymentStatus: "captured", capturedCents: 10000 });
+
+    await releaseClearedEarnings(NOW);
+
+    assert.equal(await walletBalance(operator.userId), "80.00");
+    assert.equal(await accountBalanceCents(LEDGER_ACCOUNTS.fees, requestId), -2000);
+  });
+
+  it("leaves requests whose payment was never captured", async () => {
+    const operator = await createOperator();
+    const requestId = await completeJob(operator.operatorId, { earnings: "100000.00", paymentStatus: "pending" });
+
+    await releaseClearedEarnings(NOW);
+
+    assert.equal(await paymentStatusOf(requestId), "pending");
+    assert.equal(await walletBalance(operator.userId), null);
+  });
+
+  it("funds the business payroll for a business's drivers", async () => {
+    const driver = await createOperator({ businessId: "BIZ-1" });
+    const requestId = await completeJob(driver.operatorId, { earnings: "90.00", paymentStatus: "captured", capturedCents: 9000 });
+
+    await releaseClearedEarnings(NOW);
+
+    assert.equal(await paymentStatusOf(requestId), "available");
+    assert.equal(await walletBalance(driver.userId), null);
+    assert.equal(await accountBalanceCents(LEDGER_ACCOUNTS.businessPayroll("BIZ-1"), requestId), -9000);
+  });
+
+  it("pays the business owner's own jobs to their wallet", async () => {
+    const owner = await createOperator({ businessId: "BIZ-2", ownsBusiness: true });
+    const requestId = await completeJob(owner.operatorId, { earnings: "90.00", paymentStatus: "captured", capturedCents: 9000 });
+
+    await releaseClearedEarnings(NOW);
+
+    assert.equal(await walletBalance(owner.userId), "90.00");
+    assert.equal(await accountBalanceCents(LEDGER_ACCOUNTS.businessPayroll("BIZ-2"), requestId), 0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Ledger - Opening balances for pre-ledger wallets, and wallet creation under concurrency
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { wallets } from "@shared/schema";
+import { startTestDatabase } from "./testDatabase";
+
+// db.ts reads DATABASE_URL on import, so the database starts before the services are loaded
+const database = await startTestDatabase();
+const { db } = await import("../db");
+const { postOpeningBalances, reconcileWallets, LEDGER_ACCOUNTS } = await import("../services/ledgerService");
+const { creditWallet, getOrCreateWallet } = await import("../services/walletService");
+
+after(() => database.stop());
+
+describe("postOpeningBalances", () => {
+  it("books pre-ledger balances so reconciliation starts without drift", async () => {
+    // Balances written before the ledger existed, with no journals behind them
+    await db.insert(wallets).values([
+      { userId: 1, balance: "125.50", pendingBalance: "20.00" },
+      { userId: 2, balance: "0.00", pendingBalance: "0.00" },
+    ]);
+    // A credit after the ledger was deployed is already journaled
+    await creditWallet({
+      userId: 1,
+      amount: 30,
+      description: "Job earnings",
+      reference: "REQ-1",
+      kind: "operator_earning",
+      fundedBy: LEDGER_ACCOUNTS.customerFunds,
+    });
+
+    const before = await reconcileWallets(1);
+    assert.equal(before.wallets[0]?.balanceDrift, "125.50");
+
+    assert.deepEqual(await postOpeningBalances(), [{ userId: 1, balanceCents: 12550, pendingCents: 2000 }]);
+
+    const report = await reconcileWallets();
+    assert.equal(report.driftCount, 0);
+    assert.deepEqual(report.unbalancedJournals, []);
+  });
+
+  it("skips wallets that already have an opening balance", async () => {
+    await db.insert(wallets).values({ userId: 3, balance: "10.00" });
+    assert.deepEqual(await postOpeningBalances(), [{ userId: 3, balanceCents: 1000, pendingCents: 0 }]);
+
+    // Drift found later is real and must stay visible
+    await db.update(wallets).set({ balance: "15.00" }).where(eq(wallets.userId, 3));
+    assert.deepEqual(await postOpeningBalances(), []);
+    assert.equal((await reconcileWallets(3)).driftCount, 1);
+  });
+});
+
+describe("getOrCreateWallet", () => {
+  it("creates one wallet when called concurrently", async () => {
+    const created = await Promise.all(Array.from({ length: 5 }, () => getOrCreateWallet(42)));
+
+    assert.equal(new Set(created.map(w => w.id)).size, 1);
+    const rows = await db.select().from(wallets);
+    assert.equal(rows.filter(w => w.userId === 42).length, 1);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Payment provider - Provider selection, the fake gateway's authorize / capture / refund / void lifecycle
+ * and the idempotency keys the Stripe adapter sends
+ */
+
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { createPaymentProvider } from "../services/paymentProvider";
+import type { AuthorizeRequest } from "../services/paymentProvider";
+import { FakePaymentProvider } from "../services/fakePaymentProvider";
+import { StripePaymentProvider } from "../services/stripePaymentProvider";
+
+const PROVIDER_ENV = ["PAYMENT_PROVIDER", "STRIPE_SECRET_KEY", "NODE_ENV"];
+
+describe("createPaymentProvider", () => {
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(PROVIDER_ENV.map(key => [key, process.env[key]]));
+    PROVIDER_ENV.forEach(key => delete process.env[key]);
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it("uses the fake outside production when nothing is configured", () => {
+    assert.equal(createPaymentProvider().name, "fake");
+  });
+
+  it("uses Stripe when a key is set", () => {
+    process.env.STRIPE_SECRET_KEY = "sk_test_123";
+    process.env.NODE_ENV = "production";
+    assert.equal(createPaymentProvider().name, "stripe");
+  });
+
+  it("requires a key when Stripe is selected", () => {
+    process.env.PAYMENT_PROVIDER = "stripe";
+    assert.throws(() => createPaymentProvider(), /STRIPE_SECRET_KEY is not set/);
+  });
+
+  it("refuses the fake in production", () => {
+    process.env.NODE_ENV = "production";
+    assert.throws(() => createPaymentProvider(), /No payment provider configured/);
+
+    process.env.PAYMENT_PROVIDER = "fake";
+    assert.throws(() => createPaymentProvider(), /No payment provider configured/);
+  });
+});
+
+describe("FakePaymentProvider", () => {
+  let provider: FakePaymentProvider;
+  let nextKey = 1;
+
+  const authorizeRequest = (overrides: Partial<AuthorizeRequest> = {}): AuthorizeRequest => ({
+    amountCents: 10000,
+    currency: "CAD",
+    paymentMethodId: "pm_card_visa",
+    description: "Snow plowing",
+    idempotencyKey: `authorize_${nextKey++}`,
+    ...overrides,
+  });
+
+  const refundKey = () => `refund_${nextKey++}`;
+
+  const authorized = async (amountCents = 10000) => {
+    const result = await provider.authorize(authorizeRequest({ amountCents }));
+    assert.equal(result.success, true);
+    return result.providerPaymentId!;
+  };
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider();
+  });
+
+  describe("authorize", () => {
+    it("places a hold for the amount", async () => {
+      const result = await provider.authorize(authorizeRequest());
+      assert.deepEqual(result, { success: true, providerPaymentId: "fake_pi_000001", amountCents: 10000 });
+      assert.equal(provider.getCharge("fake_pi_000001")?.status, "authorized");
+    });
+
+    it("declines the test payment methods and empty amounts", async () => {
+      assert.equal((await provider.authorize(authorizeRequest({ paymentMethodId: "pm_fake_decline" }))).failureReason, "card_declined");
+      assert.equal((await provider.authorize(authorizeRequest({ paymentMethodId: "pm_fake_insufficient" }))).failureReason, "insufficient_funds");
+      assert.equal((await provider.authorize(authorizeRequest({ amountCents: 0 }))).failureReason, "invalid_amount");
+    });
+
+    it("returns the first result for a repeated idempotency key", async () => {
+      const request = authorizeRequest();
+      const first = await provider.authorize(request);
+      const second = await provider.authorize({ ...request, amountCents: 500 });
+      assert.deepEqual(second, first);
+    });
+  });
+
+  describe("capture", () => {
+    it("charges up to the authorized amount", async () => {
+      const id = await authorized();
+      assert.deepEqual(await provider.capture(id, 8000), { success: true, providerPaymentId: id, amountCents: 8000 });
+      assert.equal(provider.getCharge(id)?.capturedCents, 8000);
+    });
+
+    it("rejects more than was authorized", async () => {
+      const id = await authorized();
+      assert.equal((await provider.capture(id, 10001)).failureReason, "amount_too_large");
+      assert.equal(provider.getCharge(id)?.status, "authorized");
+    });
+
+    it("treats a second capture as a no-op", async () => {
+      const id = await authorized();
+      await provider.capture(id, 6000);
+      assert.deepEqual(await provider.capture(id, 10000), { success: true, providerPaymentId: id, amountCents: 6000 });
+    });
+
+    it("fails for unknown payments", async () => {
+      assert.equal((await provider.capture("fake_pi_missing", 100)).failureReason, "payment_not_found");
+    });
+  });
+
+  describe("refund", () => {
+    it("returns captured funds in parts", async () => {
+      const id = await authorized();
+      await provider.capture(id, 10000);
+
+      assert.deepEqual(await provider.refund(id, 4000, refundKey()), { success: true, providerPaymentId: id, amountCents: 4000 });
+      assert.deepEqual(await provider.refund(id, 6000, refundKey()), { success: true, providerPaymentId: id, amountCents: 6000 });
+      assert.equal(provider.getCharge(id)?.refundedCents, 10000);
+    });
+
+    it("rejects refunding more than was captured", async () => {
+      const id = await authorized();
+      await provider.capture(id, 5000);
+
+      assert.equal((await provider.refund(id, 5001, refundKey())).failureReason, "amount_too_large");
+      await provider.refund(id, 3000, refundKey());
+      assert.equal((await provider.refund(id, 2001, refundKey())).failureReason, "amount_too_large");
+      assert.equal(provider.getCharge(id)?.refundedCents, 3000);
+    });
+
+    it("returns the first result for a repeated idempotency key", async () => {
+      const id = await authorized();
+      await provider.capture(id, 10000);
+
+      const key = refundKey();
+      assert.deepEqual(await provider.refund(id, 4000, key), { success: true, providerPaymentId: id, amountCents: 4000 });
+      assert.deepEqual(await provider.refund(id, 4000, key), { success: true, providerPaymentId: id, amountCents: 4000 });
+      assert.equal(provider.getCharge(id)?.refundedCents, 4000);
+    });
+
+    it("fails for unknown payments", async () => {
+      assert.equal((await provider.refund("fake_pi_missing", 100, refundKey())).failureReason, "payment_not_found");
+    });
+  });
+
+  describe("void", () => {
+    it("releases an uncaptured hold without moving money", async () => {
+      const id = await authorized();
+      assert.deepEqual(await provider.refund(id, 10000, refundKey()), { success: true, providerPaymentId: id, amountCents: 0 });
+      assert.equal(provider.getCharge(id)?.status, "voided");
+    });
+
+    it("is idempotent and blocks a later capture", async () => {
+      const id = await authorized();
+      await provider.refund(id, 10000, refundKey());
+
+      assert.deepEqual(await provider.refund(id, 10000, refundKey()), { success: true, providerPaymentId: id, amountCents: 0 });
+      assert.equal((await provider.capture(id, 10000)).failureReason, "payment_voided");
+    });
+  });
+});
+
+describe("StripePaymentProvider", () => {
+  const realFetch = globalThis.fetch;
+  let requests: Array<{ url: string; method: string; idempotencyKey: string | null }>;
+
+  beforeEach(() => {
+    requests = [];
+    globalThis.fetch = async (input, init) => {
+      const headers = new Headers(init?.headers);
+      requests.push({ url: String(input), method: init?.method || "GET", idempotencyKey: headers.get("Idempotency-Key") });
+      const body = String(input).endsWith("/refunds") ? { id: "re_1", amount: 4000 } : { status: "succeeded", amount: 10000 };
+      return new Response(JSON.stringify(body), { status: 200 });
+    };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it("sends the idempotency key with a refund", async () => {
+    const provider = new StripePaymentProvider("sk_test_123");
+    const result = await provider.refund("pi_1", 4000, "refund_pay_1_0");
+
+    assert.deepEqual(result, { success: true, providerPaymentId: "pi_1", amountCents: 4000 });
+    const refund = requests.find(request => request.url.endsWith("/refunds"));
+    assert.equal(refund?.method, "POST");
+    assert.equal(refund?.idempotencyKey, "refund_pay_1_0");
+  });
+});
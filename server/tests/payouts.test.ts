@@ -0,0 +1,48 @@
+/**
+ * Payouts - A batch claims pending withdrawals together with its batch row and settles each one
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { payoutBatches, walletTransactions, wallets } from "@shared/schema";
+import { startTestDatabase } from "./testDatabase";
+
+// db.ts reads DATABASE_URL on import, so the database starts before the services are loaded
+const database = await startTestDatabase();
+const { db } = await import("../db");
+const { requestWithdrawal, runPayoutBatch } = await import("../services/payoutService");
+
+after(() => database.stop());
+
+async function withdraw(userId: number, payoutAccountId: string | null) {
+  const [wallet] = await db.insert(wallets).values({ userId, balance: "100.00", payoutAccountId }).returning();
+  const withdrawal = await requestWithdrawal(wallet, 40);
+  assert.ok(withdrawal);
+  return withdrawal;
+}
+
+describe("runPayoutBatch", () => {
+  it("records the batch for every withdrawal it claims", async () => {
+    const paid = await withdraw(1, "acct_fake_ok");
+    const failed = await withdraw(2, "acct_fake_fail");
+
+    const batch = await runPayoutBatch("admin", new Date("2026-01-16T12:00:00Z"));
+    assert.ok(batch);
+    assert.equal(batch.status, "partial");
+    assert.equal(batch.withdrawalCount, 2);
+    assert.equal(batch.totalAmount, "80.00");
+    assert.equal(batch.paidAmount, "40.00");
+
+    const claimed = await db.select().from(walletTransactions).where(eq(walletTransactions.payoutBatchId, batch.batchId));
+    const statuses = new Map(claimed.filter(t => t.type === "withdrawal").map(t => [t.id, t.status]));
+    assert.deepEqual(statuses, new Map([[paid.id, "completed"], [failed.id, "failed"]]));
+    assert.equal((await db.query.wallets.findFirst({ where: eq(wallets.userId, 2) }))?.balance, "100.00");
+  });
+
+  it("creates no batch when nothing is pending", async () => {
+    const before = await db.select().from(payoutBatches);
+    assert.equal(await runPayoutBatch(), null);
+    assert.equal((await db.select().from(payoutBatches)).length, before.length);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Payroll - Approval pays drivers out of a funded business payroll account, once per statement,
+ * and approving again pays only what is still unpaid
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { acceptedJobs, businesses, operators, payrollPeriods, payrollStatements, users, wallets } from "@shared/schema";
+import { startTestDatabase } from "./testDatabase";
+
+// db.ts reads DATABASE_URL on import, so the database starts before the services are loaded
+const database = await startTestDatabase();
+const { db } = await import("../db");
+const { createPayrollPeriod, approvePayrollPeriod } = await import("../services/payrollService");
+const { postJournal, debitCredit, getAccountBalanceCents, LEDGER_ACCOUNTS } = await import("../services/ledgerService");
+
+after(() => database.stop());
+
+let nextId = 1;
+
+// A business with two commission drivers who each completed one $100 job in January
+async function createBusiness() {
+  const businessId = `BIZ-${nextId++}`;
+  await db.insert(businesses).values({ businessId, name: "Plow Co", email: `${businessId}@example.com` });
+
+  const drivers: Array<{ operatorId: string; userId: number }> = [];
+  for (let i = 0; i < 2; i++) {
+    const n = nextId++;
+    const operatorId = `OP-${n}`;
+    await db.insert(operators).values({
+      operatorId,
+      name: `Driver ${n}`,
+      rating: "5.00",
+      services: ["snow_plowing"],
+      vehicle: "Truck",
+      licensePlate: "ABC 123",
+      phone: "555-0100",
+      latitude: "51.0447000",
+      longitude: "-114.0719000",
+      address: "Calgary",
+      businessId,
+    });
+    const [user] = await db.insert(users).values({
+      userId: `USER-${n}`,
+      name: `Driver ${n}`,
+      email: `driver${n}@example.com`,
+      role: "operator",
+      operatorId,
+    }).returning();
+    drivers.push({ operatorId, userId: user.id });
+
+    await db.insert(acceptedJobs).values({
+      acceptedJobId: `AJ-${n}`,
+      operatorId,
+      jobSourceId: `REQ-${n}`,
+      jobSourceType: "service_request",
+      tier: "professional",
+      jobData: { serviceType: "snow_plowing" },
+      status: "completed",
+      actualEarnings: "100.00",
+      completedAt: new Date("2026-01-10T12:00:00Z"),
+    });
+  }
+
+  const period = await createPayrollPeriod(businessId, new Date("2026-01-01T00:00:00Z"), new Date("2026-02-01T00:00:00Z"));
+  return { businessId, drivers, payrollPeriodId: period.payrollPeriodId };
+}
+
+async function fundPayroll(businessId: string, cents: number) {
+  await postJournal(db, {
+    kind: "operator_earning",
+    lines: debitCredit(LEDGER_ACCOUNTS.customerFunds, LEDGER_ACCOUNTS.businessPayroll(businessId), cents),
+    description: "Driver earnings",
+    reference: businessId,
+  });
+}
+
+async function statementStatuses(payrollPeriodId: string) {
+  const statements = await db.select().from(payrollStatements).where(eq(payrollStatements.payrollPeriodId, payrollPeriodId));
+  return statements.map(statement => statement.status);
+}
+
+async function walletBalance(userId: number) {
+  const wallet = await db.query.wallets.findFirst({ where: eq(wallets.userId, userId) });
+  return wallet?.balance ?? null;
+}
+
+describe("approvePayrollPeriod", () => {
+  it("refuses an unfunded payroll and leaves the period a draft", async () => {
+    const { businessId, payrollPeriodId } = await createBusiness();
+    await fundPayroll(businessId, 10000);
+
+    // Two drivers at the default 70% of $100
+    assert.deepEqual(await approvePayrollPeriod(businessId, payrollPeriodId, "OWNER"), { status: "unfunded", requiredCents: 14000, availableCents: 10000 });
+    const period = await db.query.payrollPeriods.findFirst({ where: eq(payrollPeriods.payrollPeriodId, payrollPeriodId) });
+    assert.equal(period?.status, "draft");
+  });
+
+  it("pays each driver once from the business payroll", async () => {
+    const { businessId, drivers, payrollPeriodId } = await createBusiness();
+    await fundPayroll(businessId, 20000);
+
+    assert.equal((await approvePayrollPeriod(businessId, payrollPeriodId, "OWNER")).status, "approved");
+    assert.deepEqual(await statementStatuses(payrollPeriodId), ["paid", "paid"]);
+    for (const driver of drivers) {
+      assert.equal(await walletBalance(driver.userId), "70.00");
+    }
+    assert.equal(await getAccountBalanceCents(LEDGER_ACCOUNTS.businessPayroll(businessId)), 6000);
+
+    assert.deepEqual(await approvePayrollPeriod(businessId, payrollPeriodId, "OWNER"), { status: "already_paid" });
+  });
+
+  it("pays only the statements still unpaid when approved again", async () => {
+    const { businessId, drivers: [first, second], payrollPeriodId } = await createBusiness();
+    await fundPayroll(businessId, 20000);
+
+    // As if approval stopped after paying the first driver
+    await db.update(payrollPeriods).set({ status: "approved" }).where(eq(payrollPeriods.payrollPeriodId, payrollPeriodId));
+    await db.update(payrollStatements).set({ status: "paid" }).where(eq(payrollStatements.operatorId, first.operatorId));
+
+    assert.equal((await approvePayrollPeriod(businessId, payrollPeriodId, "OWNER")).status, "approved");
+    assert.equal(await walletBalance(first.userId), null);
+    assert.equal(await walletBalance(second.userId), "70.00");
+    assert.equal(await getAccountBalanceCents(LEDGER_ACCOUNTS.businessPayroll(businessId)), 13000);
+  });
+});
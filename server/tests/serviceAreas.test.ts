@@ -0,0 +1,51 @@
+/**
+ * Service areas - A city covers jobs within its tier's radius, and tiers without a radius are not limited
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import type { OperatorServiceArea } from "@shared/schema";
+import { startTestDatabase } from "./testDatabase";
+
+// db.ts reads DATABASE_URL on import, so the database starts before the services are loaded
+const database = await startTestDatabase();
+const { matchesServiceAreas } = await import("../services/serviceAreaService");
+
+after(() => database.stop());
+
+function calgary(tier: string): OperatorServiceArea {
+  const now = new Date();
+  return {
+    id: 1,
+    operatorId: "OP-1",
+    tier,
+    countryCode: "CA",
+    countryName: "Canada",
+    stateCode: "AB",
+    stateName: "Alberta",
+    cityName: "Calgary",
+    cityLatitude: "51.0447000",
+    cityLongitude: "-114.0719000",
+    neighborhoods: null,
+    coverageType: "full_city",
+    isPrimary: 1,
+    isActive: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// About 10km north of the city centre
+const job = { location: "Nolan Hill", latitude: "51.1347000", longitude: "-114.0719000" };
+
+describe("matchesServiceAreas", () => {
+  it("limits each tier's cities to its radius", () => {
+    assert.equal(matchesServiceAreas(job, [calgary("manual")]), false);
+    assert.equal(matchesServiceAreas(job, [calgary("equipped")]), true);
+  });
+
+  it("skips the radius check for tiers without one", () => {
+    const farAway = { location: "Edmonton", latitude: "53.5461000", longitude: "-113.4938000" };
+    assert.equal(matchesServiceAreas(farAway, [calgary("professional")]), true);
+  });
+});
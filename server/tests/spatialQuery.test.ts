@@ -0,0 +1,123 @@
+/**
+ * Spatial queries - Bounding box results must match a full calculateDistance scan, including circles
+ * over the poles and across the antimeridian, and nearest-k must match the k closest of a full scan
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { calculateDistance } from "../utils/distance";
+import { getBoundingBox, isInBoundingBox, filterWithinRadius, findNearest } from "../services/spatialQueryService";
+
+interface TestPoint {
+  id: string;
+  latitude: string; // Stored like the decimal(10, 7) columns
+  longitude: string;
+}
+
+const CENTERS: Array<[string, number, number]> = [
+  ["Calgary", 51.0447, -114.0719],
+  ["near the north pole", 89.9, 0],
+  ["near the south pole", -89.95, 120],
+  ["Fiji, east of the antimeridian", -17.7134, 179.98],
+  ["Fiji, west of the antimeridian", -17.7134, -179.98],
+];
+const RADII_KM = [1, 5, 25, 200, 2000];
+const NEAREST_K = [1, 10, 50];
+
+function wrapLongitude(longitude: number): number {
+  return ((longitude + 540) % 360) - 180;
+}
+
+// A dense grid around every center plus a sparse one over the whole globe
+function buildPoints(): TestPoint[] {
+  const points: TestPoint[] = [];
+  const add = (latitude: number, longitude: number) => {
+    points.push({ id: `P${points.length}`, latitude: Math.max(-90, Math.min(90, latitude)).toFixed(7), longitude: wrapLongitude(longitude).toFixed(7) });
+  };
+
+  for (const [, latitude, longitude] of CENTERS) {
+    for (let dLat = -3; dLat <= 3; dLat += 0.25) {
+      for (let dLon = -3; dLon <= 3; dLon += 0.25) {
+        add(latitude + dLat + 0.013, longitude + dLon + 0.007);
+      }
+    }
+  }
+  for (let latitude = -85; latitude <= 85; latitude += 10) {
+    for (let longitude = -180; longitude < 180; longitude += 10) {
+      add(latitude, longitude);
+    }
+  }
+  return points;
+}
+
+const POINTS = buildPoints();
+
+function fullScan(latitude: number, longitude: number, radiusKm: number) {
+  return POINTS
+    .map(item => ({ item, distanceKm: calculateDistance(latitude, longitude, parseFloat(item.latitude), parseFloat(item.longitude)) }))
+    .filter(({ distanceKm }) => distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+// What the database does: rows in the box, then measured
+function boxSearch(latitude: number, longitude: number, radiusKm: number) {
+  const box = getBoundingBox(latitude, longitude, radiusKm);
+  const candidates = POINTS.filter(point => isInBoundingBox(box, parseFloat(point.latitude), parseFloat(point.longitude)));
+  return filterWithinRadius(candidates, point => point, latitude, longitude, radiusKm);
+}
+
+const distancesById = (results: Array<{ item: TestPoint; distanceKm: number }>) =>
+  new Map(results.map(({ item, distanceKm }) => [item.id, distanceKm]));
+
+describe("getBoundingBox", () => {
+  it("spans every longitude when the circle reaches a pole", () => {
+    const box = getBoundingBox(89.9, 0, 50);
+    assert.equal(box.maxLatitude, 90);
+    assert.deepEqual(box.longitudeRanges, [[-180, 180]]);
+  });
+
+  it("splits in two across the antimeridian", () => {
+    for (const longitude of [179.98, -179.98]) {
+      const box = getBoundingBox(-17.7134, longitude, 25);
+      assert.equal(box.longitudeRanges.length, 2);
+      assert.ok(box.longitudeRanges.some(([, max]) => max === 180));
+      assert.ok(box.longitudeRanges.some(([min]) => min === -180));
+    }
+  });
+
+  it("keeps a single range elsewhere", () => {
+    assert.equal(getBoundingBox(51.0447, -114.0719, 25).longitudeRanges.length, 1);
+  });
+});
+
+describe("bounding box search", () => {
+  for (const [name, latitude, longitude] of CENTERS) {
+    it(`matches a full scan ${name}`, () => {
+      for (const radiusKm of RADII_KM) {
+        const expected = fullScan(latitude, longitude, radiusKm);
+        const actual = boxSearch(latitude, longitude, radiusKm);
+        assert.ok(expected.length > 0 || radiusKm < 5, `no points within ${radiusKm}km`);
+        assert.deepEqual(distancesById(actual), distancesById(expected), `radius ${radiusKm}km`);
+      }
+    });
+  }
+});
+
+describe("findNearest", () => {
+  for (const [name, latitude, longitude] of CENTERS) {
+    it(`returns the k closest of a full scan ${name}`, async () => {
+      for (const k of NEAREST_K) {
+        const expected = fullScan(latitude, longitude, Infinity).slice(0, k);
+        const actual = await findNearest(async radiusKm => boxSearch(latitude, longitude, radiusKm), k);
+        // Ties may come back in either order, so compare distances
+        assert.deepEqual(actual.map(r => r.distanceKm), expected.map(r => r.distanceKm), `nearest ${k}`);
+      }
+    });
+  }
+
+  it("stops at the maximum radius with fewer than k found", async () => {
+    const found = await findNearest(async radiusKm => boxSearch(51.0447, -114.0719, radiusKm), 5, 1);
+    assert.ok(found.length < 5);
+    assert.deepEqual(found.map(r => r.distanceKm), fullScan(51.0447, -114.0719, 1).slice(0, 5).map(r => r.distanceKm));
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Storage contract - The behaviour every IStorage must share, run against MemStorage and PgStorage
+ * PgStorage runs on an in-process Postgres (see testDatabase). Every test makes its own IDs, so the
+ * Postgres tables are shared between tests without being cleared.
+ */
+
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import type { IStorage } from "../storage";
+import { startTestDatabase } from "./testDatabase";
+
+// Insert* types come from drizzle-zod and collapse to never without strictNullChecks, so test
+// inputs are cast to whatever the storage method takes
+const input = <T>(value: Record<string, unknown>) => value as unknown as T;
+
+let nextId = 1;
+const uniqueId = (prefix: string) => `${prefix}-${process.pid}-${nextId++}`;
+
+const operatorInput = (operatorId: string) => ({
+  operatorId,
+  name: "Test Operator",
+  email: `${operatorId}@example.com`,
+  services: ["snow_plowing"],
+  latitude: "51.0447000",
+  longitude: "-114.0719000",
+});
+
+const vehicleInput = (vehicleId: string, operatorId: string) => ({
+  vehicleId,
+  operatorId,
+  name: "Truck",
+  vehicleType: "Pickup Truck",
+  make: "Ford",
+  model: "F-150",
+  year: "2020",
+  licensePlate: "ABC 123",
+  services: ["snow_plowing"],
+});
+
+const acceptedJobInput = (acceptedJobId: string, operatorId: string, tier = "manual") => ({
+  acceptedJobId,
+  operatorId,
+  jobSourceId: uniqueId("REQ"),
+  jobSourceType: "service_request",
+  tier,
+  jobData: { budgetMin: 80, budgetMax: 120 },
+});
+
+function storageContract(getStorage: () => IStorage) {
+  describe("operators", () => {
+    it("fills defaults and keeps the active tier subscribed", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      const created = await storage.createOperator(input({ ...operatorInput(operatorId), operatorTier: "equipped", subscribedTiers: ["manual"] }));
+
+      assert.equal(created.driverName, "Test Operator");
+      assert.equal(created.activeTier, "equipped");
+      assert.deepEqual(created.subscribedTiers, ["manual", "equipped"]);
+      assert.deepEqual(await storage.getOperatorByOperatorId(operatorId), created);
+    });
+
+    it("rejects a duplicate operatorId", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      await storage.createOperator(input(operatorInput(operatorId)));
+      await assert.rejects(() => storage.createOperator(input(operatorInput(operatorId))), /already exists/);
+    });
+
+    it("updates known operators only", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      await storage.createOperator(input(operatorInput(operatorId)));
+
+      const updated = await storage.updateOperator(operatorId, input({ isOnline: 1 }));
+      assert.equal(updated?.isOnline, 1);
+      assert.equal(await storage.updateOperator(uniqueId("OP"), input({ isOnline: 1 })), undefined);
+    });
+
+    it("adds and switches tiers", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      await storage.createOperator(input(operatorInput(operatorId)));
+
+      assert.equal(await storage.addOperatorTier(operatorId, "equipped", { services: "snow_plowing, towing" }), true);
+      assert.equal(await storage.addOperatorTier(operatorId, "equipped", {}), false);
+      const equipped = await storage.getOperatorByOperatorId(operatorId);
+      assert.deepEqual(equipped?.subscribedTiers, ["manual", "equipped"]);
+      assert.deepEqual(equipped?.services, ["snow_plowing", "towing"]);
+      assert.equal(equipped?.operatingRadius, "15.00");
+
+      assert.equal(await storage.switchOperatorTier(operatorId, "manual"), true);
+      assert.equal(await storage.switchOperatorTier(operatorId, "professional"), false);
+      assert.equal((await storage.getOperatorByOperatorId(operatorId))?.activeTier, "manual");
+    });
+  });
+
+  describe("vehicles", () => {
+    it("keeps one active vehicle per operator", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      const first = uniqueId("VEH");
+      const second = uniqueId("VEH");
+      await storage.createVehicle(input({ ...vehicleInput(first, operatorId), isActive: 1 }));
+      await storage.createVehicle(input(vehicleInput(second, operatorId)));
+
+      assert.equal(await storage.setActiveVehicle(operatorId, second), true);
+      const active = (await storage.getOperatorVehicles(operatorId)).filter(v => v.isActive === 1);
+      assert.deepEqual(active.map(v => v.vehicleId), [second]);
+    });
+
+    it("deletes a vehicle once", async () => {
+      const storage = getStorage();
+      const vehicleId = uniqueId("VEH");
+      await storage.createVehicle(input(vehicleInput(vehicleId, uniqueId("OP"))));
+
+      assert.equal(await storage.deleteVehicle(vehicleId), true);
+      assert.equal(await storage.deleteVehicle(vehicleId), false);
+      assert.equal(await storage.getVehicle(vehicleId), undefined);
+    });
+  });
+
+  describe("accepted jobs", () => {
+    it("lists only active jobs", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      const active = uniqueId("AJ");
+      const done = uniqueId("AJ");
+      const other = uniqueId("AJ");
+      await storage.createAcceptedJob(input(acceptedJobInput(active, operatorId)));
+      await storage.createAcceptedJob(input(acceptedJobInput(done, operatorId)));
+      await storage.createAcceptedJob(input(acceptedJobInput(other, operatorId, "equipped")));
+      await storage.completeAcceptedJob(done, 95);
+
+      assert.deepEqual((await storage.getAcceptedJobs(operatorId, "manual")).map(j => j.acceptedJobId), [active]);
+      assert.deepEqual((await storage.getOperatorActiveJobs(operatorId, "manual")).map(j => j.acceptedJobId), [other]);
+    });
+
+    it("starts and completes a job", async () => {
+      const storage = getStorage();
+      const acceptedJobId = uniqueId("AJ");
+      const created = await storage.createAcceptedJob(input(acceptedJobInput(acceptedJobId, uniqueId("OP"))));
+      assert.equal(created.status, "accepted");
+      assert.equal(created.progress, 0);
+
+      const started = await storage.startAcceptedJob(acceptedJobId);
+      assert.equal(started?.status, "in_progress");
+      assert.ok(started?.startedAt instanceof Date);
+
+      assert.equal((await storage.updateAcceptedJobProgress(acceptedJobId, 40))?.progress, 40);
+
+      const completed = await storage.completeAcceptedJob(acceptedJobId, 95.5);
+      assert.equal(completed?.status, "completed");
+      assert.equal(completed?.progress, 100);
+      assert.equal(parseFloat(completed?.actualEarnings ?? ""), 95.5);
+    });
+
+    it("penalizes operator cancellations before half way", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      const early = uniqueId("AJ");
+      const late = uniqueId("AJ");
+      await storage.createAcceptedJob(input(acceptedJobInput(early, operatorId)));
+      await storage.createAcceptedJob(input({ ...acceptedJobInput(late, operatorId), progress: 60 }));
+
+      const cancelled = await storage.cancelAcceptedJob(early, "Truck broke down", true);
+      assert.equal(cancelled.job?.status, "cancelled");
+      assert.equal(cancelled.job?.cancelledByOperator, 1);
+      assert.equal(cancelled.penalty, 100);
+      assert.equal((await storage.cancelAcceptedJob(late, "Customer cancelled", true)).penalty, undefined);
+      assert.deepEqual(await storage.cancelAcceptedJob(uniqueId("AJ"), "Missing", true), { job: undefined });
+    });
+  });
+
+  describe("ratings and favorites", () => {
+    it("lists an operator's ratings", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      await storage.createRating(input({ ratingId: uniqueId("RAT"), customerId: uniqueId("CUST"), operatorId, rating: 4 }));
+
+      const ratings = await storage.getRatings(operatorId);
+      assert.deepEqual(ratings.map(r => r.rating), [4]);
+    });
+
+    it("adds and removes favorites", async () => {
+      const storage = getStorage();
+      const customerId = uniqueId("CUST");
+      const operatorId = uniqueId("OP");
+      await storage.addFavorite(customerId, operatorId);
+
+      assert.equal(await storage.isFavorite(customerId, operatorId), true);
+      assert.equal((await storage.getFavorites(customerId)).length, 1);
+      assert.equal(await storage.removeFavorite(customerId, operatorId), true);
+      assert.equal(await storage.removeFavorite(customerId, operatorId), false);
+      assert.equal(await storage.isFavorite(customerId, operatorId), false);
+    });
+  });
+
+  describe("users and sessions", () => {
+    it("finds and updates users", async () => {
+      const storage = getStorage();
+      const userId = uniqueId("USER");
+      const email = `${userId}@example.com`;
+      await storage.createUser(input({ userId, name: "Test User", email }));
+
+      assert.equal((await storage.getUserByEmail(email))?.userId, userId);
+      assert.equal((await storage.updateUser(userId, input({ role: "operator" })))?.role, "operator");
+      assert.equal((await storage.getUserByUserId(userId))?.role, "operator");
+    });
+
+    it("deletes only expired sessions", async () => {
+      const storage = getStorage();
+      const live = uniqueId("SESS");
+      const expired = uniqueId("SESS");
+      await storage.createSession(input({ sessionId: live, userId: uniqueId("USER"), expiresAt: new Date(Date.now() + 60_000) }));
+      await storage.createSession(input({ sessionId: expired, userId: uniqueId("USER"), expiresAt: new Date(Date.now() - 60_000) }));
+
+      assert.ok(await storage.deleteExpiredSessions() >= 1);
+      assert.equal(await storage.getSession(expired), undefined);
+      assert.equal((await storage.getSession(live))?.sessionId, live);
+    });
+  });
+
+  describe("tier stats and earnings", () => {
+    it("counts jobs and averages ratings per tier", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      await storage.incrementTierJobCount(operatorId, "manual", 50);
+      await storage.incrementTierJobCount(operatorId, "manual", 25.5);
+      await storage.updateTierRating(operatorId, "manual", 5);
+      await storage.updateTierRating(operatorId, "manual", 4);
+
+      const stat = await storage.getOperatorTierStat(operatorId, "manual");
+      assert.equal(stat?.jobsCompleted, 2);
+      assert.equal(stat?.totalEarnings, "75.50");
+      assert.equal(stat?.rating, "4.50");
+      assert.equal(stat?.totalRatings, 2);
+      assert.equal(await storage.getOperatorTierStat(operatorId, "equipped"), undefined);
+    });
+
+    it("adds up daily and monthly earnings", async () => {
+      const storage = getStorage();
+      const operatorId = uniqueId("OP");
+      const today = new Date().toISOString().split('T')[0];
+      const month = today.substring(0, 7);
+      await storage.upsertDailyEarnings(operatorId, "manual", today, 40, 1);
+      await storage.upsertDailyEarnings(operatorId, "manual", today, 10.25, 1);
+      await storage.upsertMonthlyEarnings(operatorId, "manual", month, 50.25, 2);
+
+      assert.deepEqual(await storage.getTodayEarnings(operatorId, "manual"), { earnings: 50.25, jobsCompleted: 2 });
+      assert.deepEqual(await storage.getMonthEarnings(operatorId, "manual"), { earnings: 50.25, jobsCompleted: 2 });
+      assert.deepEqual(await storage.getTodayEarnings(operatorId, "equipped"), { earnings: 0, jobsCompleted: 0 });
+    });
+  });
+
+  describe("wallets", () => {
+    it("creates one wallet per user and moves its balance", async () => {
+      const storage = getStorage();
+      const userId = 100_000 + nextId++;
+      const wallet = await storage.getOrCreateWallet(userId);
+      assert.equal(wallet.balance, "0.00");
+      assert.equal((await storage.getOrCreateWallet(userId)).id, wallet.id);
+
+      await storage.updateWalletBalance(userId, 10, 'credit');
+      const updated = await storage.updateWalletBalance(userId, 2.5, 'debit');
+      assert.equal(updated?.balance, "7.50");
+      assert.equal(updated?.totalEarnings, "10.00");
+    });
+  });
+}
+
+// db.ts reads DATABASE_URL on import, so the database starts before storage is loaded
+const database = await startTestDatabase();
+const { MemStorage, PgStorage } = await import("../storage");
+
+describe("MemStorage", () => {
+  const storage = new MemStorage();
+  storageContract(() => storage);
+});
+
+describe("PgStorage", () => {
+  const storage = new PgStorage();
+  after(() => database.stop());
+  storageContract(() => storage);
+});
@@ -0,0 +1,56 @@
+/**
+ * Test Database - An in-process Postgres (PGlite) with the current schema, served on a local socket
+ * Call startTestDatabase before anything imports ../db: it points DATABASE_URL at the test database,
+ * and db.ts reads DATABASE_URL when it is first imported.
+ */
+
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { generateDrizzleJson, generateMigration } from "drizzle-kit/api";
+import { createServer } from "net";
+import * as schema from "@shared/schema";
+
+export interface TestDatabase {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+export async function startTestDatabase(): Promise<TestDatabase> {
+  const client = new PGlite();
+
+  // The same statements drizzle-kit would run to create the schema on an empty database
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  const port = await findFreePort();
+  const server = new PGLiteSocketServer({ db: client, host: "127.0.0.1", port, maxConnections: 10 });
+  await server.start();
+
+  const url = `postgres://postgres@127.0.0.1:${port}/postgres`;
+  process.env.DATABASE_URL = url;
+
+  return {
+    url,
+    stop: async () => {
+      // The pool in db.ts holds connections open, so it has to end before the server stops
+      const { db } = await import("../db");
+      await db.$client.end();
+      await server.stop();
+      await client.close();
+    },
+  };
+}
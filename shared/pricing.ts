@@ -0,0 +1,208 @@
+// Quote pricing engine - the suggested price for an operator's quote on a service request
+// Used by the server to prefill and check quotes; the browser shows the breakdown it returns.
+// An operator's pricing config gives the rates; with no config the customer's budget midpoint is used.
+
+import { OPERATOR_TIER_INFO } from "./schema";
+import type { OperatorPricingConfig, OperatorTier } from "./schema";
+import { getWeatherSurgeMultiplier } from "./zones";
+import type { AreaDemand, DemandLevel } from "./zones";
+
+// Totals within this many dollars of each other are the same price
+export const PRICE_TOLERANCE = 0.01;
+
+export type PricingRates = Pick<OperatorPricingConfig, "baseRate" | "perKmRate" | "minimumFee" | "urgencyMultipliers">;
+
+export interface PricedRequest {
+  serviceType: string;
+  isEmergency?: number | boolean | null;
+  urgencyLevel?: string | null;
+  budgetMin?: string | number | null;
+  budgetMax?: string | number | null;
+  budgetRange?: string | null;
+  details?: unknown; // Stored as { type, payload } - see buildServiceRequestDetails
+}
+
+export interface QuotePricingInput {
+  rates: PricingRates | null;
+  tier: string;
+  request: PricedRequest;
+  travelDistanceKm: number | null; // Operator to job, when both locations are known
+  demand: AreaDemand | null;
+}
+
+export type QuoteBreakdown =
+  | {
+      method: "pricing_config";
+      baseRate: number;
+      travelDistance: number; // km from the operator to the job
+      serviceDistance: number; // km the job itself involves, estimated from its details
+      estimatedDistance: number; // travelDistance + serviceDistance
+      distanceCost: number;
+      urgencyMultiplier: number;
+      tierMultiplier: number;
+      weatherSurgeMultiplier: number;
+      minimumFee: number;
+      total: number;
+    }
+  | {
+      method: "customer_budget";
+      budgetRange: string;
+      estimatedAmount: number;
+      total: number;
+    };
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The service-specific fields, whether details are stored wrapped or flat
+function getDetailsPayload(details: unknown): Record<string, unknown> {
+  if (!details || typeof details !== "object") return {};
+  const payload = (details as { payload?: unknown }).payload;
+  return (payload && typeof payload === "object" ? payload : details) as Record<string, unknown>;
+}
+
+/**
+ * Kilometres of work the job involves beyond getting there
+ * Snow area sizes are priced as distance-equivalents; towing uses the tow distance when given.
+ */
+export function estimateServiceDistanceKm(request: PricedRequest): number {
+  const details = getDetailsPayload(request.details);
+
+  if (request.serviceType === "Snow Plowing") {
+    const areaSize = details.areaSize || "small";
+    return areaSize === "xlarge" ? 8 : areaSize === "large" ? 5 : areaSize === "medium" ? 3 : 1;
+  }
+  if (request.serviceType === "Towing") {
+    const towDistanceKm = Number(details.towDistanceKm);
+    return towDistanceKm > 0 ? towDistanceKm : 10; // Default 10km tow
+  }
+  if (request.serviceType === "Hauling") {
+    const weight = details.weight || details.loadSize || "small";
+    return weight === "very-heavy" || weight === "large" ? 8 : weight === "heavy" || weight === "medium" ? 5 : 2;
+  }
+  return 5; // Default 5km
+}
+
+export interface Budget {
+  min: number;
+  max: number;
+}
+
+/**
+ * Customer's budget from a range such as "$100-$250"
+ * @returns null if the range cannot be read
+ */
+export function parseBudgetRange(budgetRange: string | null | undefined): Budget | null {
+  const match = (budgetRange || "").match(/\$(\d+(?:\.\d+)?)-\$?(\d+(?:\.\d+)?)/);
+  return match ? { min: parseFloat(match[1]), max: parseFloat(match[2]) } : null;
+}
+
+export function formatBudgetRange(budget: Budget): string {
+  const dollars = (amount: number) => `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+  return `${dollars(budget.min)}-${dollars(budget.max)}`;
+}
+
+/**
+ * Customer's budget from a request or job snapshot: budgetMin/budgetMax, or its legacy budgetRange text
+ * @returns null when the customer gave no budget
+ */
+export function resolveBudget(source: unknown): Budget | null {
+  if (!source || typeof source !== "object") return null;
+  const { budgetMin, budgetMax, budgetRange } = source as {
+    budgetMin?: string | number | null;
+    budgetMax?: string | number | null;
+    budgetRange?: string | null;
+  };
+
+  if (budgetMin !== undefined && budgetMin !== null && budgetMax !== undefined && budgetMax !== null) {
+    const min = Number(budgetMin);
+    const max = Number(budgetMax);
+    if (!isNaN(min) && !isNaN(max)) return { min, max };
+  }
+  return parseBudgetRange(budgetRange);
+}
+
+/**
+ * Why a budget cannot be used, or null if it is valid - both ends or neither, low to high
+ */
+export function validateBudget(budgetMin: number | undefined, budgetMax: number | undefined): string | null {
+  if ((budgetMin === undefined) !== (budgetMax === undefined)) return "Give both budgetMin and budgetMax, or neither";
+  if (budgetMin !== undefined && budgetMax !== undefined && budgetMin > budgetMax) return "budgetMin cannot be more than budgetMax";
+  return null;
+}
+
+/**
+ * Suggested quote with an itemized breakdown
+ * (baseRate + distance x perKmRate) x urgency x tier x weather surge, and never below the minimum fee
+ * @returns null when the operator has no pricing config and the customer gave no usable budget
+ */
+export function calculateQuotePrice(input: QuotePricingInput): QuoteBreakdown | null {
+  const { rates, request } = input;
+
+  if (!rates) {
+    const budget = resolveBudget(request);
+    if (!budget) return null;
+    const midpoint = roundCents((budget.min + budget.max) / 2);
+    return { method: "customer_budget", budgetRange: formatBudgetRange(budget), estimatedAmount: midpoint, total: midpoint };
+  }
+
+  const baseRate = parseFloat(rates.baseRate) || 0;
+  const perKmRate = parseFloat(rates.perKmRate) || 0;
+  const minimumFee = parseFloat(rates.minimumFee) || 0;
+  const urgencyMultipliers = (rates.urgencyMultipliers || {}) as Record<string, number>;
+
+  const travelDistance = Math.round((input.travelDistanceKm || 0) * 10) / 10;
+  const serviceDistance = estimateServiceDistanceKm(request);
+  const estimatedDistance = Math.round((travelDistance + serviceDistance) * 10) / 10;
+  const distanceCost = roundCents(estimatedDistance * perKmRate);
+
+  const isEmergency = !!request.isEmergency || request.urgencyLevel === "emergency";
+  const urgencyMultiplier = isEmergency ? urgencyMultipliers.emergency || 1.5 : urgencyMultipliers.scheduled || 1.0;
+  const tierMultiplier = OPERATOR_TIER_INFO[input.tier as OperatorTier]?.pricingMultiplier ?? 1;
+  // Weather surge, only when the operator opted in
+  const weatherSurgeMultiplier = getWeatherSurgeMultiplier(urgencyMultipliers, request.serviceType, input.demand);
+
+  const total = roundCents(Math.max(
+    (baseRate + distanceCost) * urgencyMultiplier * tierMultiplier * weatherSurgeMultiplier,
+    minimumFee
+  ));
+
+  return {
+    method: "pricing_config",
+    baseRate,
+    travelDistance,
+    serviceDistance,
+    estimatedDistance,
+    distanceCost,
+    urgencyMultiplier,
+    tierMultiplier,
+    weatherSurgeMultiplier,
+    minimumFee,
+    total,
+  };
+}
+
+/**
+ * Whether a breakdown a client submitted gives the same total as the engine, within tolerance dollars
+ */
+export function matchesQuotePrice(submitted: unknown, expected: QuoteBreakdown, tolerance: number = PRICE_TOLERANCE): boolean {
+  if (!submitted || typeof submitted !== "object") return false;
+  const { method, total } = submitted as { method?: unknown; total?: unknown };
+  return method === expected.method && typeof total === "number" && Math.abs(total - expected.total) <= Math.max(tolerance, PRICE_TOLERANCE);
+}
+
+/**
+ * What a job is likely to cost before it is requested, from GET /api/estimates
+ * low, median and high are the 25th, 50th and 75th percentiles of the samples, or null without any.
+ */
+export interface PriceEstimate {
+  serviceType: string;
+  low: number | null;
+  median: number | null;
+  high: number | null;
+  sampleCount: number;
+  operatorCount: number; // Samples priced from nearby operators' pricing configs
+  completedJobCount: number; // Samples from recent completed jobs nearby
+  demandLevel: DemandLevel;
+}
@@ -0,0 +1,237 @@
+// Recurrence rules for repeating service requests - a subset of iCalendar RRULE
+// Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekly), BYMONTHDAY (monthly),
+// COUNT and UNTIL. Occurrences are calendar dates ("YYYY-MM-DD") with no time of day; the time
+// comes from the series' preferredTime.
+
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// Services a repeating request can instead trigger on snowfall ("plow after every 5cm")
+export const SNOWFALL_SERVICE_TYPES = ["Snow Plowing", "Snow Shoveling", "Ice Removal"];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[]; // WEEKLY only - defaults to the start date's weekday
+  byMonthDay: number[]; // MONTHLY only - defaults to the start date's day of month
+  count: number | null;
+  until: string | null; // Last possible date, inclusive
+}
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Occurrences further out than this are never searched for
+const MAX_SEARCH_DAYS = 5 * 366;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates are handled as UTC midnights so the server's time zone never shifts a day
+function toDay(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function fromDay(day: Date): string {
+  return day.toISOString().split("T")[0];
+}
+
+export function isValidDate(date: string): boolean {
+  return DATE_PATTERN.test(date) && !isNaN(toDay(date).getTime()) && fromDay(toDay(date)) === date;
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDay(new Date(toDay(date).getTime() + days * DAY_MS));
+}
+
+function weekdayOf(day: Date): Weekday {
+  return WEEKDAYS[(day.getUTCDay() + 6) % 7];
+}
+
+// "FREQ=WEEKLY;BYDAY=TU" as { FREQ: "WEEKLY", BYDAY: "TU" }, or the first malformed part
+function splitRule(text: string): Map<string, string> | string {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) return part;
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+  return parts;
+}
+
+// UNTIL is written YYYYMMDD in RRULE text
+function parseUntil(until: string): string {
+  return until.length === 8 ? `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}` : until;
+}
+
+/**
+ * Why a rule cannot be used, or null if it is valid
+ */
+export function validateRecurrenceRule(text: string): string | null {
+  const parts = splitRule(text);
+  if (typeof parts === "string") return `Invalid rule part "${parts}"`;
+
+  const freq = parts.get("FREQ");
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    return `FREQ must be one of ${RECURRENCE_FREQUENCIES.join(", ")}`;
+  }
+
+  for (const key of Array.from(parts.keys())) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY", "COUNT", "UNTIL"].includes(key)) {
+      return `${key} is not supported`;
+    }
+  }
+
+  const interval = parts.get("INTERVAL");
+  if (interval !== undefined && !(/^\d+$/.test(interval) && Number(interval) >= 1 && Number(interval) <= 52)) {
+    return "INTERVAL must be a whole number from 1 to 52";
+  }
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    if (freq !== "WEEKLY") return "BYDAY is only supported with FREQ=WEEKLY";
+    if (!byDay.split(",").every(day => WEEKDAYS.includes(day as Weekday))) {
+      return `BYDAY must list days from ${WEEKDAYS.join(", ")}`;
+    }
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    if (freq !== "MONTHLY") return "BYMONTHDAY is only supported with FREQ=MONTHLY";
+    if (!byMonthDay.split(",").every(day => /^\d+$/.test(day) && Number(day) >= 1 && Number(day) <= 31)) {
+      return "BYMONTHDAY must list days from 1 to 31";
+    }
+  }
+
+  const count = parts.get("COUNT");
+  if (count !== undefined && !(/^\d+$/.test(count) && Number(count) >= 1)) {
+    return "COUNT must be a positive whole number";
+  }
+
+  const until = parts.get("UNTIL");
+  if (until !== undefined && !isValidDate(parseUntil(until))) {
+    return "UNTIL must be a date (YYYYMMDD)";
+  }
+
+  return null;
+}
+
+/**
+ * Parse a rule such as "FREQ=WEEKLY;BYDAY=TU"
+ * @returns null if the rule is invalid - see validateRecurrenceRule for the reason
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule | null {
+  const parts = splitRule(text);
+  if (typeof parts === "string" || validateRecurrenceRule(text)) return null;
+
+  const until = parts.get("UNTIL");
+  return {
+    freq: parts.get("FREQ") as RecurrenceFrequency,
+    interval: Number(parts.get("INTERVAL") || 1),
+    byDay: parts.get("BYDAY") ? parts.get("BYDAY")!.split(",") as Weekday[] : [],
+    byMonthDay: parts.get("BYMONTHDAY") ? parts.get("BYMONTHDAY")!.split(",").map(Number) : [],
+    count: parts.get("COUNT") ? Number(parts.get("COUNT")) : null,
+    until: until ? parseUntil(until) : null,
+  };
+}
+
+/**
+ * Serialize a rule back to RRULE text
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/**
+ * Plain-English summary, e.g. "Every Tuesday" or "Every 2 weeks on Monday and Thursday"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const every = (unit: string) => rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  let summary: string;
+
+  if (rule.freq === "DAILY") {
+    summary = every("day");
+  } else if (rule.freq === "WEEKLY") {
+    const days = rule.byDay.map(day => WEEKDAY_NAMES[day]);
+    const dayList = days.length > 1 ? `${days.slice(0, -1).join(", ")} and ${days[days.length - 1]}` : days[0];
+    summary = rule.interval === 1 && dayList ? `Every ${dayList}` : `${every("week")}${dayList ? ` on ${dayList}` : ""}`;
+  } else {
+    summary = `${every("month")}${rule.byMonthDay.length > 0 ? ` on day ${rule.byMonthDay.join(", ")}` : ""}`;
+  }
+
+  if (rule.count !== null) summary += `, ${rule.count} times`;
+  if (rule.until) summary += `, until ${rule.until}`;
+  return summary;
+}
+
+// Whether a date falls on the rule's pattern, ignoring COUNT and UNTIL
+function matchesRule(rule: RecurrenceRule, start: Date, day: Date): boolean {
+  if (rule.freq === "DAILY") {
+    return Math.round((day.getTime() - start.getTime()) / DAY_MS) % rule.interval === 0;
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const byDay = rule.byDay.length > 0 ? rule.byDay : [weekdayOf(start)];
+    if (!byDay.includes(weekdayOf(day))) return false;
+    // Weeks start on Monday, as with RRULE's default WKST
+    const weekOf = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    const weeks = Math.round((weekOf(day) - weekOf(start)) / (7 * DAY_MS));
+    return weeks % rule.interval === 0;
+  }
+
+  const byMonthDay = rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.getUTCDate()];
+  if (!byMonthDay.includes(day.getUTCDate())) return false;
+  const months = (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+  return months % rule.interval === 0;
+}
+
+/**
+ * The first occurrence after a date
+ * @param startDate - First date of the series (DTSTART); occurrences are never earlier
+ * @param after - Find the occurrence after this date, or from startDate itself when null
+ * @param occurrencesSoFar - Occurrences already generated, checked against COUNT
+ * @returns null when the series has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, startDate: string, after: string | null, occurrencesSoFar: number = 0): string | null {
+  if (rule.count !== null && occurrencesSoFar >= rule.count) return null;
+
+  const start = toDay(startDate);
+  let day = after ? new Date(Math.max(toDay(after).getTime() + DAY_MS, start.getTime())) : start;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (rule.until && fromDay(day) > rule.until) return null;
+    if (matchesRule(rule, start, day)) return fromDay(day);
+    day = new Date(day.getTime() + DAY_MS);
+  }
+  return null;
+}
+
+/**
+ * The next few occurrences, for previews
+ */
+export function upcomingOccurrences(rule: RecurrenceRule, startDate: string, limit: number): string[] {
+  const dates: string[] = [];
+  let next = nextOccurrence(rule, startDate, null, 0);
+  while (next && dates.length < limit) {
+    dates.push(next);
+    next = nextOccurrence(rule, startDate, next, dates.length);
+  }
+  return dates;
+}
@@ -92,7 +92,10 @@ export const operators = pgTable("operators", {
   equipmentInventory: jsonb("equipment_inventory"),
   primaryVehicleImage: text("primary_vehicle_image"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  // Bounding box range scans for nearby-operator queries (spatialQueryService)
+  locationIdx: index("idx_operators_location").on(table.latitude, table.longitude),
+}));
 
 export const insertOperatorSchema = createInsertSchema(operators).omit({
   id: true,
@@ -121,6 +124,7 @@ export type OperatorTierProfile = {
   businessLicense?: string;
   businessName?: string;
   services?: string[];
+  suspendedServices?: string[]; // Services disabled because a required document expired, until it is re-approved
   documents?: {
     driversLicense?: string;
     vehicleRegistration?: string;
@@ -303,6 +307,7 @@ export const operatorQuotes = pgTable("operator_quotes", {
   customerResponseNotes: text("customer_response_notes"), // Customer feedback on quote
   counterAmount: decimal("counter_amount", { precision: 10, scale: 2 }), // If customer counters
   autoCalcSnapshot: jsonb("auto_calc_snapshot"), // Snapshot of pricing factors used
+  priceOverride: integer("price_override").notNull().default(0), // 1 = amount deliberately differs from the operator's pricing (logged in history)
   notes: text("notes"), // Operator's notes on the quote
   declineReason: text("decline_reason"), // DeclineReason enum: "distance" | "budget" | "nature_of_job" | "other"
   declineNotes: text("decline_notes"), // Additional explanation when operator declines
@@ -348,7 +353,9 @@ export const serviceRequests = pgTable("service_requests", {
   preferredDate: text("preferred_date"),
   preferredTime: text("preferred_time"),
   timeFlexibility: text("time_flexibility"),
-  budgetRange: text("budget_range"),
+  budgetRange: text("budget_range"), // Display text, e.g. "$50-$100" - budgetMin/budgetMax hold the values
+  budgetMin: decimal("budget_min", { precision: 10, scale: 2 }),
+  budgetMax: decimal("budget_max", { precision: 10, scale: 2 }),
   imageCount: integer("image_count").notNull().default(0),
   details: jsonb("details"),
   estimatedCost: decimal("estimated_cost", { precision: 10, scale: 2 }),
@@ -357,10 +364,12 @@ export const serviceRequests = pgTable("service_requests", {
   decisionAt: timestamp("decision_at"), // When operator accepted/declined
   // Uber-style payment and completion tracking
   completedAt: timestamp("completed_at"),
-  paymentStatus: text("payment_status"), // pending, captured, available, paid_out, refunded
+  paymentStatus: text("payment_status"), // authorized, pending, captured, available, paid_out, refunded
   paymentCapturedAt: timestamp("payment_captured_at"), // When customer was charged
   paymentAvailableAt: timestamp("payment_available_at"), // When earnings became available (after review window)
   paymentPaidOutAt: timestamp("payment_paid_out_at"), // When money was transferred to operator
+  earningsHoldReason: text("earnings_hold_reason"), // Set while a dispute pauses the earnings release
+  earningsHeldAt: timestamp("earnings_held_at"),
   customerRating: integer("customer_rating"), // 1-5 stars
   customerReview: text("customer_review"),
   customerRatedAt: timestamp("customer_rated_at"),
@@ -386,9 +395,14 @@ export const serviceRequests = pgTable("service_requests", {
   // Operator view tracking for notifications
   operatorViewedAt: timestamp("operator_viewed_at"), // When operator first viewed this request
   customerLastViewedAt: timestamp("customer_last_viewed_at"), // When customer last viewed status
+  // Recurring requests - set on requests generated from a serviceRequestSeries
+  seriesId: text("series_id"), // FK to serviceRequestSeries.seriesId
+  seriesOccurrence: integer("series_occurrence"), // 1-based position within the series
 }, (table) => ({
   // Composite index for status + emergency queries as recommended by architect
   statusEmergencyIdx: index("idx_service_requests_status_emergency").on(table.status, table.isEmergency),
+  seriesIdx: index("idx_service_requests_series").on(table.seriesId),
+  locationIdx: index("idx_service_requests_location").on(table.latitude, table.longitude),
 }));
 
 const baseServiceRequestSchema = z.object({
@@ -410,7 +424,9 @@ const baseServiceRequestSchema = z.object({
   preferredDate: z.string().optional(),
   preferredTime: z.string().optional(),
   timeFlexibility: z.string().optional(),
-  budgetRange: z.string().optional(),
+  budgetRange: z.string().optional(), // Legacy free text such as "$50-$100"; prefer budgetMin/budgetMax
+  budgetMin: z.number().nonnegative().optional(),
+  budgetMax: z.number().nonnegative().optional(),
   imageCount: z.number().optional(),
   estimatedCost: z.string().optional(),
 });
@@ -461,6 +477,53 @@ export type InsertServiceRequest = z.infer<typeof insertServiceRequestSchema>;
 export type ServiceRequest = typeof serviceRequests.$inferSelect;
 // ServiceRequestStatus is already defined at the top of the file using SERVICE_REQUEST_STATUSES
 
+// Service Request Series - Recurring contracts that generate a child service request per occurrence
+// A "schedule" series follows an RRULE (see shared/recurrence.ts); a "snowfall" series fires each time
+// snowfall at the location adds up to snowfallThresholdCm.
+export const serviceRequestSeries = pgTable("service_request_series", {
+  id: serial("id").primaryKey(),
+  seriesId: text("series_id").notNull().unique(),
+  customerId: text("customer_id").notNull(),
+  customerName: text("customer_name").notNull(),
+  operatorId: text("operator_id"), // Set when an operator accepts the whole series
+  operatorName: text("operator_name"),
+  acceptedTier: text("accepted_tier"), // Tier the operator accepted the series under
+  acceptedAt: timestamp("accepted_at"),
+  // Template copied onto every generated request
+  serviceType: text("service_type").notNull(),
+  description: text("description").notNull(),
+  location: text("location").notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 7 }),
+  longitude: decimal("longitude", { precision: 10, scale: 7 }),
+  preferredTime: text("preferred_time"),
+  timeFlexibility: text("time_flexibility"),
+  budgetRange: text("budget_range"),
+  budgetMin: decimal("budget_min", { precision: 10, scale: 2 }),
+  budgetMax: decimal("budget_max", { precision: 10, scale: 2 }),
+  estimatedCost: decimal("estimated_cost", { precision: 10, scale: 2 }),
+  details: jsonb("details"),
+  // Trigger
+  triggerType: text("trigger_type").notNull(), // "schedule" | "snowfall"
+  rrule: text("rrule"), // Schedule series only, e.g. "FREQ=WEEKLY;BYDAY=TU"
+  startDate: text("start_date").notNull(), // YYYY-MM-DD
+  endDate: text("end_date"), // YYYY-MM-DD, inclusive - no occurrences after this
+  nextOccurrenceDate: text("next_occurrence_date"), // Schedule series only - null once the rule is exhausted
+  occurrenceCount: integer("occurrence_count").notNull().default(0), // Requests generated so far
+  snowfallThresholdCm: decimal("snowfall_threshold_cm", { precision: 5, scale: 1 }), // Snowfall series only
+  snowfallAccumulatedCm: decimal("snowfall_accumulated_cm", { precision: 5, scale: 1 }).notNull().default("0"),
+  weatherCheckedAt: timestamp("weather_checked_at"), // Snowfall is accumulated from here on the next check
+  status: text("status").notNull().default("active"), // "active" | "paused" | "ended" | "cancelled"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusTriggerIdx: index("idx_service_request_series_status_trigger").on(table.status, table.triggerType),
+  customerIdx: index("idx_service_request_series_customer").on(table.customerId),
+}));
+
+export type ServiceRequestSeries = typeof serviceRequestSeries.$inferSelect;
+export type SeriesTriggerType = "schedule" | "snowfall";
+export type SeriesStatus = "active" | "paused" | "ended" | "cancelled";
+
 // Request Status Events - Track all status transitions for audit and real-time notifications
 export const requestStatusEvents = pgTable("request_status_events", {
   id: serial("id").primaryKey(),
@@ -732,8 +795,9 @@ export type Session = typeof sessions.$inferSelect;
 // Email OTP Codes table - for email verification
 export const emailOtpCodes = pgTable("email_otp_codes", {
   id: serial("id").primaryKey(),
-  email: text("email").notNull(),
-  code: text("code").notNull(), // 6-digit OTP code
+  email: text("email").notNull(), // Address the code was sent to (the new address for email_change)
+  userId: text("user_id"), // Account the code belongs to
+  code: text("code").notNull(), // SHA-256 hash of the 6-digit OTP code
   purpose: text("purpose").notNull().default("signup"), // "signup" | "password_reset" | "email_change"
   attempts: integer("attempts").notNull().default(0), // Track failed attempts
   expiresAt: timestamp("expires_at").notNull(), // OTP expires after 10 minutes
@@ -750,6 +814,7 @@ export const insertEmailOtpSchema = createInsertSchema(emailOtpCodes).pick({
 
 export type InsertEmailOtp = z.infer<typeof insertEmailOtpSchema>;
 export type EmailOtpCode = typeof emailOtpCodes.$inferSelect;
+export type EmailOtpPurpose = "signup" | "password_reset" | "email_change";
 
 // Service Document Requirements - defines what documents are needed for each service
 export const serviceDocumentRequirements = pgTable("service_document_requirements", {
@@ -780,11 +845,17 @@ export const operatorDocumentSubmissions = pgTable("operator_document_submission
   serviceType: text("service_type").notNull(), // Which service this document is for
   documentType: text("document_type").notNull(), // e.g., "red_seal", "license"
   documentUrl: text("document_url"), // URL to uploaded file
-  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected"
+  storageKey: text("storage_key"), // Blob store key of the uploaded file
+  fileName: text("file_name"), // Original file name
+  contentType: text("content_type"),
+  fileSize: integer("file_size"), // Bytes
+  tier: text("tier"), // Tier the document was submitted for
+  status: text("status").notNull().default("pending"), // "pending" | "approved" | "rejected" | "expired"
   reviewNote: text("review_note"), // Admin feedback
   reviewedAt: timestamp("reviewed_at"),
   reviewedBy: text("reviewed_by"), // Admin user ID
   expiresAt: timestamp("expires_at"), // For documents that expire (licenses, insurance)
+  expiryWarningDays: integer("expiry_warning_days"), // Smallest expiry warning sent so far (30, 14 or 3 days)
   submittedAt: timestamp("submitted_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
@@ -798,11 +869,14 @@ export const insertOperatorDocSubmissionSchema = createInsertSchema(operatorDocu
 
 export type InsertOperatorDocSubmission = z.infer<typeof insertOperatorDocSubmissionSchema>;
 export type OperatorDocumentSubmission = typeof operatorDocumentSubmissions.$inferSelect;
+export type DocumentReviewStatus = "pending" | "approved" | "rejected" | "expired";
 
 // Weather Alerts table - stores active weather alerts for proactive notifications
 export const weatherAlerts = pgTable("weather_alerts", {
   id: serial("id").primaryKey(),
-  alertId: text("alert_id").notNull().unique(), // NWS alert ID
+  alertId: text("alert_id").notNull().unique(), // NWS alert ID or CAP identifier
+  source: text("source").notNull().default("nws"), // Weather provider: "nws", "environment-canada", "fixture"
+  countryCode: text("country_code").notNull().default("US"), // ISO2 country code of the issuing service
   event: text("event").notNull(), // e.g., "Winter Storm Warning"
   headline: text("headline").notNull(),
   description: text("description").notNull(),
@@ -813,6 +887,8 @@ export const weatherAlerts = pgTable("weather_alerts", {
   expires: timestamp("expires").notNull(),
   instruction: text("instruction"),
   category: text("category").notNull(), // "Met", "Safety", "Transport", etc.
+  geometry: jsonb("geometry"), // GeoJSON Polygon/MultiPolygon of the warned area, null for zone-based alerts
+  regionCodes: text("region_codes").array(), // State/province codes the alert covers, e.g. ["CO"] or ["ON"]
   isActive: integer("is_active").notNull().default(1),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -827,6 +903,51 @@ export const insertWeatherAlertSchema = createInsertSchema(weatherAlerts).omit({
 export type InsertWeatherAlert = z.infer<typeof insertWeatherAlertSchema>;
 export type WeatherAlert = typeof weatherAlerts.$inferSelect;
 
+// Zone Demand - Demand per service-area city, raised by the weather alerts covering it (see demandEngine)
+export const zoneDemand = pgTable("zone_demand", {
+  id: serial("id").primaryKey(),
+  zoneId: text("zone_id").notNull().unique(), // "CA-ON-toronto"
+  name: text("name").notNull(), // City name
+  countryCode: text("country_code").notNull(),
+  stateCode: text("state_code").notNull(),
+  centerLatitude: decimal("center_latitude", { precision: 10, scale: 7 }).notNull(),
+  centerLongitude: decimal("center_longitude", { precision: 10, scale: 7 }).notNull(),
+  radiusKm: integer("radius_km").notNull(),
+  demandLevel: text("demand_level").notNull().default("low"), // "low" | "medium" | "high" | "surge"
+  pendingJobs: integer("pending_jobs").notNull().default(0), // Open requests within the zone
+  activeOperators: integer("active_operators").notNull().default(0), // Online operators within the zone
+  alertIds: text("alert_ids").array().notNull().default([]), // Active weather alerts covering the zone
+  surgeServiceTypes: text("surge_service_types").array().notNull().default([]), // Service keys the weather drives demand for
+  notifiedAlertIds: text("notified_alert_ids").array().notNull().default([]), // Alerts offline operators were already told about
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ZoneDemand = typeof zoneDemand.$inferSelect;
+
+// Service Zones - Polygons admins draw or import; counts are recomputed from live data (see zoneService)
+export const serviceZones = pgTable("service_zones", {
+  id: serial("id").primaryKey(),
+  zoneId: text("zone_id").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  geometry: jsonb("geometry").notNull(), // GeoJSON Polygon or MultiPolygon, [lng, lat] positions
+  centerLatitude: decimal("center_latitude", { precision: 10, scale: 7 }).notNull(), // Centre of the largest polygon
+  centerLongitude: decimal("center_longitude", { precision: 10, scale: 7 }).notNull(),
+  allowedTiers: text("allowed_tiers").array().notNull().default(["manual", "equipped", "professional"]), // Tiers that may take jobs inside the zone
+  source: text("source").notNull().default("drawn"), // "drawn" | "imported"
+  demandLevel: text("demand_level").notNull().default("low"), // "low" | "medium" | "high" | "surge"
+  activeOperators: integer("active_operators").notNull().default(0), // Operators with a recent live location inside the zone
+  pendingJobs: integer("pending_jobs").notNull().default(0), // Open service requests inside the zone
+  countsUpdatedAt: timestamp("counts_updated_at"),
+  isActive: integer("is_active").notNull().default(1),
+  createdBy: text("created_by"), // Admin userId
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type ServiceZoneRecord = typeof serviceZones.$inferSelect;
+export type ZoneSource = "drawn" | "imported";
+
 // Emergency Requests - For anonymous emergency help (SOS feature, no login required)
 export const emergencyRequests = pgTable("emergency_requests", {
   id: serial("id").primaryKey(),
@@ -882,6 +1003,7 @@ export const dispatchQueue = pgTable("dispatch_queue", {
   operatorRatingSnapshot: decimal("operator_rating_snapshot", { precision: 3, scale: 2 }), // Operator's rating when dispatched
   operatorAvgResponseTime: decimal("operator_avg_response_time", { precision: 10, scale: 2 }), // Avg response time in seconds
   responseTimeSeconds: integer("response_time_seconds"), // Time taken to respond to this specific request
+  radiusKm: decimal("radius_km", { precision: 10, scale: 2 }), // Search radius this operator was found within (grows when everyone declines)
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   // Composite indexes for efficient queries as recommended by architect
@@ -901,6 +1023,7 @@ export const insertDispatchQueueSchema = z.object({
   respondedAt: z.date().optional(),
   expiresAt: z.date().optional(),
   distanceKm: z.string().or(z.number().transform(String)).optional(),
+  radiusKm: z.string().or(z.number().transform(String)).optional(),
 });
 
 export type InsertDispatchQueue = z.infer<typeof insertDispatchQueueSchema>;
@@ -926,6 +1049,25 @@ export const insertEquipmentMediaSchema = createInsertSchema(equipmentMedia).omi
 export type InsertEquipmentMedia = z.infer<typeof insertEquipmentMediaSchema>;
 export type EquipmentMedia = typeof equipmentMedia.$inferSelect;
 
+// Customer Groups - Nearby open requests for the same service, offered to operators as one batch until expiresAt
+export const customerGroups = pgTable("customer_groups", {
+  id: serial("id").primaryKey(),
+  groupId: text("group_id").notNull().unique(),
+  serviceType: text("service_type").notNull(),
+  location: text("location").notNull(), // Display label, taken from the first request's location
+  centerLatitude: decimal("center_latitude", { precision: 10, scale: 7 }).notNull(),
+  centerLongitude: decimal("center_longitude", { precision: 10, scale: 7 }).notNull(),
+  requestIds: text("request_ids").array().notNull(), // Service requests clustered into the group
+  status: text("status").notNull().default("open"), // "open" | "closed" | "expired"
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  statusExpiresIdx: index("idx_customer_groups_status_expires").on(table.status, table.expiresAt),
+}));
+
+export type CustomerGroupRecord = typeof customerGroups.$inferSelect;
+export type CustomerGroupStatus = "open" | "closed" | "expired";
+
 // Job Assignments - Selective customer acceptance from groups (customer-level granularity)
 export const jobAssignments = pgTable("job_assignments", {
   id: serial("id").primaryKey(),
@@ -956,7 +1098,7 @@ export const acceptedJobs = pgTable("accepted_jobs", {
   acceptedJobId: text("accepted_job_id").notNull().unique(), // Unique ID for this acceptance
   operatorId: text("operator_id").notNull(), // Which operator accepted it
   jobSourceId: text("job_source_id").notNull(), // Original job/request ID (could be string or number converted to string)
-  jobSourceType: text("job_source_type").notNull(), // "request" | "emergency" | "service_request" | "group"
+  jobSourceType: text("job_source_type").notNull(), // "request" | "emergency" | "service_request" | "group" | "series"
   tier: text("tier").notNull(), // "manual" | "equipped" | "professional"
   status: text("status").notNull().default("accepted"), // "accepted" | "in_progress" | "completed" | "cancelled"
   progress: integer("progress").notNull().default(0), // 0-100 percentage
@@ -1087,6 +1229,7 @@ export const wallets = pgTable("wallets", {
   totalEarnings: decimal("total_earnings", { precision: 12, scale: 2 }).notNull().default("0.00"),
   referralCredits: decimal("referral_credits", { precision: 12, scale: 2 }).notNull().default("0.00"),
   currency: text("currency").notNull().default("CAD"),
+  payoutAccountId: text("payout_account_id"), // Payment provider account that receives withdrawals
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -1122,6 +1265,8 @@ export const walletTransactions = pgTable("wallet_transactions", {
   tier: text("tier"), // Which operator tier this transaction relates to
   jobId: integer("job_id"), // Related job if applicable
   metadata: jsonb("metadata"), // Additional transaction data
+  payoutBatchId: text("payout_batch_id"), // Withdrawals: the payout batch that sent them
+  processedAt: timestamp("processed_at"), // Withdrawals: when the payout completed or failed
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   walletIdIdx: index("idx_transactions_wallet_id").on(table.walletId),
@@ -1175,3 +1320,224 @@ export const CARD_BRANDS = {
 } as const;
 
 export type CardBrand = keyof typeof CARD_BRANDS;
+
+// Driver Pay Types - how a business pays a driver attached through operators.businessId
+export const DRIVER_PAY_TYPES = ["commission", "hourly"] as const;
+export type DriverPayType = typeof DRIVER_PAY_TYPES[number];
+
+// Driver Pay Rates - Per-driver commission or hourly split configured by the business owner
+export const driverPayRates = pgTable("driver_pay_rates", {
+  id: serial("id").primaryKey(),
+  businessId: text("business_id").notNull(),
+  operatorId: text("operator_id").notNull(), // The driver
+  payType: text("pay_type").notNull().default("commission"), // commission | hourly
+  commissionPercent: decimal("commission_percent", { precision: 5, scale: 2 }), // Driver's share of job earnings
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }), // Paid per hour between job start and completion
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  businessDriverUnique: unique("driver_pay_rates_business_operator_unique").on(table.businessId, table.operatorId),
+}));
+
+export const insertDriverPayRateSchema = z.object({
+  businessId: z.string(),
+  operatorId: z.string(),
+  payType: z.enum(DRIVER_PAY_TYPES),
+  commissionPercent: z.string().or(z.number().transform(String)).nullable().optional(),
+  hourlyRate: z.string().or(z.number().transform(String)).nullable().optional(),
+});
+
+export type InsertDriverPayRate = z.infer<typeof insertDriverPayRateSchema>;
+export type DriverPayRate = typeof driverPayRates.$inferSelect;
+
+// Payroll Periods - A pay period for a business; draft until the owner approves it
+export const payrollPeriods = pgTable("payroll_periods", {
+  id: serial("id").primaryKey(),
+  payrollPeriodId: text("payroll_period_id").notNull().unique(),
+  businessId: text("business_id").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(), // Exclusive
+  status: text("status").notNull().default("draft"), // draft | approved
+  totalGrossEarnings: decimal("total_gross_earnings", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  totalDriverPay: decimal("total_driver_pay", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  approvedBy: text("approved_by"), // userId of the owner who approved
+  approvedAt: timestamp("approved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  businessIdIdx: index("idx_payroll_periods_business_id").on(table.businessId),
+}));
+
+export type PayrollPeriod = typeof payrollPeriods.$inferSelect;
+
+// Payroll Statements - One driver's pay for a payroll period, with the jobs it was built from
+export const payrollStatements = pgTable("payroll_statements", {
+  id: serial("id").primaryKey(),
+  statementId: text("statement_id").notNull().unique(),
+  payrollPeriodId: text("payroll_period_id").notNull(),
+  businessId: text("business_id").notNull(),
+  operatorId: text("operator_id").notNull(),
+  driverName: text("driver_name").notNull(),
+  payType: text("pay_type").notNull(), // Snapshot of the rate used
+  commissionPercent: decimal("commission_percent", { precision: 5, scale: 2 }),
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }),
+  jobCount: integer("job_count").notNull().default(0),
+  hoursWorked: decimal("hours_worked", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  grossEarnings: decimal("gross_earnings", { precision: 12, scale: 2 }).notNull().default("0.00"), // Sum of accepted_jobs.actualEarnings
+  driverPay: decimal("driver_pay", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  businessShare: decimal("business_share", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  lineItems: jsonb("line_items").notNull(), // [{ acceptedJobId, completedAt, hours, earnings, pay }]
+  status: text("status").notNull().default("draft"), // draft | paid | no_wallet (driver has no user account to pay into)
+  walletTransactionId: integer("wallet_transaction_id"),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  periodIdIdx: index("idx_payroll_statements_period_id").on(table.payrollPeriodId),
+  operatorIdIdx: index("idx_payroll_statements_operator_id").on(table.operatorId),
+}));
+
+export type PayrollStatement = typeof payrollStatements.$inferSelect;
+
+export interface PayrollLineItem {
+  acceptedJobId: string;
+  serviceType: string;
+  completedAt: string;
+  hours: number;
+  earnings: number;
+  pay: number;
+}
+
+// Payment Statuses - lifecycle of a customer's payment for one job
+// authorized (hold placed on accept) -> captured (charged on completion) -> refunded / partially_refunded
+// voided = hold released before capture, failed = the gateway declined the authorization
+export const PAYMENT_STATUSES = ["authorized", "captured", "partially_refunded", "refunded", "voided", "failed"] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+// Payments - Customer payments for accepted jobs, as recorded by the payment provider
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  paymentId: text("payment_id").notNull().unique(),
+  serviceRequestId: text("service_request_id").notNull(), // serviceRequests.requestId (acceptedJobs.jobSourceId)
+  acceptedJobId: text("accepted_job_id"),
+  customerId: text("customer_id").notNull(),
+  operatorId: text("operator_id").notNull(),
+  provider: text("provider").notNull(), // "stripe" | "fake"
+  providerPaymentId: text("provider_payment_id"), // Payment intent ID at the provider
+  paymentMethodId: text("payment_method_id"), // Provider payment method used for the authorization
+  status: text("status").notNull().default("authorized"), // PaymentStatus
+  currency: text("currency").notNull().default("CAD"),
+  authorizedCents: integer("authorized_cents").notNull().default(0),
+  capturedCents: integer("captured_cents").notNull().default(0),
+  refundedCents: integer("refunded_cents").notNull().default(0),
+  failureReason: text("failure_reason"),
+  authorizedAt: timestamp("authorized_at"),
+  capturedAt: timestamp("captured_at"),
+  refundedAt: timestamp("refunded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  serviceRequestIdIdx: index("idx_payments_service_request_id").on(table.serviceRequestId),
+  statusIdx: index("idx_payments_status").on(table.status),
+}));
+
+export type Payment = typeof payments.$inferSelect;
+
+// Payout Batches - One run of the withdrawal payout pipeline (normally the Friday payout)
+export const payoutBatches = pgTable("payout_batches", {
+  id: serial("id").primaryKey(),
+  batchId: text("batch_id").notNull().unique(),
+  payoutDate: text("payout_date").notNull(), // Format: YYYY-MM-DD
+  status: text("status").notNull().default("processing"), // processing | completed | partial (some failed) | failed
+  provider: text("provider").notNull(),
+  withdrawalCount: integer("withdrawal_count").notNull().default(0),
+  succeededCount: integer("succeeded_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  triggeredBy: text("triggered_by").notNull().default("schedule"), // "schedule" or the admin's userId
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+
+// Ledger Entry Kinds - the business event a balanced journal records
+export const LEDGER_ENTRY_KINDS = [
+  "customer_charge", "refund", "operator_earning", "platform_fee", "cancellation_fee",
+  "payroll", "withdrawal", "payout", "payout_reversal", "dispute_adjustment",
+  "opening_balance", // Wallet balances that predate the ledger
+] as const;
+export type LedgerEntryKind = typeof LEDGER_ENTRY_KINDS[number];
+
+// Ledger Entries - Append-only double-entry ledger behind wallets and payments
+// Each journal is a set of lines whose amounts sum to zero (positive = debit, negative = credit)
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  journalId: text("journal_id").notNull(), // Groups the lines of one balanced posting
+  kind: text("kind").notNull(), // LedgerEntryKind
+  account: text("account").notNull(), // e.g. "platform:cash", "wallet:42:available"
+  userId: integer("user_id"), // Wallet owner (users.id) for wallet accounts
+  amountCents: integer("amount_cents").notNull(), // Signed: debit > 0, credit < 0
+  currency: text("currency").notNull().default("CAD"),
+  reference: text("reference"), // Service request, withdrawal or payroll period the journal belongs to
+  description: text("description").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  journalIdIdx: index("idx_ledger_entries_journal_id").on(table.journalId),
+  accountIdx: index("idx_ledger_entries_account").on(table.account),
+  userIdIdx: index("idx_ledger_entries_user_id").on(table.userId),
+}));
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+export const DISPUTE_CATEGORIES = ["service_not_completed", "poor_quality", "damage", "overcharged", "no_show", "payment_issue", "other"] as const;
+export type DisputeCategory = typeof DISPUTE_CATEGORIES[number];
+export const DISPUTE_RESOLUTIONS = ["full_refund", "partial_refund", "release_to_operator"] as const;
+export type DisputeResolution = typeof DISPUTE_RESOLUTIONS[number];
+export type DisputeStatus = "open" | "resolving" | "resolved"; // "resolving" while an admin's refund is in flight
+
+// Disputes - A customer or operator contesting a completed service request
+// The request's earnings release is paused while the dispute is open
+export const disputes = pgTable("disputes", {
+  id: serial("id").primaryKey(),
+  disputeId: text("dispute_id").notNull().unique(),
+  serviceRequestId: text("service_request_id").notNull().unique(), // serviceRequests.requestId - one dispute per request
+  customerId: text("customer_id").notNull(),
+  operatorId: text("operator_id").notNull(),
+  openedByRole: text("opened_by_role").notNull(), // "customer" | "operator"
+  openedByUserId: text("opened_by_user_id").notNull(),
+  category: text("category").notNull(), // DisputeCategory
+  description: text("description").notNull(),
+  status: text("status").notNull().default("open"), // DisputeStatus
+  resolution: text("resolution"), // DisputeResolution
+  refundedCents: integer("refunded_cents").notNull().default(0), // Returned to the customer
+  operatorDeductionCents: integer("operator_deduction_cents").notNull().default(0), // Taken off the operator's earnings
+  resolutionNote: text("resolution_note"),
+  resolvedBy: text("resolved_by"), // Admin userId
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusIdx: index("idx_disputes_status").on(table.status),
+  customerIdIdx: index("idx_disputes_customer_id").on(table.customerId),
+  operatorIdIdx: index("idx_disputes_operator_id").on(table.operatorId),
+}));
+
+export type Dispute = typeof disputes.$inferSelect;
+
+// Dispute Evidence - Files and statements either side adds to a dispute
+export const disputeEvidence = pgTable("dispute_evidence", {
+  id: serial("id").primaryKey(),
+  disputeId: text("dispute_id").notNull(), // disputes.disputeId
+  submittedByRole: text("submitted_by_role").notNull(), // "customer" | "operator" | "admin"
+  submittedByUserId: text("submitted_by_user_id").notNull(),
+  note: text("note"),
+  storageKey: text("storage_key"), // Blob store key when a file is attached
+  fileName: text("file_name"),
+  contentType: text("content_type"),
+  fileSize: integer("file_size"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  disputeIdIdx: index("idx_dispute_evidence_dispute_id").on(table.disputeId),
+}));
+
+export type DisputeEvidence = typeof disputeEvidence.$inferSelect;
@@ -135,7 +135,7 @@ export const TIER_CAPABILITIES: Record<OperatorTier, TierCapabilities> = {
       auditLogs: false,
       businessAnalytics: false,
       driverPayroll: false,
-      customerGroups: true,
+      customerGroups: false,
     },
   },
   professional: {
@@ -163,7 +163,7 @@ export const TIER_CAPABILITIES: Record<OperatorTier, TierCapabilities> = {
       auditLogs: true,
       businessAnalytics: true,
       driverPayroll: true,
-      customerGroups: true,
+      customerGroups: false,
     },
   },
 };
@@ -192,8 +192,8 @@ export const DRAWER_MENU_ITEMS: DrawerMenuItem[] = [
   { id: "help", label: "Help & Support", icon: "HelpCircle", path: "/help", tiers: ["manual", "equipped", "professional"] },
   { id: "settings", label: "Settings", icon: "Settings", path: "/settings", tiers: ["manual", "equipped", "professional"] },
   { id: "legal", label: "Legal & Policies", icon: "FileText", path: "/legal", tiers: ["manual", "equipped", "professional"] },
-  { id: "driverPayroll", label: "Driver Payroll", icon: "DollarSign", path: "/payroll", tiers: ["professional"], isPlaceholder: true },
-  { id: "analytics", label: "Business Analytics", icon: "BarChart3", path: "/analytics", tiers: ["professional"], isPlaceholder: true },
+  { id: "driverPayroll", label: "Driver Payroll", icon: "DollarSign", path: "/payroll", tiers: ["professional"] },
+  { id: "analytics", label: "Business Analytics", icon: "BarChart3", path: "/analytics", tiers: ["professional"] },
 ];
 
 export const TIER_SERVICES: ServiceConfig[] = [
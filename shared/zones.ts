@@ -5,15 +5,29 @@ export interface ZonePolygon {
   coordinates: number[][][];
 }
 
+export interface ZoneMultiPolygon {
+  type: "MultiPolygon";
+  coordinates: number[][][][];
+}
+
+// GeoJSON geometry of a zone: rings of [lng, lat] positions, the first ring outer and any others holes
+export type ZoneGeometry = ZonePolygon | ZoneMultiPolygon;
+
+export const ZONE_TIERS: OperatorTier[] = ["manual", "equipped", "professional"];
+
+export type DemandLevel = "low" | "medium" | "high" | "surge";
+
+export const DEMAND_LEVELS: DemandLevel[] = ["low", "medium", "high", "surge"];
+
 export interface ServiceZone {
   id: string;
   name: string;
   displayName: string;
   description: string;
-  geometry: ZonePolygon;
+  geometry: ZoneGeometry;
   center: [number, number];
   allowedTiers: OperatorTier[];
-  demandLevel: "low" | "medium" | "high" | "surge";
+  demandLevel: DemandLevel;
   activeOperators: number;
   pendingJobs: number;
   color: string;
@@ -104,52 +118,6 @@ export function createHexagonPolygon(
   return createCirclePolygon(center, radiusKm, 6);
 }
 
-export function generateCommunityZones(
-  center: [number, number],
-  tier: OperatorTier
-): ServiceZone[] {
-  const zones: ServiceZone[] = [];
-  const tierConfigs = {
-    manual: { innerRadius: 1.5, outerRadius: 3, zoneName: "Walking Zone" },
-    equipped: { innerRadius: 4, outerRadius: 10, zoneName: "Local Zone" },
-    professional: { innerRadius: 15, outerRadius: 50, zoneName: "Regional Zone" },
-  };
-  
-  const config = tierConfigs[tier];
-  
-  zones.push({
-    id: `${tier}-core`,
-    name: `${config.zoneName} (Core)`,
-    displayName: "Your Core Area",
-    description: `High-priority jobs within ${config.innerRadius}km`,
-    geometry: createCirclePolygon(center, config.innerRadius),
-    center,
-    allowedTiers: [tier],
-    demandLevel: "high",
-    activeOperators: Math.floor(Math.random() * 5) + 1,
-    pendingJobs: Math.floor(Math.random() * 8) + 2,
-    color: ZONE_STYLES[tier].fillColor,
-    borderColor: ZONE_STYLES[tier].strokeColor,
-  });
-  
-  zones.push({
-    id: `${tier}-extended`,
-    name: `${config.zoneName} (Extended)`,
-    displayName: "Extended Area",
-    description: `Available jobs up to ${config.outerRadius}km`,
-    geometry: createCirclePolygon(center, config.outerRadius),
-    center,
-    allowedTiers: [tier],
-    demandLevel: "medium",
-    activeOperators: Math.floor(Math.random() * 10) + 3,
-    pendingJobs: Math.floor(Math.random() * 15) + 5,
-    color: ZONE_STYLES[tier].fillColor,
-    borderColor: ZONE_STYLES[tier].strokeColor,
-  });
-  
-  return zones;
-}
-
 export function convertZonesToGeoJSON(zones: ServiceZone[]): GeoJSON.FeatureCollection {
   return {
     type: "FeatureCollection",
@@ -175,9 +143,27 @@ export function convertZonesToGeoJSON(zones: ServiceZone[]): GeoJSON.FeatureColl
 
 export function isPointInZone(
   point: [number, number],
-  zone: ServiceZone
+  zone: Pick<ServiceZone, "geometry">
+): boolean {
+  return isPointInGeometry(point, zone.geometry);
+}
+
+// Inside any polygon's outer ring and outside its holes
+export function isPointInGeometry(
+  point: [number, number],
+  geometry: ZoneGeometry
+): boolean {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(([outer, ...holes]) =>
+    !!outer && isPointInPolygon(point, outer) && !holes.some(hole => isPointInPolygon(point, hole))
+  );
+}
+
+// Ray casting over a polygon ring of [lng, lat] positions
+export function isPointInPolygon(
+  point: [number, number],
+  polygon: number[][]
 ): boolean {
-  const polygon = zone.geometry.coordinates[0];
   let inside = false;
   
   for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
@@ -193,9 +179,101 @@ export function isPointInZone(
   return inside;
 }
 
-export function getZonesContainingPoint(
+export function getZonesContainingPoint<T extends Pick<ServiceZone, "geometry">>(
   point: [number, number],
-  zones: ServiceZone[]
-): ServiceZone[] {
+  zones: T[]
+): T[] {
   return zones.filter(zone => isPointInZone(point, zone));
 }
+
+function isPosition(position: unknown): boolean {
+  return Array.isArray(position) && position.length >= 2 &&
+    typeof position[0] === "number" && typeof position[1] === "number" &&
+    Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90;
+}
+
+// A closed ring of at least three distinct positions
+function isRing(ring: unknown): boolean {
+  if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) return false;
+  const first = ring[0] as number[];
+  const last = ring[ring.length - 1] as number[];
+  return first[0] === last[0] && first[1] === last[1];
+}
+
+/**
+ * Why a drawn or imported geometry cannot be used as a zone, or null if it is a valid
+ * GeoJSON Polygon or MultiPolygon
+ */
+export function validateZoneGeometry(geometry: unknown): string | null {
+  if (!geometry || typeof geometry !== "object") return "Zone geometry is required";
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown };
+  if (type !== "Polygon" && type !== "MultiPolygon") return "Zones must be a GeoJSON Polygon or MultiPolygon";
+
+  const polygons = type === "Polygon" ? [coordinates] : coordinates;
+  if (!Array.isArray(polygons) || polygons.length === 0) return "Zone geometry has no polygons";
+  const valid = polygons.every(polygon => Array.isArray(polygon) && polygon.length > 0 && polygon.every(isRing));
+  return valid ? null : "Each polygon ring needs at least 3 [longitude, latitude] points and must end where it starts";
+}
+
+/**
+ * [lng, lat] centre of a zone's largest polygon, for labels and distances
+ */
+export function getGeometryCenter(geometry: ZoneGeometry): [number, number] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+  let best: { area: number; center: [number, number] } | null = null;
+  for (const [outer] of polygons) {
+    // Shoelace centroid of the outer ring
+    let area = 0, x = 0, y = 0;
+    for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+      const cross = outer[j][0] * outer[i][1] - outer[i][0] * outer[j][1];
+      area += cross;
+      x += (outer[j][0] + outer[i][0]) * cross;
+      y += (outer[j][1] + outer[i][1]) * cross;
+    }
+    const center: [number, number] = area !== 0
+      ? [x / (3 * area), y / (3 * area)]
+      : [outer[0][0], outer[0][1]];
+    if (!best || Math.abs(area) > best.area) best = { area: Math.abs(area), center };
+  }
+  return best ? best.center : [0, 0];
+}
+
+// Weather surge pricing - operators opt in by setting urgencyMultipliers.weatherSurge on a pricing config
+export const WEATHER_SURGE_KEY = "weatherSurge";
+export const MAX_WEATHER_SURGE_MULTIPLIER = 2;
+
+/**
+ * Demand where a job is, as returned by GET /api/demand
+ */
+export interface AreaDemand {
+  zoneId: string | null;
+  zoneName: string | null;
+  demandLevel: DemandLevel;
+  surgeServiceTypes: string[]; // Service keys (see toServiceKey) the weather drives demand for
+  alerts: Array<{ alertId: string; event: string; headline: string; expires: string }>;
+}
+
+// "Snow Plowing" and "snow_plowing" both become "snow_plowing"
+export function toServiceKey(service: string): string {
+  return service.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_");
+}
+
+/**
+ * The operator's surge multiplier for a job, or 1 when they have not opted in, the area is
+ * not surging or the weather does not affect this service
+ */
+export function getWeatherSurgeMultiplier(
+  urgencyMultipliers: unknown,
+  serviceType: string,
+  demand: AreaDemand | null
+): number {
+  if (!demand || demand.demandLevel !== "surge") return 1;
+  if (!demand.surgeServiceTypes.includes(toServiceKey(serviceType))) return 1;
+
+  const multiplier = urgencyMultipliers && typeof urgencyMultipliers === "object"
+    ? (urgencyMultipliers as Record<string, unknown>)[WEATHER_SURGE_KEY]
+    : undefined;
+  if (typeof multiplier !== "number" || !(multiplier > 1)) return 1;
+  return Math.min(multiplier, MAX_WEATHER_SURGE_MULTIPLIER);
+}